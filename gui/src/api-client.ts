@@ -8,14 +8,24 @@ import {
   ScrapeRequest,
   ChartsListResponse,
   ChartResponse,
-  DownloadResponse,
+  ChartUpdateResponse,
+  ChartUpdatesResponse,
+  DownloadStatusResponse,
+  DownloadHistoryResponse,
   ScrapeResult,
   SourcesResponse,
   StatsResponse,
   HealthResponse,
-  ApiResponse
+  LibraryScanResponse,
+  ApiResponse,
+  ServerEventMap,
+  ServerEventType
 } from '@shared/models';
 
+export type ServerEventHandlers = {
+    [K in ServerEventType]?: (payload: ServerEventMap[K]) => void;
+};
+
 interface RequestOptions {
     method?: string;
     headers?: Record<string, string>;
@@ -107,15 +117,15 @@ export class DTXAPIClient {
     }
 
     // Download operations
-    async startDownload(downloadRequest: DownloadRequest): Promise<DownloadResponse> {
-        return this.request<DownloadResponse>('/api/downloads', {
+    async startDownload(downloadRequest: DownloadRequest): Promise<DownloadStatusResponse> {
+        return this.request<DownloadStatusResponse>('/api/downloads', {
             method: 'POST',
             body: JSON.stringify(downloadRequest)
         });
     }
 
-    async getDownloadStatus(downloadId: string): Promise<DownloadResponse> {
-        return this.request<DownloadResponse>(`/api/downloads/${downloadId}`);
+    async getDownloadStatus(downloadId: string): Promise<DownloadStatusResponse> {
+        return this.request<DownloadStatusResponse>(`/api/downloads/${downloadId}`);
     }
 
     async cancelDownload(downloadId: string): Promise<ApiResponse> {
@@ -124,8 +134,57 @@ export class DTXAPIClient {
         });
     }
 
+    async getDownloadHistory(chartId?: string, limit?: number): Promise<DownloadHistoryResponse> {
+        const params = new URLSearchParams();
+        if (chartId) params.append('chartId', chartId);
+        if (limit) params.append('limit', limit.toString());
+
+        const queryString = params.toString();
+        return this.request<DownloadHistoryResponse>(`/api/downloads/history${queryString ? `?${queryString}` : ''}`);
+    }
+
+    // Chart updates
+    async getUpdates(): Promise<ChartUpdatesResponse> {
+        return this.request<ChartUpdatesResponse>('/api/updates');
+    }
+
+    async applyUpdates(chartIds?: string[]): Promise<ChartUpdateResponse> {
+        return this.request<ChartUpdateResponse>('/api/updates/apply', {
+            method: 'POST',
+            body: JSON.stringify(chartIds ? { chartIds } : {})
+        });
+    }
+
+    // Library operations
+    async scanLibrary(directory: string): Promise<LibraryScanResponse> {
+        return this.request<LibraryScanResponse>('/api/library/scan', {
+            method: 'POST',
+            body: JSON.stringify({ directory })
+        });
+    }
+
     // Health check
     async checkHealth(): Promise<HealthResponse> {
         return this.request<HealthResponse>('/api/health');
     }
+
+    // Server-Sent Events
+    subscribeToEvents(handlers: ServerEventHandlers): () => void {
+        const source = new EventSource(`${this.baseUrl}/api/events`);
+        
+        (Object.keys(handlers) as ServerEventType[]).forEach(type => {
+            const handler = handlers[type] as ((payload: unknown) => void) | undefined;
+            if (!handler) return;
+            
+            source.addEventListener(type, (event) => {
+                try {
+                    handler(JSON.parse((event as MessageEvent<string>).data));
+                } catch (error) {
+                    console.error(`Invalid ${type} event:`, error);
+                }
+            });
+        });
+        
+        return () => source.close();
+    }
 }
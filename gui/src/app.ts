@@ -12,8 +12,9 @@ import { DOMUtils } from './utils/DOMUtils.js';
 import { eventBus } from './utils/EventBus.js';
 import { Chart } from './types/index.js';
 import { convertChartResponsesToCharts } from './utils/typeConversion.js';
-import { DownloadRequest } from '../../shared/models.js';
+import { DownloadRequest, DownloadStatusResponse, ProgressUpdate, ScrapeProgressUpdate } from '../../shared/models.js';
 import { getDownloadProviderInfo, getProviderDisplayName, DownloadProvider, detectDownloadProvider } from './utils/downloadProviderUtils.js';
+import { formatBpm } from './utils/bpmUtils.js';
 
 export class DTXDownloadManager {
     private chartManager: ChartManager;
@@ -21,6 +22,10 @@ export class DTXDownloadManager {
     private uiStateManager: UIStateManager;
     private apiClient: DTXAPIClient;
     private isOnline: boolean = false;
+    private activeDownload: DownloadStatusResponse | null = null;
+    private scrapeMaxPages: number = 0;
+    private unsubscribeEvents: (() => void) | null = null;
+    private chosenVariants: Map<string, string> = new Map();
 
     constructor() {
         // Initialize managers
@@ -76,6 +81,7 @@ export class DTXDownloadManager {
         
         DOMUtils.addEventListener('artistFilter', 'change', () => this.applyFilters());
         DOMUtils.addEventListener('providerFilter', 'change', () => this.applyFilters());
+        DOMUtils.addEventListener('hideOwnedFilter', 'change', () => this.applyFilters());
         DOMUtils.addEventListener('clearFilters', 'click', () => this.clearFilters());
         
         // View controls
@@ -103,6 +109,10 @@ export class DTXDownloadManager {
         DOMUtils.addEventListener('cancelScrapeBtn', 'click', () => this.hideScrapeModal());
         DOMUtils.addEventListener('startScrapeModalBtn', 'click', () => this.startScraping());
         
+        // Download modal
+        DOMUtils.addEventListener('closeDownloadModal', 'click', () => this.hideDownloadModal());
+        DOMUtils.addEventListener('cancelDownloadBtn', 'click', () => this.cancelActiveDownload());
+        
         // Close modal when clicking outside
         DOMUtils.addEventListener('scrapeModal', 'click', (e) => {
             const target = e.target as HTMLElement;
@@ -128,12 +138,25 @@ export class DTXDownloadManager {
             await this.apiClient.checkHealth();
             this.isOnline = true;
             this.updateStatus('Connected to backend server');
+            this.subscribeToServerEvents();
         } catch (error) {
             this.isOnline = false;
             this.updateStatus('Working offline (no backend connection)');
         }
     }
 
+    /**
+     * Listen for live download and scrape progress from the backend
+     */
+    private subscribeToServerEvents(): void {
+        this.unsubscribeEvents?.();
+        this.unsubscribeEvents = this.apiClient.subscribeToEvents({
+            'download-status': (status) => this.onDownloadStatus(status),
+            'download-progress': (update) => this.onDownloadProgress(update),
+            'scrape-progress': (update) => this.onScrapeProgress(update)
+        });
+    }
+
     /**
      * Load initial data
      */
@@ -215,8 +238,9 @@ export class DTXDownloadManager {
         const bpmMax = parseInt(DOMUtils.getValue('bpmMax')) || undefined;
         const diffMin = parseFloat(DOMUtils.getValue('diffMin')) || undefined;
         const diffMax = parseFloat(DOMUtils.getValue('diffMax')) || undefined;
+        const hideOwned = DOMUtils.getChecked('hideOwnedFilter');
 
-        this.chartManager.applyFilters({ artist, provider, bpmMin, bpmMax, diffMin, diffMax });
+        this.chartManager.applyFilters({ artist, provider, bpmMin, bpmMax, diffMin, diffMax, hideOwned });
         this.uiStateManager.resetInfiniteScroll();
         this.renderCharts();
     }
@@ -229,6 +253,7 @@ export class DTXDownloadManager {
         DOMUtils.setValue('bpmMax', '');
         DOMUtils.setValue('diffMin', '');
         DOMUtils.setValue('diffMax', '');
+        DOMUtils.setChecked('hideOwnedFilter', false);
         
         this.chartManager.clearFilters();
         this.uiStateManager.resetInfiniteScroll();
@@ -337,16 +362,18 @@ export class DTXDownloadManager {
                         <span class="checkmark"></span>
                     </label>
                 </div>
+                ${this.createUpdateBadgeHTML(chart)}
                 <img src="${imageUrl}" alt="${chart.title}" class="chart-image">
                 <div class="chart-content">
                     <div class="chart-title" title="${chart.title}">${chart.title}</div>
                     <div class="chart-artist" title="${chart.artist}">${chart.artist}</div>
                     <div class="chart-meta">
-                        <span class="chart-bpm">${chart.bpm} BPM</span>
+                        <span class="chart-bpm">${formatBpm(chart.bpm)}</span>
                         <div class="chart-difficulties">
                             ${chart.difficulties.map(diff => `<span class="difficulty-badge">${diff}</span>`).join('')}
                         </div>
                     </div>
+                    ${this.createVariantsHTML(chart)}
                     <div class="chart-provider">
                         <i class="${providerInfo.icon}" style="color: ${providerInfo.color}"></i>
                         <span class="provider-name" title="${providerInfo.description}">${getProviderDisplayName(providerInfo.provider)}</span>
@@ -372,10 +399,10 @@ export class DTXDownloadManager {
                     <span class="checkmark"></span>
                 </label>
                 <img src="${imageUrl}" alt="${chart.title}" class="list-image">
-                <div class="list-title" title="${chart.title}">${chart.title}</div>
+                <div class="list-title" title="${chart.title}">${chart.title} ${this.createUpdateBadgeHTML(chart)}</div>
                 <div class="list-artist hide-mobile" title="${chart.artist}">${chart.artist}</div>
-                <div class="hide-mobile">${chart.bpm} BPM</div>
-                <div>${chart.difficulties.join(' / ')}</div>
+                <div class="hide-mobile">${formatBpm(chart.bpm)}</div>
+                <div>${chart.difficulties.join(' / ')}${this.createVariantsHTML(chart)}</div>
                 <div class="list-provider hide-mobile">
                     <i class="${providerInfo.icon}" style="color: ${providerInfo.color}"></i>
                     <span class="provider-name" title="${providerInfo.description}">${getProviderDisplayName(providerInfo.provider)}</span>
@@ -384,7 +411,45 @@ export class DTXDownloadManager {
         `;
     }
 
+    private createUpdateBadgeHTML(chart: Chart): string {
+        if (!chart.updateAvailable) {
+            return '';
+        }
+        return `<button class="update-badge" data-update-chart-id="${chart.id}" title="The chart was revised upstream since you installed it. Click to re-download and replace it.">Update</button>`;
+    }
+
+    private createVariantsHTML(chart: Chart): string {
+        if (!chart.variants || chart.variants.length === 0) {
+            return '';
+        }
+        const chosen = this.chosenVariants.get(chart.id);
+        const chips = chart.variants.map(variant => `
+            <button class="variant-chip ${variant.label === chosen ? 'chosen' : ''}" data-variant-chart-id="${chart.id}" data-variant-label="${variant.label}" title="${formatBpm(variant.bpm)} · ${variant.difficulties.join(' / ')}">${variant.label}</button>
+        `).join('');
+        return `<div class="chart-variants">${chips}</div>`;
+    }
+
     private attachChartEventListeners(): void {
+        // Variant chips choose the version to download and select the chart
+        document.querySelectorAll('[data-variant-chart-id]').forEach(element => {
+            const chartId = element.getAttribute('data-variant-chart-id')!;
+            const label = element.getAttribute('data-variant-label')!;
+            element.addEventListener('click', (e) => {
+                e.stopPropagation();
+                this.chooseVariant(chartId, label);
+            });
+        });
+
+        // Update badges replace the installed copy instead of toggling the selection
+        document.querySelectorAll('[data-update-chart-id]').forEach(element => {
+            const chartId = element.getAttribute('data-update-chart-id')!;
+            element.addEventListener('click', (e) => {
+                e.stopPropagation();
+                this.applyChartUpdate(chartId);
+            });
+        });
+        
+
         // Attach click handlers to chart cards/items
         document.querySelectorAll('[data-chart-id]').forEach(element => {
             const chartId = element.getAttribute('data-chart-id')!;
@@ -681,8 +746,8 @@ export class DTXDownloadManager {
         
         try {
             if (this.isOnline) {
-                // Simulate progress updates during scraping
-                this.simulateScrapeProgress(maxPages);
+                // Progress arrives through 'scrape-progress' events while the request runs
+                this.scrapeMaxPages = maxPages;
                 
                 const scrapeRequest = {
                     source,
@@ -745,40 +810,21 @@ export class DTXDownloadManager {
         }
     }
 
-    private async simulateScrapeProgress(maxPages: number): Promise<void> {
-        // Simulate more realistic progress updates during scraping
-        const steps = [
-            { progress: 0.1, message: 'Connecting to source...' },
-            { progress: 0.2, message: 'Analyzing page structure...' },
-        ];
-        
-        // Add page scraping steps
-        for (let i = 1; i <= maxPages; i++) {
-            steps.push({
-                progress: 0.2 + (i / maxPages) * 0.7,
-                message: `Scraping page ${i} of ${maxPages}...`
-            });
-        }
-        
-        steps.push(
-            { progress: 0.95, message: 'Processing results...' },
-            { progress: 1.0, message: 'Finalizing...' }
-        );
+    private onScrapeProgress(update: ScrapeProgressUpdate): void {
+        const totalSteps = this.scrapeMaxPages + 2;
         
-        for (const step of steps) {
-            // Variable delay based on step (scraping pages takes longer)
-            const delay = step.message.includes('Scraping page') ? 300 : 150;
-            await new Promise(resolve => setTimeout(resolve, delay));
-            
-            const currentStep = Math.floor(step.progress * (maxPages + 2));
-            const totalSteps = maxPages + 2;
-            
+        if (update.status === 'running') {
+            const totalPages = update.totalPages ?? this.scrapeMaxPages;
             this.updateScrapeProgress(
-                currentStep, 
-                totalSteps, 
-                step.message, 
-                `Step ${currentStep} of ${totalSteps}`
+                Math.min(update.currentPage, totalPages),
+                totalSteps,
+                `Scraping page ${update.currentPage} of ${totalPages}...`,
+                `${update.chartsFound} charts found so far`
             );
+        } else if (update.status === 'completed') {
+            this.updateScrapeProgress(totalSteps - 1, totalSteps, 'Processing results...', `${update.chartsFound} charts found`);
+        } else if (update.status === 'failed') {
+            this.updateScrapeProgress(update.currentPage, totalSteps, 'Scraping failed', `Stopped on page ${update.currentPage}`);
         }
     }
 
@@ -808,6 +854,42 @@ export class DTXDownloadManager {
         }
     }
 
+    private async applyChartUpdate(chartId: string): Promise<void> {
+        const chart = this.chartManager.getChart(chartId);
+        const name = chart ? `"${chart.title}"` : chartId;
+        if (!confirm(`${name} was revised upstream. Download it again and replace the installed copy?`)) {
+            return;
+        }
+
+        try {
+            this.updateStatus(`Updating ${name}...`);
+            const response = await this.apiClient.applyUpdates([chartId]);
+            const error = response.results.find(result => !result.success)?.error;
+            this.updateStatus(response.replaced > 0 ? `Updated ${name}` : `Update of ${name} failed${error ? `: ${error}` : ''}`);
+
+            await this.loadInitialData();
+            this.renderCharts();
+        } catch (error) {
+            console.error('Error updating chart:', error);
+            this.updateStatus('Error updating chart: ' + (error as Error).message);
+        }
+    }
+
+    private chooseVariant(chartId: string, label: string): void {
+        if (this.chosenVariants.get(chartId) === label) {
+            this.chosenVariants.delete(chartId);
+            this.renderCharts();
+            return;
+        }
+
+        this.chosenVariants.set(chartId, label);
+        if (this.selectionManager.isSelected(chartId)) {
+            this.renderCharts();
+        } else {
+            this.selectionManager.select(chartId);
+        }
+    }
+
     private async startDownload(): Promise<void> {
         try {
             const selectedCharts = this.selectionManager.getSelectedArray();
@@ -830,7 +912,10 @@ export class DTXDownloadManager {
                 downloadDir: downloadDir,
                 maxConcurrency: 3,
                 overwrite: false,
-                timeout: 10000 // 10 seconds per chart
+                timeout: 10000, // 10 seconds per chart
+                variants: Object.fromEntries(selectedCharts
+                    .filter(chartId => this.chosenVariants.has(chartId))
+                    .map(chartId => [chartId, this.chosenVariants.get(chartId)!]))
             };
 
             // Start download via API
@@ -840,6 +925,14 @@ export class DTXDownloadManager {
                 this.updateStatus(`Download started! Download ID: ${response.downloadId}`);
                 console.log('Download started successfully:', response);
                 
+                this.activeDownload = response;
+                DOMUtils.toggleElement('downloadModal', true);
+                DOMUtils.setDisabled('cancelDownloadBtn', false);
+                this.updateDownloadProgress(response);
+                
+                // Catch up on events sent before the download ID was known
+                this.onDownloadStatus(await this.apiClient.getDownloadStatus(response.downloadId));
+                
                 // Optional: Clear selection after starting download
                 this.selectionManager.clear();
             } else {
@@ -852,6 +945,74 @@ export class DTXDownloadManager {
         }
     }
 
+    private onDownloadStatus(status: DownloadStatusResponse): void {
+        if (status.downloadId !== this.activeDownload?.downloadId) return;
+        
+        this.activeDownload = status;
+        this.updateDownloadProgress(status);
+        
+        if (status.status !== 'running') {
+            DOMUtils.setDisabled('cancelDownloadBtn', true);
+            this.updateStatus(`Download ${status.status}: ${status.completed} completed, ${status.failed} failed, ${status.cancelled} cancelled`);
+        }
+    }
+
+    private onDownloadProgress(update: ProgressUpdate): void {
+        const download = this.activeDownload;
+        if (!download || update.downloadId !== download.downloadId || !update.chartId) return;
+        
+        const chart = download.charts.find(c => c.chartId === update.chartId);
+        if (chart && chart.progress.status !== 'completed' && chart.progress.status !== 'failed') {
+            chart.progress = update.progress;
+            this.updateDownloadProgress(download);
+        }
+    }
+
+    private updateDownloadProgress(status: DownloadStatusResponse): void {
+        const finished = status.completed + status.failed + status.cancelled;
+        const label = status.status === 'running' ? 'Downloading...' : `Download ${status.status}`;
+        
+        DOMUtils.setTextContent('downloadProgressLabel', label);
+        DOMUtils.setTextContent('downloadProgressValue', `${finished}/${status.total}`);
+        DOMUtils.getRequiredElement('downloadProgressFill').style.width = `${Math.round(status.progress)}%`;
+        
+        const log = DOMUtils.getElementById('downloadLog');
+        if (!log) return;
+        
+        log.replaceChildren(...status.charts.map(chart => {
+            const { downloaded, total, speed, status: chartStatus } = chart.progress;
+            let detail: string = chartStatus;
+            if (chartStatus === 'downloading') {
+                const percent = total ? ` ${Math.round((downloaded / total) * 100)}%` : '';
+                const rate = speed ? ` @ ${(speed / 1024).toFixed(0)} KB/s` : '';
+                detail = `downloading${percent}${rate}`;
+            } else if (chart.error) {
+                detail = `${chartStatus}: ${chart.error}`;
+            }
+            return DOMUtils.createElement('div', { className: `download-log-entry ${chartStatus}` }, `${chart.title} - ${chart.artist}: ${detail}`);
+        }));
+    }
+
+    private async cancelActiveDownload(): Promise<void> {
+        if (!this.activeDownload || this.activeDownload.status !== 'running') {
+            this.hideDownloadModal();
+            return;
+        }
+        
+        try {
+            DOMUtils.setDisabled('cancelDownloadBtn', true);
+            await this.apiClient.cancelDownload(this.activeDownload.downloadId);
+            this.updateStatus('Cancelling download...');
+        } catch (error) {
+            console.error('Error cancelling download:', error);
+            DOMUtils.setDisabled('cancelDownloadBtn', false);
+        }
+    }
+
+    private hideDownloadModal(): void {
+        DOMUtils.toggleElement('downloadModal', false);
+    }
+
     /**
      * Open directory selection dialog
      */
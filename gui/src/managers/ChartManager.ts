@@ -6,6 +6,7 @@ import { Chart, ValidationResult, FilterConfig } from '../types/index.js';
 import { StorageService } from '../services/StorageService.js';
 import { eventBus } from '../utils/EventBus.js';
 import { detectDownloadProvider } from '../utils/downloadProviderUtils.js';
+import { bpmRangeOverlaps, getBpmRange } from '../utils/bpmUtils.js';
 
 export class ChartManager {
     private charts: Chart[] = [];
@@ -102,6 +103,7 @@ export class ChartManager {
         diffMin: number;
         diffMax: number;
         provider: string;
+        hideOwned: boolean;
     }>): void {
         let filtered = [...this.charts];
 
@@ -119,12 +121,9 @@ export class ChartManager {
                 filtered = filtered.filter(chart => chart.artist === filters.artist);
             }
             
-            if (filters.bpmMin !== undefined) {
-                filtered = filtered.filter(chart => parseInt(chart.bpm) >= filters.bpmMin!);
-            }
-            
-            if (filters.bpmMax !== undefined) {
-                filtered = filtered.filter(chart => parseInt(chart.bpm) <= filters.bpmMax!);
+            // Charts with tempo changes match when their BPM range overlaps the filter
+            if (filters.bpmMin !== undefined || filters.bpmMax !== undefined) {
+                filtered = filtered.filter(chart => bpmRangeOverlaps(chart.bpm, filters.bpmMin, filters.bpmMax));
             }
             
             if (filters.diffMin !== undefined) {
@@ -141,6 +140,10 @@ export class ChartManager {
                     return provider === filters.provider;
                 });
             }
+            
+            if (filters.hideOwned) {
+                filtered = filtered.filter(chart => !chart.owned);
+            }
         }
 
         this.filteredCharts = filtered;
@@ -180,8 +183,8 @@ export class ChartManager {
                     bVal = b.artist.toLowerCase();
                     break;
                 case 'bpm':
-                    aVal = parseInt(a.bpm);
-                    bVal = parseInt(b.bpm);
+                    aVal = getBpmRange(a.bpm)?.min ?? NaN;
+                    bVal = getBpmRange(b.bpm)?.min ?? NaN;
                     break;
                 case 'difficulty':
                     aVal = Math.max(...a.difficulties);
@@ -225,7 +228,7 @@ export class ChartManager {
         }
         
         // Validate BPM format
-        if (chart.bpm && !/^\d+(-\d+)?$/.test(chart.bpm)) {
+        if (chart.bpm && !getBpmRange(chart.bpm)) {
             errors.push('Invalid BPM format');
         }
         
@@ -15,6 +15,12 @@ export interface Chart extends Omit<IChart, 'createdAt' | 'updatedAt'> {
   
   /** Optional image URL (alias for previewImageUrl) */
   imageUrl?: string;
+  
+  /** Whether a library scan found the chart installed */
+  owned?: boolean;
+  
+  /** Whether the chart is installed and its upstream post was revised since */
+  updateAvailable?: boolean;
 }
 
 export interface FilterConfig {
@@ -0,0 +1,37 @@
+/**
+ * BPM Utilities
+ * Functions to read and display chart BPM strings, which give a range
+ * ("70-189") for songs with tempo changes
+ */
+
+export interface BpmRange {
+  min: number;
+  max: number;
+}
+
+/**
+ * Lowest and highest tempo of a BPM string
+ */
+export function getBpmRange(bpm: string): BpmRange | null {
+  const values = (bpm.match(/\d+(?:\.\d+)?/g) || []).map(Number);
+  if (values.length === 0) return null;
+  return { min: Math.min(...values), max: Math.max(...values) };
+}
+
+/**
+ * Whether a chart's BPM range overlaps the filter range
+ */
+export function bpmRangeOverlaps(bpm: string, min?: number, max?: number): boolean {
+  const range = getBpmRange(bpm);
+  if (!range) return false;
+  return (min === undefined || range.max >= min) && (max === undefined || range.min <= max);
+}
+
+/**
+ * BPM for display, e.g. "150 BPM" or "70–189 BPM"
+ */
+export function formatBpm(bpm: string): string {
+  const range = getBpmRange(bpm);
+  if (!range) return bpm;
+  return range.min === range.max ? `${range.min} BPM` : `${range.min}–${range.max} BPM`;
+}
@@ -3,7 +3,7 @@
  * Functions to detect and analyze download providers from URLs
  */
 
-export type DownloadProvider = 'Google Drive' | 'OneDrive' | 'Direct' | 'Unknown';
+export type DownloadProvider = 'Google Drive' | 'OneDrive' | 'Dropbox' | 'MEGA' | 'MediaFire' | 'Direct' | 'Unknown';
 
 export interface DownloadProviderInfo {
   provider: DownloadProvider;
@@ -36,11 +36,25 @@ export function detectDownloadProvider(url: string): DownloadProvider {
     return 'OneDrive';
   }
   
-  // Direct download patterns (common file hosting)
+  // Dropbox patterns
   if (urlLower.includes('dropbox.com') ||
-      urlLower.includes('mega.nz') ||
-      urlLower.includes('mediafire.com') ||
-      urlLower.includes('archive.org') ||
+      urlLower.includes('dl.dropboxusercontent.com')) {
+    return 'Dropbox';
+  }
+  
+  // MEGA patterns
+  if (urlLower.includes('mega.nz') ||
+      urlLower.includes('mega.co.nz')) {
+    return 'MEGA';
+  }
+  
+  // MediaFire patterns
+  if (urlLower.includes('mediafire.com')) {
+    return 'MediaFire';
+  }
+  
+  // Direct download patterns (common file hosting)
+  if (urlLower.includes('archive.org') ||
       urlLower.match(/\.(zip|rar|7z|tar|gz)(\?|$)/)) {
     return 'Direct';
   }
@@ -67,8 +81,35 @@ export function getDownloadProviderInfo(provider: DownloadProvider): DownloadPro
         provider: 'OneDrive',
         icon: 'fab fa-microsoft',
         color: '#0078d4',
-        supportLevel: 'Partial',
-        description: 'Limited automation, may require manual intervention'
+        supportLevel: 'Full',
+        description: 'Share links resolved to direct downloads'
+      };
+      
+    case 'Dropbox':
+      return {
+        provider: 'Dropbox',
+        icon: 'fab fa-dropbox',
+        color: '#0061fe',
+        supportLevel: 'Full',
+        description: 'Share links converted to direct download, folders as ZIP'
+      };
+      
+    case 'MEGA':
+      return {
+        provider: 'MEGA',
+        icon: 'fas fa-cloud-download-alt',
+        color: '#d9272e',
+        supportLevel: 'Full',
+        description: 'File links decrypted during download'
+      };
+      
+    case 'MediaFire':
+      return {
+        provider: 'MediaFire',
+        icon: 'fas fa-fire',
+        color: '#1299f3',
+        supportLevel: 'Full',
+        description: 'Download link resolved from the MediaFire page'
       };
       
     case 'Direct':
@@ -148,6 +189,11 @@ export function isFolderUrl(url: string): boolean {
     return true;
   }
   
+  // Dropbox folder
+  if (urlLower.includes('dropbox.com/sh/') || urlLower.includes('dropbox.com/scl/fo/')) {
+    return true;
+  }
+  
   return false;
 }
 
@@ -160,6 +206,12 @@ export function getProviderDisplayName(provider: DownloadProvider): string {
       return 'Google Drive';
     case 'OneDrive':
       return 'OneDrive';
+    case 'Dropbox':
+      return 'Dropbox';
+    case 'MEGA':
+      return 'MEGA';
+    case 'MediaFire':
+      return 'MediaFire';
     case 'Direct':
       return 'Direct Download';
     case 'Unknown':
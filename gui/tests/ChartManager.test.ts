@@ -228,6 +228,15 @@ describe('ChartManager', () => {
       expect(filtered[0].title).toBe('Third Track');
     });
 
+    it('should hide charts that are already owned', () => {
+      chartManager.setCharts(mockCharts.map(chart => ({ ...chart, owned: chart.id === '2' })));
+      chartManager.applyFilters({ hideOwned: true });
+      
+      const filtered = chartManager.getFilteredCharts();
+      
+      expect(filtered.map(chart => chart.id)).toEqual(['1', '3']);
+    });
+
     it('should clear filters', () => {
       chartManager.applyFilters({ artist: 'Artist A' });
       chartManager.clearFilters();
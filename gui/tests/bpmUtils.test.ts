@@ -0,0 +1,27 @@
+import { bpmRangeOverlaps, formatBpm, getBpmRange } from '../src/utils/bpmUtils';
+
+describe('bpmUtils', () => {
+  describe('getBpmRange()', () => {
+    it('should read single tempos and ranges', () => {
+      expect(getBpmRange('150')).toEqual({ min: 150, max: 150 });
+      expect(getBpmRange('70-189')).toEqual({ min: 70, max: 189 });
+      expect(getBpmRange('unknown')).toBeNull();
+    });
+  });
+
+  describe('bpmRangeOverlaps()', () => {
+    it('should match ranges that overlap the filter', () => {
+      expect(bpmRangeOverlaps('70-189', 150, 160)).toBe(true);
+      expect(bpmRangeOverlaps('70-189', 190)).toBe(false);
+      expect(bpmRangeOverlaps('120', undefined, 100)).toBe(false);
+      expect(bpmRangeOverlaps('unknown', 100)).toBe(false);
+    });
+  });
+
+  describe('formatBpm()', () => {
+    it('should show ranges with both ends', () => {
+      expect(formatBpm('150')).toBe('150 BPM');
+      expect(formatBpm('70-189')).toBe('70–189 BPM');
+    });
+  });
+});
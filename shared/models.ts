@@ -4,7 +4,9 @@
  */
 
 // Import core chart interface for type manipulation
-import type { IChart } from '../src/core/models';
+import type { ChartInstrument, ChartLevel, DatabaseMergeReport, IChart, IChartDifficultyStats, IChartRevision, IDownloadProgress, IDownloadRecord, ILibraryScanResult } from '../src/core/models';
+import type { IQueueStatus } from '../src/core/interfaces';
+import type { ScrapingProgress, ScrapingStatus } from '../src/scraping/interfaces';
 
 // Request Models
 export interface DownloadRequest {
@@ -13,6 +15,41 @@ export interface DownloadRequest {
   maxConcurrency: number;
   overwrite: boolean;
   timeout: number;
+  
+  /** Download charts again even when the download history shows them installed */
+  redownload?: boolean;
+  
+  /** Variant to download per chart ID, by label or 1-based number (charts whose post lists several versions) */
+  variants?: Record<string, string>;
+}
+
+export interface ChartUpdateRequest {
+  /** Charts to update; all charts with an update when omitted */
+  chartIds?: string[];
+  timeout?: number;
+}
+
+export interface LibraryScanRequest {
+  /** DTXMania Songs folder to scan */
+  directory: string;
+}
+
+export interface DatabaseBackupRequest {
+  /** File in the server's backups directory; a timestamped name when omitted */
+  destination?: string;
+  
+  /** Replace the destination if it already exists */
+  overwrite?: boolean;
+}
+
+export interface DatabaseRestoreRequest {
+  /** Backup file in the server's backups directory to replace the database with */
+  source: string;
+}
+
+export interface DatabaseMergeRequest {
+  /** Database file in the server's backups directory whose charts and scraping progress are merged in */
+  source: string;
 }
 
 export interface ScrapeRequest {
@@ -31,7 +68,7 @@ type FilterableChartFields = Pick<IChart, 'title' | 'artist' | 'source' | 'bpm'
 type SortableChartFields = keyof Pick<IChart, 'title' | 'artist' | 'bpm' | 'createdAt' | 'updatedAt'>;
 
 export interface ChartQuery extends Partial<FilterableChartFields> {
-  /** General search query across multiple fields */
+  /** Full-text search over title, artist, tags and romaji, ranked by relevance unless sortBy is given */
   query?: string;
   
   /** Partial title match */
@@ -43,15 +80,39 @@ export interface ChartQuery extends Partial<FilterableChartFields> {
   /** Maximum BPM */
   maxBpm?: number;
   
-  /** Minimum difficulty */
+  /** Minimum rating of at least one difficulty (narrowed by instrument and level) */
   minDifficulty?: number;
   
-  /** Maximum difficulty */
+  /** Maximum rating of at least one difficulty (narrowed by instrument and level) */
   maxDifficulty?: number;
   
+  /** Only charts rated for this instrument; difficulty filters apply to it */
+  instrument?: ChartInstrument;
+  
+  /** Only charts rated at this level; difficulty filters apply to it */
+  level?: ChartLevel;
+  
   /** Multiple sources filter */
   sources?: string[];
   
+  /** Minimum peak notes per second of at least one difficulty */
+  minPeakNps?: number;
+  
+  /** Maximum peak notes per second of at least one difficulty */
+  maxPeakNps?: number;
+  
+  /** Minimum note count of at least one difficulty */
+  minNotes?: number;
+  
+  /** Maximum note count of at least one difficulty */
+  maxNotes?: number;
+  
+  /** Only charts with (true) or without (false) a double-pedal difficulty */
+  hasDoublePedal?: boolean;
+  
+  /** Only charts a library scan found installed (true) or not found (false) */
+  owned?: boolean;
+  
   /** Sort field - derived from IChart keys */
   sortBy?: SortableChartFields;
   
@@ -82,6 +143,15 @@ export interface ChartResponse extends Omit<IChart, 'createdAt' | 'updatedAt'> {
   /** Optional image URL (alias for previewImageUrl) */
   imageUrl?: string;
   
+  /** Per-difficulty note statistics, once the chart has been downloaded (single-chart responses only) */
+  stats?: IChartDifficultyStats[];
+  
+  /** Whether a library scan found the chart installed */
+  owned?: boolean;
+  
+  /** Whether the chart is installed and its upstream post was revised since */
+  updateAvailable?: boolean;
+  
   /** ISO date strings for JSON serialization */
   createdAt?: string;
   updatedAt?: string;
@@ -113,18 +183,140 @@ export interface DownloadResponse {
   results: DownloadResult[];
 }
 
+export interface DownloadHistoryEntry extends Omit<IDownloadRecord, 'downloadedAt'> {
+  /** Chart title and artist, when the chart is still in the database */
+  title?: string;
+  artist?: string;
+  
+  /** ISO date string for JSON serialization */
+  downloadedAt: string;
+}
+
+export interface DownloadHistoryResponse {
+  downloads: DownloadHistoryEntry[];
+}
+
+export interface ChartRevisionEntry extends Omit<IChartRevision, 'detectedAt'> {
+  /** ISO date string for JSON serialization */
+  detectedAt: string;
+}
+
+export interface ChartUpdateEntry {
+  chartId: string;
+  title: string;
+  artist: string;
+  
+  /** Revisions found since the chart was installed, oldest first */
+  revisions: ChartRevisionEntry[];
+  installedPaths: string[];
+  destination: string;
+  
+  /** ISO date string for JSON serialization */
+  installedAt: string;
+}
+
+export interface ChartUpdatesResponse {
+  updates: ChartUpdateEntry[];
+}
+
+export interface ChartUpdateResponse {
+  replaced: number;
+  failed: number;
+  results: DownloadResult[];
+}
+
+export type DownloadJobStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * Progress of a single chart within a download job
+ */
+export interface ChartDownloadStatus extends Pick<DownloadResult, 'chartId' | 'title' | 'artist' | 'filePath' | 'error'> {
+  progress: IDownloadProgress;
+}
+
+/**
+ * Live status of a download job, returned by POST and GET /api/downloads
+ */
+export interface DownloadStatusResponse {
+  downloadId: string;
+  status: DownloadJobStatus;
+  total: number;
+  completed: number;
+  failed: number;
+  cancelled: number;
+  /** Percentage of charts that have finished */
+  progress: number;
+  startTime: string;
+  endTime?: string;
+  charts: ChartDownloadStatus[];
+  errors: string[];
+}
+
+/**
+ * Overall progress of a download job
+ */
+export interface ProgressState {
+  downloadId: string;
+  totalCharts: number;
+  completedCharts: number;
+  currentChart: string;
+  overallProgress: number;
+}
+
 export interface ProgressUpdate {
   downloadId: string;
-  state: any;
-  progress: any;
+  /** Chart the progress refers to, absent for job-level updates */
+  chartId?: string;
+  state: ProgressState;
+  progress: IDownloadProgress;
+  timestamp: string;
+}
+
+/**
+ * Scraping progress as sent over the wire, with dates serialized as ISO strings
+ */
+export interface ScrapeProgressUpdate extends Omit<ScrapingProgress, 'status' | 'startTime' | 'estimatedCompletion'> {
+  status: `${ScrapingStatus}`;
+  startTime: string;
+  estimatedCompletion?: string;
   timestamp: string;
 }
 
+/**
+ * A download queue item was added or changed state
+ */
+export interface QueueChangeUpdate {
+  itemId: string;
+  chartId: string;
+  title: string;
+  artist: string;
+  progress: IDownloadProgress;
+  retries: number;
+  queue: IQueueStatus;
+  timestamp: string;
+}
+
+/**
+ * Payloads of the events multiplexed on GET /api/events, keyed by SSE event name
+ */
+export interface ServerEventMap {
+  'connected': { timestamp: string };
+  'download-progress': ProgressUpdate;
+  'download-status': DownloadStatusResponse;
+  'scrape-progress': ScrapeProgressUpdate;
+  'queue-changed': QueueChangeUpdate;
+}
+
+export type ServerEventType = keyof ServerEventMap;
+
 export interface ScrapeResult {
   sourceName: string;
   chartsFound: number;
   chartsAdded: number;
   chartsDuplicated: number;
+  
+  /** Stored charts whose title, download URL or difficulties changed */
+  chartsRevised?: number;
   errors: string[];
   duration: number;
   message?: string;
@@ -150,6 +342,23 @@ export interface StatsResponse {
   enabledSources: number;
 }
 
+export interface LibraryScanResponse extends Omit<ILibraryScanResult, 'entries'> {
+  /** Song folders found */
+  folders: number;
+  
+  /** Song folders that match no chart record */
+  unmatched: Array<{ path: string; title?: string; artist?: string }>;
+}
+
+export interface DatabaseBackupResponse {
+  /** Backup file, relative to the backups directory */
+  path: string;
+}
+
+export interface DatabaseMergeResponse extends Omit<DatabaseMergeReport, 'conflicts'> {
+  conflicts: Array<{ chartId: string; localUpdatedAt: string; otherUpdatedAt: string }>;
+}
+
 export interface HealthResponse {
   status: string;
   timestamp: string;
@@ -0,0 +1,311 @@
+/**
+ * Route tests for the API server
+ */
+
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import request from 'supertest';
+import { DTXApiServer } from '../server';
+import { ChartDatabase } from '../../core/database';
+import { DownloadService, ProgressCallback, QueueChangeCallback, StatusCallback } from '../../core/download/download-service';
+import { IChart, IDownloadProgress } from '../../core/models';
+
+function createChart(id: string, downloadUrl?: string): IChart {
+  return {
+    ...(downloadUrl ? { downloadUrl } : {}),
+    id,
+    title: `Song ${id}`,
+    artist: 'Artist',
+    bpm: '150',
+    difficulties: [2.7, 5.2],
+    source: 'approved-dtx',
+    originalPageUrl: `http://approvedtx.blogspot.com/${id}.html`,
+    tags: [],
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z')
+  };
+}
+
+describe('DTXApiServer', () => {
+  let tempDir: string;
+  let backupDirectory: string;
+  let database: ChartDatabase;
+  let server: DTXApiServer;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dtx-server-'));
+    backupDirectory = path.join(tempDir, 'backups');
+    database = new ChartDatabase(path.join(tempDir, 'charts.db'));
+    server = new DTXApiServer(database, { backupDirectory });
+  });
+
+  afterEach(async () => {
+    await database.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('chart routes', () => {
+    it('deletes a chart and answers 404 once it is gone', async () => {
+      await database.saveChart(createChart('doomed'));
+
+      expect((await request(server.app).delete('/api/charts/doomed')).status).toBe(204);
+      expect(await database.chartExists('doomed')).toBe(false);
+      expect((await request(server.app).delete('/api/charts/doomed')).status).toBe(404);
+    });
+  });
+
+  describe('download routes', () => {
+    let fileServer: http.Server;
+    let baseUrl: string;
+
+    beforeAll(async () => {
+      fileServer = http.createServer((_req, res) => {
+        // Send part of the body and never finish
+        res.writeHead(200, { 'Content-Type': 'application/zip', 'Content-Length': '1048576' });
+        res.write(Buffer.alloc(1024));
+      });
+      await new Promise<void>(resolve => fileServer.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(fileServer.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      fileServer.closeAllConnections();
+      await new Promise(resolve => fileServer.close(resolve));
+    });
+
+    const pollStatus = async (downloadId: string, predicate: (body: any) => boolean): Promise<any> => {
+      for (let attempt = 0; attempt < 200; attempt++) {
+        const response = await request(server.app).get(`/api/downloads/${downloadId}`);
+        if (response.status === 200 && predicate(response.body)) {
+          return response.body;
+        }
+        await new Promise(resolve => setTimeout(resolve, 25));
+      }
+      throw new Error(`Timed out waiting for download ${downloadId}`);
+    };
+
+    it('reports and cancels a running download', async () => {
+      await database.saveChart(createChart('stalled', `${baseUrl}/stalled.zip`));
+
+      const started = await request(server.app).post('/api/downloads').send({
+        chartIds: ['stalled'],
+        downloadDir: path.join(tempDir, 'downloads'),
+        maxConcurrency: 1,
+        overwrite: false,
+        timeout: 10000
+      });
+      expect(started.status).toBe(202);
+      const { downloadId } = started.body;
+
+      const downloading = await pollStatus(downloadId, body => body.charts[0].progress.status === 'downloading');
+      expect(downloading).toMatchObject({ status: 'running', total: 1 });
+
+      const cancelled = await request(server.app).delete(`/api/downloads/${downloadId}`);
+      expect(cancelled.status).toBe(200);
+      expect(cancelled.body).toEqual({ success: true, message: `Download ${downloadId} cancelled` });
+
+      const finished = await pollStatus(downloadId, body => body.status !== 'running');
+      expect(finished).toMatchObject({ status: 'cancelled', cancelled: 1 });
+    });
+
+    it('returns 404 for unknown downloads', async () => {
+      expect((await request(server.app).get('/api/downloads/download_unknown')).status).toBe(404);
+      expect((await request(server.app).delete('/api/downloads/download_unknown')).status).toBe(404);
+    });
+  });
+
+  describe('event stream', () => {
+    let listener: http.Server;
+    let baseUrl: string;
+    let emitProgress: ProgressCallback;
+    let emitStatus: StatusCallback;
+    let emitQueueChange: QueueChangeCallback;
+
+    interface EventStream {
+      response: http.IncomingMessage;
+      text: () => string;
+      events: () => Array<{ type: string; data: any }>;
+      close: () => void;
+    }
+
+    beforeEach(async () => {
+      jest.spyOn(DownloadService.prototype, 'setProgressCallback').mockImplementation(callback => { emitProgress = callback; });
+      jest.spyOn(DownloadService.prototype, 'setStatusCallback').mockImplementation(callback => { emitStatus = callback; });
+      jest.spyOn(DownloadService.prototype, 'setQueueChangeCallback').mockImplementation(callback => { emitQueueChange = callback; });
+      server = new DTXApiServer(database, { backupDirectory });
+
+      listener = http.createServer(server.app);
+      await new Promise<void>(resolve => listener.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(listener.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+      jest.restoreAllMocks();
+      listener.closeAllConnections();
+      await new Promise(resolve => listener.close(resolve));
+    });
+
+    const openStream = (): Promise<EventStream> => new Promise((resolve, reject) => {
+      const req = http.get(`${baseUrl}/api/events`, response => {
+        let text = '';
+        response.setEncoding('utf8');
+        response.on('data', chunk => { text += chunk; });
+        resolve({
+          response,
+          text: () => text,
+          events: () => text.split('\n\n').filter(Boolean).map(block => {
+            const fields = Object.fromEntries(block.split('\n').map(line => [line.slice(0, line.indexOf(':')), line.slice(line.indexOf(':') + 2)]));
+            return { type: fields.event, data: JSON.parse(fields.data) };
+          }),
+          close: () => req.destroy()
+        });
+      });
+      req.on('error', error => (error as NodeJS.ErrnoException).code === 'ECONNRESET' || reject(error));
+    });
+
+    const waitFor = async (condition: () => boolean): Promise<void> => {
+      for (let attempt = 0; attempt < 200 && !condition(); attempt++) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+      expect(condition()).toBe(true);
+    };
+
+    it('frames each event with its type and JSON data', async () => {
+      const stream = await openStream();
+      await waitFor(() => stream.events().length === 1);
+
+      expect(stream.response.headers).toMatchObject({ 'content-type': 'text/event-stream', 'cache-control': 'no-cache' });
+      expect(stream.text()).toMatch(/^event: connected\ndata: \{"timestamp":"[^"]+"\}\n\n$/);
+      stream.close();
+    });
+
+    it('sends download, status and queue events to every client', async () => {
+      const streams = [await openStream(), await openStream()];
+      const state = { downloadId: 'download_1', totalCharts: 1, completedCharts: 0, currentChart: 'Song one', overallProgress: 0 };
+
+      emitProgress('download_1', state, { downloaded: 10, total: 100, status: 'downloading' }, 'one');
+      emitStatus({
+        downloadId: 'download_1', status: 'completed', total: 1, completed: 1, failed: 0, cancelled: 0,
+        progress: 100, startTime: '2024-01-01T00:00:00.000Z', charts: [], errors: []
+      });
+      emitQueueChange({
+        id: 'queue_1', chart: createChart('one'), destination: tempDir, retries: 0,
+        progress: { downloaded: 0, status: 'pending' }, queuedAt: new Date()
+      });
+
+      for (const stream of streams) {
+        await waitFor(() => stream.events().length === 4);
+        const [, progress, status, queue] = stream.events();
+        expect(progress).toMatchObject({ type: 'download-progress', data: { downloadId: 'download_1', chartId: 'one', state, progress: { downloaded: 10 } } });
+        expect(status).toMatchObject({ type: 'download-status', data: { downloadId: 'download_1', status: 'completed' } });
+        expect(queue).toMatchObject({ type: 'queue-changed', data: { itemId: 'queue_1', chartId: 'one', title: 'Song one', queue: { pending: 0 } } });
+        stream.close();
+      }
+    });
+
+    it('sends transfer progress at most every 250 ms per chart but always sends state changes', async () => {
+      const stream = await openStream();
+      const state = { downloadId: 'download_1', totalCharts: 2, completedCharts: 0, currentChart: 'Song one', overallProgress: 0 };
+      const now = jest.spyOn(Date, 'now');
+      const progress = (chartId: string, at: number, update: IDownloadProgress) => {
+        now.mockReturnValue(at);
+        emitProgress('download_1', state, update, chartId);
+      };
+
+      progress('one', 1000, { downloaded: 1, status: 'downloading' });
+      progress('one', 1100, { downloaded: 2, status: 'downloading' });
+      progress('two', 1100, { downloaded: 1, status: 'downloading' });
+      progress('one', 1250, { downloaded: 3, status: 'downloading' });
+      progress('one', 1300, { downloaded: 3, status: 'completed' });
+      now.mockRestore();
+
+      await waitFor(() => stream.events().length === 5);
+      expect(stream.events().slice(1).map(event => [event.data.chartId, event.data.progress.downloaded, event.data.progress.status])).toEqual([
+        ['one', 1, 'downloading'],
+        ['two', 1, 'downloading'],
+        ['one', 3, 'downloading'],
+        ['one', 3, 'completed']
+      ]);
+      stream.close();
+    });
+
+    it('forgets clients that disconnect', async () => {
+      const [leaving, staying] = [await openStream(), await openStream()];
+      await waitFor(() => server['eventClients'].size === 2);
+
+      leaving.close();
+      await waitFor(() => server['eventClients'].size === 1);
+
+      emitProgress('download_1', { downloadId: 'download_1', totalCharts: 1, completedCharts: 1, currentChart: '', overallProgress: 100 }, { downloaded: 1, status: 'completed' });
+      await waitFor(() => staying.events().length === 2);
+      expect(leaving.events()).toHaveLength(1);
+      staying.close();
+    });
+  });
+
+  describe('admin database routes', () => {
+    it('backs up, merges and restores files in the backups directory', async () => {
+      await database.saveChart(createChart('kept'));
+
+      const backup = await request(server.app).post('/api/admin/database/backup').send({ destination: 'shared.db' });
+      expect(backup.status).toBe(200);
+      expect(backup.body).toEqual({ path: 'shared.db' });
+      expect(fs.existsSync(path.join(backupDirectory, 'shared.db'))).toBe(true);
+
+      await database.deleteChart('kept');
+      const merge = await request(server.app).post('/api/admin/database/merge').send({ source: 'shared.db' });
+      expect(merge.status).toBe(200);
+      expect(merge.body).toMatchObject({ added: ['kept'], conflicts: [] });
+
+      await database.saveChart(createChart('later'));
+      const restore = await request(server.app).post('/api/admin/database/restore').send({ source: 'shared.db' });
+      expect(restore.status).toBe(200);
+      expect(restore.body.totalCharts).toBe(1);
+    });
+
+    it('refuses to overwrite an existing backup unless asked to', async () => {
+      fs.mkdirSync(backupDirectory);
+      fs.writeFileSync(path.join(backupDirectory, 'taken.db'), 'not a database');
+
+      const refused = await request(server.app).post('/api/admin/database/backup').send({ destination: 'taken.db' });
+      expect(refused.status).toBe(409);
+      expect(fs.readFileSync(path.join(backupDirectory, 'taken.db'), 'utf8')).toBe('not a database');
+
+      const replaced = await request(server.app).post('/api/admin/database/backup').send({ destination: 'taken.db', overwrite: true });
+      expect(replaced.status).toBe(200);
+    });
+
+    it('keeps the existing backup when replacing it fails', async () => {
+      fs.mkdirSync(backupDirectory);
+      fs.writeFileSync(path.join(backupDirectory, 'taken.db'), 'old backup');
+      await database.close();
+
+      const failed = await request(server.app).post('/api/admin/database/backup').send({ destination: 'taken.db', overwrite: true });
+
+      expect(failed.status).toBe(400);
+      expect(fs.readFileSync(path.join(backupDirectory, 'taken.db'), 'utf8')).toBe('old backup');
+      expect(fs.readdirSync(backupDirectory)).toEqual(['taken.db']);
+      database = new ChartDatabase(path.join(tempDir, 'charts.db'));
+    });
+
+    it('rejects paths outside the backups directory', async () => {
+      const outside = path.join(tempDir, 'outside.db');
+
+      for (const [route, body] of [
+        ['backup', { destination: outside }],
+        ['backup', { destination: '../outside.db' }],
+        ['restore', { source: '../charts.db' }],
+        ['merge', { source: 'nested/../../charts.db' }],
+        ['merge', { source: outside }]
+      ] as const) {
+        const response = await request(server.app).post(`/api/admin/database/${route}`).send(body);
+        expect(response.status).toBe(400);
+        expect(response.body.error).toContain('relative to the backups directory');
+      }
+      expect(fs.existsSync(outside)).toBe(false);
+    });
+  });
+});
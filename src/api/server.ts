@@ -5,29 +5,67 @@
 
 import express, { Request, Response, NextFunction } from 'express';
 import cors from 'cors';
+import fs from 'fs';
 import path from 'path';
-import { ScrapingService, ApprovedDtxStrategy, Source } from '../scraping';
+import { ScrapingService, ApprovedDtxStrategy, Source, ScrapingOptions } from '../scraping';
 import { DownloadService } from '../core/download/download-service';
-import { IChart } from '../core/models';
+import { DownloadRepository } from '../core/download/download-queue';
+import { ChartQueryOptions, ChartSortField, IChart } from '../core/models';
 import { ChartDatabase } from '../core/database/database';
+import { CHART_SORT_FIELDS, parseChartInstrument, parseChartLevel } from '../core/database';
+import { LibraryScanner } from '../core/library';
+import { ChartUpdateService } from '../core/updates';
+import { DatabaseBackupError, LibraryNotFoundError } from '../core/errors';
+import { IDatabaseMaintenance, ILibraryStore, IScrapingProgressStore } from '../core/interfaces';
 import {
   ChartQuery,
+  ChartUpdateRequest,
+  ChartUpdateResponse,
+  ChartUpdatesResponse,
+  DatabaseBackupRequest,
+  DatabaseBackupResponse,
+  DatabaseMergeRequest,
+  DatabaseMergeResponse,
+  DatabaseRestoreRequest,
+  DownloadHistoryResponse,
   DownloadRequest,
-  ScrapeRequest
+  LibraryScanRequest,
+  LibraryScanResponse,
+  ScrapeRequest,
+  ServerEventMap,
+  ServerEventType
 } from '@shared/models';
 
+/**
+ * Storage the API server needs: charts, downloads, the library, scraping
+ * progress and whole-database maintenance for the admin routes
+ */
+export type ApiRepository = DownloadRepository & ILibraryStore & IScrapingProgressStore & IDatabaseMaintenance;
+
+export interface DTXApiServerOptions {
+  /** Directory the admin database routes read and write backups in (default ./backups) */
+  backupDirectory?: string;
+}
+
 export class DTXApiServer {
   public app: express.Application;
-  private scrapingService: ScrapingService;
+  private scrapingService: ScrapingService<ApiRepository>;
   private downloadService: DownloadService;
-  private database: ChartDatabase;
+  private updateService: ChartUpdateService;
+  private database: ApiRepository;
+  private backupDirectory: string;
+  private eventClients = new Set<Response>();
+  private lastProgressEvent = new Map<string, number>();
   
-  constructor() {
+  constructor(database: ApiRepository = new ChartDatabase(), options: DTXApiServerOptions = {}) {
     this.app = express();
-    this.scrapingService = new ScrapingService();
-    this.database = new ChartDatabase();
+    this.database = database;
+    this.backupDirectory = path.resolve(options.backupDirectory ?? 'backups');
+    this.scrapingService = new ScrapingService(this.database);
     this.downloadService = new DownloadService(this.database);
+    this.updateService = new ChartUpdateService(this.database);
     
+    this.setupEventSources();
     this.setupMiddleware();
     this.setupRoutes();
     this.initializeServices();
@@ -78,6 +116,18 @@ export class DTXApiServer {
     // Download routes
     this.setupDownloadRoutes();
     
+    // Library routes
+    this.setupLibraryRoutes();
+    
+    // Chart update routes
+    this.setupUpdateRoutes();
+    
+    // Database administration routes
+    this.setupAdminRoutes();
+    
+    // Server-Sent Events
+    this.setupEventRoutes();
+    
     // Serve GUI on root
     this.app.get('/', (_req: Request, res: Response) => {
       res.sendFile(path.join(__dirname, '../../gui/index.html'));
@@ -101,9 +151,11 @@ export class DTXApiServer {
       try {
         const searchParams: ChartQuery = req.query as any;
         const charts = await this.searchCharts(searchParams);
+        const owned = await this.database.getOwnedChartIds();
+        const updatable = await this.updateService.getUpdatableChartIds();
         
         res.json({
-          charts,
+          charts: charts.map(chart => ({ ...chart, owned: owned.has(chart.id), updateAvailable: updatable.has(chart.id) })),
           totalCount: charts.length,
           hasMore: false,
           searchTime: Date.now()
@@ -117,12 +169,15 @@ export class DTXApiServer {
         // GET /api/charts/:id - Get specific chart
     this.app.get('/api/charts/:id', async (req: Request, res: Response): Promise<void> => {
       try {
-        const chart = await this.database.getChart(req.params.id);
+        const chart = await this.database.findById(req.params.id);
         if (!chart) {
           res.status(404).json({ error: 'Chart not found' });
           return;
         }
-        res.json(chart);
+        const stats = await this.database.getStats(chart.id);
+        const owned = await this.database.getOwnedChartIds();
+        const updatable = await this.updateService.getUpdatableChartIds();
+        res.json({ ...chart, stats, owned: owned.has(chart.id), updateAvailable: updatable.has(chart.id) });
       } catch (error) {
         console.error('Error finding chart:', error);
         res.status(500).json({ error: 'Failed to find chart' });
@@ -132,7 +187,7 @@ export class DTXApiServer {
     // GET /api/charts/:id/inspect - Get detailed chart information for debugging
     this.app.get('/api/charts/:id/inspect', async (req: Request, res: Response): Promise<void> => {
       try {
-        const chart = await this.database.getChart(req.params.id);
+        const chart = await this.database.findById(req.params.id);
         if (!chart) {
           res.status(404).json({ error: 'Chart not found' });
           return;
@@ -164,7 +219,7 @@ export class DTXApiServer {
     this.app.post('/api/charts', async (req: Request, res: Response) => {
       try {
         const chartData = req.body;
-        await this.database.saveChart(chartData);
+        await this.database.save(chartData);
         res.status(201).json(chartData);
       } catch (error) {
         console.error('Error creating chart:', error);
@@ -176,8 +231,8 @@ export class DTXApiServer {
     this.app.delete('/api/charts/:id', async (req: Request, res: Response) => {
       try {
         const chartId = req.params.id;
-        const deleted = await this.database.deleteChart(chartId);
-        if (deleted) {
+        if (await this.database.exists(chartId)) {
+          await this.database.delete(chartId);
           res.status(204).send();
         } else {
           res.status(404).json({ error: 'Chart not found' });
@@ -191,7 +246,7 @@ export class DTXApiServer {
     // DELETE /api/charts - Clear all charts
     this.app.delete('/api/charts', async (_req: Request, res: Response) => {
       try {
-        const deletedCount = await this.database.clearAllCharts();
+        const deletedCount = await this.database.deleteAll();
         res.json({ 
           message: `Cleared ${deletedCount} charts from database`,
           deletedCount 
@@ -205,8 +260,8 @@ export class DTXApiServer {
         // GET /api/charts/stats - Get database statistics
     this.app.get('/api/charts/stats', async (_req: Request, res: Response) => {
       try {
-        const totalCount = await this.database.getTotalChartCount();
-        const countBySource = await this.database.getChartCountBySource();
+        const totalCount = await this.database.count();
+        const countBySource = await this.database.countBySource();
         
         res.json({
           totalCharts: totalCount,
@@ -222,9 +277,9 @@ export class DTXApiServer {
     // GET /api/debug/database - Debug database state
     this.app.get('/api/debug/database', async (_req: Request, res: Response) => {
       try {
-        const totalCount = await this.database.getTotalChartCount();
-        const countBySource = await this.database.getChartCountBySource();
-        const recentCharts = await this.database.queryCharts({ limit: 5, sortBy: 'createdAt', sortOrder: 'DESC' });
+        const totalCount = await this.database.count();
+        const countBySource = await this.database.countBySource();
+        const recentCharts = await this.database.findByFilters({ limit: 5, sortBy: 'createdAt', sortOrder: 'DESC' });
         
         res.json({
           totalCharts: totalCount,
@@ -267,10 +322,18 @@ export class DTXApiServer {
         };
         
         // Start scraping process
-        const options = {
+        const options: ScrapingOptions = {
           maxPages: scrapeRequest.maxPages || 1,
           skipExisting: scrapeRequest.incremental || false,
-          resumeFromOlder: scrapeRequest.resumeFromOlder || false
+          resumeFromOlder: scrapeRequest.resumeFromOlder || false,
+          onProgress: ({ startTime, estimatedCompletion, ...progress }) => {
+            this.broadcastEvent('scrape-progress', {
+              ...progress,
+              startTime: startTime.toISOString(),
+              ...(estimatedCompletion ? { estimatedCompletion: estimatedCompletion.toISOString() } : {}),
+              timestamp: new Date().toISOString()
+            });
+          }
         };
         const result = await this.scrapingService.scrapeSource(source, options);
         
@@ -279,6 +342,7 @@ export class DTXApiServer {
           chartsFound: result.chartsFound,
           chartsAdded: result.chartsAdded,
           chartsDuplicated: result.chartsDuplicated,
+          ...(result.chartsRevised ? { chartsRevised: result.chartsRevised } : {}),
           errors: result.errors,
           duration: result.duration,
           nextScrapeTime: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString()
@@ -351,7 +415,7 @@ export class DTXApiServer {
         // Get charts by IDs
         const charts: IChart[] = [];
         for (const chartId of downloadRequest.chartIds) {
-          const chart = await this.database.getChart(chartId);
+          const chart = await this.database.findById(chartId);
           if (chart) {
             charts.push(chart);
           }
@@ -361,18 +425,13 @@ export class DTXApiServer {
           return res.status(400).json({ error: 'No valid charts found' });
         }
 
-        // Start download process
-        const downloadResult = await this.downloadService.downloadChartsById(
-          downloadRequest.chartIds,
+        // Start download process in the background; progress is polled via GET /api/downloads/:id
+        const status = await this.downloadService.startDownloadById(
+          charts.map(chart => chart.id),
           downloadRequest
         );
         
-        return res.json({
-          downloadId: downloadResult.downloadId,
-          status: 'started',
-          chartCount: charts.length,
-          startTime: new Date().toISOString()
-        });
+        return res.status(202).json(status);
 
       } catch (error) {
         console.error('Error starting download:', error);
@@ -382,131 +441,382 @@ export class DTXApiServer {
       }
     });
     
+    // GET /api/downloads/history - Finished downloads, newest first
+    this.app.get('/api/downloads/history', async (req, res) => {
+      try {
+        const chartId = typeof req.query['chartId'] === 'string' ? req.query['chartId'] : undefined;
+        const limit = parseInt(String(req.query['limit'] ?? ''));
+        const records = await this.database.getDownloadHistory({
+          ...(chartId ? { chartId } : {}),
+          ...(limit > 0 ? { limit } : {})
+        });
+        
+        const response: DownloadHistoryResponse = { downloads: [] };
+        for (const { downloadedAt, ...record } of records) {
+          const chart = await this.database.findById(record.chartId);
+          response.downloads.push({
+            ...record,
+            ...(chart ? { title: chart.title, artist: chart.artist } : {}),
+            downloadedAt: downloadedAt.toISOString()
+          });
+        }
+        
+        return res.json(response);
+      } catch (error) {
+        console.error('Error fetching download history:', error);
+        return res.status(500).json({ error: 'Failed to fetch download history' });
+      }
+    });
+    
     // GET /api/downloads/:id - Get download status
     this.app.get('/api/downloads/:id', async (req, res) => {
       try {
-        const downloadId = req.params.id;
+        const status = this.downloadService.getDownloadStatus(req.params.id);
+        if (!status) {
+          return res.status(404).json({ error: 'Download not found' });
+        }
         
-        // Since DownloadService doesn't have getProgress method yet,
-        // return a basic response
-        res.json({
-          downloadId,
-          status: 'completed', // Simplified for now
-          progress: 100,
-          completed: 0,
-          total: 0,
-          errors: []
-        });
+        return res.json(status);
         
       } catch (error) {
         console.error('Error fetching download status:', error);
-        res.status(500).json({ error: 'Failed to fetch download status' });
+        return res.status(500).json({ error: 'Failed to fetch download status' });
       }
     });
     
     // DELETE /api/downloads/:id - Cancel download
-    this.app.delete('/api/downloads/:id', async (_req, res) => {
+    this.app.delete('/api/downloads/:id', async (req, res) => {
       try {
-        // Since DownloadService doesn't have cancelDownload method yet,
-        // return a success response
-        res.status(204).send();
+        const downloadId = req.params.id;
+        if (!this.downloadService.cancelDownload(downloadId)) {
+          return res.status(404).json({ error: 'Download not found' });
+        }
+        
+        return res.json({ success: true, message: `Download ${downloadId} cancelled` });
       } catch (error) {
         console.error('Error cancelling download:', error);
-        res.status(500).json({ error: 'Failed to cancel download' });
+        return res.status(500).json({ error: 'Failed to cancel download' });
       }
     });
   }
   
-  private async searchCharts(params: ChartQuery): Promise<IChart[]> {
-    let charts = await this.database.queryCharts();
-    
-    // Apply search filters
-    if (params.query) {
-      const query = params.query.toLowerCase();
-      charts = charts.filter((chart: IChart) =>
-        chart.title.toLowerCase().includes(query) ||
-        chart.artist.toLowerCase().includes(query)
-      );
-    }
+  private setupLibraryRoutes(): void {
+    // POST /api/library/scan - Scan a DTXMania Songs folder and record the charts found
+    this.app.post('/api/library/scan', async (req, res) => {
+      try {
+        const { directory }: LibraryScanRequest = req.body;
+        if (!directory) {
+          return res.status(400).json({ error: 'directory is required' });
+        }
+        
+        const { entries, ...result } = await new LibraryScanner(this.database).scan(directory);
+        const response: LibraryScanResponse = {
+          ...result,
+          folders: entries.length,
+          unmatched: entries
+            .filter(entry => !entry.chartId)
+            .map(({ path: folder, title, artist }) => ({ path: folder, ...(title ? { title } : {}), ...(artist ? { artist } : {}) }))
+        };
+        
+        return res.json(response);
+      } catch (error) {
+        if (error instanceof LibraryNotFoundError) {
+          return res.status(400).json({ error: error.message });
+        }
+        console.error('Error scanning library:', error);
+        return res.status(500).json({ 
+          error: 'Library scan failed: ' + (error instanceof Error ? error.message : String(error))
+        });
+      }
+    });
+  }
+  
+  private setupUpdateRoutes(): void {
+    // GET /api/updates - Installed charts whose upstream post was revised
+    this.app.get('/api/updates', async (_req: Request, res: Response) => {
+      try {
+        const updates = await this.updateService.findUpdates();
+        const response: ChartUpdatesResponse = {
+          updates: updates.map(update => ({
+            chartId: update.chart.id,
+            title: update.chart.title,
+            artist: update.chart.artist,
+            revisions: update.revisions.map(revision => ({ ...revision, detectedAt: revision.detectedAt.toISOString() })),
+            installedPaths: update.installedPaths,
+            destination: update.destination,
+            installedAt: update.installedAt.toISOString()
+          }))
+        };
+        
+        res.json(response);
+      } catch (error) {
+        console.error('Error checking chart updates:', error);
+        res.status(500).json({ error: 'Failed to check chart updates' });
+      }
+    });
     
-    if (params.artist) {
-      charts = charts.filter((chart: IChart) => chart.artist === params.artist);
-    }
+    // POST /api/updates/apply - Download revised charts and replace the installed copies
+    this.app.post('/api/updates/apply', async (req: Request, res: Response) => {
+      try {
+        const { chartIds, timeout }: ChartUpdateRequest = req.body ?? {};
+        const updates = await this.updateService.findUpdates(chartIds);
+        
+        const response: ChartUpdateResponse = { replaced: 0, failed: 0, results: [] };
+        for (const update of updates) {
+          const result = await this.updateService.applyUpdate(update, timeout ? { timeout } : {});
+          response[result.success ? 'replaced' : 'failed']++;
+          response.results.push({
+            chartId: update.chart.id,
+            title: update.chart.title,
+            artist: update.chart.artist,
+            success: result.success,
+            ...(result.error ? { error: result.error } : {}),
+            ...(result.filePath ? { filePath: result.filePath } : {}),
+            ...(result.fileSize !== undefined ? { fileSize: result.fileSize } : {}),
+            ...(result.downloadTime !== undefined ? { downloadTime: result.downloadTime } : {})
+          });
+        }
+        
+        res.json(response);
+      } catch (error) {
+        console.error('Error applying chart updates:', error);
+        res.status(500).json({ 
+          error: 'Chart update failed: ' + (error instanceof Error ? error.message : String(error))
+        });
+      }
+    });
+  }
+  
+  private setupAdminRoutes(): void {
+    // POST /api/admin/database/backup - Copy the database to a file
+    this.app.post('/api/admin/database/backup', async (req: Request, res: Response) => {
+      try {
+        const { destination, overwrite }: DatabaseBackupRequest = req.body ?? {};
+        const name = destination ?? `charts.${new Date().toISOString().replace(/[:.]/g, '-')}.db`;
+        const filePath = this.resolveBackupFile('backup', name);
+        if (!overwrite && fs.existsSync(filePath)) {
+          return res.status(409).json({ error: `${name} already exists; set overwrite to replace it` });
+        }
+        
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        await this.database.backup(filePath);
+        const response: DatabaseBackupResponse = { path: name };
+        return res.json(response);
+      } catch (error) {
+        return this.sendDatabaseAdminError(res, 'Database backup failed', error);
+      }
+    });
     
-    if (params.titleContains) {
-      const title = params.titleContains.toLowerCase();
-      charts = charts.filter((chart: IChart) => chart.title.toLowerCase().includes(title));
+    // POST /api/admin/database/restore - Replace the database with a backup
+    this.app.post('/api/admin/database/restore', async (req: Request, res: Response) => {
+      try {
+        const { source }: DatabaseRestoreRequest = req.body ?? {};
+        if (!source) {
+          return res.status(400).json({ error: 'source is required' });
+        }
+        
+        await this.database.restore(this.resolveBackupFile('restore', source));
+        return res.json({ message: `Restored database from ${source}`, totalCharts: await this.database.count() });
+      } catch (error) {
+        return this.sendDatabaseAdminError(res, 'Database restore failed', error);
+      }
+    });
+    
+    // POST /api/admin/database/merge - Merge another database's charts and scraping progress
+    this.app.post('/api/admin/database/merge', async (req: Request, res: Response) => {
+      try {
+        const { source }: DatabaseMergeRequest = req.body ?? {};
+        if (!source) {
+          return res.status(400).json({ error: 'source is required' });
+        }
+        
+        const report = await this.database.merge(this.resolveBackupFile('merge', source));
+        const response: DatabaseMergeResponse = {
+          ...report,
+          conflicts: report.conflicts.map(conflict => ({
+            chartId: conflict.chartId,
+            localUpdatedAt: conflict.localUpdatedAt.toISOString(),
+            otherUpdatedAt: conflict.otherUpdatedAt.toISOString()
+          }))
+        };
+        return res.json(response);
+      } catch (error) {
+        return this.sendDatabaseAdminError(res, 'Database merge failed', error);
+      }
+    });
+  }
+  
+  /**
+   * Path of a file named relative to the backups directory; absolute paths
+   * and `..` segments are rejected so requests cannot reach other files
+   */
+  private resolveBackupFile(operation: DatabaseBackupError['operation'], name: unknown): string {
+    if (typeof name !== 'string' || !name || path.isAbsolute(name) || name.split(/[\\/]/).includes('..')) {
+      throw new DatabaseBackupError(operation, String(name), 'files must be named relative to the backups directory');
     }
+    return path.join(this.backupDirectory, name);
+  }
+  
+  private sendDatabaseAdminError(res: Response, message: string, error: unknown): void {
+    if (error instanceof DatabaseBackupError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    console.error(`${message}:`, error);
+    res.status(500).json({ error: `${message}: ` + (error instanceof Error ? error.message : String(error)) });
+  }
+  
+  private setupEventRoutes(): void {
+    // GET /api/events - Server-Sent Events stream of download, scrape and queue updates
+    this.app.get('/api/events', (req: Request, res: Response) => {
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive'
+      });
+      
+      this.eventClients.add(res);
+      this.sendEvent(res, 'connected', { timestamp: new Date().toISOString() });
+      
+      // Comment lines keep idle connections from being closed by proxies
+      const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), 30000);
+      
+      req.on('close', () => {
+        clearInterval(heartbeat);
+        this.eventClients.delete(res);
+      });
+    });
+  }
+  
+  /**
+   * Forward service callbacks to connected SSE clients
+   */
+  private setupEventSources(): void {
+    this.downloadService.setProgressCallback((downloadId, state, progress, chartId) => {
+      // Throttle per-chart transfer progress; state changes are always sent
+      const key = `${downloadId}:${chartId ?? ''}`;
+      const now = Date.now();
+      if (progress.status === 'downloading' && now - (this.lastProgressEvent.get(key) ?? 0) < 250) {
+        return;
+      }
+      this.lastProgressEvent.set(key, now);
+      
+      this.broadcastEvent('download-progress', {
+        downloadId,
+        ...(chartId ? { chartId } : {}),
+        state: { ...state },
+        progress,
+        timestamp: new Date().toISOString()
+      });
+    });
     
-    if (params.minBpm) {
-      charts = charts.filter((chart: IChart) => parseInt(chart.bpm) >= params.minBpm!);
+    this.downloadService.setStatusCallback((status) => {
+      if (status.status !== 'running') {
+        for (const key of this.lastProgressEvent.keys()) {
+          if (key.startsWith(`${status.downloadId}:`)) {
+            this.lastProgressEvent.delete(key);
+          }
+        }
+      }
+      this.broadcastEvent('download-status', status);
+    });
+    
+    this.downloadService.setQueueChangeCallback(async (item) => {
+      try {
+        const queue = await this.downloadService.getQueue().getStatus();
+        this.broadcastEvent('queue-changed', {
+          itemId: item.id,
+          chartId: item.chart.id,
+          title: item.chart.title,
+          artist: item.chart.artist,
+          progress: item.progress,
+          retries: item.retries,
+          queue,
+          timestamp: new Date().toISOString()
+        });
+      } catch (error) {
+        console.error('Error broadcasting queue change:', error);
+      }
+    });
+  }
+  
+  private broadcastEvent<K extends ServerEventType>(type: K, data: ServerEventMap[K]): void {
+    for (const client of this.eventClients) {
+      this.sendEvent(client, type, data);
+    }
+  }
+  
+  private sendEvent<K extends ServerEventType>(res: Response, type: K, data: ServerEventMap[K]): void {
+    res.write(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+  
+  private async searchCharts(params: ChartQuery): Promise<IChart[]> {
+    return this.database.findByFilters(this.parseQueryFilters(params));
+  }
+  
+  /**
+   * Chart query options from query string parameters, which arrive as strings
+   * (lists as repeated or comma-separated parameters)
+   */
+  private parseQueryFilters(params: ChartQuery): ChartQueryOptions {
+    const raw = params as Record<string, unknown>;
+    const filters: ChartQueryOptions = {
+      // Searches are ranked by relevance unless a sort field is asked for
+      ...(raw.query ? {} : { sortBy: 'title' as const }),
+      sortOrder: String(raw.sortOrder ?? '').toLowerCase() === 'desc' ? 'DESC' : 'ASC'
+    };
+    
+    for (const key of ['query', 'title', 'titleContains', 'artist', 'source', 'bpm'] as const) {
+      if (typeof raw[key] === 'string' && raw[key]) {
+        filters[key] = raw[key] as string;
+      }
     }
     
-    if (params.maxBpm) {
-      charts = charts.filter((chart: IChart) => parseInt(chart.bpm) <= params.maxBpm!);
+    for (const key of ['sources', 'tags'] as const) {
+      const values = ([] as unknown[]).concat(raw[key] ?? [])
+        .flatMap(value => String(value).split(','))
+        .map(value => value.trim())
+        .filter(value => value);
+      if (values.length > 0) {
+        filters[key] = values;
+      }
     }
     
-    if (params.minDifficulty) {
-      charts = charts.filter((chart: IChart) => 
-        chart.difficulties && Math.max(...chart.difficulties) >= params.minDifficulty!
-      );
+    if (CHART_SORT_FIELDS.includes(raw.sortBy as ChartSortField)) {
+      filters.sortBy = raw.sortBy as ChartSortField;
     }
     
-    if (params.maxDifficulty) {
-      charts = charts.filter((chart: IChart) => 
-        chart.difficulties && Math.min(...chart.difficulties) <= params.maxDifficulty!
-      );
+    for (const key of ['limit', 'offset'] as const) {
+      const value = parseInt(String(raw[key] ?? ''));
+      if (!isNaN(value) && value >= 0) {
+        filters[key] = value;
+      }
     }
     
-    if (params.sources && params.sources.length > 0) {
-      charts = charts.filter((chart: IChart) => params.sources!.includes(chart.source));
+    for (const key of ['minBpm', 'maxBpm', 'minDifficulty', 'maxDifficulty', 'minPeakNps', 'maxPeakNps', 'minNotes', 'maxNotes'] as const) {
+      const value = parseFloat(String(raw[key] ?? ''));
+      if (!isNaN(value)) {
+        filters[key] = value;
+      }
     }
     
-    // Apply sorting
-    const sortBy = params.sortBy || 'title';
-    const sortOrder = params.sortOrder || 'asc';
+    const instrument = parseChartInstrument(String(raw.instrument ?? ''));
+    if (instrument) {
+      filters.instrument = instrument;
+    }
+    const level = parseChartLevel(String(raw.level ?? ''));
+    if (level) {
+      filters.level = level;
+    }
     
-    charts.sort((a: IChart, b: IChart) => {
-      let aVal: any, bVal: any;
-      
-      switch (sortBy) {
-        case 'title':
-          aVal = a.title.toLowerCase();
-          bVal = b.title.toLowerCase();
-          break;
-        case 'artist':
-          aVal = a.artist.toLowerCase();
-          bVal = b.artist.toLowerCase();
-          break;
-        case 'bpm':
-          aVal = parseInt(a.bpm);
-          bVal = parseInt(b.bpm);
-          break;
-        case 'createdAt':
-          aVal = new Date(a.createdAt || 0);
-          bVal = new Date(b.createdAt || 0);
-          break;
-        case 'updatedAt':
-          aVal = new Date(a.updatedAt || 0);
-          bVal = new Date(b.updatedAt || 0);
-          break;
-        default:
-          return 0;
+    for (const key of ['hasDoublePedal', 'owned'] as const) {
+      const value = String(raw[key] ?? '');
+      if (value === 'true' || value === 'false') {
+        filters[key] = value === 'true';
       }
-      
-      if (aVal < bVal) return sortOrder === 'asc' ? -1 : 1;
-      if (aVal > bVal) return sortOrder === 'asc' ? 1 : -1;
-      return 0;
-    });
-    
-    // Apply pagination only if limit is specified
-    if (params.limit !== undefined) {
-      const offset = params.offset || 0;
-      const limit = params.limit;
-      return charts.slice(offset, offset + limit);
     }
     
-    return charts;
+    return filters;
   }
   
   private getSourceBaseUrl(sourceName: string): string {
@@ -531,7 +841,8 @@ export class DTXApiServer {
 
 // Start server if called directly
 if (require.main === module) {
-  const server = new DTXApiServer();
+  const backupDirectory = process.env.BACKUP_DIR;
+  const server = new DTXApiServer(undefined, backupDirectory ? { backupDirectory } : {});
   server.start().catch(console.error);
 }
 
@@ -10,10 +10,13 @@ import { ScrapingService } from '../scraping/scraping-service';
 import { ApprovedDtxStrategy } from '../scraping/strategies/approved-dtx';
 import { DownloadService } from '../core/download/download-service';
 import { Source } from '../scraping/interfaces';
+import { IDownloadProgress } from '../core/models';
 import { 
   DownloadRequest, 
   DownloadResponse, 
-  ChartsListResponse
+  ChartsListResponse,
+  ProgressState,
+  ProgressUpdate
 } from '@shared/models';
 
 // Simple API server that can be extended
@@ -29,7 +32,7 @@ export class DTXApiServer {
     
     // Initialize backend services
     this.database = new ChartDatabase(dbPath);
-    this.scrapingService = new ScrapingService(dbPath);
+    this.scrapingService = new ScrapingService(this.database);
     this.downloadService = new DownloadService(this.database);
     
     // Set up progress callback for real-time updates
@@ -161,7 +164,8 @@ export class DTXApiServer {
           imageUrl: chart.previewImageUrl,
           source: chart.source,
           createdAt: chart.createdAt?.toISOString(),
-          tags: chart.tags
+          tags: chart.tags,
+          stats: await this.database.getChartStats(chart.id)
         });
       } catch (error) {
         console.error('Error fetching chart:', error);
@@ -315,15 +319,16 @@ export class DTXApiServer {
     });
   }
 
-  private broadcastProgress(downloadId: string, state: any, progress: any): void {
+  private broadcastProgress(downloadId: string, state: ProgressState, progress: IDownloadProgress): void {
     const stream = this.progressStreams.get(downloadId);
     if (stream) {
-      const data = JSON.stringify({
+      const update: ProgressUpdate = {
         downloadId,
         state,
         progress,
         timestamp: new Date().toISOString()
-      });
+      };
+      const data = JSON.stringify(update);
       
       stream.write(`data: ${data}\n\n`);
     }
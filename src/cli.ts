@@ -5,8 +5,13 @@
  */
 
 import { Command } from 'commander';
-import { ScrapingService, ApprovedDtxStrategy, Source } from './scraping';
+import { ScrapingService, ApprovedDtxStrategy, Source, createScrapingService } from './scraping';
 import { DownloadService } from './core/download/download-service';
+import { DownloadQueue } from './core/download/download-queue';
+import { LibraryScanner } from './core/library';
+import { ChartUpdateService } from './core/updates';
+import { BpmRange, CHART_INSTRUMENTS, ChartDatabase, parseBpmRange, parseChartInstrument, parseChartLevel } from './core/database';
+import { IChart } from './core/models';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
@@ -44,8 +49,8 @@ const DEFAULT_CONFIG = {
   }
 };
 
-async function initializeScrapingService(): Promise<ScrapingService> {
-  const service = new ScrapingService();
+async function initializeScrapingService(): Promise<ScrapingService<ChartDatabase>> {
+  const service = createScrapingService();
   
   // Register strategies
   service.registerStrategy(new ApprovedDtxStrategy());
@@ -119,6 +124,9 @@ program
         console.log(`   📊 Charts found: ${result.chartsFound}`);
         console.log(`   ➕ Charts added: ${result.chartsAdded}`);
         console.log(`   🔄 Duplicates: ${result.chartsDuplicated}`);
+        if (result.chartsRevised) {
+          console.log(`   📝 Revised upstream: ${result.chartsRevised}`);
+        }
         console.log(`   ⏱️  Duration: ${(result.duration / 1000).toFixed(2)}s`);
         
         if (result.errors.length > 0) {
@@ -157,6 +165,9 @@ program
           console.log(`   📊 Charts found: ${result.chartsFound}`);
           console.log(`   ➕ Charts added: ${result.chartsAdded}`);
           console.log(`   🔄 Duplicates: ${result.chartsDuplicated}`);
+          if (result.chartsRevised) {
+            console.log(`   📝 Revised upstream: ${result.chartsRevised}`);
+          }
           console.log(`   ⏱️  Duration: ${(result.duration / 1000).toFixed(2)}s`);
           
           if (result.errors.length > 0) {
@@ -230,6 +241,9 @@ program
       console.log(`   📊 Charts found: ${result.chartsFound}`);
       console.log(`   ➕ Charts added: ${result.chartsAdded}`);
       console.log(`   🔄 Duplicates: ${result.chartsDuplicated}`);
+      if (result.chartsRevised) {
+        console.log(`   📝 Revised upstream: ${result.chartsRevised}`);
+      }
       console.log(`   ⏱️  Duration: ${(result.duration / 1000).toFixed(2)}s`);
       
       if (result.errors.length > 0) {
@@ -313,7 +327,7 @@ program
   .action(async (options: any) => {
     try {
       const service = await initializeScrapingService();
-      const db = service.getDatabase();
+      const db = service.getRepository();
       
       console.log('📊 DTX Database Status\n');
       
@@ -474,11 +488,11 @@ program
           const sourceCharts = allCharts.filter(c => c.source === source);
           
           // BPM range for this source
-          const sourceBpms = sourceCharts.map(c => parseInt(c.bpm)).filter(bpm => !isNaN(bpm));
-          if (sourceBpms.length > 0) {
-            const minBpm = Math.min(...sourceBpms);
-            const maxBpm = Math.max(...sourceBpms);
-            const avgBpm = Math.round(sourceBpms.reduce((a, b) => a + b, 0) / sourceBpms.length);
+          const sourceRanges = sourceCharts.map(c => parseBpmRange(c.bpm)).filter((range): range is BpmRange => !!range);
+          if (sourceRanges.length > 0) {
+            const minBpm = Math.min(...sourceRanges.map(range => range.min));
+            const maxBpm = Math.max(...sourceRanges.map(range => range.max));
+            const avgBpm = Math.round(sourceRanges.reduce((a, b) => a + b.min, 0) / sourceRanges.length);
             console.log(`   BPM Range: ${minBpm}-${maxBpm} (avg: ${avgBpm})`);
           }
           
@@ -515,30 +529,56 @@ program
 program
   .command('search')
   .description('Search for charts in the database')
-  .argument('[query]', 'Search query (searches title and artist)')
+  .argument('[query]', 'Search query (full-text over title, artist, tags and romaji, best matches first)')
   .option('-t, --title <title>', 'Search by title')
   .option('-a, --artist <artist>', 'Search by artist')
   .option('-s, --source <source>', 'Filter by source')
-  .option('--min-bpm <bpm>', 'Minimum BPM')
-  .option('--max-bpm <bpm>', 'Maximum BPM')
+  .option('--min-bpm <bpm>', 'Minimum BPM (matches charts whose BPM range reaches it)')
+  .option('--max-bpm <bpm>', 'Maximum BPM (matches charts whose BPM range reaches it)')
+  .option('--instrument <instrument>', 'Only charts rated for drums, guitar or bass')
+  .option('--level <level>', 'Difficulty level the rating filters apply to (basic, advanced, extreme, master)')
+  .option('--min-difficulty <rating>', 'Minimum rating of a difficulty')
+  .option('--max-difficulty <rating>', 'Maximum rating of a difficulty')
+  .option('--hide-owned', 'Hide charts found by scan-library')
   .option('-l, --limit <number>', 'Limit results', '20')
   .action(async (query: string | undefined, options: any) => {
     try {
       const service = await initializeScrapingService();
-      const db = service.getDatabase();
+      const db = service.getRepository();
       
       const searchOptions: any = {
         limit: parseInt(options.limit)
       };
+      if (options.hideOwned) searchOptions.owned = false;
+      
+      // Filters apply with or without a query
+      if (options.title) searchOptions.title = options.title;
+      if (options.artist) searchOptions.artist = options.artist;
+      if (options.source) searchOptions.source = options.source;
+      if (options.minBpm) searchOptions.minBpm = parseInt(options.minBpm);
+      if (options.maxBpm) searchOptions.maxBpm = parseInt(options.maxBpm);
+      if (options.minDifficulty) searchOptions.minDifficulty = parseFloat(options.minDifficulty);
+      if (options.maxDifficulty) searchOptions.maxDifficulty = parseFloat(options.maxDifficulty);
+      if (options.instrument) {
+        searchOptions.instrument = parseChartInstrument(options.instrument);
+        if (!searchOptions.instrument) {
+          console.error(`❌ Unknown instrument "${options.instrument}" (use drums, guitar or bass)`);
+          process.exit(1);
+        }
+      }
+      if (options.level) {
+        searchOptions.level = parseChartLevel(options.level);
+        if (!searchOptions.level) {
+          console.error(`❌ Unknown level "${options.level}" (use basic, advanced, extreme or master)`);
+          process.exit(1);
+        }
+      }
       
       // If a query is provided, search both title and artist
       if (query) {
-        // We'll search for charts where either title OR artist contains the query
-        const allCharts = await db.queryCharts({});
-        const filteredCharts = allCharts.filter(chart => 
-          chart.title.toLowerCase().includes(query.toLowerCase()) ||
-          chart.artist.toLowerCase().includes(query.toLowerCase())
-        );
+        // Full-text search, ranked by relevance
+        const { limit: _limit, ...filters } = searchOptions;
+        const filteredCharts = await db.queryCharts({ ...filters, query });
         
         console.log(`🔍 Found ${filteredCharts.length} charts matching "${query}":\n`);
         
@@ -550,6 +590,10 @@ program
           console.log(`   BPM: ${chart.bpm}`);
           console.log(`   Source: ${chart.source}`);
           console.log(`   Difficulties: ${chart.difficulties.join('/')}`);
+          printInstrumentRatings(chart);
+          chart.variants?.forEach((variant, number) => {
+            console.log(`   Version ${number + 1}: ${variant.label} (${variant.bpm} BPM, ${variant.difficulties.join('/')})`);
+          });
           if (chart.previewImageUrl) {
             console.log(`   Preview: ${chart.previewImageUrl}`);
           }
@@ -561,13 +605,6 @@ program
         return;
       }
       
-      // Handle specific options
-      if (options.title) searchOptions.title = options.title;
-      if (options.artist) searchOptions.artist = options.artist;
-      if (options.source) searchOptions.source = options.source;
-      if (options.minBpm) searchOptions.minBpm = parseInt(options.minBpm);
-      if (options.maxBpm) searchOptions.maxBpm = parseInt(options.maxBpm);
-      
       const charts = await db.queryCharts(searchOptions);
       
       console.log(`🔍 Found ${charts.length} charts:\n`);
@@ -578,6 +615,10 @@ program
         console.log(`   BPM: ${chart.bpm}`);
         console.log(`   Source: ${chart.source}`);
         console.log(`   Difficulties: ${chart.difficulties.join('/')}`);
+        printInstrumentRatings(chart);
+        chart.variants?.forEach((variant, number) => {
+          console.log(`   Version ${number + 1}: ${variant.label} (${variant.bpm} BPM, ${variant.difficulties.join('/')})`);
+        });
         if (chart.previewImageUrl) {
           console.log(`   Preview: ${chart.previewImageUrl}`);
         }
@@ -601,7 +642,7 @@ program
   .action(async (options: any) => {
     try {
       const service = await initializeScrapingService();
-      const db = service.getDatabase();
+      const db = service.getRepository();
       
       const searchOptions: any = {};
       if (options.source) {
@@ -627,11 +668,12 @@ program
   .option('-s, --source <source>', 'Download charts from specific source (REQUIRED or use other filters)')
   .option('-a, --artist <artist>', 'Download charts by artist (partial match)')
   .option('-t, --title <title>', 'Download charts by title (partial match)')
-  .option('--min-bpm <bpm>', 'Minimum BPM filter', (value) => parseInt(value))
-  .option('--max-bpm <bpm>', 'Maximum BPM filter', (value) => parseInt(value))
+  .option('--min-bpm <bpm>', 'Minimum BPM (matches charts whose BPM range reaches it)', (value) => parseInt(value))
+  .option('--max-bpm <bpm>', 'Maximum BPM (matches charts whose BPM range reaches it)', (value) => parseInt(value))
   .option('-l, --limit <count>', 'Limit number of downloads (max 50)', (value) => parseInt(value))
   .option('-d, --dir <directory>', 'Download directory', path.join(os.homedir(), 'Downloads', 'DTX'))
   .option('--overwrite', 'Overwrite existing files')
+  .option('--redownload', 'Download charts again even if the download history shows them installed')
   .option('-c, --concurrent <count>', 'Max concurrent downloads', (value) => parseInt(value), 3)
   .option('--timeout <ms>', 'Download timeout in milliseconds', (value) => parseInt(value), 30000)
   .option('--no-organize', 'Don\'t organize downloads by source')
@@ -659,7 +701,7 @@ program
       }
       
       const service = await initializeScrapingService();
-      const db = service.getDatabase();
+      const db = service.getRepository();
       const downloadService = new DownloadService(db);
       
       // Build query options
@@ -675,6 +717,7 @@ program
       const downloadOptions:DownloadRequest = {
         downloadDir: options.dir,
         overwrite: options.overwrite || false,
+        redownload: options.redownload || false,
         maxConcurrency: options.concurrent,
         timeout: options.timeout,
         chartIds: []
@@ -720,12 +763,14 @@ program
   .argument('<ids...>', 'Chart IDs to download (max 20)')
   .option('-d, --dir <directory>', 'Download directory', path.join(os.homedir(), 'Downloads', 'DTX'))
   .option('--overwrite', 'Overwrite existing files')
+  .option('--redownload', 'Download charts again even if the download history shows them installed')
   .option('-c, --concurrent <count>', 'Max concurrent downloads', (value) => parseInt(value), 3)
   .option('--timeout <ms>', 'Download timeout in milliseconds', (value) => parseInt(value), 30000)
   .option('--no-organize', 'Don\'t organize downloads by source')
   .option('--no-unzip', 'Don\'t automatically unzip downloaded files')
   .option('--keep-zip', 'Keep ZIP files after extraction')
   .option('--no-song-folders', 'Don\'t organize extracted files into song folders')
+  .option('--variant <label>', 'Version to download from multi-version posts (label or 1-based number)')
   .option('--confirm', 'Confirm download without prompting')
   .action(async (ids: string[], options: any) => {
     try {
@@ -737,7 +782,7 @@ program
       }
       
       const service = await initializeScrapingService();
-      const db = service.getDatabase();
+      const db = service.getRepository();
       const downloadService = new DownloadService(db);
       
       // Verify that all IDs exist in database
@@ -782,9 +827,11 @@ program
       const downloadOptions: DownloadOptions = {
         downloadDir: options.dir,
         overwrite: options.overwrite || false,
+        redownload: options.redownload || false,
         maxConcurrency: options.concurrent,
         timeout: options.timeout,
-        chartIds: validCharts
+        chartIds: validCharts,
+        ...(options.variant ? { variants: Object.fromEntries(validCharts.map(id => [id, options.variant])) } : {})
       };
 
       
@@ -813,13 +860,13 @@ program
   .option('-s, --source <source>', 'Filter by source')
   .option('-a, --artist <artist>', 'Filter by artist (partial match)')
   .option('-t, --title <title>', 'Filter by title (partial match)')
-  .option('--min-bpm <bpm>', 'Minimum BPM filter', (value) => parseInt(value))
-  .option('--max-bpm <bpm>', 'Maximum BPM filter', (value) => parseInt(value))
+  .option('--min-bpm <bpm>', 'Minimum BPM (matches charts whose BPM range reaches it)', (value) => parseInt(value))
+  .option('--max-bpm <bpm>', 'Maximum BPM (matches charts whose BPM range reaches it)', (value) => parseInt(value))
   .option('-l, --limit <count>', 'Limit number of charts', (value) => parseInt(value))
   .action(async (options: any) => {
     try {
       const service = await initializeScrapingService();
-      const db = service.getDatabase();
+      const db = service.getRepository();
       const downloadService = new DownloadService(db);
       
       // Build query options
@@ -854,16 +901,18 @@ program
   .option('-s, --source <source>', 'Browse charts from specific source')
   .option('-a, --artist <artist>', 'Browse charts by artist (partial match)')
   .option('-t, --title <title>', 'Browse charts by title (partial match)')
-  .option('--min-bpm <bpm>', 'Minimum BPM filter', (value) => parseInt(value))
-  .option('--max-bpm <bpm>', 'Maximum BPM filter', (value) => parseInt(value))
+  .option('--min-bpm <bpm>', 'Minimum BPM (matches charts whose BPM range reaches it)', (value) => parseInt(value))
+  .option('--max-bpm <bpm>', 'Maximum BPM (matches charts whose BPM range reaches it)', (value) => parseInt(value))
+  .option('--hide-owned', 'Hide charts found by scan-library')
   .option('-l, --limit <count>', 'Limit number of results', (value) => parseInt(value))
   .action(async (options: any) => {
     try {
       const service = await initializeScrapingService();
-      const db = service.getDatabase();
+      const db = service.getRepository();
       
       // Build query options
       const query: any = {};
+      if (options.hideOwned) query.owned = false;
       if (options.source) query.source = options.source;
       if (options.artist) query.artist = options.artist;
       if (options.title) query.title = options.title;
@@ -922,7 +971,7 @@ program
       });
       
       console.log('💡 Tip: Use the download command to automatically handle direct downloads');
-      console.log('   For Google Drive folders, you\'ll need to manually download specific charts');
+      console.log('   Google Drive folders are downloaded into one directory per chart');
       
       service.close();
       
@@ -932,6 +981,42 @@ program
     }
   });
 
+program
+  .command('scan-library')
+  .description('Scan a DTXMania Songs folder and mark the charts you already have')
+  .argument('<dir>', 'DTXMania Songs folder')
+  .option('--show-unmatched', 'List song folders that match no chart in the database')
+  .action(async (dir: string, options: any) => {
+    try {
+      const service = await initializeScrapingService();
+      const result = await new LibraryScanner(service.getRepository()).scan(dir);
+      const unmatched = result.entries.filter(entry => !entry.chartId);
+
+      console.log(`\n📊 Library Scan Results:`);
+      console.log(`   📁 Song folders: ${result.entries.length}`);
+      console.log(`   ✅ Matched to charts: ${result.matched}`);
+      console.log(`   ❔ Not in database: ${unmatched.length}`);
+      if (result.removed > 0) {
+        console.log(`   🗑️  No longer on disk: ${result.removed}`);
+      }
+
+      if (options.showUnmatched && unmatched.length > 0) {
+        console.log('\n❔ Unmatched song folders:');
+        unmatched.forEach(entry => {
+          console.log(`   - ${entry.title || path.basename(entry.path)}${entry.artist ? ` by ${entry.artist}` : ''}`);
+          console.log(`     📁 ${entry.path}`);
+        });
+      }
+
+      console.log('\n💡 Use --hide-owned with "search" or "browse" to skip charts you already have');
+      service.close();
+
+    } catch (error) {
+      console.error('❌ Library scan failed:', error);
+      process.exit(1);
+    }
+  });
+
 // Helper function to format bytes
 function formatBytes(bytes: number): string {
   if (bytes === 0) return '0 Bytes';
@@ -943,6 +1028,16 @@ function formatBytes(bytes: number): string {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
 }
 
+// Helper function to print ratings of instruments other than drums
+function printInstrumentRatings(chart: IChart): void {
+  for (const instrument of CHART_INSTRUMENTS.filter(instrument => instrument !== 'DRUMS')) {
+    const ratings = (chart.instrumentDifficulties || []).filter(difficulty => difficulty.instrument === instrument);
+    if (ratings.length > 0) {
+      console.log(`   ${instrument[0]}${instrument.slice(1).toLowerCase()}: ${ratings.map(difficulty => difficulty.value).join('/')}`);
+    }
+  }
+}
+
 program
   .command('scrape-progress')
   .description('View scraping progress for a source')
@@ -950,7 +1045,7 @@ program
   .action(async (sourceName: string) => {
     try {
       const service = await initializeScrapingService();
-      const db = service.getDatabase();
+      const db = service.getRepository();
       
       console.log(`📊 Scraping Progress for ${sourceName}\n`);
       
@@ -1007,7 +1102,7 @@ program
   .action(async (sourceName: string, options: any) => {
     try {
       const service = await initializeScrapingService();
-      const db = service.getDatabase();
+      const db = service.getRepository();
       
       const stats = await db.getScrapingStats(sourceName);
       
@@ -1072,6 +1167,9 @@ program
       console.log(`   📊 Charts found: ${result.chartsFound}`);
       console.log(`   ➕ Charts added: ${result.chartsAdded}`);
       console.log(`   🔄 Duplicates: ${result.chartsDuplicated}`);
+      if (result.chartsRevised) {
+        console.log(`   📝 Revised upstream: ${result.chartsRevised}`);
+      }
       console.log(`   ⏱️  Duration: ${(result.duration / 1000).toFixed(2)}s`);
       
       if (result.errors.length > 0) {
@@ -1088,6 +1186,365 @@ program
     }
   });
 
+program
+  .command('history')
+  .description('Show the download history')
+  .option('-c, --chart <id>', 'Only downloads of this chart')
+  .option('-l, --limit <count>', 'Limit number of results', (value) => parseInt(value), 20)
+  .action(async (options: any) => {
+    try {
+      const service = await initializeScrapingService();
+      const db = service.getRepository();
+
+      const records = await db.getDownloadHistory({
+        ...(options.chart ? { chartId: options.chart } : {}),
+        limit: options.limit
+      });
+
+      console.log('📜 Download History\n');
+      if (records.length === 0) {
+        console.log('📭 No downloads recorded yet');
+      }
+
+      for (const record of records) {
+        const chart = await db.getChart(record.chartId);
+        console.log(`📦 ${chart ? `${chart.title} - ${chart.artist}` : record.chartId}`);
+        console.log(`   🆔 ${record.chartId} | ${record.downloadedAt.toLocaleString()} | ${formatBytes(record.sizeBytes)}${record.provider ? ` via ${record.provider}` : ''}`);
+        record.extractedPaths.forEach(extracted => console.log(`   📁 ${extracted}`));
+        if (record.extractedPaths.length === 0) {
+          console.log(`   📁 ${record.filePath ?? record.destination}`);
+        }
+        if (record.archiveHash) {
+          console.log(`   🔑 ${record.archiveHash}`);
+        }
+      }
+
+      console.log('\n💡 Charts in the history are skipped by downloads; use --redownload to fetch them again');
+      service.close();
+
+    } catch (error) {
+      console.error('❌ Failed to read download history:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('updates')
+  .description('List installed charts whose upstream post was revised, and optionally replace them')
+  .option('-c, --chart <ids...>', 'Only these charts')
+  .option('--apply', 'Download the revised charts and replace the installed copies')
+  .option('--timeout <ms>', 'Download timeout in milliseconds', (value) => parseInt(value), 30000)
+  .action(async (options: any) => {
+    try {
+      const service = await initializeScrapingService();
+      const updater = new ChartUpdateService(service.getRepository());
+
+      const updates = await updater.findUpdates(options.chart);
+      console.log('🆕 Chart Updates\n');
+      if (updates.length === 0) {
+        console.log('✅ All installed charts are up to date');
+      }
+
+      for (const update of updates) {
+        console.log(`📦 ${update.chart.title} - ${update.chart.artist}`);
+        console.log(`   🆔 ${update.chart.id} | installed ${update.installedAt.toLocaleString()}`);
+        for (const revision of update.revisions) {
+          console.log(`   📝 ${revision.detectedAt.toLocaleString()}: ${revision.changes.join(', ')} changed`);
+        }
+        update.installedPaths.forEach(installed => console.log(`   📁 ${installed}`));
+      }
+
+      if (updates.length > 0 && !options.apply) {
+        console.log('\n💡 Use --apply to download the revised charts and replace the installed copies');
+      }
+
+      if (options.apply) {
+        let replaced = 0;
+        for (const update of updates) {
+          console.log(`\n⬇️  Updating ${update.chart.title} - ${update.chart.artist}`);
+          const result = await updater.applyUpdate(update, { timeout: options.timeout });
+          if (result.success) {
+            replaced++;
+          } else {
+            console.log(`❌ ${result.error}`);
+          }
+        }
+        console.log(`\n📊 Replaced ${replaced} of ${updates.length} charts`);
+      }
+
+      service.close();
+
+    } catch (error) {
+      console.error('❌ Update check failed:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('queue-add')
+  .description('Add charts to the persistent download queue')
+  .argument('<ids...>', 'Chart IDs to queue')
+  .option('-d, --dir <directory>', 'Download directory', path.join(os.homedir(), 'Downloads', 'DTX'))
+  .action(async (ids: string[], options: any) => {
+    try {
+      const service = await initializeScrapingService();
+      const db = service.getRepository();
+      const queue = new DownloadService(db).getQueue();
+
+      let added = 0;
+      for (const id of ids) {
+        const chart = await db.getChart(id);
+        if (!chart) {
+          console.warn(`⚠️  Chart not found: ${id}`);
+          continue;
+        }
+
+        const itemId = await queue.enqueue(chart, options.dir);
+        console.log(`➕ Queued ${chart.title} - ${chart.artist} (${itemId})`);
+        added++;
+      }
+
+      console.log(`\n📦 Added ${added} charts to the download queue`);
+      service.close();
+
+    } catch (error) {
+      console.error('❌ Failed to queue charts:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('queue-list')
+  .description('Show the download queue')
+  .action(async () => {
+    try {
+      const service = await initializeScrapingService();
+      const queue = new DownloadService(service.getRepository()).getQueue();
+
+      const items = await queue.getItems();
+      const status = await queue.getStatus();
+
+      console.log('📋 Download Queue\n');
+      if (items.length === 0) {
+        console.log('📭 Queue is empty');
+      }
+
+      const icons: Record<string, string> = {
+        pending: '⏳',
+        downloading: '⬇️ ',
+        completed: '✅',
+        failed: '❌',
+        cancelled: '🚫'
+      };
+
+      items.forEach(item => {
+        console.log(`${icons[item.progress.status]} ${item.chart.title} - ${item.chart.artist}`);
+        console.log(`   🆔 ${item.id} | ${item.progress.status}${item.retries > 0 ? ` (retries: ${item.retries})` : ''}`);
+        console.log(`   📁 ${item.destination}`);
+        if (item.progress.error) {
+          console.log(`   ⚠️  ${item.progress.error}`);
+        }
+      });
+
+      console.log(`\n📊 Pending: ${status.pending} | Downloading: ${status.downloading} | Completed: ${status.completed} | Failed: ${status.failed}`);
+      service.close();
+
+    } catch (error) {
+      console.error('❌ Failed to read download queue:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('queue-start')
+  .description('Process pending items in the download queue (Ctrl+C pauses after the current item)')
+  .option('--overwrite', 'Overwrite existing files')
+  .option('--redownload', 'Download charts again even if the download history shows them installed')
+  .option('--timeout <ms>', 'Download timeout in milliseconds', (value) => parseInt(value), 30000)
+  .action(async (options: any) => {
+    try {
+      const service = await initializeScrapingService();
+      const db = service.getRepository();
+      const queue = new DownloadQueue(db, undefined, {
+        overwrite: options.overwrite || false,
+        redownload: options.redownload || false,
+        timeout: options.timeout,
+        onItemChange: (item) => {
+          if (item.progress.status === 'downloading') {
+            console.log(`⬇️  Downloading ${item.chart.title} - ${item.chart.artist}`);
+          } else if (item.progress.status === 'completed') {
+            console.log(`✅ Completed ${item.chart.title} - ${item.chart.artist}`);
+          } else if (item.progress.status === 'failed') {
+            console.log(`❌ Failed ${item.chart.title} - ${item.chart.artist}: ${item.progress.error}`);
+          }
+        }
+      });
+
+      process.once('SIGINT', () => {
+        console.log('\n⏸️  Pausing queue after the current download...');
+        queue.stop();
+      });
+
+      console.log('🚀 Starting download queue...');
+      await queue.start();
+
+      const status = await queue.getStatus();
+      console.log(`\n📊 Pending: ${status.pending} | Completed: ${status.completed} | Failed: ${status.failed}`);
+      service.close();
+
+    } catch (error) {
+      console.error('❌ Download queue failed:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('queue-retry')
+  .description('Retry a failed or cancelled queue item')
+  .argument('<itemId>', 'Queue item ID')
+  .action(async (itemId: string) => {
+    try {
+      const service = await initializeScrapingService();
+      await new DownloadService(service.getRepository()).getQueue().retry(itemId);
+      console.log(`🔁 Queue item ${itemId} will be retried on the next queue-start`);
+      service.close();
+
+    } catch (error) {
+      console.error('❌ Failed to retry queue item:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('queue-cancel')
+  .description('Cancel a pending queue item')
+  .argument('<itemId>', 'Queue item ID')
+  .action(async (itemId: string) => {
+    try {
+      const service = await initializeScrapingService();
+      await new DownloadService(service.getRepository()).getQueue().cancel(itemId);
+      console.log(`🚫 Cancelled queue item ${itemId}`);
+      service.close();
+
+    } catch (error) {
+      console.error('❌ Failed to cancel queue item:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('queue-clear')
+  .description('Remove completed, failed and cancelled items from the download queue')
+  .action(async () => {
+    try {
+      const service = await initializeScrapingService();
+      await new DownloadService(service.getRepository()).getQueue().clear();
+      console.log('🧹 Cleared finished items from the download queue');
+      service.close();
+
+    } catch (error) {
+      console.error('❌ Failed to clear download queue:', error);
+      process.exit(1);
+    }
+  });
+
+const dbCommand = program
+  .command('db')
+  .description('Maintain the chart database');
+
+dbCommand
+  .command('migrate')
+  .description('Apply pending schema migrations (the previous database is backed up first)')
+  .option('--status', 'Only show the schema version and pending migrations')
+  .option('-d, --database <path>', 'Database file', 'charts.db')
+  .action(async (options: any) => {
+    try {
+      const db = new ChartDatabase(options.database, { autoMigrate: false });
+      const status = await db.getSchemaStatus();
+
+      console.log(`🗄️  Schema version ${status.currentVersion} (latest ${status.latestVersion})\n`);
+      status.applied.forEach(migration => {
+        console.log(`   ✅ ${migration.version}. ${migration.description} (${migration.appliedAt.toLocaleString()})`);
+      });
+      status.pending.forEach(migration => {
+        console.log(`   ⏳ ${migration.version}. ${migration.description}`);
+      });
+
+      if (!options.status && status.pending.length > 0) {
+        console.log('');
+        const result = await db.migrate();
+        console.log(`\n✅ Applied ${result.applied.length} migrations`);
+      } else if (status.pending.length === 0) {
+        console.log('\n✅ Database is up to date');
+      }
+      await db.close();
+
+    } catch (error) {
+      console.error('❌ Failed to migrate database:', error);
+      process.exit(1);
+    }
+  });
+
+dbCommand
+  .command('backup [destination]')
+  .description('Copy the database to a file while it stays in use (next to the database by default)')
+  .option('-d, --database <path>', 'Database file', 'charts.db')
+  .action(async (destination: string | undefined, options: any) => {
+    try {
+      const db = new ChartDatabase(options.database);
+      const backupPath = await db.backup(destination);
+      console.log(`💾 Backed up ${options.database} to ${backupPath}`);
+      await db.close();
+
+    } catch (error) {
+      console.error('❌ Failed to back up database:', error);
+      process.exit(1);
+    }
+  });
+
+dbCommand
+  .command('restore <backup>')
+  .description('Replace the database with a backup (older backups are upgraded)')
+  .option('-d, --database <path>', 'Database file', 'charts.db')
+  .action(async (backup: string, options: any) => {
+    try {
+      const db = new ChartDatabase(options.database);
+      await db.restore(backup);
+      console.log(`✅ Restored ${options.database} from ${backup} (${await db.getTotalChartCount()} charts)`);
+      await db.close();
+
+    } catch (error) {
+      console.error('❌ Failed to restore database:', error);
+      process.exit(1);
+    }
+  });
+
+dbCommand
+  .command('merge <other>')
+  .description('Merge the charts and scraping progress of another database into this one')
+  .option('-d, --database <path>', 'Database file', 'charts.db')
+  .action(async (other: string, options: any) => {
+    try {
+      const db = new ChartDatabase(options.database);
+      const report = await db.merge(other);
+
+      console.log(`🔀 Merged ${other} into ${options.database}\n`);
+      console.log(`   ➕ Added: ${report.added.length} charts`);
+      console.log(`   🔄 Updated: ${report.updated.length} charts`);
+      console.log(`   ⚠️  Conflicts: ${report.conflicts.length} charts (kept the local copy)`);
+      console.log(`   ✔️  Unchanged: ${report.unchanged} charts`);
+      console.log(`   📄 Scraped pages: ${report.scrapedPages.added} added, ${report.scrapedPages.updated} updated`);
+      report.conflicts.forEach(conflict => {
+        console.log(`      ${conflict.chartId}: local ${conflict.localUpdatedAt.toLocaleString()}, other ${conflict.otherUpdatedAt.toLocaleString()}`);
+      });
+      await db.close();
+
+    } catch (error) {
+      console.error('❌ Failed to merge databases:', error);
+      process.exit(1);
+    }
+  });
+
 program
   .command('config')
   .description('Show current configuration')
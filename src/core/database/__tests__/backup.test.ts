@@ -0,0 +1,149 @@
+/**
+ * Tests for backing up, restoring and merging chart databases
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as sqlite3 from 'sqlite3';
+import { ChartDatabase } from '../database';
+import { DatabaseBackupError } from '../../errors';
+import { IChart } from '../../models';
+
+function createChart(id: string, overrides: Partial<IChart> = {}): IChart {
+  return {
+    id,
+    title: `Song ${id}`,
+    artist: 'Artist',
+    bpm: '150',
+    difficulties: [2.7, 5.2],
+    source: 'approved-dtx',
+    originalPageUrl: `http://approvedtx.blogspot.com/${id}.html`,
+    tags: [],
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z'),
+    ...overrides
+  };
+}
+
+function exec(dbPath: string, sql: string): Promise<void> {
+  const db = new sqlite3.Database(dbPath);
+  return new Promise((resolve, reject) => db.exec(sql, (execErr) => {
+    db.close(err => (execErr || err) ? reject(execErr || err) : resolve());
+  }));
+}
+
+describe('database backup, restore and merge', () => {
+  let tempDir: string;
+  let database: ChartDatabase;
+  let other: ChartDatabase | undefined;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dtx-backup-'));
+    database = new ChartDatabase(path.join(tempDir, 'charts.db'));
+    other = undefined;
+  });
+
+  afterEach(async () => {
+    await database.close();
+    await other?.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('backs up an open database and restores it', async () => {
+    await database.saveCharts([createChart('kept', { title: 'ニンジャリベンジ' }), createChart('other')]);
+    const backupPath = await database.backup(path.join(tempDir, 'backup.db'));
+
+    await database.deleteChart('kept');
+    await database.saveChart(createChart('later'));
+    await database.restore(backupPath);
+
+    expect((await database.queryCharts({ sortBy: 'title' })).map(chart => chart.id)).toEqual(['other', 'kept']);
+    expect((await database.queryCharts({ query: 'ninja' })).map(chart => chart.id)).toEqual(['kept']);
+    await expect(database.backup(path.join(tempDir, 'charts.db'))).rejects.toThrow(DatabaseBackupError);
+  });
+
+  it('restores backups made before schema versions were recorded', async () => {
+    const backupPath = path.join(tempDir, 'old.db');
+    await exec(backupPath, fs.readFileSync(path.join(__dirname, 'fixtures', 'baseline.sql'), 'utf8'));
+
+    await database.restore(backupPath);
+
+    expect((await database.getChart('ninja'))!.instrumentDifficulties).toHaveLength(4);
+    expect((await database.getSchemaStatus()).pending).toEqual([]);
+  });
+
+  it('merges charts by updatedAt and reports conflicts', async () => {
+    const otherPath = path.join(tempDir, 'other.db');
+    other = new ChartDatabase(otherPath);
+
+    await database.saveCharts([
+      createChart('stale', { title: 'Stale' }),
+      createChart('edited', { title: 'Edited here' }),
+      createChart('same')
+    ]);
+    await other.saveCharts([
+      createChart('stale', { title: 'Fresh', bpm: '120-180', instrumentDifficulties: [{ instrument: 'GUITAR', level: 'BASIC', value: 3.1 }] }),
+      createChart('edited', { title: 'Edited there' }),
+      createChart('same'),
+      createChart('new', { title: 'ニンジャリベンジ' })
+    ]);
+    await database.recordPageScraped('approved-dtx', 'http://approvedtx.blogspot.com/', 1, 3);
+    await other.recordPageScraped('approved-dtx', 'http://approvedtx.blogspot.com/', 1, 4);
+    await other.recordPageScraped('approved-dtx', 'http://approvedtx.blogspot.com/page/2', 2, 1);
+    await other.close();
+    other = undefined;
+
+    await exec(path.join(tempDir, 'charts.db'), `
+      UPDATE charts SET updatedAt = '2024-01-01 00:00:00' WHERE id = 'stale';
+      UPDATE charts SET updatedAt = '2024-03-01 00:00:00' WHERE id = 'edited';
+      UPDATE scraping_progress SET scraped_at = '2024-01-01 00:00:00';
+    `);
+    await exec(otherPath, `
+      UPDATE charts SET updatedAt = '2024-02-01 00:00:00' WHERE id IN ('stale', 'edited');
+      UPDATE scraping_progress SET scraped_at = '2024-02-01 00:00:00';
+    `);
+
+    const report = await database.merge(otherPath);
+
+    expect(report).toEqual({
+      added: ['new'],
+      updated: ['stale'],
+      conflicts: [{
+        chartId: 'edited',
+        localUpdatedAt: new Date('2024-03-01 00:00:00'),
+        otherUpdatedAt: new Date('2024-02-01 00:00:00')
+      }],
+      unchanged: 1,
+      scrapedPages: { added: 1, updated: 1 }
+    });
+    expect(await database.getChart('stale')).toMatchObject({
+      title: 'Fresh',
+      instrumentDifficulties: [{ instrument: 'GUITAR', level: 'BASIC', value: 3.1 }]
+    });
+    expect((await database.getChart('edited'))!.title).toBe('Edited here');
+    expect((await database.queryCharts({ minBpm: 170 })).map(chart => chart.id)).toEqual(['stale']);
+    expect((await database.queryCharts({ query: 'ninja' })).map(chart => chart.id)).toEqual(['new']);
+    expect((await database.getScrapedPages('approved-dtx')).map(page => page.chartsFound).sort()).toEqual([1, 4]);
+  });
+
+  it('merges older databases without modifying them', async () => {
+    const otherPath = path.join(tempDir, 'old.db');
+    await exec(otherPath, fs.readFileSync(path.join(__dirname, 'fixtures', 'baseline.sql'), 'utf8'));
+    const before = fs.readFileSync(otherPath);
+
+    const report = await database.merge(otherPath);
+
+    expect(report).toMatchObject({ added: ['ninja'], scrapedPages: { added: 1, updated: 0 } });
+    expect((await database.getChart('ninja'))!.instrumentDifficulties).toHaveLength(4);
+    expect(fs.readFileSync(otherPath).equals(before)).toBe(true);
+  });
+
+  it('rejects missing files and leaves the database untouched', async () => {
+    await database.saveChart(createChart('kept'));
+
+    await expect(database.merge(path.join(tempDir, 'missing.db'))).rejects.toThrow(DatabaseBackupError);
+    await expect(database.restore(path.join(tempDir, 'missing.db'))).rejects.toThrow('file not found');
+    expect(await database.getTotalChartCount()).toBe(1);
+  });
+});
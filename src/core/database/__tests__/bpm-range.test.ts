@@ -0,0 +1,91 @@
+/**
+ * Tests for numeric BPM ranges and range-overlap BPM filters
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as sqlite3 from 'sqlite3';
+import { parseBpmRange } from '../bpm-range';
+import { ChartDatabase } from '../database';
+import { IChart } from '../../models';
+
+function createChart(id: string, bpm: string): IChart {
+  return {
+    id,
+    title: `Song ${id}`,
+    artist: 'Artist',
+    bpm,
+    difficulties: [3.2, 5.5],
+    source: 'approved-dtx',
+    originalPageUrl: 'http://approvedtx.blogspot.com/',
+    tags: [],
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z')
+  };
+}
+
+describe('parseBpmRange', () => {
+  it('reads single tempos and ranges', () => {
+    expect(parseBpmRange('150')).toEqual({ min: 150, max: 150 });
+    expect(parseBpmRange('70-189')).toEqual({ min: 70, max: 189 });
+    expect(parseBpmRange('189~70')).toEqual({ min: 70, max: 189 });
+    expect(parseBpmRange('128.5')).toEqual({ min: 128.5, max: 128.5 });
+    expect(parseBpmRange(' 70 ～ 189 ')).toEqual({ min: 70, max: 189 });
+  });
+
+  it('treats anything but a single tempo or a range as unparsable', () => {
+    expect(parseBpmRange('???')).toBeUndefined();
+    expect(parseBpmRange('')).toBeUndefined();
+    expect(parseBpmRange('120 (150 in the chorus)')).toBeUndefined();
+    expect(parseBpmRange('70-150-189')).toBeUndefined();
+    expect(parseBpmRange('BPM 150')).toBeUndefined();
+  });
+});
+
+describe('ChartDatabase BPM filters', () => {
+  let tempDir: string;
+  let dbPath: string;
+  let database: ChartDatabase;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dtx-bpm-'));
+    dbPath = path.join(tempDir, 'charts.db');
+  });
+
+  afterEach(async () => {
+    await database.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const ids = async (options: { minBpm?: number; maxBpm?: number }) =>
+    (await database.queryCharts({ ...options, sortBy: 'title' })).map(chart => chart.id);
+
+  it('matches charts whose BPM range overlaps the filter', async () => {
+    database = new ChartDatabase(dbPath);
+    await database.saveCharts([createChart('slow', '90'), createChart('variable', '70-189'), createChart('fast', '200')]);
+
+    expect(await ids({ minBpm: 150 })).toEqual(['fast', 'variable']);
+    expect(await ids({ maxBpm: 100 })).toEqual(['slow', 'variable']);
+    expect(await ids({ minBpm: 190, maxBpm: 199 })).toEqual([]);
+    expect(await ids({ minBpm: 180, maxBpm: 185 })).toEqual(['variable']);
+  });
+
+  it('fills the BPM range of charts saved before the range columns existed', async () => {
+    const legacy = new sqlite3.Database(dbPath);
+    await new Promise<void>((resolve, reject) => legacy.serialize(() => {
+      legacy.run(`CREATE TABLE charts (
+        id TEXT PRIMARY KEY, title TEXT NOT NULL, artist TEXT NOT NULL, bpm TEXT NOT NULL, difficulties TEXT,
+        downloadUrl TEXT, source TEXT NOT NULL, tags TEXT, previewImageUrl TEXT, originalPageUrl TEXT NOT NULL,
+        createdAt DATETIME DEFAULT CURRENT_TIMESTAMP, updatedAt DATETIME DEFAULT CURRENT_TIMESTAMP
+      )`);
+      legacy.run(`INSERT INTO charts (id, title, artist, bpm, difficulties, source, tags, originalPageUrl)
+        VALUES ('variable', 'Song', 'Artist', '70-189', '[]', 'approved-dtx', '[]', 'http://approvedtx.blogspot.com/')`);
+      legacy.close(err => err ? reject(err) : resolve());
+    }));
+
+    database = new ChartDatabase(dbPath);
+
+    expect(await ids({ minBpm: 180 })).toEqual(['variable']);
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Tests for storing and filtering ratings by instrument and level
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as sqlite3 from 'sqlite3';
+import { parseChartLevel, toChartDifficulties } from '../chart-difficulties';
+import { ChartDatabase } from '../database';
+import { ChartQueryOptions, IChart } from '../../models';
+
+function createChart(id: string, overrides: Partial<IChart> = {}): IChart {
+  return {
+    id,
+    title: `Song ${id}`,
+    artist: 'Artist',
+    bpm: '150',
+    difficulties: [2.7, 5.2, 7.0, 8.1],
+    source: 'approved-dtx',
+    originalPageUrl: 'http://approvedtx.blogspot.com/',
+    tags: [],
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z'),
+    ...overrides
+  };
+}
+
+describe('toChartDifficulties', () => {
+  it('assigns ratings to levels from BASIC', () => {
+    expect(toChartDifficulties([1.6, 3.2], 'BASS')).toEqual([
+      { instrument: 'BASS', level: 'BASIC', value: 1.6 },
+      { instrument: 'BASS', level: 'ADVANCED', value: 3.2 }
+    ]);
+    expect(toChartDifficulties([1, 2, 3, 4, 5]).map(difficulty => difficulty.level)).toEqual(['BASIC', 'ADVANCED', 'EXTREME', 'MASTER']);
+  });
+
+  it('reads level names and abbreviations', () => {
+    expect(parseChartLevel('master')).toBe('MASTER');
+    expect(parseChartLevel('EXT')).toBe('EXTREME');
+    expect(parseChartLevel('m')).toBeUndefined();
+  });
+});
+
+describe('ChartDatabase rating filters', () => {
+  let tempDir: string;
+  let dbPath: string;
+  let database: ChartDatabase;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dtx-ratings-'));
+    dbPath = path.join(tempDir, 'charts.db');
+  });
+
+  afterEach(async () => {
+    await database.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const ids = async (options: ChartQueryOptions) =>
+    (await database.queryCharts({ ...options, sortBy: 'title' })).map(chart => chart.id);
+
+  it('stores ratings by instrument and level', async () => {
+    database = new ChartDatabase(dbPath);
+    const instrumentDifficulties = [
+      ...toChartDifficulties([2.7, 5.2, 7.0, 8.1]),
+      ...toChartDifficulties([1.8, 3.5, 5.2, 6.4], 'GUITAR')
+    ];
+    await database.saveChart(createChart('model', { instrumentDifficulties }));
+    await database.saveCharts([createChart('drums')]);
+
+    expect((await database.getChart('model'))!.instrumentDifficulties).toEqual(instrumentDifficulties);
+    expect((await database.getChart('drums'))!.instrumentDifficulties).toEqual(toChartDifficulties([2.7, 5.2, 7.0, 8.1]));
+
+    await database.deleteChart('model');
+    await database.saveChart(createChart('model'));
+    expect((await database.getChart('model'))!.instrumentDifficulties).toHaveLength(4);
+  });
+
+  it('keeps a chart as it was when its ratings cannot be saved', async () => {
+    database = new ChartDatabase(dbPath);
+    await database.saveChart(createChart('model', { variants: [{ label: 'Short', bpm: '150', difficulties: [2.7] }] }));
+
+    await expect(database.saveChart(createChart('model', {
+      title: 'Renamed',
+      variants: [],
+      instrumentDifficulties: [{ instrument: 'DRUMS', level: 'BASIC', value: null as unknown as number }]
+    }))).rejects.toThrow('Failed to save chart');
+
+    expect(await database.getChart('model')).toMatchObject({
+      title: 'Song model',
+      variants: [{ label: 'Short', bpm: '150', difficulties: [2.7] }],
+      instrumentDifficulties: toChartDifficulties([2.7, 5.2, 7.0, 8.1])
+    });
+  });
+
+  it('matches charts with one difficulty meeting every rating filter', async () => {
+    database = new ChartDatabase(dbPath);
+    await database.saveCharts([
+      createChart('easy', { difficulties: [1.2, 2.5, 4.0, 5.5] }),
+      createChart('hard', { difficulties: [3.0, 5.5, 7.5, 9.0] }),
+      createChart('guitar', {
+        difficulties: [2.0, 4.0, 6.0, 7.8],
+        instrumentDifficulties: [
+          ...toChartDifficulties([2.0, 4.0, 6.0, 7.8]),
+          ...toChartDifficulties([1.5, 3.0, 4.5, 8.2], 'GUITAR')
+        ]
+      })
+    ]);
+
+    expect(await ids({ instrument: 'DRUMS', level: 'MASTER', minDifficulty: 7.0, maxDifficulty: 8.5 })).toEqual(['guitar']);
+    expect(await ids({ level: 'EXTREME', minDifficulty: 7.0 })).toEqual(['hard']);
+    expect(await ids({ instrument: 'GUITAR' })).toEqual(['guitar']);
+    expect(await ids({ instrument: 'GUITAR', level: 'MASTER', minDifficulty: 8.0 })).toEqual(['guitar']);
+    expect(await ids({ minDifficulty: 8.5 })).toEqual(['hard']);
+  });
+
+  it('rates the drums of charts saved before ratings were stored by instrument', async () => {
+    const legacy = new sqlite3.Database(dbPath);
+    await new Promise<void>((resolve, reject) => legacy.serialize(() => {
+      legacy.run(`CREATE TABLE charts (
+        id TEXT PRIMARY KEY, title TEXT NOT NULL, artist TEXT NOT NULL, bpm TEXT NOT NULL, difficulties TEXT,
+        downloadUrl TEXT, source TEXT NOT NULL, tags TEXT, previewImageUrl TEXT, originalPageUrl TEXT NOT NULL,
+        createdAt DATETIME DEFAULT CURRENT_TIMESTAMP, updatedAt DATETIME DEFAULT CURRENT_TIMESTAMP
+      )`);
+      legacy.run(`INSERT INTO charts (id, title, artist, bpm, difficulties, source, tags, originalPageUrl)
+        VALUES ('old', 'Song', 'Artist', '150', '[2.7,5.2,7.0,8.1]', 'approved-dtx', '[]', 'http://approvedtx.blogspot.com/')`);
+      legacy.close(err => err ? reject(err) : resolve());
+    }));
+
+    database = new ChartDatabase(dbPath);
+
+    expect(await ids({ instrument: 'DRUMS', level: 'MASTER', minDifficulty: 8.0 })).toEqual(['old']);
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Tests that the SQLite and in-memory chart repositories behave the same
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ChartDatabase } from '../database';
+import { InMemoryChartRepository } from '../memory-chart-repository';
+import { toChartDifficulties } from '../chart-difficulties';
+import { IChartRepository, ILibraryStore } from '../../interfaces';
+import { ChartQueryOptions, IChart, IChartDifficultyStats } from '../../models';
+
+function createChart(id: string, overrides: Partial<IChart> = {}): IChart {
+  return {
+    id,
+    title: `Song ${id}`,
+    artist: 'Artist',
+    bpm: '150',
+    difficulties: [2.7, 5.2, 7.0, 8.1],
+    source: 'approved-dtx',
+    originalPageUrl: 'http://approvedtx.blogspot.com/',
+    tags: ['dtx'],
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z'),
+    ...overrides
+  };
+}
+
+function createStats(overrides: Partial<IChartDifficultyStats> = {}): IChartDifficultyStats {
+  return {
+    file: 'mstr.dtx',
+    laneCounts: {},
+    totalNotes: 800,
+    durationSeconds: 120,
+    peakNps: 12,
+    averageNps: 6.5,
+    bpmChanges: [],
+    hasDoublePedal: false,
+    ...overrides
+  };
+}
+
+type Repository = IChartRepository & ILibraryStore & { close?(): Promise<void> };
+
+const implementations: Array<[string, (dir: string) => Repository]> = [
+  ['ChartDatabase', dir => new ChartDatabase(path.join(dir, 'charts.db'))],
+  ['InMemoryChartRepository', () => new InMemoryChartRepository()]
+];
+
+describe.each(implementations)('%s as a chart repository', (_name, createRepository) => {
+  let tempDir: string;
+  let repository: Repository;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dtx-repository-'));
+    repository = createRepository(tempDir);
+    await repository.saveBatch([
+      createChart('ninja', { title: 'ニンジャリベンジ', artist: 'Storm Front', bpm: '70-189', createdAt: new Date('2024-03-01T00:00:00Z') }),
+      createChart('storm', { title: 'Storm', artist: 'Band', bpm: '157', tags: ['dtx', 'rock'], createdAt: new Date('2024-02-01T00:00:00Z') }),
+      createChart('colors', {
+        title: 'colors',
+        source: 'other',
+        bpm: '136',
+        difficulties: [1.2, 9.4],
+        instrumentDifficulties: [...toChartDifficulties([1.2, 9.4]), ...toChartDifficulties([4.0, 6.5], 'GUITAR')]
+      })
+    ]);
+  });
+
+  afterEach(async () => {
+    await repository.close?.();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const ids = async (filters: ChartQueryOptions) => (await repository.findByFilters(filters)).map(chart => chart.id);
+
+  it('saves, finds, counts and deletes charts', async () => {
+    expect(await repository.findById('storm')).toMatchObject({ title: 'Storm', tags: ['dtx', 'rock'] });
+    expect((await repository.findById('colors'))!.instrumentDifficulties).toHaveLength(4);
+    expect(await repository.findById('missing')).toBeNull();
+    expect(await repository.exists('ninja')).toBe(true);
+    expect(await repository.count()).toBe(3);
+    expect(await repository.getSources()).toEqual(['approved-dtx', 'other']);
+    expect(await repository.countBySource()).toEqual({ 'approved-dtx': 2, other: 1 });
+
+    await repository.save(createChart('storm', { title: 'Storm (Full)' }));
+    expect((await repository.findById('storm'))!.title).toBe('Storm (Full)');
+
+    await repository.delete('ninja');
+    expect(await repository.exists('ninja')).toBe(false);
+    expect(await repository.count({ source: 'approved-dtx' })).toBe(1);
+
+    expect(await repository.deleteAll()).toBe(2);
+    expect(await repository.count()).toBe(0);
+  });
+
+  it('keeps statistics and revisions per chart', async () => {
+    await repository.saveStats('storm', [createStats({ file: 'mstr.dtx', level: 8.1 }), createStats({ file: 'bsc.dtx', level: 2.7 })]);
+    await repository.saveRevision({
+      chartId: 'storm',
+      changes: ['title'],
+      previous: { title: 'Storm', difficulties: [] },
+      current: { title: 'Storm (Full)', difficulties: [] },
+      detectedAt: new Date('2024-05-01T00:00:00Z')
+    });
+
+    expect((await repository.getStats('storm')).map(stats => stats.file)).toEqual(['bsc.dtx', 'mstr.dtx']);
+    expect(await repository.getStats('ninja')).toEqual([]);
+    expect((await repository.getRevisions({ chartId: 'storm' })).map(revision => revision.changes)).toEqual([['title']]);
+    expect(await repository.getRevisions({ since: new Date('2024-06-01T00:00:00Z') })).toEqual([]);
+  });
+
+  it('saves nothing from a batch with an invalid chart', async () => {
+    await expect(repository.saveBatch([
+      createChart('valid'),
+      createChart('invalid', { originalPageUrl: undefined as unknown as string })
+    ])).rejects.toThrow('Failed to save charts');
+
+    expect(await repository.exists('valid')).toBe(false);
+  });
+
+  it('filters, sorts and pages the same way', async () => {
+    expect(await ids({})).toEqual(['ninja', 'storm', 'colors']);
+    expect(await ids({ sortBy: 'title' })).toEqual(['colors', 'storm', 'ninja']);
+    expect(await ids({ sortBy: 'bpm', sortOrder: 'DESC' })).toEqual(['storm', 'colors', 'ninja']);
+    expect(await ids({ sortBy: 'title', limit: 1, offset: 1 })).toEqual(['storm']);
+    expect(await ids({ sortBy: 'title', offset: 2 })).toEqual(['ninja']);
+    expect(await ids({ sources: ['other'], tags: ['dtx'] })).toEqual(['colors']);
+    expect(await ids({ artist: 'storm', titleContains: 'ベンジ' })).toEqual(['ninja']);
+    expect(await ids({ minBpm: 180 })).toEqual(['ninja']);
+    expect(await ids({ sortBy: 'title', maxBpm: 140 })).toEqual(['colors', 'ninja']);
+    expect(await ids({ instrument: 'GUITAR', level: 'ADVANCED', minDifficulty: 6 })).toEqual(['colors']);
+    expect(await ids({ sortBy: 'title', minDifficulty: 9 })).toEqual(['colors']);
+    expect(await ids({ owned: false, sortBy: 'title' })).toEqual(['colors', 'storm', 'ninja']);
+    expect(await ids({ owned: true })).toEqual([]);
+    expect(await repository.count({ maxBpm: 140, limit: 1 })).toBe(2);
+
+    await expect(repository.findByFilters({ sortBy: 'rowid' as any })).rejects.toThrow('Cannot sort by');
+  });
+
+  it('searches normalised text and ranks title matches first', async () => {
+    expect(await ids({ query: 'ninja' })).toEqual(['ninja']);
+    expect(await ids({ query: 'ﾆﾝｼﾞｬ' })).toEqual(['ninja']);
+    expect(await ids({ query: 'storm' })).toEqual(['storm', 'ninja']);
+    expect(await ids({ query: 'storm', sortBy: 'title' })).toEqual(['storm', 'ninja']);
+    expect(await ids({ query: 'ro' })).toEqual(['ninja', 'storm']);
+  });
+
+  it('filters by library ownership', async () => {
+    const songs = path.join(tempDir, 'Songs');
+    const entry = (folder: string, chartId?: string) => ({
+      path: path.join(songs, folder),
+      ...(chartId ? { chartId } : {}),
+      contentHash: folder,
+      scannedAt: new Date('2024-04-01T00:00:00Z')
+    });
+
+    expect(await repository.replaceLibraryEntries(songs, [entry('Storm', 'storm'), entry('Unknown'), entry('Colors', 'colors')])).toBe(0);
+    expect(await ids({ owned: true, sortBy: 'title' })).toEqual(['colors', 'storm']);
+    expect(await ids({ owned: false })).toEqual(['ninja']);
+    expect(await repository.getOwnedChartIds()).toEqual(new Set(['storm', 'colors']));
+
+    expect(await repository.replaceLibraryEntries(songs, [entry('Storm', 'storm')])).toBe(2);
+    expect((await repository.getLibraryEntries(songs)).map(found => found.chartId)).toEqual(['storm']);
+    expect(await repository.getLibraryEntries(path.join(tempDir, 'Other'))).toEqual([]);
+    expect(await ids({ owned: false, sortBy: 'title' })).toEqual(['colors', 'ninja']);
+  });
+
+  it('filters by note statistics', async () => {
+    await repository.saveStats('storm', [createStats({ peakNps: 15, hasDoublePedal: true })]);
+    await repository.saveStats('colors', [createStats({ peakNps: 9 })]);
+
+    expect(await ids({ minPeakNps: 10 })).toEqual(['storm']);
+    expect(await ids({ hasDoublePedal: true })).toEqual(['storm']);
+    expect(await ids({ hasDoublePedal: false })).toEqual(['ninja', 'colors']);
+  });
+});
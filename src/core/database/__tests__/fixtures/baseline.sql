@@ -0,0 +1,35 @@
+-- Schema of the first release, before schema versions were recorded
+CREATE TABLE charts (
+  id TEXT PRIMARY KEY,
+  title TEXT NOT NULL,
+  artist TEXT NOT NULL,
+  bpm TEXT NOT NULL,
+  difficulties TEXT,
+  downloadUrl TEXT,
+  source TEXT NOT NULL,
+  tags TEXT,
+  previewImageUrl TEXT,
+  originalPageUrl TEXT NOT NULL,
+  createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updatedAt DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE scraping_progress (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  source TEXT NOT NULL,
+  url TEXT NOT NULL,
+  page_number INTEGER,
+  scraped_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  charts_found INTEGER DEFAULT 0,
+  status TEXT DEFAULT 'completed',
+  error_message TEXT,
+  UNIQUE(source, url)
+);
+
+CREATE INDEX idx_charts_source ON charts(source);
+
+INSERT INTO charts (id, title, artist, bpm, difficulties, downloadUrl, source, tags, originalPageUrl)
+VALUES ('ninja', 'ニンジャリベンジ', 'Artist', '70-189', '[2.7,5.2,7.0,8.1]', NULL, 'approved-dtx', '["anime"]', 'http://approvedtx.blogspot.com/2020/05/ninja.html');
+
+INSERT INTO scraping_progress (source, url, page_number, charts_found)
+VALUES ('approved-dtx', 'http://approvedtx.blogspot.com/', 1, 1);
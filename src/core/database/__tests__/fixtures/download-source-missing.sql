@@ -0,0 +1,20 @@
+-- Charts table from before originalPageUrl, when missing downloads were flagged
+CREATE TABLE charts (
+  id TEXT PRIMARY KEY,
+  title TEXT NOT NULL,
+  artist TEXT NOT NULL,
+  bpm TEXT NOT NULL,
+  difficulties TEXT,
+  downloadUrl TEXT NOT NULL,
+  downloadSourceMissing INTEGER DEFAULT 0,
+  source TEXT NOT NULL,
+  tags TEXT,
+  previewImageUrl TEXT,
+  createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updatedAt DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+INSERT INTO charts (id, title, artist, bpm, difficulties, downloadUrl, downloadSourceMissing, source, tags)
+VALUES
+  ('linked', 'Linked Song', 'Artist', '150', '[2.7,5.2,7.0,8.1]', 'https://drive.google.com/file/d/abc/view', 0, 'approved-dtx', '["dtx"]'),
+  ('missing', 'Missing Song', 'Artist', '120', '[3.0]', 'http://approvedtx.blogspot.com/2019/01/missing.html', 1, 'approved-dtx', '[]');
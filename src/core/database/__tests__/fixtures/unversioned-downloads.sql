@@ -0,0 +1,36 @@
+-- Database created after download history and BPM ranges were added but before
+-- schema versions were recorded; downloads lacks the later variant column
+CREATE TABLE charts (
+  id TEXT PRIMARY KEY,
+  title TEXT NOT NULL,
+  artist TEXT NOT NULL,
+  bpm TEXT NOT NULL,
+  minBpm REAL,
+  maxBpm REAL,
+  difficulties TEXT,
+  downloadUrl TEXT,
+  source TEXT NOT NULL,
+  tags TEXT,
+  previewImageUrl TEXT,
+  originalPageUrl TEXT NOT NULL,
+  createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updatedAt DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE downloads (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  chart_id TEXT NOT NULL,
+  destination TEXT NOT NULL,
+  file_path TEXT,
+  extracted_paths TEXT NOT NULL,
+  archive_hash TEXT,
+  size_bytes INTEGER NOT NULL DEFAULT 0,
+  provider TEXT,
+  downloaded_at DATETIME NOT NULL
+);
+
+INSERT INTO charts (id, title, artist, bpm, minBpm, maxBpm, difficulties, source, tags, originalPageUrl)
+VALUES ('song', 'Song', 'Artist', '150', 150, 150, '[2.7,5.2]', 'approved-dtx', '[]', 'http://approvedtx.blogspot.com/2021/02/song.html');
+
+INSERT INTO downloads (chart_id, destination, extracted_paths, size_bytes, downloaded_at)
+VALUES ('song', '/songs', '["Song"]', 1024, '2024-01-01T00:00:00.000Z');
@@ -0,0 +1,166 @@
+/**
+ * Tests for versioned schema migrations, upgrading fixture databases from old schemas
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as sqlite3 from 'sqlite3';
+import { ChartDatabase } from '../database';
+import { LATEST_SCHEMA_VERSION, MIGRATIONS, migrateDatabase } from '../migrations';
+import { DatabaseMigrationError } from '../../errors';
+
+function loadFixture(dbPath: string, fixture: string): Promise<void> {
+  const sql = fs.readFileSync(path.join(__dirname, 'fixtures', fixture), 'utf8');
+  const db = new sqlite3.Database(dbPath);
+  return new Promise((resolve, reject) => db.exec(sql, (execErr) => {
+    db.close(err => (execErr || err) ? reject(execErr || err) : resolve());
+  }));
+}
+
+function query(dbPath: string, sql: string): Promise<any[]> {
+  const db = new sqlite3.Database(dbPath);
+  return new Promise((resolve, reject) => db.all(sql, [], (queryErr, rows) => {
+    db.close(err => (queryErr || err) ? reject(queryErr || err) : resolve(rows));
+  }));
+}
+
+describe('schema migrations', () => {
+  let tempDir: string;
+  let dbPath: string;
+  let database: ChartDatabase | undefined;
+
+  const backups = () => fs.readdirSync(tempDir).filter(file => file.endsWith('.bak'));
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dtx-migrations-'));
+    dbPath = path.join(tempDir, 'charts.db');
+    database = undefined;
+  });
+
+  afterEach(async () => {
+    await database?.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('creates a new database at the latest version without a backup', async () => {
+    database = new ChartDatabase(dbPath);
+
+    const status = await database.getSchemaStatus();
+    expect(status.currentVersion).toBe(LATEST_SCHEMA_VERSION);
+    expect(status.applied.map(migration => migration.version)).toEqual(MIGRATIONS.map(migration => migration.version));
+    expect(status.pending).toEqual([]);
+    expect(backups()).toEqual([]);
+  });
+
+  it('upgrades a first-release database and backs it up first', async () => {
+    await loadFixture(dbPath, 'baseline.sql');
+    database = new ChartDatabase(dbPath);
+
+    const chart = await database.getChart('ninja');
+    expect(chart).toMatchObject({ title: 'ニンジャリベンジ', bpm: '70-189', tags: ['anime'] });
+    expect(chart!.instrumentDifficulties).toHaveLength(4);
+    expect((await database.queryCharts({ query: 'ninja', minBpm: 180 })).map(found => found.id)).toEqual(['ninja']);
+    expect((await database.getScrapedPages('approved-dtx'))).toHaveLength(1);
+
+    expect(backups()).toHaveLength(1);
+    const backupTables = await query(path.join(tempDir, backups()[0]), "SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name");
+    expect(backupTables.map(table => table.name)).toEqual(['charts', 'scraping_progress', 'sqlite_sequence']);
+  });
+
+  it('rebuilds charts tables that flagged missing download sources', async () => {
+    await loadFixture(dbPath, 'download-source-missing.sql');
+    database = new ChartDatabase(dbPath);
+
+    expect(await database.getChart('linked')).toMatchObject({
+      downloadUrl: 'https://drive.google.com/file/d/abc/view',
+      originalPageUrl: 'https://drive.google.com/file/d/abc/view'
+    });
+    const missing = await database.getChart('missing');
+    expect(missing!.downloadUrl).toBeUndefined();
+    expect(missing!.originalPageUrl).toBe('http://approvedtx.blogspot.com/2019/01/missing.html');
+
+    const columns = await query(dbPath, 'PRAGMA table_info(charts)');
+    expect(columns.map(column => column.name)).not.toContain('downloadSourceMissing');
+  });
+
+  it('adds columns missing from databases created before versions were recorded', async () => {
+    await loadFixture(dbPath, 'unversioned-downloads.sql');
+    database = new ChartDatabase(dbPath);
+
+    await database.saveDownloadRecord({
+      chartId: 'song',
+      destination: '/songs',
+      extractedPaths: ['Song (Full)'],
+      sizeBytes: 2048,
+      variant: 'Full',
+      downloadedAt: new Date('2024-02-01T00:00:00Z')
+    });
+
+    const history = await database.getDownloadHistory({ chartId: 'song' });
+    expect(history.map(record => record.variant)).toEqual(['Full', undefined]);
+    expect((await database.queryCharts({ minBpm: 150, maxBpm: 150 })).map(chart => chart.id)).toEqual(['song']);
+  });
+
+  it('reports pending migrations and applies them on request', async () => {
+    await loadFixture(dbPath, 'baseline.sql');
+    database = new ChartDatabase(dbPath, { autoMigrate: false });
+
+    const before = await database.getSchemaStatus();
+    expect(before.currentVersion).toBe(0);
+    expect(before.pending).toHaveLength(MIGRATIONS.length);
+
+    const result = await database.migrate();
+    expect(result).toMatchObject({ fromVersion: 0, toVersion: LATEST_SCHEMA_VERSION });
+    expect(result.backupPath).toBeDefined();
+
+    expect((await database.migrate()).applied).toEqual([]);
+    expect(backups()).toHaveLength(1);
+  });
+
+  it('rolls back a failing migration and keeps the previous version', async () => {
+    database = new ChartDatabase(dbPath);
+    await database.getSchemaStatus();
+    await database.close();
+    database = undefined;
+
+    const db = new sqlite3.Database(dbPath);
+    MIGRATIONS.push({
+      version: LATEST_SCHEMA_VERSION + 1,
+      description: 'Broken migration',
+      up: (connection) => new Promise((_resolve, reject) => {
+        connection.run('CREATE TABLE half_done (id INTEGER)', () => reject(new Error('boom')));
+      })
+    });
+
+    try {
+      await expect(migrateDatabase(db)).rejects.toThrow(DatabaseMigrationError);
+    } finally {
+      MIGRATIONS.pop();
+    }
+
+    const tables = await new Promise<any[]>((resolve, reject) => {
+      db.all("SELECT name FROM sqlite_master WHERE name = 'half_done'", [], (err, rows) => err ? reject(err) : resolve(rows));
+    });
+    expect(tables).toEqual([]);
+    await expect(migrateDatabase(db)).resolves.toMatchObject({ toVersion: LATEST_SCHEMA_VERSION, applied: [] });
+    await new Promise<void>(resolve => db.close(() => resolve()));
+  });
+
+  it('refuses databases from a newer version of the application', async () => {
+    database = new ChartDatabase(dbPath);
+    await database.getSchemaStatus();
+    await database.close();
+
+    const db = new sqlite3.Database(dbPath);
+    await new Promise<void>((resolve, reject) => db.run(
+      "INSERT INTO schema_version (version, description, applied_at) VALUES (?, 'Future', '2030-01-01')",
+      [LATEST_SCHEMA_VERSION + 1],
+      err => err ? reject(err) : resolve()
+    ));
+
+    database = new ChartDatabase(dbPath);
+    await expect(database.getSchemaStatus()).rejects.toThrow('newer than this version');
+    await new Promise<void>(resolve => db.close(() => resolve()));
+  });
+});
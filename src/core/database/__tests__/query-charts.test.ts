@@ -0,0 +1,79 @@
+/**
+ * Tests for the chart query filters, sorting and pagination
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ChartDatabase } from '../database';
+import { ChartQueryOptions, IChart } from '../../models';
+
+function createChart(id: string, overrides: Partial<IChart> = {}): IChart {
+  return {
+    id,
+    title: `Song ${id}`,
+    artist: 'Artist',
+    bpm: '150',
+    difficulties: [2.7, 5.2, 7.0, 8.1],
+    source: 'approved-dtx',
+    originalPageUrl: 'http://approvedtx.blogspot.com/',
+    tags: ['dtx', 'drum'],
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z'),
+    ...overrides
+  };
+}
+
+describe('ChartDatabase.queryCharts', () => {
+  let tempDir: string;
+  let database: ChartDatabase;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dtx-query-'));
+    database = new ChartDatabase(path.join(tempDir, 'charts.db'));
+    await database.saveCharts([
+      createChart('a', { title: 'reversi', artist: 'Band', tags: ['dtx', 'drum', 'anime'] }),
+      createChart('b', { title: 'Bare Your Teeth', artist: 'Reversi Project', bpm: '157', difficulties: [3.1, 5.0] }),
+      createChart('c', { title: 'Colors', source: 'other', bpm: '136', difficulties: [1.2, 9.4] })
+    ]);
+  });
+
+  afterEach(async () => {
+    await database.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const ids = async (options: ChartQueryOptions) =>
+    (await database.queryCharts({ sortBy: 'title', ...options })).map(chart => chart.id);
+
+  it('matches the query against title or artist', async () => {
+    expect(await ids({ query: 'REVERSI' })).toEqual(['b', 'a']);
+    expect(await ids({ titleContains: 'teeth' })).toEqual(['b']);
+  });
+
+  it('filters by sources, tags and exact BPM', async () => {
+    expect(await ids({ sources: ['other', 'missing'] })).toEqual(['c']);
+    expect(await ids({ tags: ['drum', 'anime'] })).toEqual(['a']);
+    expect(await ids({ tags: ['drum'] })).toEqual(['b', 'c', 'a']);
+    expect(await ids({ bpm: '157' })).toEqual(['b']);
+  });
+
+  it('filters by difficulty range', async () => {
+    expect(await ids({ minDifficulty: 9 })).toEqual(['c']);
+    expect(await ids({ minDifficulty: 4.9, maxDifficulty: 5.1 })).toEqual(['b']);
+    expect(await ids({ maxDifficulty: 2 })).toEqual(['c']);
+  });
+
+  it('sorts by whitelisted fields only', async () => {
+    expect(await ids({ sortBy: 'bpm', sortOrder: 'DESC' })).toEqual(['b', 'a', 'c']);
+    expect(await ids({})).toEqual(['b', 'c', 'a']);
+
+    await expect(database.queryCharts({ sortBy: 'title; DROP TABLE charts' as any })).rejects.toThrow('Cannot sort by');
+    expect(await ids({})).toHaveLength(3);
+  });
+
+  it('pages with an offset with or without a limit', async () => {
+    expect(await ids({ limit: 1, offset: 1 })).toEqual(['c']);
+    expect(await ids({ offset: 2 })).toEqual(['a']);
+  });
+});
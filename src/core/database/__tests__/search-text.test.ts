@@ -0,0 +1,125 @@
+/**
+ * Tests for search text normalisation and full-text chart search
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as sqlite3 from 'sqlite3';
+import { ChartDatabase } from '../database';
+import { normalizeSearchText, searchTerms, toRomaji } from '../search-text';
+import { ChartQueryOptions, IChart } from '../../models';
+
+function createChart(id: string, overrides: Partial<IChart> = {}): IChart {
+  return {
+    id,
+    title: `Song ${id}`,
+    artist: 'Artist',
+    bpm: '150',
+    difficulties: [2.7, 5.2, 7.0, 8.1],
+    source: 'approved-dtx',
+    originalPageUrl: 'http://approvedtx.blogspot.com/',
+    tags: [],
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z'),
+    ...overrides
+  };
+}
+
+describe('normalizeSearchText', () => {
+  it('folds width, case and katakana', () => {
+    expect(normalizeSearchText('ＤＴＸ Ｍａｎｉａ')).toBe('dtx mania');
+    expect(normalizeSearchText('ﾆﾝｼﾞｬ')).toBe('にんじゃ');
+    expect(normalizeSearchText('カタカナ')).toBe('かたかな');
+    expect(searchTerms('  Ｒｅｖｅｒｓｉ  ホーム ')).toEqual(['reversi', 'ほーむ']);
+  });
+});
+
+describe('toRomaji', () => {
+  it('writes kana in Hepburn romaji', () => {
+    expect(toRomaji('ニンジャ')).toBe('ninja');
+    expect(toRomaji('しゃかいじん')).toBe('shakaijin');
+    expect(toRomaji('きょうと')).toBe('kyouto');
+    expect(toRomaji('にっぽん')).toBe('nippon');
+    expect(toRomaji('スーパー Star')).toBe('supa star');
+    expect(toRomaji('ファイナル')).toBe('fainaru');
+  });
+});
+
+describe('ChartDatabase full-text search', () => {
+  let tempDir: string;
+  let dbPath: string;
+  let database: ChartDatabase;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dtx-search-'));
+    dbPath = path.join(tempDir, 'charts.db');
+  });
+
+  afterEach(async () => {
+    await database.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const ids = async (options: ChartQueryOptions) =>
+    (await database.queryCharts(options)).map(chart => chart.id);
+
+  it('matches width and kana variants and romaji', async () => {
+    database = new ChartDatabase(dbPath);
+    await database.saveCharts([
+      createChart('ninja', { title: 'ニンジャリベンジ', artist: 'ＲＥＶＯ' }),
+      createChart('hiragana', { title: 'さくらんぼ', artist: 'Band' }),
+      createChart('tagged', { title: 'Other', tags: ['アニメ'] })
+    ]);
+
+    expect(await ids({ query: 'ninja' })).toEqual(['ninja']);
+    expect(await ids({ query: 'ﾆﾝｼﾞｬ' })).toEqual(['ninja']);
+    expect(await ids({ query: 'revo' })).toEqual(['ninja']);
+    expect(await ids({ query: 'サクラ' })).toEqual(['hiragana']);
+    expect(await ids({ query: 'sakuranbo' })).toEqual(['hiragana']);
+    expect(await ids({ query: 'あに' })).toEqual(['tagged']);
+    expect(await ids({ query: 'ninja band' })).toEqual([]);
+  });
+
+  it('ranks title matches first unless a sort is asked for', async () => {
+    database = new ChartDatabase(dbPath);
+    await database.saveCharts([
+      createChart('artist', { title: 'Colors', artist: 'Storm Front' }),
+      createChart('title', { title: 'Storm', artist: 'Band' })
+    ]);
+
+    expect(await ids({ query: 'storm' })).toEqual(['title', 'artist']);
+    expect(await ids({ query: 'storm', sortBy: 'title' })).toEqual(['artist', 'title']);
+  });
+
+  it('keeps the index in step with saved and deleted charts', async () => {
+    database = new ChartDatabase(dbPath);
+    await database.saveChart(createChart('a', { title: 'First Title' }));
+    await database.saveChart(createChart('a', { title: 'Second Title' }));
+
+    expect(await ids({ query: 'first' })).toEqual([]);
+    expect(await ids({ query: 'second' })).toEqual(['a']);
+
+    await database.deleteChart('a');
+    expect(await ids({ query: 'title' })).toEqual([]);
+  });
+
+  it('indexes charts saved before full-text search', async () => {
+    const legacy = new sqlite3.Database(dbPath);
+    await new Promise<void>((resolve, reject) => legacy.serialize(() => {
+      legacy.run(`CREATE TABLE charts (
+        id TEXT PRIMARY KEY, title TEXT NOT NULL, artist TEXT NOT NULL, bpm TEXT NOT NULL, difficulties TEXT,
+        downloadUrl TEXT, source TEXT NOT NULL, tags TEXT, previewImageUrl TEXT, originalPageUrl TEXT NOT NULL,
+        createdAt DATETIME DEFAULT CURRENT_TIMESTAMP, updatedAt DATETIME DEFAULT CURRENT_TIMESTAMP
+      )`);
+      legacy.run(`INSERT INTO charts (id, title, artist, bpm, difficulties, source, tags, originalPageUrl)
+        VALUES ('old', 'ニンジャ', 'Artist', '150', '[]', 'approved-dtx', '["anime"]', 'http://approvedtx.blogspot.com/')`);
+      legacy.close(err => err ? reject(err) : resolve());
+    }));
+
+    database = new ChartDatabase(dbPath);
+
+    expect(await ids({ query: 'ninja' })).toEqual(['old']);
+    expect(await ids({ query: 'anime' })).toEqual(['old']);
+  });
+});
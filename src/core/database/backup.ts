@@ -0,0 +1,278 @@
+/**
+ * Backing up, restoring and merging chart database files
+ *
+ * Copies go through SQLite's online backup API, so a database can be backed
+ * up or restored while the application has it open. Files being restored or
+ * merged are first copied to a temporary file and migrated there, which
+ * leaves the original untouched and lets older catalogues be combined with
+ * the current schema.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as sqlite3 from 'sqlite3';
+import { AppError, DatabaseBackupError } from '../errors';
+import { DatabaseMergeReport } from '../models';
+import { migrateDatabase } from './migrations';
+
+// Scraped fields compared to decide whether two copies of a chart differ
+const CHART_CONTENT_COLUMNS = [
+  'title', 'artist', 'bpm', 'difficulties', 'downloadUrl', 'source', 'tags', 'previewImageUrl', 'originalPageUrl'
+];
+
+// Tables holding details parsed from a chart's post, replaced along with the chart
+const CHART_DETAIL_TABLES = ['chart_variants', 'chart_difficulties'];
+
+const SCRAPING_PROGRESS_COLUMNS = ['page_number', 'scraped_at', 'charts_found', 'status', 'error_message'];
+
+/** The parts of node-sqlite3's Backup object used here; its typings omit it */
+interface OnlineBackup {
+  readonly completed: boolean;
+  step(pages: number, callback: (err: Error | null) => void): void;
+  finish(callback?: (err: Error | null) => void): void;
+}
+
+type BackupCapableDatabase = sqlite3.Database & {
+  backup(
+    filename: string,
+    destName: string,
+    sourceName: string,
+    filenameIsDest: boolean,
+    callback: (err: Error | null) => void
+  ): OnlineBackup;
+};
+
+/**
+ * Write a copy of the open database to a file, replacing the file if it
+ * exists. The copy is made next to the file and renamed over it once
+ * complete, so a failed backup leaves an existing file as it was.
+ */
+export async function backupDatabase(db: sqlite3.Database, destination: string): Promise<void> {
+  const partial = `${destination}.${process.pid}.partial`;
+  try {
+    await onlineBackup(db, partial, true);
+    fs.renameSync(partial, destination);
+  } catch (error) {
+    fs.rmSync(partial, { force: true });
+    throw toBackupError('backup', destination, error);
+  }
+}
+
+/**
+ * Replace the open database's contents with a backup file, upgrading the
+ * backup's schema if it was made by an older version of the application
+ */
+export async function restoreDatabase(db: sqlite3.Database, source: string): Promise<void> {
+  try {
+    const copy = await createMigratedCopy(source);
+    try {
+      await onlineBackup(db, copy, false);
+    } finally {
+      removeCopy(copy);
+    }
+  } catch (error) {
+    throw toBackupError('restore', source, error);
+  }
+}
+
+/**
+ * Merge another database's charts and scraping progress into the open one
+ *
+ * Charts only in the other database are added. Charts in both that differ
+ * take the copy with the later updatedAt; when the local copy is as recent
+ * or newer it is kept and reported as a conflict. Scraped pages are added
+ * or replaced by more recently scraped ones. Everything is merged in one
+ * transaction.
+ */
+export async function mergeDatabase(db: sqlite3.Database, source: string): Promise<DatabaseMergeReport> {
+  try {
+    const copy = await createMigratedCopy(source);
+    try {
+      await run(db, 'ATTACH DATABASE ? AS other', [copy]);
+      try {
+        await run(db, 'BEGIN TRANSACTION');
+        try {
+          const report = await mergeAttached(db);
+          await run(db, 'COMMIT');
+          return report;
+        } catch (error) {
+          await run(db, 'ROLLBACK').catch(() => undefined);
+          throw error;
+        }
+      } finally {
+        await run(db, 'DETACH DATABASE other');
+      }
+    } finally {
+      removeCopy(copy);
+    }
+  } catch (error) {
+    throw toBackupError('merge', source, error);
+  }
+}
+
+async function mergeAttached(db: sqlite3.Database): Promise<DatabaseMergeReport> {
+  const differs = CHART_CONTENT_COLUMNS.map(column => `o.${column} IS NOT c.${column}`).join(' OR ');
+
+  const added = await all(db, `
+    SELECT o.id FROM other.charts o
+    WHERE NOT EXISTS (SELECT 1 FROM main.charts c WHERE c.id = o.id)
+    ORDER BY o.id
+  `);
+  const shared = await all(db, `
+    SELECT o.id, c.updatedAt AS localUpdatedAt, o.updatedAt AS otherUpdatedAt,
+      (${differs}) AS differs,
+      julianday(o.updatedAt) > julianday(c.updatedAt) AS otherIsNewer
+    FROM other.charts o JOIN main.charts c ON c.id = o.id
+    ORDER BY o.id
+  `);
+
+  const changed = shared.filter(row => row.differs);
+  const updated = changed.filter(row => row.otherIsNewer);
+  const taken = [...added, ...updated].map(row => row.id as string);
+
+  if (taken.length > 0) {
+    await run(db, 'CREATE TEMP TABLE merged_charts (id TEXT PRIMARY KEY)');
+    await run(db, 'INSERT INTO temp.merged_charts (id) SELECT value FROM json_each(?)', [JSON.stringify(taken)]);
+
+    const chartColumns = await columnNames(db, 'charts');
+    await run(db, `
+      INSERT OR REPLACE INTO main.charts (${chartColumns})
+      SELECT ${chartColumns} FROM other.charts WHERE id IN (SELECT id FROM temp.merged_charts)
+    `);
+    for (const table of CHART_DETAIL_TABLES) {
+      const columns = await columnNames(db, table);
+      await run(db, `DELETE FROM main.${table} WHERE chart_id IN (SELECT id FROM temp.merged_charts)`);
+      await run(db, `
+        INSERT INTO main.${table} (${columns})
+        SELECT ${columns} FROM other.${table} WHERE chart_id IN (SELECT id FROM temp.merged_charts)
+      `);
+    }
+    await run(db, 'DROP TABLE temp.merged_charts');
+  }
+
+  const samePage = 'o.source = scraping_progress.source AND o.url = scraping_progress.url';
+  const updatedPages = await run(db, `
+    UPDATE main.scraping_progress
+    SET (${SCRAPING_PROGRESS_COLUMNS.join(', ')}) = (
+      SELECT ${SCRAPING_PROGRESS_COLUMNS.map(column => `o.${column}`).join(', ')}
+      FROM other.scraping_progress o WHERE ${samePage}
+    )
+    WHERE EXISTS (
+      SELECT 1 FROM other.scraping_progress o
+      WHERE ${samePage} AND julianday(o.scraped_at) > julianday(scraping_progress.scraped_at)
+    )
+  `);
+  const addedPages = await run(db, `
+    INSERT INTO main.scraping_progress (source, url, ${SCRAPING_PROGRESS_COLUMNS.join(', ')})
+    SELECT o.source, o.url, ${SCRAPING_PROGRESS_COLUMNS.map(column => `o.${column}`).join(', ')}
+    FROM other.scraping_progress o
+    WHERE NOT EXISTS (SELECT 1 FROM main.scraping_progress p WHERE p.source = o.source AND p.url = o.url)
+  `);
+
+  return {
+    added: added.map(row => row.id),
+    updated: updated.map(row => row.id),
+    conflicts: changed.filter(row => !row.otherIsNewer).map(row => ({
+      chartId: row.id,
+      localUpdatedAt: new Date(row.localUpdatedAt),
+      otherUpdatedAt: new Date(row.otherUpdatedAt)
+    })),
+    unchanged: shared.length - changed.length,
+    scrapedPages: { added: addedPages, updated: updatedPages }
+  };
+}
+
+/**
+ * Copy a database file to a temporary file and bring its schema up to date
+ */
+async function createMigratedCopy(source: string): Promise<string> {
+  if (!fs.existsSync(source)) {
+    throw new Error('file not found');
+  }
+
+  const copy = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'dtx-database-')), path.basename(source));
+  try {
+    const sourceDb = await open(source, sqlite3.OPEN_READONLY);
+    try {
+      await onlineBackup(sourceDb, copy, true);
+    } finally {
+      await close(sourceDb);
+    }
+
+    const copyDb = await open(copy, sqlite3.OPEN_READWRITE);
+    try {
+      await migrateDatabase(copyDb);
+    } finally {
+      await close(copyDb);
+    }
+    return copy;
+  } catch (error) {
+    removeCopy(copy);
+    throw error;
+  }
+}
+
+function removeCopy(copy: string): void {
+  fs.rmSync(path.dirname(copy), { recursive: true, force: true });
+}
+
+/**
+ * Copy the main database to a file, or a file into the main database
+ */
+function onlineBackup(db: sqlite3.Database, filename: string, filenameIsDest: boolean): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const backup = (db as BackupCapableDatabase).backup(filename, 'main', 'main', filenameIsDest, (initErr) => {
+      if (initErr) {
+        reject(initErr);
+        return;
+      }
+      backup.step(-1, (stepErr) => {
+        backup.finish((finishErr) => {
+          const err = stepErr || finishErr || (backup.completed ? null : new Error('backup did not complete'));
+          err ? reject(err) : resolve();
+        });
+      });
+    });
+  });
+}
+
+function toBackupError(operation: DatabaseBackupError['operation'], filePath: string, error: unknown): AppError {
+  if (error instanceof AppError) {
+    return error;
+  }
+  const cause = error instanceof Error ? error : new Error(String(error));
+  return new DatabaseBackupError(operation, filePath, cause.message, cause);
+}
+
+function open(filename: string, mode: number): Promise<sqlite3.Database> {
+  return new Promise((resolve, reject) => {
+    const db = new sqlite3.Database(filename, mode, (err) => err ? reject(err) : resolve(db));
+  });
+}
+
+function close(db: sqlite3.Database): Promise<void> {
+  return new Promise((resolve, reject) => db.close((err) => err ? reject(err) : resolve()));
+}
+
+/**
+ * Run a statement and resolve with the number of rows it changed
+ */
+function run(db: sqlite3.Database, sql: string, params: unknown[] = []): Promise<number> {
+  return new Promise((resolve, reject) => {
+    db.run(sql, params, function(err) {
+      err ? reject(err) : resolve(this.changes);
+    });
+  });
+}
+
+function all(db: sqlite3.Database, sql: string, params: unknown[] = []): Promise<any[]> {
+  return new Promise((resolve, reject) => {
+    db.all(sql, params, (err, rows) => err ? reject(err) : resolve(rows));
+  });
+}
+
+async function columnNames(db: sqlite3.Database, table: string): Promise<string> {
+  const columns = await all(db, `PRAGMA main.table_info(${table})`);
+  return columns.map(column => column.name).join(', ');
+}
@@ -0,0 +1,28 @@
+/**
+ * Numeric BPM ranges for chart BPM strings
+ *
+ * Charts with tempo changes list their BPM as a range ("70-189", "70~189").
+ * The database stores the lowest and highest tempo next to the string so
+ * BPM filters can match on range overlap.
+ */
+
+export interface BpmRange {
+  min: number;
+  max: number;
+}
+
+const BPM_RANGE = /^(\d+(?:\.\d+)?)(?:\s*[-~～〜]\s*(\d+(?:\.\d+)?))?$/;
+
+/**
+ * Lowest and highest tempo of a BPM string holding a single tempo ("150") or
+ * a range ("70-189", "189~70"). Anything else is unparsable and gives undefined.
+ */
+export function parseBpmRange(bpm: string): BpmRange | undefined {
+  const match = BPM_RANGE.exec(bpm.trim());
+  if (!match) {
+    return undefined;
+  }
+  const first = Number(match[1]);
+  const second = match[2] === undefined ? first : Number(match[2]);
+  return { min: Math.min(first, second), max: Math.max(first, second) };
+}
@@ -0,0 +1,43 @@
+/**
+ * Difficulty ratings by instrument and level
+ *
+ * Posts rate a chart as "2.70/5.20/7.00/8.10", one number per level from
+ * BASIC to MASTER, and some posts give such a line per instrument. Charts
+ * without per-instrument ratings are drum charts.
+ */
+
+import { ChartInstrument, ChartLevel, IChart, IChartDifficulty } from '../models';
+
+export const CHART_INSTRUMENTS: ChartInstrument[] = ['DRUMS', 'GUITAR', 'BASS'];
+
+export const CHART_LEVELS: ChartLevel[] = ['BASIC', 'ADVANCED', 'EXTREME', 'MASTER'];
+
+/**
+ * Ratings of one instrument, assigned to the levels in order from BASIC
+ */
+export function toChartDifficulties(values: number[], instrument: ChartInstrument = 'DRUMS'): IChartDifficulty[] {
+  return values.slice(0, CHART_LEVELS.length).map((value, i) => ({ instrument, level: CHART_LEVELS[i], value }));
+}
+
+/**
+ * The chart's ratings by instrument and level, read from its flat
+ * difficulties when it has none
+ */
+export function getChartDifficulties(chart: IChart): IChartDifficulty[] {
+  return chart.instrumentDifficulties ?? toChartDifficulties(chart.difficulties);
+}
+
+/**
+ * Instrument named by user input such as "drums" or "GUITAR"
+ */
+export function parseChartInstrument(value: string): ChartInstrument | undefined {
+  return CHART_INSTRUMENTS.find(instrument => instrument === value.trim().toUpperCase());
+}
+
+/**
+ * Level named by user input such as "master" or "EXT"
+ */
+export function parseChartLevel(value: string): ChartLevel | undefined {
+  const wanted = value.trim().toUpperCase();
+  return wanted.length >= 3 ? CHART_LEVELS.find(level => level.startsWith(wanted)) : undefined;
+}
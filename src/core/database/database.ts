@@ -3,176 +3,136 @@
  */
 
 import * as sqlite3 from 'sqlite3';
-import { IChart, ChartQueryOptions } from '../models';
-import { ChartValidationError } from '../errors';
+import * as path from 'path';
+import { IChart, ChartQueryOptions, ChartSortField, DatabaseMergeReport, IChartDifficulty, IChartDifficultyStats, IChartRevision, IChartVariant, IDownloadItem, IDownloadProgress, IDownloadRecord, ILibraryEntry, IScrapedPage, IScrapingStats } from '../models';
+import { ChartValidationError, DatabaseBackupError } from '../errors';
+import { IChartRepository, IDatabaseMaintenance, IDownloadQueueStore, IDownloadRecordStore, ILibraryStore, IScrapingProgressStore } from '../interfaces';
+import { backupDatabase, mergeDatabase, restoreDatabase } from './backup';
+import { parseBpmRange } from './bpm-range';
+import { getChartDifficulties } from './chart-difficulties';
+import { MigrationResult, SchemaStatus, SEARCH_COLUMNS, getSchemaStatus, migrateDatabase } from './migrations';
+import { MIN_INDEXED_TERM_LENGTH, SEARCH_WEIGHTS, getChartSearchText, searchTerms, toRomaji } from './search-text';
 
-export class ChartDatabase {
+// Variants of the selected chart as a JSON array, in post order
+const CHART_VARIANTS_COLUMN = `(
+  SELECT json_group_array(json_object('label', label, 'bpm', bpm, 'difficulties', json(difficulties), 'downloadUrl', download_url))
+  FROM (SELECT * FROM chart_variants v WHERE v.chart_id = charts.id ORDER BY v.position)
+) AS variants`;
+
+// ORDER BY expressions for the sortable chart fields; sortBy never reaches the SQL itself
+const CHART_SORT_COLUMNS: Record<ChartSortField, string> = {
+  title: 'title COLLATE NOCASE',
+  artist: 'artist COLLATE NOCASE',
+  bpm: 'minBpm',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+export const CHART_SORT_FIELDS = Object.keys(CHART_SORT_COLUMNS) as ChartSortField[];
+
+// Ratings of the selected chart by instrument and level as a JSON array
+const CHART_DIFFICULTIES_COLUMN = `(
+  SELECT json_group_array(json_object('instrument', instrument, 'level', level, 'value', value))
+  FROM (SELECT * FROM chart_difficulties d WHERE d.chart_id = charts.id ORDER BY d.rowid)
+) AS instrument_difficulties`;
+
+// Relevance of a search hit, weighting the index columns (lower is better)
+const SEARCH_RANK = `bm25(charts_fts, ${[SEARCH_WEIGHTS.title, SEARCH_WEIGHTS.artist, SEARCH_WEIGHTS.tags, SEARCH_WEIGHTS.romaji].join(', ')})`;
+
+export interface ChartDatabaseOptions {
+  /** Apply pending schema migrations when opening the database (default true) */
+  autoMigrate?: boolean;
+}
+
+export class ChartDatabase implements IChartRepository, IDownloadQueueStore, IDownloadRecordStore, ILibraryStore, IScrapingProgressStore, IDatabaseMaintenance {
   private db: sqlite3.Database;
   private initialized: Promise<void>;
 
-  constructor(dbPath: string = 'charts.db') {
+  constructor(private readonly dbPath: string = 'charts.db', options: ChartDatabaseOptions = {}) {
     this.db = new sqlite3.Database(dbPath);
-    this.initialized = this.initializeDatabase();
+    this.initialized = this.initializeDatabase(options.autoMigrate ?? true);
   }
 
   /**
-   * Initialize the database schema
+   * Prepare the connection and bring the schema up to date
    */
-  private async initializeDatabase(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      // Create charts table
-      const createChartsTable = `
-        CREATE TABLE IF NOT EXISTS charts (
-          id TEXT PRIMARY KEY,
-          title TEXT NOT NULL,
-          artist TEXT NOT NULL,
-          bpm TEXT NOT NULL,
-          difficulties TEXT, -- JSON string of difficulty array
-          downloadUrl TEXT, -- Now optional, can be NULL when no valid download source
-          source TEXT NOT NULL,
-          tags TEXT, -- JSON string of tags array
-          previewImageUrl TEXT,
-          originalPageUrl TEXT NOT NULL, -- Always required for re-scraping
-          createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
-          updatedAt DATETIME DEFAULT CURRENT_TIMESTAMP
-        )
-      `;
-
-      // Create scraping progress table
-      const createScrapingProgressTable = `
-        CREATE TABLE IF NOT EXISTS scraping_progress (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          source TEXT NOT NULL,
-          url TEXT NOT NULL,
-          page_number INTEGER,
-          scraped_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-          charts_found INTEGER DEFAULT 0,
-          status TEXT DEFAULT 'completed', -- 'completed', 'failed', 'partial'
-          error_message TEXT,
-          UNIQUE(source, url)
-        )
-      `;
+  private async initializeDatabase(autoMigrate: boolean): Promise<void> {
+    // Lets INSERT OR REPLACE fire the full-text index's delete trigger
+    await new Promise<void>((resolve, reject) => {
+      this.db.run('PRAGMA recursive_triggers = ON', (err) => err ? reject(err) : resolve());
+    });
 
-      // Create indexes for better query performance
-      const createIndexes = [
-        'CREATE INDEX IF NOT EXISTS idx_charts_source ON charts(source)',
-        'CREATE INDEX IF NOT EXISTS idx_charts_artist ON charts(artist)',
-        'CREATE INDEX IF NOT EXISTS idx_charts_title ON charts(title)',
-        'CREATE INDEX IF NOT EXISTS idx_charts_bpm ON charts(bpm)',
-        'CREATE INDEX IF NOT EXISTS idx_scraping_progress_source ON scraping_progress(source)',
-        'CREATE INDEX IF NOT EXISTS idx_scraping_progress_scraped_at ON scraping_progress(scraped_at)'
-      ];
+    if (autoMigrate) {
+      await this.applyMigrations();
+    }
 
-      this.db.serialize(() => {
-        this.db.run(createChartsTable, (err) => {
-          if (err) {
-            reject(err);
-            return;
-          }
-        });
-
-        this.db.run(createScrapingProgressTable, (err) => {
-          if (err) {
-            reject(err);
-            return;
-          }
-        });
+    console.log('✅ Database initialized');
+  }
 
-        // Run migrations for existing databases
-        // Note: Database migration temporarily disabled - will require DB wipe
-        // this.runMigrations();
+  /**
+   * Apply pending schema migrations, backing up a database that has any
+   */
+  private async applyMigrations(): Promise<MigrationResult> {
+    const inMemory = this.dbPath === '' || this.dbPath === ':memory:';
+    const result = await migrateDatabase(this.db, inMemory ? {} : { backupPath: this.timestampedBackupPath() });
 
-        createIndexes.forEach(sql => {
-          this.db.run(sql, (err) => {
-            if (err) {
-              reject(err);
-              return;
-            }
-          });
-        });
+    if (result.applied.length > 0) {
+      console.log(`🗄️  Database schema migrated from version ${result.fromVersion} to ${result.toVersion}`);
+    }
+    if (result.backupPath) {
+      console.log(`💾 Backup of the previous database: ${result.backupPath}`);
+    }
+    return result;
+  }
 
-        console.log('✅ Database initialized');
-        resolve();
-      });
-    });
+  /**
+   * Schema version of the database and the migrations still to apply
+   */
+  async getSchemaStatus(): Promise<SchemaStatus> {
+    await this.ensureInitialized();
+    return getSchemaStatus(this.db);
   }
 
   /**
-   * Run database migrations for schema updates
-   * Note: Temporarily disabled - requires database wipe for new schema
+   * Apply pending schema migrations; only needed with autoMigrate turned off
    */
-  /*
-  private runMigrations(): void {
-    // Migration 1: Remove downloadSourceMissing column and ensure originalPageUrl exists
-    // Note: SQLite doesn't support DROP COLUMN, so we'll work around the existing schema
-    
-    // First, add originalPageUrl if it doesn't exist
-    this.db.run(`
-      ALTER TABLE charts ADD COLUMN originalPageUrl TEXT
-    `, (err) => {
-      if (err && !err.message.includes('duplicate column name')) {
-        console.error('Migration error for originalPageUrl:', err.message);
-      }
-    });
+  async migrate(): Promise<MigrationResult> {
+    await this.ensureInitialized();
+    return this.applyMigrations();
+  }
 
-    // Migration 2: Allow downloadUrl to be NULL by updating existing NOT NULL constraint
-    // This requires recreating the table for SQLite
-    this.db.run(`
-      CREATE TABLE IF NOT EXISTS charts_new (
-        id TEXT PRIMARY KEY,
-        title TEXT NOT NULL,
-        artist TEXT NOT NULL,
-        bpm TEXT NOT NULL,
-        difficulties TEXT,
-        downloadUrl TEXT,
-        source TEXT NOT NULL,
-        tags TEXT,
-        previewImageUrl TEXT,
-        originalPageUrl TEXT NOT NULL,
-        createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
-        updatedAt DATETIME DEFAULT CURRENT_TIMESTAMP
-      )
-    `, (err) => {
-      if (err) {
-        console.error('Migration error creating new table:', err.message);
-        return;
-      }
+  /**
+   * Copy the database to a file while it stays open, next to the database by default
+   */
+  async backup(destination: string = this.timestampedBackupPath()): Promise<string> {
+    await this.ensureInitialized();
+    if (path.resolve(destination) === path.resolve(this.dbPath)) {
+      throw new DatabaseBackupError('backup', destination, 'cannot back up a database onto itself');
+    }
+    await backupDatabase(this.db, destination);
+    return destination;
+  }
 
-      // Copy data from old table, setting originalPageUrl to downloadUrl if missing
-      this.db.run(`
-        INSERT INTO charts_new (id, title, artist, bpm, difficulties, downloadUrl, source, tags, previewImageUrl, originalPageUrl, createdAt, updatedAt)
-        SELECT id, title, artist, bpm, difficulties, 
-               CASE WHEN downloadSourceMissing = 1 THEN NULL ELSE downloadUrl END,
-               source, tags, previewImageUrl, 
-               COALESCE(originalPageUrl, downloadUrl, 'unknown'),
-               createdAt, updatedAt
-        FROM charts
-        WHERE NOT EXISTS (SELECT 1 FROM charts_new WHERE charts_new.id = charts.id)
-      `, (err) => {
-        if (err) {
-          console.error('Migration error copying data:', err.message);
-          return;
-        }
+  /**
+   * Replace the database's contents with a backup, upgrading older backups
+   */
+  async restore(source: string): Promise<void> {
+    await this.ensureInitialized();
+    await restoreDatabase(this.db, source);
+  }
 
-        // Drop old table and rename new one
-        this.db.run(`DROP TABLE IF EXISTS charts`, (err) => {
-          if (err) {
-            console.error('Migration error dropping old table:', err.message);
-            return;
-          }
+  /**
+   * Merge another database's charts and scraping progress into this one
+   */
+  async merge(source: string): Promise<DatabaseMergeReport> {
+    await this.ensureInitialized();
+    return mergeDatabase(this.db, source);
+  }
 
-          this.db.run(`ALTER TABLE charts_new RENAME TO charts`, (err) => {
-            if (err) {
-              console.error('Migration error renaming table:', err.message);
-            } else {
-              console.log('✅ Database migration completed');
-            }
-          });
-        });
-      });
-    });
+  private timestampedBackupPath(): string {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    return `${this.dbPath}.${stamp}.bak`;
   }
-  */
 
   /**
    * Ensure database is initialized before operations
@@ -182,7 +142,7 @@ export class ChartDatabase {
   }
 
   /**
-   * Insert a new chart or update existing one
+   * Insert a new chart or update existing one, with its variants and ratings, in a transaction
    */
   async saveChart(chart: IChart): Promise<void> {
     await this.ensureInitialized();
@@ -190,30 +150,55 @@ export class ChartDatabase {
     return new Promise((resolve, reject) => {
       const sql = `
         INSERT OR REPLACE INTO charts (
-          id, title, artist, bpm, difficulties, downloadUrl, source, tags, previewImageUrl, originalPageUrl, createdAt, updatedAt
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+          id, title, artist, bpm, minBpm, maxBpm, difficulties, downloadUrl, source, tags, previewImageUrl, originalPageUrl, createdAt, updatedAt,
+          scrapedValues, ${SEARCH_COLUMNS.join(', ')}
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP, ?, ?, ?, ?, ?)
       `;
 
+      const bpmRange = parseBpmRange(chart.bpm);
+      const searchText = getChartSearchText(chart);
       const params = [
         chart.id,
         chart.title,
         chart.artist,
         chart.bpm,
+        bpmRange?.min ?? null,
+        bpmRange?.max ?? null,
         JSON.stringify(chart.difficulties || []),
         chart.downloadUrl || null, // Allow null for missing download sources
         chart.source,
         JSON.stringify(chart.tags || []),
         chart.previewImageUrl || null,
         chart.originalPageUrl, // Now required
-        chart.createdAt ? chart.createdAt.toISOString() : new Date().toISOString()
+        chart.createdAt ? chart.createdAt.toISOString() : new Date().toISOString(),
+        chart.scrapedValues ? JSON.stringify(chart.scrapedValues) : null,
+        searchText.title,
+        searchText.artist,
+        searchText.tags,
+        searchText.romaji
       ];
 
-      this.db.run(sql, params, function(err) {
-        if (err) {
-          reject(new ChartValidationError(`Failed to save chart: ${err.message}`));
-        } else {
-          resolve();
-        }
+      const db = this.db; // Capture reference for callbacks
+
+      let failed: Error | null = null;
+      db.serialize(() => {
+        db.run('BEGIN TRANSACTION');
+        this.saveChartVariants(chart, (err) => {
+          if (err && !failed) failed = err;
+        });
+        this.saveChartDifficulties(chart, (err) => {
+          if (err && !failed) failed = err;
+        });
+        db.run(sql, params, function(err) {
+          const error = err || failed;
+          if (error) {
+            db.run('ROLLBACK', () => {
+              reject(new ChartValidationError(`Failed to save chart: ${error.message}`));
+            });
+          } else {
+            db.run('COMMIT', (commitErr) => commitErr ? reject(new ChartValidationError(`Failed to save chart: ${commitErr.message}`)) : resolve());
+          }
+        });
       });
     });
   }
@@ -227,8 +212,9 @@ export class ChartDatabase {
     return new Promise((resolve) => {
       const sql = `
         INSERT OR REPLACE INTO charts (
-          id, title, artist, bpm, difficulties, downloadUrl, source, tags, previewImageUrl, originalPageUrl, createdAt, updatedAt
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+          id, title, artist, bpm, minBpm, maxBpm, difficulties, downloadUrl, source, tags, previewImageUrl, originalPageUrl, createdAt, updatedAt,
+          scrapedValues, ${SEARCH_COLUMNS.join(', ')}
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP, ?, ?, ?, ?, ?)
       `;
 
       const errors: string[] = [];
@@ -246,22 +232,40 @@ export class ChartDatabase {
         db.run('BEGIN TRANSACTION');
 
         for (const chart of charts) {
+          const bpmRange = parseBpmRange(chart.bpm);
+          const searchText = getChartSearchText(chart);
           const params = [
             chart.id,
             chart.title,
             chart.artist,
             chart.bpm,
+            bpmRange?.min ?? null,
+            bpmRange?.max ?? null,
             JSON.stringify(chart.difficulties || []),
             chart.downloadUrl || null, // Allow null for missing download sources
             chart.source,
             JSON.stringify(chart.tags || []),
             chart.previewImageUrl || null,
             chart.originalPageUrl, // Now required
-            chart.createdAt ? chart.createdAt.toISOString() : new Date().toISOString()
+            chart.createdAt ? chart.createdAt.toISOString() : new Date().toISOString(),
+            chart.scrapedValues ? JSON.stringify(chart.scrapedValues) : null,
+            searchText.title,
+            searchText.artist,
+            searchText.tags,
+            searchText.romaji
           ];
 
+          let detailError: Error | null = null;
+          this.saveChartVariants(chart, (err) => {
+            if (err && !detailError) detailError = err;
+          });
+          this.saveChartDifficulties(chart, (err) => {
+            if (err && !detailError) detailError = err;
+          });
+
           db.run(sql, params, function(err) {
             completed++;
+            err = err || detailError;
             if (err) {
               errors.push(`Chart ${chart.id}: ${err.message}`);
             } else {
@@ -285,6 +289,35 @@ export class ChartDatabase {
     });
   }
 
+  /**
+   * Replace the stored variants of a chart. Statements are queued on the
+   * connection, so callers run them inside serialize() before saving the chart.
+   */
+  private saveChartVariants(chart: IChart, callback: (err: Error | null) => void): void {
+    this.db.run('DELETE FROM chart_variants WHERE chart_id = ?', [chart.id], callback);
+    (chart.variants || []).forEach((variant, position) => {
+      this.db.run(
+        'INSERT INTO chart_variants (chart_id, position, label, bpm, difficulties, download_url) VALUES (?, ?, ?, ?, ?, ?)',
+        [chart.id, position, variant.label, variant.bpm, JSON.stringify(variant.difficulties), variant.downloadUrl ?? null],
+        callback
+      );
+    });
+  }
+
+  /**
+   * Replace the stored ratings of a chart, queued like the chart's variants
+   */
+  private saveChartDifficulties(chart: IChart, callback: (err: Error | null) => void): void {
+    this.db.run('DELETE FROM chart_difficulties WHERE chart_id = ?', [chart.id], callback);
+    for (const difficulty of getChartDifficulties(chart)) {
+      this.db.run(
+        'INSERT OR REPLACE INTO chart_difficulties (chart_id, instrument, level, value) VALUES (?, ?, ?, ?)',
+        [chart.id, difficulty.instrument, difficulty.level, difficulty.value],
+        callback
+      );
+    }
+  }
+
   /**
    * Get a chart by ID
    */
@@ -292,7 +325,7 @@ export class ChartDatabase {
     await this.ensureInitialized();
     
     return new Promise((resolve, reject) => {
-      const sql = 'SELECT * FROM charts WHERE id = ?';
+      const sql = `SELECT charts.*, ${CHART_VARIANTS_COLUMN}, ${CHART_DIFFICULTIES_COLUMN} FROM charts WHERE id = ?`;
       
       this.db.get(sql, [id], (err, row: any) => {
         if (err) {
@@ -313,47 +346,27 @@ export class ChartDatabase {
     await this.ensureInitialized();
     
     return new Promise((resolve, reject) => {
-      let sql = 'SELECT * FROM charts WHERE 1=1';
-      const params: any[] = [];
-
-      // Apply filters
-      if (options.source) {
-        sql += ' AND source = ?';
-        params.push(options.source);
-      }
-
-      if (options.artist) {
-        sql += ' AND artist LIKE ?';
-        params.push(`%${options.artist}%`);
-      }
-
-      if (options.title) {
-        sql += ' AND title LIKE ?';
-        params.push(`%${options.title}%`);
-      }
-
-      if (options.minBpm) {
-        sql += ' AND CAST(bpm AS INTEGER) >= ?';
-        params.push(options.minBpm);
-      }
-
-      if (options.maxBpm) {
-        sql += ' AND CAST(bpm AS INTEGER) <= ?';
-        params.push(options.maxBpm);
-      }
+      const filter = this.buildChartFilter(options);
+      let sql = `SELECT charts.*, ${CHART_VARIANTS_COLUMN}, ${CHART_DIFFICULTIES_COLUMN} ${filter.sql}`;
+      const params = filter.params;
 
       // Sorting
       if (options.sortBy) {
-        const sortOrder = options.sortOrder || 'ASC';
-        sql += ` ORDER BY ${options.sortBy} ${sortOrder}`;
+        const sortColumn = CHART_SORT_COLUMNS[options.sortBy];
+        if (!sortColumn) {
+          throw new ChartValidationError(`Cannot sort by "${options.sortBy}"`, 'sortBy');
+        }
+        sql += ` ORDER BY ${sortColumn} ${options.sortOrder === 'DESC' ? 'DESC' : 'ASC'}, id`;
+      } else if (filter.ranked) {
+        sql += ' ORDER BY search.rank, id';
       } else {
-        sql += ' ORDER BY createdAt DESC';
+        sql += ' ORDER BY createdAt DESC, id';
       }
 
-      // Pagination
-      if (options.limit) {
+      // Pagination (LIMIT -1 lets an offset apply without a limit)
+      if (options.limit || options.offset) {
         sql += ' LIMIT ?';
-        params.push(options.limit);
+        params.push(options.limit || -1);
 
         if (options.offset) {
           sql += ' OFFSET ?';
@@ -371,6 +384,143 @@ export class ChartDatabase {
     });
   }
 
+  /**
+   * FROM and WHERE clauses selecting the charts that match the filters; ranked
+   * when the clauses join full-text search hits
+   */
+  private buildChartFilter(options: ChartQueryOptions): { sql: string; params: any[]; ranked: boolean } {
+    let sql = 'FROM charts';
+    const params: any[] = [];
+
+    // Search terms must all match; long terms go through the full-text index,
+    // whose hits are joined with their relevance
+    const terms = options.query ? searchTerms(options.query) : [];
+    const indexedTerms = terms.filter(term => [...term].length >= MIN_INDEXED_TERM_LENGTH);
+    if (indexedTerms.length > 0) {
+      sql += ` JOIN (SELECT rowid, ${SEARCH_RANK} AS rank FROM charts_fts WHERE charts_fts MATCH ?) search ON search.rowid = charts.rowid`;
+      params.push(indexedTerms.map(term => this.toFtsTerm(term)).join(' AND '));
+    }
+    sql += ' WHERE 1=1';
+
+    // Apply filters
+    if (options.source) {
+      sql += ' AND source = ?';
+      params.push(options.source);
+    }
+
+    if (options.sources && options.sources.length > 0) {
+      sql += ` AND source IN (${options.sources.map(() => '?').join(', ')})`;
+      params.push(...options.sources);
+    }
+
+    for (const term of terms.filter(term => !indexedTerms.includes(term))) {
+      sql += ` AND (${SEARCH_COLUMNS.map(column => `${column} LIKE ?`).join(' OR ')})`;
+      params.push(...SEARCH_COLUMNS.map(() => `%${term}%`));
+    }
+
+    if (options.artist) {
+      sql += ' AND artist LIKE ?';
+      params.push(`%${options.artist}%`);
+    }
+
+    for (const title of [options.title, options.titleContains]) {
+      if (title) {
+        sql += ' AND title LIKE ?';
+        params.push(`%${title}%`);
+      }
+    }
+
+    if (options.bpm) {
+      sql += ' AND bpm = ?';
+      params.push(options.bpm);
+    }
+
+    // Charts must carry every requested tag
+    for (const tag of options.tags || []) {
+      sql += ' AND EXISTS (SELECT 1 FROM json_each(charts.tags) t WHERE t.value = ?)';
+      params.push(tag);
+    }
+
+    // BPM filters match charts whose tempo range overlaps the wanted range
+    if (options.minBpm) {
+      sql += ' AND maxBpm >= ?';
+      params.push(options.minBpm);
+    }
+
+    if (options.maxBpm) {
+      sql += ' AND minBpm <= ?';
+      params.push(options.maxBpm);
+    }
+
+    // Rating filters must all hold for the same instrument and level
+    const ratingConditions: string[] = [];
+    if (options.instrument) {
+      ratingConditions.push('d.instrument = ?');
+      params.push(options.instrument);
+    }
+    if (options.level) {
+      ratingConditions.push('d.level = ?');
+      params.push(options.level);
+    }
+    if (options.minDifficulty !== undefined) {
+      ratingConditions.push('d.value >= ?');
+      params.push(options.minDifficulty);
+    }
+    if (options.maxDifficulty !== undefined) {
+      ratingConditions.push('d.value <= ?');
+      params.push(options.maxDifficulty);
+    }
+    if (ratingConditions.length > 0) {
+      sql += ` AND EXISTS (SELECT 1 FROM chart_difficulties d WHERE d.chart_id = charts.id AND ${ratingConditions.join(' AND ')})`;
+    }
+
+    // Statistics filters must all hold for the same difficulty
+    const statConditions: string[] = [];
+    if (options.minPeakNps !== undefined) {
+      statConditions.push('s.peak_nps >= ?');
+      params.push(options.minPeakNps);
+    }
+    if (options.maxPeakNps !== undefined) {
+      statConditions.push('s.peak_nps <= ?');
+      params.push(options.maxPeakNps);
+    }
+    if (options.minNotes !== undefined) {
+      statConditions.push('s.total_notes >= ?');
+      params.push(options.minNotes);
+    }
+    if (options.maxNotes !== undefined) {
+      statConditions.push('s.total_notes <= ?');
+      params.push(options.maxNotes);
+    }
+    if (options.hasDoublePedal === true) {
+      statConditions.push('s.has_double_pedal = 1');
+    }
+    if (statConditions.length > 0) {
+      sql += ` AND EXISTS (SELECT 1 FROM chart_stats s WHERE s.chart_id = charts.id AND ${statConditions.join(' AND ')})`;
+    }
+    if (options.hasDoublePedal === false) {
+      sql += ' AND NOT EXISTS (SELECT 1 FROM chart_stats s WHERE s.chart_id = charts.id AND s.has_double_pedal = 1)';
+    }
+
+    if (options.owned !== undefined) {
+      sql += ` AND ${options.owned ? '' : 'NOT '}EXISTS (SELECT 1 FROM library l WHERE l.chart_id = charts.id)`;
+    }
+
+    return { sql, params, ranked: indexedTerms.length > 0 };
+  }
+
+  /**
+   * Full-text query for one search term, quoted so FTS5 syntax in it is taken
+   * literally. Kana terms also match the romaji column.
+   */
+  private toFtsTerm(term: string): string {
+    const quote = (text: string) => `"${text.replace(/"/g, '""')}"`;
+    const romaji = toRomaji(term);
+    return romaji !== term && [...romaji].length >= MIN_INDEXED_TERM_LENGTH
+      ? `(${quote(term)} OR romaji : ${quote(romaji)})`
+      : quote(term);
+  }
+
   /**
    * Get chart count by source
    */
@@ -441,16 +591,145 @@ export class ChartDatabase {
     return new Promise((resolve, reject) => {
       const sql = 'DELETE FROM charts WHERE id = ?';
       
-      this.db.run(sql, [id], function(err) {
+      this.db.serialize(() => {
+        this.db.run('DELETE FROM chart_stats WHERE chart_id = ?', [id]);
+        this.db.run('DELETE FROM chart_revisions WHERE chart_id = ?', [id]);
+        this.db.run('DELETE FROM chart_variants WHERE chart_id = ?', [id]);
+        this.db.run('DELETE FROM chart_difficulties WHERE chart_id = ?', [id]);
+        this.db.run(sql, [id], function(err) {
+          if (err) {
+            reject(err);
+          } else {
+            resolve(this.changes > 0);
+          }
+        });
+      });
+    });
+  }
+
+  /**
+   * Save a chart (IChartRepository)
+   */
+  async save(chart: IChart): Promise<void> {
+    await this.saveChart(chart);
+  }
+
+  /**
+   * Save charts in one transaction, failing if any chart fails (IChartRepository)
+   */
+  async saveBatch(charts: IChart[]): Promise<void> {
+    const { errors } = await this.saveCharts(charts);
+    if (errors.length > 0) {
+      throw new ChartValidationError(`Failed to save charts: ${errors.join('; ')}`);
+    }
+  }
+
+  /**
+   * Get a chart by ID (IChartRepository)
+   */
+  async findById(id: string): Promise<IChart | null> {
+    return this.getChart(id);
+  }
+
+  /**
+   * Query charts with filters (IChartRepository)
+   */
+  async findByFilters(filters: ChartQueryOptions): Promise<IChart[]> {
+    return this.queryCharts(filters);
+  }
+
+  /**
+   * Count charts matching filters, ignoring sorting and pagination (IChartRepository)
+   */
+  async count(filters: ChartQueryOptions = {}): Promise<number> {
+    await this.ensureInitialized();
+
+    return new Promise((resolve, reject) => {
+      const filter = this.buildChartFilter(filters);
+
+      this.db.get(`SELECT COUNT(*) as count ${filter.sql}`, filter.params, (err, row: any) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(row.count);
+        }
+      });
+    });
+  }
+
+  /**
+   * Check if a chart exists (IChartRepository)
+   */
+  async exists(id: string): Promise<boolean> {
+    return this.chartExists(id);
+  }
+
+  /**
+   * Delete a chart and its details (IChartRepository)
+   */
+  async delete(id: string): Promise<void> {
+    await this.deleteChart(id);
+  }
+
+  /**
+   * Delete every chart (IChartRepository)
+   */
+  async deleteAll(): Promise<number> {
+    return this.clearAllCharts();
+  }
+
+  /**
+   * Sources with stored charts, alphabetically (IChartRepository)
+   */
+  async getSources(): Promise<string[]> {
+    await this.ensureInitialized();
+
+    return new Promise((resolve, reject) => {
+      this.db.all('SELECT DISTINCT source FROM charts ORDER BY source', [], (err, rows: any[]) => {
         if (err) {
           reject(err);
         } else {
-          resolve(this.changes > 0);
+          resolve(rows.map(row => row.source));
         }
       });
     });
   }
 
+  /**
+   * Number of charts from each source (IChartRepository)
+   */
+  async countBySource(): Promise<Record<string, number>> {
+    return this.getChartCountBySource();
+  }
+
+  /**
+   * Replace the statistics of a chart (IChartRepository)
+   */
+  async saveStats(chartId: string, stats: IChartDifficultyStats[]): Promise<void> {
+    await this.saveChartStats(chartId, stats);
+  }
+
+  /**
+   * Get the statistics of a chart (IChartRepository)
+   */
+  async getStats(chartId: string): Promise<IChartDifficultyStats[]> {
+    return this.getChartStats(chartId);
+  }
+
+  /**
+   * Record an upstream chart revision (IChartRepository)
+   */
+  async saveRevision(revision: Omit<IChartRevision, 'id'>): Promise<void> {
+    await this.saveChartRevision(revision);
+  }
+
+  /**
+   * Recorded upstream chart revisions, newest first (IChartRepository)
+   */
+  async getRevisions(options: { chartId?: string; since?: Date } = {}): Promise<IChartRevision[]> {
+    return this.getChartRevisions(options);
+  }
+
   /**
    * Clear all charts from a specific source
    */
@@ -460,35 +739,345 @@ export class ChartDatabase {
     return new Promise((resolve, reject) => {
       const sql = 'DELETE FROM charts WHERE source = ?';
       
-      this.db.run(sql, [source], function(err) {
+      this.db.serialize(() => {
+        this.db.run('DELETE FROM chart_stats WHERE chart_id IN (SELECT id FROM charts WHERE source = ?)', [source]);
+        this.db.run('DELETE FROM chart_revisions WHERE chart_id IN (SELECT id FROM charts WHERE source = ?)', [source]);
+        this.db.run('DELETE FROM chart_variants WHERE chart_id IN (SELECT id FROM charts WHERE source = ?)', [source]);
+        this.db.run('DELETE FROM chart_difficulties WHERE chart_id IN (SELECT id FROM charts WHERE source = ?)', [source]);
+        this.db.run(sql, [source], function(err) {
+          if (err) {
+            reject(err);
+          } else {
+            resolve(this.changes);
+          }
+        });
+      });
+    });
+  }
+
+  /**
+   * Clear all charts from the database
+   */
+  async clearAllCharts(): Promise<number> {
+    await this.ensureInitialized();
+    
+    return new Promise((resolve, reject) => {
+      const sql = 'DELETE FROM charts';
+      
+      this.db.serialize(() => {
+        this.db.run('DELETE FROM chart_stats');
+        this.db.run('DELETE FROM chart_revisions');
+        this.db.run('DELETE FROM chart_variants');
+        this.db.run('DELETE FROM chart_difficulties');
+        this.db.run(sql, [], function(err) {
+          if (err) {
+            reject(err);
+          } else {
+            resolve(this.changes);
+          }
+        });
+      });
+    });
+  }
+
+  /**
+   * Replace the per-difficulty statistics stored for a chart
+   */
+  async saveChartStats(chartId: string, stats: IChartDifficultyStats[]): Promise<void> {
+    await this.ensureInitialized();
+    
+    return new Promise((resolve, reject) => {
+      const sql = `
+        INSERT OR REPLACE INTO chart_stats (
+          chart_id, file, level, lane_counts, total_notes, duration_seconds,
+          peak_nps, average_nps, bpm_changes, has_double_pedal, computed_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+      `;
+
+      const db = this.db;
+      let failed: Error | null = null;
+      const fail = (err: Error | null) => {
+        if (err && !failed) failed = err;
+      };
+
+      db.serialize(() => {
+        db.run('BEGIN TRANSACTION');
+        db.run('DELETE FROM chart_stats WHERE chart_id = ?', [chartId], fail);
+
+        for (const entry of stats) {
+          db.run(sql, [
+            chartId,
+            entry.file,
+            entry.level ?? null,
+            JSON.stringify(entry.laneCounts),
+            entry.totalNotes,
+            entry.durationSeconds,
+            entry.peakNps,
+            entry.averageNps,
+            JSON.stringify(entry.bpmChanges),
+            entry.hasDoublePedal ? 1 : 0
+          ], fail);
+        }
+
+        db.run('SELECT 1', [], () => {
+          if (failed) {
+            db.run('ROLLBACK', () => reject(failed));
+          } else {
+            db.run('COMMIT', (err) => err ? reject(err) : resolve());
+          }
+        });
+      });
+    });
+  }
+
+  /**
+   * Get the per-difficulty statistics for a chart, easiest first
+   */
+  async getChartStats(chartId: string): Promise<IChartDifficultyStats[]> {
+    await this.ensureInitialized();
+    
+    return new Promise((resolve, reject) => {
+      const sql = 'SELECT * FROM chart_stats WHERE chart_id = ? ORDER BY level IS NULL, level ASC, file ASC';
+      
+      this.db.all(sql, [chartId], (err, rows: any[]) => {
         if (err) {
           reject(err);
         } else {
-          resolve(this.changes);
+          resolve(rows.map(row => this.mapRowToChartStats(row)));
         }
       });
     });
   }
 
   /**
-   * Clear all charts from the database
+   * Record a finished chart download
    */
-  async clearAllCharts(): Promise<number> {
+  async saveDownloadRecord(record: Omit<IDownloadRecord, 'id'>): Promise<number> {
     await this.ensureInitialized();
     
     return new Promise((resolve, reject) => {
-      const sql = 'DELETE FROM charts';
+      const sql = `
+        INSERT INTO downloads (
+          chart_id, destination, file_path, extracted_paths, archive_hash, size_bytes, provider, variant, downloaded_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `;
+
+      const params = [
+        record.chartId,
+        record.destination,
+        record.filePath ?? null,
+        JSON.stringify(record.extractedPaths),
+        record.archiveHash ?? null,
+        record.sizeBytes,
+        record.provider ?? null,
+        record.variant ?? null,
+        record.downloadedAt.toISOString()
+      ];
+
+      this.db.run(sql, params, function(err) {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(this.lastID);
+        }
+      });
+    });
+  }
+
+  /**
+   * Get recorded downloads, newest first
+   */
+  async getDownloadHistory(options: { chartId?: string; limit?: number } = {}): Promise<IDownloadRecord[]> {
+    await this.ensureInitialized();
+    
+    return new Promise((resolve, reject) => {
+      let sql = 'SELECT * FROM downloads';
+      const params: any[] = [];
+
+      if (options.chartId) {
+        sql += ' WHERE chart_id = ?';
+        params.push(options.chartId);
+      }
+      sql += ' ORDER BY downloaded_at DESC, id DESC';
+      if (options.limit) {
+        sql += ' LIMIT ?';
+        params.push(options.limit);
+      }
+
+      this.db.all(sql, params, (err, rows: any[]) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(rows.map(row => this.mapRowToDownloadRecord(row)));
+        }
+      });
+    });
+  }
+
+  /**
+   * Record a change to a chart's upstream post
+   */
+  async saveChartRevision(revision: Omit<IChartRevision, 'id'>): Promise<number> {
+    await this.ensureInitialized();
+    
+    return new Promise((resolve, reject) => {
+      const sql = `
+        INSERT INTO chart_revisions (chart_id, changed_fields, previous_data, current_data, detected_at)
+        VALUES (?, ?, ?, ?, ?)
+      `;
+
+      const params = [
+        revision.chartId,
+        JSON.stringify(revision.changes),
+        JSON.stringify(revision.previous),
+        JSON.stringify(revision.current),
+        revision.detectedAt.toISOString()
+      ];
+
+      this.db.run(sql, params, function(err) {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(this.lastID);
+        }
+      });
+    });
+  }
+
+  /**
+   * Get recorded chart revisions, newest first
+   */
+  async getChartRevisions(options: { chartId?: string; since?: Date } = {}): Promise<IChartRevision[]> {
+    await this.ensureInitialized();
+    
+    return new Promise((resolve, reject) => {
+      let sql = 'SELECT * FROM chart_revisions WHERE 1=1';
+      const params: any[] = [];
+
+      if (options.chartId) {
+        sql += ' AND chart_id = ?';
+        params.push(options.chartId);
+      }
+      if (options.since) {
+        sql += ' AND detected_at > ?';
+        params.push(options.since.toISOString());
+      }
+      sql += ' ORDER BY detected_at DESC, id DESC';
+
+      this.db.all(sql, params, (err, rows: any[]) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(rows.map(row => this.mapRowToChartRevision(row)));
+        }
+      });
+    });
+  }
+
+  /**
+   * Get the song folders recorded by library scans, optionally only those under a folder
+   */
+  async getLibraryEntries(root?: string): Promise<ILibraryEntry[]> {
+    await this.ensureInitialized();
+    
+    return new Promise((resolve, reject) => {
+      let sql = 'SELECT * FROM library';
+      const params: any[] = [];
+
+      if (root) {
+        const prefix = this.libraryPrefix(root);
+        sql += ' WHERE path = ? OR substr(path, 1, ?) = ?';
+        params.push(path.resolve(root), prefix.length, prefix);
+      }
+      sql += ' ORDER BY path ASC';
+
+      this.db.all(sql, params, (err, rows: any[]) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(rows.map(row => this.mapRowToLibraryEntry(row)));
+        }
+      });
+    });
+  }
+
+  /**
+   * Replace the library entries under a scanned folder. Returns how many
+   * previously recorded folders are no longer there.
+   */
+  async replaceLibraryEntries(root: string, entries: ILibraryEntry[]): Promise<number> {
+    const previous = await this.getLibraryEntries(root);
+    const current = new Set(entries.map(entry => entry.path));
+    const removed = previous.filter(entry => !current.has(entry.path)).length;
+
+    return new Promise((resolve, reject) => {
+      const prefix = this.libraryPrefix(root);
+      const sql = `
+        INSERT OR REPLACE INTO library (
+          path, chart_id, title, artist, content_hash, matched_by, scanned_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?)
+      `;
+
+      const db = this.db;
+      let failed: Error | null = null;
+      const fail = (err: Error | null) => {
+        if (err && !failed) failed = err;
+      };
+
+      db.serialize(() => {
+        db.run('BEGIN TRANSACTION');
+        db.run('DELETE FROM library WHERE path = ? OR substr(path, 1, ?) = ?', [path.resolve(root), prefix.length, prefix], fail);
+
+        for (const entry of entries) {
+          db.run(sql, [
+            entry.path,
+            entry.chartId ?? null,
+            entry.title ?? null,
+            entry.artist ?? null,
+            entry.contentHash,
+            entry.matchedBy ?? null,
+            entry.scannedAt.toISOString()
+          ], fail);
+        }
+
+        db.run('SELECT 1', [], () => {
+          if (failed) {
+            db.run('ROLLBACK', () => reject(failed));
+          } else {
+            db.run('COMMIT', (err) => err ? reject(err) : resolve(removed));
+          }
+        });
+      });
+    });
+  }
+
+  /**
+   * IDs of the charts a library scan found installed
+   */
+  async getOwnedChartIds(): Promise<Set<string>> {
+    await this.ensureInitialized();
+    
+    return new Promise((resolve, reject) => {
+      const sql = 'SELECT DISTINCT chart_id FROM library WHERE chart_id IS NOT NULL';
       
-      this.db.run(sql, [], function(err) {
+      this.db.all(sql, [], (err, rows: any[]) => {
         if (err) {
           reject(err);
         } else {
-          resolve(this.changes);
+          resolve(new Set(rows.map(row => row.chart_id)));
         }
       });
     });
   }
 
+  /**
+   * Prefix shared by the paths of every folder inside root
+   */
+  private libraryPrefix(root: string): string {
+    const resolved = path.resolve(root);
+    return resolved.endsWith(path.sep) ? resolved : resolved + path.sep;
+  }
+
   /**
    * Record that a page has been scraped
    */
@@ -536,7 +1125,7 @@ export class ChartDatabase {
   /**
    * Get all scraped pages for a source
    */
-  async getScrapedPages(source: string): Promise<Array<{ url: string; pageNumber: number | null; scrapedAt: Date; chartsFound: number; status: string }>> {
+  async getScrapedPages(source: string): Promise<IScrapedPage[]> {
     await this.ensureInitialized();
     
     return new Promise((resolve, reject) => {
@@ -561,7 +1150,7 @@ export class ChartDatabase {
   /**
    * Get scraping statistics for a source
    */
-  async getScrapingStats(source: string): Promise<{ totalPages: number; completedPages: number; failedPages: number; totalCharts: number; lastScrapedAt: Date | null }> {
+  async getScrapingStats(source: string): Promise<IScrapingStats> {
     await this.ensureInitialized();
     
     return new Promise((resolve, reject) => {
@@ -611,10 +1200,114 @@ export class ChartDatabase {
     });
   }
 
+  /**
+   * Insert or update a download queue item
+   */
+  async saveQueueItem(item: IDownloadItem): Promise<void> {
+    await this.ensureInitialized();
+    
+    return new Promise((resolve, reject) => {
+      const sql = `
+        INSERT OR REPLACE INTO download_queue (
+          id, chart_id, chart_data, destination, status, downloaded_bytes, total_bytes,
+          error_message, retries, queued_at, started_at, completed_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `;
+
+      const params = [
+        item.id,
+        item.chart.id,
+        JSON.stringify(item.chart),
+        item.destination,
+        item.progress.status,
+        item.progress.downloaded,
+        item.progress.total ?? null,
+        item.progress.error || null,
+        item.retries,
+        item.queuedAt.toISOString(),
+        item.startedAt ? item.startedAt.toISOString() : null,
+        item.completedAt ? item.completedAt.toISOString() : null
+      ];
+
+      this.db.run(sql, params, function(err) {
+        if (err) {
+          reject(err);
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  /**
+   * Get a download queue item by ID
+   */
+  async getQueueItem(id: string): Promise<IDownloadItem | null> {
+    await this.ensureInitialized();
+    
+    return new Promise((resolve, reject) => {
+      const sql = 'SELECT * FROM download_queue WHERE id = ?';
+      
+      this.db.get(sql, [id], (err, row: any) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(row ? this.mapRowToQueueItem(row) : null);
+        }
+      });
+    });
+  }
+
+  /**
+   * Get all download queue items in the order they were queued
+   */
+  async getQueueItems(): Promise<IDownloadItem[]> {
+    await this.ensureInitialized();
+    
+    return new Promise((resolve, reject) => {
+      const sql = 'SELECT * FROM download_queue ORDER BY queued_at ASC, rowid ASC';
+      
+      this.db.all(sql, [], (err, rows: any[]) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(rows.map(row => this.mapRowToQueueItem(row)));
+        }
+      });
+    });
+  }
+
+  /**
+   * Delete download queue items with any of the given statuses
+   */
+  async deleteQueueItems(statuses: IDownloadProgress['status'][]): Promise<number> {
+    await this.ensureInitialized();
+    
+    if (statuses.length === 0) {
+      return 0;
+    }
+    
+    return new Promise((resolve, reject) => {
+      const placeholders = statuses.map(() => '?').join(', ');
+      const sql = `DELETE FROM download_queue WHERE status IN (${placeholders})`;
+      
+      this.db.run(sql, statuses, function(err) {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(this.changes);
+        }
+      });
+    });
+  }
+
   /**
    * Close database connection
    */
-  close(): Promise<void> {
+  async close(): Promise<void> {
+    // Let the initial backfills finish rather than run them on a closed handle
+    await this.initialized.catch(() => undefined);
+
     return new Promise((resolve, reject) => {
       this.db.close((err) => {
         if (err) {
@@ -630,6 +1323,11 @@ export class ChartDatabase {
    * Map database row to IChart object
    */
   private mapRowToChart(row: any): IChart {
+    const variants: IChartVariant[] = row.variants
+      ? JSON.parse(row.variants).map(({ downloadUrl, ...variant }: any) => ({ ...variant, ...(downloadUrl ? { downloadUrl } : {}) }))
+      : [];
+    const instrumentDifficulties: IChartDifficulty[] = row.instrument_difficulties ? JSON.parse(row.instrument_difficulties) : [];
+
     return {
       id: row.id,
       title: row.title,
@@ -642,7 +1340,114 @@ export class ChartDatabase {
       previewImageUrl: row.previewImageUrl || undefined,
       originalPageUrl: row.originalPageUrl, // Now required field
       createdAt: new Date(row.createdAt),
-      updatedAt: new Date(row.updatedAt)
+      updatedAt: new Date(row.updatedAt),
+      ...(instrumentDifficulties.length > 0 ? { instrumentDifficulties } : {}),
+      ...(variants.length > 0 ? { variants } : {}),
+      ...(row.scrapedValues ? { scrapedValues: JSON.parse(row.scrapedValues) } : {})
+    };
+  }
+
+  /**
+   * Map database row to IDownloadRecord object
+   */
+  private mapRowToDownloadRecord(row: any): IDownloadRecord {
+    return {
+      id: row.id,
+      chartId: row.chart_id,
+      destination: row.destination,
+      ...(row.file_path ? { filePath: row.file_path } : {}),
+      extractedPaths: JSON.parse(row.extracted_paths),
+      ...(row.archive_hash ? { archiveHash: row.archive_hash } : {}),
+      sizeBytes: row.size_bytes,
+      ...(row.provider ? { provider: row.provider } : {}),
+      ...(row.variant ? { variant: row.variant } : {}),
+      downloadedAt: new Date(row.downloaded_at)
     };
   }
+
+  /**
+   * Map database row to IChartRevision object
+   */
+  private mapRowToChartRevision(row: any): IChartRevision {
+    return {
+      id: row.id,
+      chartId: row.chart_id,
+      changes: JSON.parse(row.changed_fields),
+      previous: JSON.parse(row.previous_data),
+      current: JSON.parse(row.current_data),
+      detectedAt: new Date(row.detected_at)
+    };
+  }
+
+  /**
+   * Map database row to ILibraryEntry object
+   */
+  private mapRowToLibraryEntry(row: any): ILibraryEntry {
+    return {
+      path: row.path,
+      ...(row.chart_id ? { chartId: row.chart_id } : {}),
+      ...(row.title ? { title: row.title } : {}),
+      ...(row.artist ? { artist: row.artist } : {}),
+      contentHash: row.content_hash,
+      ...(row.matched_by ? { matchedBy: row.matched_by } : {}),
+      scannedAt: new Date(row.scanned_at)
+    };
+  }
+
+  /**
+   * Map database row to IChartDifficultyStats object
+   */
+  private mapRowToChartStats(row: any): IChartDifficultyStats {
+    return {
+      file: row.file,
+      ...(row.level !== null && row.level !== undefined ? { level: row.level } : {}),
+      laneCounts: JSON.parse(row.lane_counts),
+      totalNotes: row.total_notes,
+      durationSeconds: row.duration_seconds,
+      peakNps: row.peak_nps,
+      averageNps: row.average_nps,
+      bpmChanges: JSON.parse(row.bpm_changes),
+      hasDoublePedal: row.has_double_pedal === 1
+    };
+  }
+
+  /**
+   * Map database row to IDownloadItem object
+   */
+  private mapRowToQueueItem(row: any): IDownloadItem {
+    const chartData = JSON.parse(row.chart_data);
+    const progress: IDownloadProgress = {
+      downloaded: row.downloaded_bytes || 0,
+      status: row.status
+    };
+    
+    if (row.total_bytes !== null && row.total_bytes !== undefined) {
+      progress.total = row.total_bytes;
+    }
+    if (row.error_message) {
+      progress.error = row.error_message;
+    }
+    
+    const item: IDownloadItem = {
+      id: row.id,
+      chart: {
+        ...chartData,
+        createdAt: new Date(chartData.createdAt),
+        updatedAt: new Date(chartData.updatedAt)
+      },
+      destination: row.destination,
+      progress,
+      retries: row.retries || 0,
+      queuedAt: new Date(row.queued_at)
+    };
+    
+    if (row.started_at) {
+      item.startedAt = new Date(row.started_at);
+    }
+    if (row.completed_at) {
+      item.completedAt = new Date(row.completed_at);
+    }
+    
+    return item;
+  }
 }
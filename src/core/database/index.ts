@@ -1 +1,7 @@
 export * from './database';
+export * from './bpm-range';
+export * from './chart-difficulties';
+export * from './search-text';
+export * from './migrations';
+export * from './backup';
+export * from './memory-chart-repository';
@@ -0,0 +1,403 @@
+/**
+ * In-memory chart repository for tests and runs that should not touch disk
+ *
+ * Follows ChartDatabase's semantics: the same filters, sort fields and
+ * pagination, and search over the same normalised text, with ownership from
+ * the recorded library entries. Search relevance is approximated from
+ * weighted field matches rather than computed with bm25.
+ */
+
+import * as path from 'path';
+import { ChartValidationError } from '../errors';
+import { IChartRepository, IDownloadQueueStore, IDownloadRecordStore, ILibraryStore, IScrapingProgressStore } from '../interfaces';
+import {
+  ChartQueryOptions,
+  ChartSortField,
+  IChart,
+  IChartDifficulty,
+  IChartDifficultyStats,
+  IChartRevision,
+  IDownloadItem,
+  IDownloadProgress,
+  IDownloadRecord,
+  ILibraryEntry,
+  IScrapedPage,
+  IScrapingStats
+} from '../models';
+import { BpmRange, parseBpmRange } from './bpm-range';
+import { getChartDifficulties } from './chart-difficulties';
+import { ChartSearchText, MIN_INDEXED_TERM_LENGTH, SEARCH_WEIGHTS, getChartSearchText, searchTerms, toRomaji } from './search-text';
+
+interface StoredChart {
+  chart: IChart;
+  bpmRange: BpmRange | undefined;
+  difficulties: IChartDifficulty[];
+  search: ChartSearchText;
+}
+
+// Fields a chart must have, like the NOT NULL columns of the charts table
+const REQUIRED_FIELDS = ['id', 'title', 'artist', 'bpm', 'source', 'originalPageUrl'] as const;
+
+// SQLite's LIKE and NOCASE only fold ASCII letters
+const foldAscii = (text: string) => text.replace(/[A-Z]/g, letter => letter.toLowerCase());
+
+const compareValues = (a: string | number | null, b: string | number | null): number => {
+  if (a === b) return 0;
+  if (a === null) return -1; // NULL sorts first, as in SQLite
+  if (b === null) return 1;
+  return a < b ? -1 : 1;
+};
+
+const SORT_KEYS: Record<ChartSortField, (stored: StoredChart) => string | number | null> = {
+  title: stored => foldAscii(stored.chart.title),
+  artist: stored => foldAscii(stored.chart.artist),
+  bpm: stored => stored.bpmRange?.min ?? null,
+  createdAt: stored => stored.chart.createdAt.getTime(),
+  updatedAt: stored => stored.chart.updatedAt.getTime()
+};
+
+export class InMemoryChartRepository implements IChartRepository, IDownloadQueueStore, IDownloadRecordStore, ILibraryStore, IScrapingProgressStore {
+  private readonly charts = new Map<string, StoredChart>();
+  private readonly stats = new Map<string, IChartDifficultyStats[]>();
+  private readonly revisions: IChartRevision[] = [];
+  private readonly queue = new Map<string, IDownloadItem>();
+  private readonly downloads: IDownloadRecord[] = [];
+  private readonly library = new Map<string, ILibraryEntry>();
+  private readonly scrapedPages = new Map<string, Map<string, IScrapedPage>>();
+  private lastRevisionId = 0;
+
+  async save(chart: IChart): Promise<void> {
+    this.validate(chart, 'Failed to save chart');
+    this.store(chart);
+  }
+
+  async saveBatch(charts: IChart[]): Promise<void> {
+    const errors = charts.flatMap(chart => {
+      try {
+        this.validate(chart, `Chart ${chart.id}`);
+        return [];
+      } catch (error) {
+        return [(error as Error).message];
+      }
+    });
+    if (errors.length > 0) {
+      throw new ChartValidationError(`Failed to save charts: ${errors.join('; ')}`);
+    }
+
+    charts.forEach(chart => this.store(chart));
+  }
+
+  async findById(id: string): Promise<IChart | null> {
+    const stored = this.charts.get(id);
+    return stored ? copyChart(stored.chart) : null;
+  }
+
+  async findByFilters(filters: ChartQueryOptions): Promise<IChart[]> {
+    const { matches, ranked } = this.filter(filters);
+
+    if (filters.sortBy) {
+      const key = SORT_KEYS[filters.sortBy];
+      if (!key) {
+        throw new ChartValidationError(`Cannot sort by "${filters.sortBy}"`, 'sortBy');
+      }
+      const direction = filters.sortOrder === 'DESC' ? -1 : 1;
+      matches.sort((a, b) => direction * compareValues(key(a.stored), key(b.stored)) || compareValues(a.stored.chart.id, b.stored.chart.id));
+    } else if (ranked) {
+      matches.sort((a, b) => b.score - a.score || compareValues(a.stored.chart.id, b.stored.chart.id));
+    } else {
+      matches.sort((a, b) => b.stored.chart.createdAt.getTime() - a.stored.chart.createdAt.getTime() || compareValues(a.stored.chart.id, b.stored.chart.id));
+    }
+
+    let page = matches;
+    if (filters.limit || filters.offset) {
+      const offset = filters.offset || 0;
+      page = matches.slice(offset, filters.limit ? offset + filters.limit : undefined);
+    }
+
+    return page.map(match => copyChart(match.stored.chart));
+  }
+
+  async count(filters: ChartQueryOptions = {}): Promise<number> {
+    return this.filter(filters).matches.length;
+  }
+
+  async exists(id: string): Promise<boolean> {
+    return this.charts.has(id);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.charts.delete(id);
+    this.stats.delete(id);
+    this.revisions.splice(0, this.revisions.length, ...this.revisions.filter(revision => revision.chartId !== id));
+  }
+
+  async deleteAll(): Promise<number> {
+    const count = this.charts.size;
+    [...this.charts.keys()].forEach(id => this.delete(id));
+    return count;
+  }
+
+  async getSources(): Promise<string[]> {
+    return [...new Set([...this.charts.values()].map(stored => stored.chart.source))].sort();
+  }
+
+  async countBySource(): Promise<Record<string, number>> {
+    const counts: Record<string, number> = {};
+    for (const { chart } of this.charts.values()) {
+      counts[chart.source] = (counts[chart.source] || 0) + 1;
+    }
+    return counts;
+  }
+
+  async saveStats(chartId: string, stats: IChartDifficultyStats[]): Promise<void> {
+    this.stats.set(chartId, stats.map(entry => ({ ...entry })));
+  }
+
+  /**
+   * Statistics easiest first, like ChartDatabase
+   */
+  async getStats(chartId: string): Promise<IChartDifficultyStats[]> {
+    return (this.stats.get(chartId) || [])
+      .map(entry => ({ ...entry }))
+      .sort((a, b) => Number(a.level === undefined) - Number(b.level === undefined)
+        || compareValues(a.level ?? null, b.level ?? null)
+        || compareValues(a.file, b.file));
+  }
+
+  async saveRevision(revision: Omit<IChartRevision, 'id'>): Promise<void> {
+    this.revisions.push({ ...revision, id: ++this.lastRevisionId });
+  }
+
+  async getRevisions(options: { chartId?: string; since?: Date } = {}): Promise<IChartRevision[]> {
+    return this.revisions
+      .filter(revision => !options.chartId || revision.chartId === options.chartId)
+      .filter(revision => !options.since || revision.detectedAt > options.since)
+      .sort((a, b) => b.detectedAt.getTime() - a.detectedAt.getTime() || b.id - a.id);
+  }
+
+  async saveQueueItem(item: IDownloadItem): Promise<void> {
+    // Replacing moves the item behind others queued at the same time, like INSERT OR REPLACE
+    this.queue.delete(item.id);
+    this.queue.set(item.id, copyQueueItem(item));
+  }
+
+  async getQueueItem(id: string): Promise<IDownloadItem | null> {
+    const item = this.queue.get(id);
+    return item ? copyQueueItem(item) : null;
+  }
+
+  async getQueueItems(): Promise<IDownloadItem[]> {
+    return [...this.queue.values()]
+      .sort((a, b) => a.queuedAt.getTime() - b.queuedAt.getTime())
+      .map(copyQueueItem);
+  }
+
+  async deleteQueueItems(statuses: IDownloadProgress['status'][]): Promise<number> {
+    const removed = [...this.queue.values()].filter(item => statuses.includes(item.progress.status));
+    removed.forEach(item => this.queue.delete(item.id));
+    return removed.length;
+  }
+
+  async getDownloadHistory(options: { chartId?: string; limit?: number } = {}): Promise<IDownloadRecord[]> {
+    const records = this.downloads
+      .filter(record => !options.chartId || record.chartId === options.chartId)
+      .sort((a, b) => b.downloadedAt.getTime() - a.downloadedAt.getTime() || b.id - a.id);
+    return (options.limit ? records.slice(0, options.limit) : records).map(record => ({ ...record, extractedPaths: [...record.extractedPaths] }));
+  }
+
+  async saveDownloadRecord(record: Omit<IDownloadRecord, 'id'>): Promise<number> {
+    const id = this.downloads.length + 1;
+    this.downloads.push({ ...record, id, extractedPaths: [...record.extractedPaths] });
+    return id;
+  }
+
+  async getLibraryEntries(root?: string): Promise<ILibraryEntry[]> {
+    return [...this.library.values()]
+      .filter(entry => !root || isUnder(entry.path, root))
+      .sort((a, b) => compareValues(a.path, b.path))
+      .map(entry => ({ ...entry, scannedAt: new Date(entry.scannedAt) }));
+  }
+
+  async replaceLibraryEntries(root: string, entries: ILibraryEntry[]): Promise<number> {
+    const previous = await this.getLibraryEntries(root);
+    const current = new Set(entries.map(entry => entry.path));
+
+    previous.forEach(entry => this.library.delete(entry.path));
+    entries.forEach(entry => this.library.set(entry.path, { ...entry, scannedAt: new Date(entry.scannedAt) }));
+
+    return previous.filter(entry => !current.has(entry.path)).length;
+  }
+
+  async getOwnedChartIds(): Promise<Set<string>> {
+    return new Set([...this.library.values()].flatMap(entry => (entry.chartId ? [entry.chartId] : [])));
+  }
+
+  async recordPageScraped(source: string, url: string, pageNumber: number | null, chartsFound: number, status: 'completed' | 'failed' | 'partial' = 'completed'): Promise<void> {
+    const pages = this.scrapedPages.get(source) || new Map<string, IScrapedPage>();
+    pages.set(url, { url, pageNumber, scrapedAt: new Date(), chartsFound, status });
+    this.scrapedPages.set(source, pages);
+  }
+
+  async isPageScraped(source: string, url: string): Promise<boolean> {
+    return this.scrapedPages.get(source)?.get(url)?.status === 'completed';
+  }
+
+  async getScrapedPages(source: string): Promise<IScrapedPage[]> {
+    return [...(this.scrapedPages.get(source)?.values() || [])]
+      .map(page => ({ ...page, scrapedAt: new Date(page.scrapedAt) }))
+      .sort((a, b) => b.scrapedAt.getTime() - a.scrapedAt.getTime());
+  }
+
+  async getScrapingStats(source: string): Promise<IScrapingStats> {
+    const pages = await this.getScrapedPages(source);
+    return {
+      totalPages: pages.length,
+      completedPages: pages.filter(page => page.status === 'completed').length,
+      failedPages: pages.filter(page => page.status === 'failed').length,
+      totalCharts: pages.reduce((total, page) => total + page.chartsFound, 0),
+      lastScrapedAt: pages[0]?.scrapedAt ?? null
+    };
+  }
+
+  async clearScrapingProgress(source: string): Promise<number> {
+    const count = this.scrapedPages.get(source)?.size ?? 0;
+    this.scrapedPages.delete(source);
+    return count;
+  }
+
+  private validate(chart: IChart, context: string): void {
+    const missing = REQUIRED_FIELDS.find(field => chart[field] === undefined || chart[field] === null);
+    if (missing) {
+      throw new ChartValidationError(`${context}: ${missing} is required`, missing);
+    }
+  }
+
+  private store(chart: IChart): void {
+    const difficulties = getChartDifficulties(chart);
+    const { instrumentDifficulties: _instrumentDifficulties, variants, ...fields } = copyChart(chart);
+
+    this.charts.set(chart.id, {
+      chart: {
+        ...fields,
+        createdAt: chart.createdAt ? new Date(chart.createdAt) : new Date(),
+        updatedAt: new Date(),
+        ...(difficulties.length > 0 ? { instrumentDifficulties: difficulties.map(difficulty => ({ ...difficulty })) } : {}),
+        ...(variants && variants.length > 0 ? { variants } : {})
+      },
+      bpmRange: parseBpmRange(chart.bpm),
+      difficulties,
+      search: getChartSearchText(chart)
+    });
+  }
+
+  /**
+   * Charts matching the filters with their search relevance, in insertion order
+   */
+  private filter(options: ChartQueryOptions): { matches: Array<{ stored: StoredChart; score: number }>; ranked: boolean } {
+    const terms = options.query ? searchTerms(options.query) : [];
+    const indexedTerms = terms.filter(term => [...term].length >= MIN_INDEXED_TERM_LENGTH);
+    const like = (value: string, pattern: string) => foldAscii(value).includes(foldAscii(pattern));
+
+    const ratingFilter = Boolean(options.instrument || options.level)
+      || options.minDifficulty !== undefined || options.maxDifficulty !== undefined;
+    const statsFilter = options.minPeakNps !== undefined || options.maxPeakNps !== undefined
+      || options.minNotes !== undefined || options.maxNotes !== undefined || options.hasDoublePedal === true;
+
+    const owned = new Set([...this.library.values()].flatMap(entry => (entry.chartId ? [entry.chartId] : [])));
+
+    const matches: Array<{ stored: StoredChart; score: number }> = [];
+    for (const stored of this.charts.values()) {
+      const { chart, bpmRange, search } = stored;
+      const stats = this.stats.get(chart.id) || [];
+
+      if (!terms.every(term => matchesTerm(search, term))) continue;
+      if (options.source && chart.source !== options.source) continue;
+      if (options.sources && options.sources.length > 0 && !options.sources.includes(chart.source)) continue;
+      if (options.artist && !like(chart.artist, options.artist)) continue;
+      if ([options.title, options.titleContains].some(title => title && !like(chart.title, title))) continue;
+      if (options.bpm && chart.bpm !== options.bpm) continue;
+      if (!(options.tags || []).every(tag => (chart.tags || []).includes(tag))) continue;
+
+      // BPM filters match charts whose tempo range overlaps the wanted range
+      if (options.minBpm && !(bpmRange && bpmRange.max >= options.minBpm)) continue;
+      if (options.maxBpm && !(bpmRange && bpmRange.min <= options.maxBpm)) continue;
+
+      // Rating filters must all hold for the same instrument and level
+      if (ratingFilter && !stored.difficulties.some(difficulty =>
+        (!options.instrument || difficulty.instrument === options.instrument)
+        && (!options.level || difficulty.level === options.level)
+        && (options.minDifficulty === undefined || difficulty.value >= options.minDifficulty)
+        && (options.maxDifficulty === undefined || difficulty.value <= options.maxDifficulty)
+      )) continue;
+
+      // Statistics filters must all hold for the same difficulty
+      if (statsFilter && !stats.some(entry =>
+        (options.minPeakNps === undefined || entry.peakNps >= options.minPeakNps)
+        && (options.maxPeakNps === undefined || entry.peakNps <= options.maxPeakNps)
+        && (options.minNotes === undefined || entry.totalNotes >= options.minNotes)
+        && (options.maxNotes === undefined || entry.totalNotes <= options.maxNotes)
+        && (options.hasDoublePedal !== true || entry.hasDoublePedal)
+      )) continue;
+      if (options.hasDoublePedal === false && stats.some(entry => entry.hasDoublePedal)) continue;
+
+      if (options.owned !== undefined && owned.has(chart.id) !== options.owned) continue;
+
+      matches.push({ stored, score: relevance(search, indexedTerms) });
+    }
+
+    return { matches, ranked: indexedTerms.length > 0 };
+  }
+}
+
+/**
+ * Whether a library path is the folder itself or inside it, like ChartDatabase's prefix match
+ */
+function isUnder(entryPath: string, root: string): boolean {
+  const resolved = path.resolve(root);
+  const prefix = resolved.endsWith(path.sep) ? resolved : resolved + path.sep;
+  return entryPath === resolved || entryPath.startsWith(prefix);
+}
+
+/**
+ * Whether a normalised search term matches like ChartDatabase's search: a
+ * substring of any field, and for long kana terms also of the romaji field
+ */
+function matchesTerm(search: ChartSearchText, term: string): boolean {
+  if (Object.values(search).some(text => text.includes(term))) {
+    return true;
+  }
+
+  const romaji = toRomaji(term);
+  return [...term].length >= MIN_INDEXED_TERM_LENGTH
+    && romaji !== term
+    && [...romaji].length >= MIN_INDEXED_TERM_LENGTH
+    && search.romaji.includes(romaji);
+}
+
+function relevance(search: ChartSearchText, terms: string[]): number {
+  let score = 0;
+  for (const term of terms) {
+    for (const field of Object.keys(SEARCH_WEIGHTS) as Array<keyof ChartSearchText>) {
+      if (search[field].includes(term)) {
+        score += SEARCH_WEIGHTS[field];
+      }
+    }
+  }
+  return score;
+}
+
+function copyChart(chart: IChart): IChart {
+  return {
+    ...chart,
+    difficulties: [...(chart.difficulties || [])],
+    tags: [...(chart.tags || [])],
+    ...(chart.instrumentDifficulties ? { instrumentDifficulties: chart.instrumentDifficulties.map(difficulty => ({ ...difficulty })) } : {}),
+    ...(chart.variants ? { variants: chart.variants.map(variant => ({ ...variant, difficulties: [...variant.difficulties] })) } : {}),
+    ...(chart.scrapedValues ? { scrapedValues: { ...chart.scrapedValues } } : {})
+  };
+}
+
+function copyQueueItem(item: IDownloadItem): IDownloadItem {
+  const { speed: _speed, eta: _eta, ...progress } = item.progress;
+  return { ...item, chart: copyChart(item.chart), progress };
+}
@@ -0,0 +1,473 @@
+/**
+ * Versioned schema migrations for the chart database
+ *
+ * Each migration upgrades the schema by one version and runs in its own
+ * transaction together with its schema_version row, so a failed migration
+ * leaves the database at the previous version. Databases created before
+ * schema versions were recorded start from version 0; the early migrations
+ * therefore tolerate tables and columns that already exist.
+ */
+
+import * as sqlite3 from 'sqlite3';
+import { DatabaseMigrationError } from '../errors';
+import { parseBpmRange } from './bpm-range';
+import { CHART_LEVELS } from './chart-difficulties';
+import { getChartSearchText } from './search-text';
+
+export interface Migration {
+  version: number;
+  description: string;
+  up(db: sqlite3.Database): Promise<void>;
+}
+
+export interface AppliedMigration {
+  version: number;
+  description: string;
+  appliedAt: Date;
+}
+
+export interface SchemaStatus {
+  currentVersion: number;
+  latestVersion: number;
+  applied: AppliedMigration[];
+  pending: Array<Pick<Migration, 'version' | 'description'>>;
+}
+
+export interface MigrationResult {
+  fromVersion: number;
+  toVersion: number;
+  applied: number[];
+  backupPath?: string;
+}
+
+// Normalised search text columns of the charts table, in the order of the full-text index columns
+export const SEARCH_COLUMNS = ['searchTitle', 'searchArtist', 'searchTags', 'searchRomaji'];
+
+const createSchemaVersionTable = `
+  CREATE TABLE IF NOT EXISTS schema_version (
+    version INTEGER PRIMARY KEY,
+    description TEXT NOT NULL,
+    applied_at DATETIME NOT NULL
+  )
+`;
+
+// Charts table as first released; later columns are added by migrations
+const createChartsTable = (name: string) => `
+  CREATE TABLE IF NOT EXISTS ${name} (
+    id TEXT PRIMARY KEY,
+    title TEXT NOT NULL,
+    artist TEXT NOT NULL,
+    bpm TEXT NOT NULL,
+    difficulties TEXT, -- JSON string of difficulty array
+    downloadUrl TEXT, -- Now optional, can be NULL when no valid download source
+    source TEXT NOT NULL,
+    tags TEXT, -- JSON string of tags array
+    previewImageUrl TEXT,
+    originalPageUrl TEXT NOT NULL, -- Always required for re-scraping
+    createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updatedAt DATETIME DEFAULT CURRENT_TIMESTAMP
+  )
+`;
+
+const createChartsIndexes = [
+  'CREATE INDEX IF NOT EXISTS idx_charts_source ON charts(source)',
+  'CREATE INDEX IF NOT EXISTS idx_charts_artist ON charts(artist)',
+  'CREATE INDEX IF NOT EXISTS idx_charts_title ON charts(title)',
+  'CREATE INDEX IF NOT EXISTS idx_charts_bpm ON charts(bpm)'
+];
+
+// Drum ratings for charts saved before ratings were stored by instrument
+const FILL_CHART_DIFFICULTIES = `
+  INSERT INTO chart_difficulties (chart_id, instrument, level, value)
+  SELECT c.id, 'DRUMS', CASE j.key ${CHART_LEVELS.map((level, i) => `WHEN ${i} THEN '${level}'`).join(' ')} END, j.value
+  FROM charts c, json_each(CASE WHEN json_valid(c.difficulties) THEN c.difficulties ELSE '[]' END) j
+  WHERE j.key < ${CHART_LEVELS.length} AND NOT EXISTS (SELECT 1 FROM chart_difficulties d WHERE d.chart_id = c.id)
+`;
+
+const FTS_VALUES = SEARCH_COLUMNS.map(column => `new.${column}`).join(', ');
+
+// Full-text index triggers; the connection enables recursive_triggers so that
+// INSERT OR REPLACE fires the delete trigger
+const CHARTS_FTS_TRIGGERS = [
+  `CREATE TRIGGER IF NOT EXISTS charts_fts_insert AFTER INSERT ON charts BEGIN
+    INSERT INTO charts_fts (rowid, title, artist, tags, romaji) VALUES (new.rowid, ${FTS_VALUES});
+  END`,
+  `CREATE TRIGGER IF NOT EXISTS charts_fts_delete AFTER DELETE ON charts BEGIN
+    DELETE FROM charts_fts WHERE rowid = old.rowid;
+  END`,
+  `CREATE TRIGGER IF NOT EXISTS charts_fts_update AFTER UPDATE ON charts BEGIN
+    DELETE FROM charts_fts WHERE rowid = old.rowid;
+    INSERT INTO charts_fts (rowid, title, artist, tags, romaji) VALUES (new.rowid, ${FTS_VALUES});
+  END`
+];
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create charts and scraping progress tables',
+    async up(db) {
+      await run(db, createChartsTable('charts'));
+      await run(db, `
+        CREATE TABLE IF NOT EXISTS scraping_progress (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          source TEXT NOT NULL,
+          url TEXT NOT NULL,
+          page_number INTEGER,
+          scraped_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          charts_found INTEGER DEFAULT 0,
+          status TEXT DEFAULT 'completed', -- 'completed', 'failed', 'partial'
+          error_message TEXT,
+          UNIQUE(source, url)
+        )
+      `);
+      await runAll(db, [
+        ...createChartsIndexes,
+        'CREATE INDEX IF NOT EXISTS idx_scraping_progress_source ON scraping_progress(source)',
+        'CREATE INDEX IF NOT EXISTS idx_scraping_progress_scraped_at ON scraping_progress(scraped_at)'
+      ]);
+    }
+  },
+  {
+    version: 2,
+    description: 'Make chart download URLs optional and require the original page URL',
+    async up(db) {
+      // Charts tables from before originalPageUrl flagged missing downloads with
+      // downloadSourceMissing and required downloadUrl. SQLite cannot change
+      // column constraints, so the table is copied into the current shape.
+      const columns = await all(db, 'PRAGMA table_info(charts)');
+      const column = (name: string) => columns.find(info => info.name === name);
+      if (column('originalPageUrl') && !column('downloadSourceMissing') && !column('downloadUrl')?.notnull) {
+        return;
+      }
+
+      const downloadUrl = column('downloadSourceMissing')
+        ? 'CASE WHEN downloadSourceMissing = 1 THEN NULL ELSE downloadUrl END'
+        : 'downloadUrl';
+      const originalPageUrl = column('originalPageUrl')
+        ? "COALESCE(originalPageUrl, downloadUrl, 'unknown')"
+        : "COALESCE(downloadUrl, 'unknown')";
+
+      await run(db, createChartsTable('charts_new'));
+      await run(db, `
+        INSERT INTO charts_new (id, title, artist, bpm, difficulties, downloadUrl, source, tags, previewImageUrl, originalPageUrl, createdAt, updatedAt)
+        SELECT id, title, artist, bpm, difficulties, ${downloadUrl}, source, tags, previewImageUrl, ${originalPageUrl}, createdAt, updatedAt
+        FROM charts
+      `);
+      await run(db, 'DROP TABLE charts');
+      await run(db, 'ALTER TABLE charts_new RENAME TO charts');
+      await runAll(db, createChartsIndexes);
+    }
+  },
+  {
+    version: 3,
+    description: 'Create download queue table',
+    async up(db) {
+      await run(db, `
+        CREATE TABLE IF NOT EXISTS download_queue (
+          id TEXT PRIMARY KEY,
+          chart_id TEXT NOT NULL,
+          chart_data TEXT NOT NULL, -- JSON snapshot of the chart at enqueue time
+          destination TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending', -- 'pending', 'downloading', 'completed', 'failed', 'cancelled'
+          downloaded_bytes INTEGER DEFAULT 0,
+          total_bytes INTEGER,
+          error_message TEXT,
+          retries INTEGER DEFAULT 0,
+          queued_at DATETIME NOT NULL,
+          started_at DATETIME,
+          completed_at DATETIME
+        )
+      `);
+      await run(db, 'CREATE INDEX IF NOT EXISTS idx_download_queue_status ON download_queue(status)');
+    }
+  },
+  {
+    version: 4,
+    description: 'Create chart statistics table',
+    async up(db) {
+      await run(db, `
+        CREATE TABLE IF NOT EXISTS chart_stats (
+          chart_id TEXT NOT NULL,
+          file TEXT NOT NULL,
+          level REAL,
+          lane_counts TEXT NOT NULL, -- JSON object of notes per drum lane
+          total_notes INTEGER NOT NULL,
+          duration_seconds REAL NOT NULL,
+          peak_nps REAL NOT NULL,
+          average_nps REAL NOT NULL,
+          bpm_changes TEXT NOT NULL, -- JSON array of { time, bpm }
+          has_double_pedal INTEGER NOT NULL DEFAULT 0,
+          computed_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (chart_id, file)
+        )
+      `);
+      await run(db, 'CREATE INDEX IF NOT EXISTS idx_chart_stats_peak_nps ON chart_stats(peak_nps)');
+    }
+  },
+  {
+    version: 5,
+    description: 'Create library table',
+    async up(db) {
+      await run(db, `
+        CREATE TABLE IF NOT EXISTS library (
+          path TEXT PRIMARY KEY, -- absolute song folder path
+          chart_id TEXT, -- matched chart, NULL when no chart record matched
+          title TEXT,
+          artist TEXT,
+          content_hash TEXT NOT NULL, -- SHA-1 over the folder's chart files
+          matched_by TEXT, -- 'hash', 'title-artist'
+          scanned_at DATETIME NOT NULL
+        )
+      `);
+      await runAll(db, [
+        'CREATE INDEX IF NOT EXISTS idx_library_chart_id ON library(chart_id)',
+        'CREATE INDEX IF NOT EXISTS idx_library_content_hash ON library(content_hash)'
+      ]);
+    }
+  },
+  {
+    version: 6,
+    description: 'Create download history table',
+    async up(db) {
+      await run(db, `
+        CREATE TABLE IF NOT EXISTS downloads (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          chart_id TEXT NOT NULL,
+          destination TEXT NOT NULL, -- download directory
+          file_path TEXT, -- archive or folder written by the download
+          extracted_paths TEXT NOT NULL, -- JSON array of top-level extracted files and folders
+          archive_hash TEXT, -- SHA-256 of the downloaded archive
+          size_bytes INTEGER NOT NULL DEFAULT 0,
+          provider TEXT,
+          downloaded_at DATETIME NOT NULL
+        )
+      `);
+      await runAll(db, [
+        'CREATE INDEX IF NOT EXISTS idx_downloads_chart_id ON downloads(chart_id)',
+        'CREATE INDEX IF NOT EXISTS idx_downloads_downloaded_at ON downloads(downloaded_at)'
+      ]);
+    }
+  },
+  {
+    version: 7,
+    description: 'Create chart revisions table',
+    async up(db) {
+      await run(db, `
+        CREATE TABLE IF NOT EXISTS chart_revisions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          chart_id TEXT NOT NULL,
+          changed_fields TEXT NOT NULL, -- JSON array of changed chart fields
+          previous_data TEXT NOT NULL, -- JSON snapshot of the stored fields
+          current_data TEXT NOT NULL, -- JSON snapshot of the scraped fields
+          detected_at DATETIME NOT NULL
+        )
+      `);
+      await run(db, 'CREATE INDEX IF NOT EXISTS idx_chart_revisions_chart_id ON chart_revisions(chart_id)');
+    }
+  },
+  {
+    version: 8,
+    description: 'Create chart variants table and record downloaded variants',
+    async up(db) {
+      await run(db, `
+        CREATE TABLE IF NOT EXISTS chart_variants (
+          chart_id TEXT NOT NULL,
+          position INTEGER NOT NULL, -- order in the post
+          label TEXT NOT NULL,
+          bpm TEXT NOT NULL,
+          difficulties TEXT NOT NULL, -- JSON string of difficulty array
+          download_url TEXT, -- NULL when the version shares the post's download link
+          PRIMARY KEY (chart_id, position)
+        )
+      `);
+      await addColumn(db, 'downloads', 'variant TEXT'); // label of the downloaded chart variant
+    }
+  },
+  {
+    version: 9,
+    description: 'Store chart BPM ranges numerically',
+    async up(db) {
+      await addColumn(db, 'charts', 'minBpm REAL'); // Lowest tempo of the BPM string
+      await addColumn(db, 'charts', 'maxBpm REAL'); // Highest tempo of the BPM string
+
+      const rows = await all(db, 'SELECT id, bpm FROM charts WHERE minBpm IS NULL');
+      for (const row of rows) {
+        const range = parseBpmRange(row.bpm);
+        if (range) {
+          await run(db, 'UPDATE charts SET minBpm = ?, maxBpm = ? WHERE id = ?', [range.min, range.max, row.id]);
+        }
+      }
+
+      await run(db, 'CREATE INDEX IF NOT EXISTS idx_charts_bpm_range ON charts(minBpm, maxBpm)');
+    }
+  },
+  {
+    version: 10,
+    description: 'Store chart ratings by instrument and level',
+    async up(db) {
+      await run(db, `
+        CREATE TABLE IF NOT EXISTS chart_difficulties (
+          chart_id TEXT NOT NULL,
+          instrument TEXT NOT NULL, -- 'DRUMS', 'GUITAR' or 'BASS'
+          level TEXT NOT NULL, -- 'BASIC', 'ADVANCED', 'EXTREME' or 'MASTER'
+          value REAL NOT NULL,
+          PRIMARY KEY (chart_id, instrument, level)
+        )
+      `);
+      await run(db, FILL_CHART_DIFFICULTIES);
+      await run(db, 'CREATE INDEX IF NOT EXISTS idx_chart_difficulties_value ON chart_difficulties(instrument, level, value)');
+    }
+  },
+  {
+    version: 11,
+    description: 'Add full-text search over normalised chart text',
+    async up(db) {
+      for (const column of SEARCH_COLUMNS) {
+        await addColumn(db, 'charts', `${column} TEXT`);
+      }
+
+      const rows = await all(db, 'SELECT id, title, artist, tags FROM charts WHERE searchTitle IS NULL');
+      for (const row of rows) {
+        const text = getChartSearchText({ title: row.title, artist: row.artist, tags: JSON.parse(row.tags || '[]') });
+        await run(
+          db,
+          `UPDATE charts SET ${SEARCH_COLUMNS.map(column => `${column} = ?`).join(', ')} WHERE id = ?`,
+          [text.title, text.artist, text.tags, text.romaji, row.id]
+        );
+      }
+
+      // Full-text index over the normalised search columns, kept in sync by triggers
+      await run(db, `
+        CREATE VIRTUAL TABLE IF NOT EXISTS charts_fts USING fts5(
+          title, artist, tags, romaji,
+          tokenize = 'trigram'
+        )
+      `);
+      await run(db, 'DELETE FROM charts_fts');
+      await run(db, `INSERT INTO charts_fts (rowid, title, artist, tags, romaji) SELECT rowid, ${SEARCH_COLUMNS.join(', ')} FROM charts`);
+      await runAll(db, CHARTS_FTS_TRIGGERS);
+    }
+  },
+  {
+    version: 12,
+    description: 'Recompute chart BPM ranges from single tempos and low-high ranges only',
+    async up(db) {
+      const rows = await all(db, 'SELECT id, bpm FROM charts');
+      for (const row of rows) {
+        const range = parseBpmRange(row.bpm);
+        await run(db, 'UPDATE charts SET minBpm = ?, maxBpm = ? WHERE id = ?', [range?.min ?? null, range?.max ?? null, row.id]);
+      }
+    }
+  },
+  {
+    version: 13,
+    description: 'Keep the scraped values of chart fields corrected from DTX files',
+    async up(db) {
+      await addColumn(db, 'charts', 'scrapedValues TEXT'); // JSON object of the post's values, NULL when nothing was corrected
+    }
+  }
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Current version, applied migrations and pending migrations of a database
+ */
+export async function getSchemaStatus(db: sqlite3.Database): Promise<SchemaStatus> {
+  const [versioned] = await all(db, "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'schema_version'");
+  const rows = versioned
+    ? await all(db, 'SELECT version, description, applied_at FROM schema_version ORDER BY version')
+    : [];
+  const applied = rows.map(row => ({
+    version: row.version as number,
+    description: row.description as string,
+    appliedAt: new Date(row.applied_at)
+  }));
+  const currentVersion = applied.length > 0 ? applied[applied.length - 1].version : 0;
+
+  return {
+    currentVersion,
+    latestVersion: LATEST_SCHEMA_VERSION,
+    applied,
+    pending: MIGRATIONS
+      .filter(migration => migration.version > currentVersion)
+      .map(({ version, description }) => ({ version, description }))
+  };
+}
+
+/**
+ * Apply pending migrations in order. The database is first copied to
+ * backupPath when given and the database already holds tables.
+ */
+export async function migrateDatabase(db: sqlite3.Database, options: { backupPath?: string } = {}): Promise<MigrationResult> {
+  const status = await getSchemaStatus(db);
+  if (status.currentVersion > status.latestVersion) {
+    throw new DatabaseMigrationError(
+      status.currentVersion,
+      `database schema is newer than this version of the application supports (${status.latestVersion})`
+    );
+  }
+
+  const result: MigrationResult = { fromVersion: status.currentVersion, toVersion: status.currentVersion, applied: [] };
+  if (status.pending.length === 0) {
+    return result;
+  }
+
+  const tables = await all(db, "SELECT name FROM sqlite_master WHERE type = 'table' AND name != 'schema_version'");
+  if (options.backupPath && tables.length > 0) {
+    await run(db, 'VACUUM INTO ?', [options.backupPath]);
+    result.backupPath = options.backupPath;
+  }
+
+  await run(db, createSchemaVersionTable);
+
+  for (const migration of MIGRATIONS.filter(migration => migration.version > status.currentVersion)) {
+    await run(db, 'BEGIN TRANSACTION');
+    try {
+      await migration.up(db);
+      await run(
+        db,
+        'INSERT INTO schema_version (version, description, applied_at) VALUES (?, ?, ?)',
+        [migration.version, migration.description, new Date().toISOString()]
+      );
+      await run(db, 'COMMIT');
+    } catch (error) {
+      await run(db, 'ROLLBACK').catch(() => undefined);
+      throw new DatabaseMigrationError(migration.version, (error as Error).message, error as Error);
+    }
+
+    result.toVersion = migration.version;
+    result.applied.push(migration.version);
+  }
+
+  return result;
+}
+
+function run(db: sqlite3.Database, sql: string, params: unknown[] = []): Promise<void> {
+  return new Promise((resolve, reject) => {
+    db.run(sql, params, (err) => err ? reject(err) : resolve());
+  });
+}
+
+async function runAll(db: sqlite3.Database, statements: string[]): Promise<void> {
+  for (const sql of statements) {
+    await run(db, sql);
+  }
+}
+
+function all(db: sqlite3.Database, sql: string, params: unknown[] = []): Promise<any[]> {
+  return new Promise((resolve, reject) => {
+    db.all(sql, params, (err, rows) => err ? reject(err) : resolve(rows));
+  });
+}
+
+/**
+ * Add a column unless an unversioned database already has it
+ */
+async function addColumn(db: sqlite3.Database, table: string, definition: string): Promise<void> {
+  await run(db, `ALTER TABLE ${table} ADD COLUMN ${definition}`).catch((err: Error) => {
+    if (!err.message.includes('duplicate column name')) {
+      throw err;
+    }
+  });
+}
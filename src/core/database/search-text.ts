@@ -0,0 +1,129 @@
+/**
+ * Text normalisation for chart search
+ *
+ * Chart titles mix full- and half-width characters, hiragana and katakana,
+ * and Japanese and romanised spellings. Indexed text and queries are both
+ * normalised with NFKC, lower-cased and folded to hiragana, and kana is also
+ * indexed in romaji so "ninja" finds "ニンジャ".
+ */
+
+import { IChart } from '../models';
+
+/**
+ * Normalised text of a chart as stored for the full-text index
+ */
+export interface ChartSearchText {
+  title: string;
+  artist: string;
+  tags: string;
+  romaji: string;
+}
+
+// Relevance weight of a match in each search field
+export const SEARCH_WEIGHTS: Record<keyof ChartSearchText, number> = {
+  title: 10,
+  artist: 5,
+  tags: 1,
+  romaji: 3
+};
+
+// Trigram index terms need at least three characters; shorter terms are matched as plain substrings
+export const MIN_INDEXED_TERM_LENGTH = 3;
+
+const ROMAJI: Record<string, string> = {
+  'あ': 'a', 'い': 'i', 'う': 'u', 'え': 'e', 'お': 'o',
+  'か': 'ka', 'き': 'ki', 'く': 'ku', 'け': 'ke', 'こ': 'ko',
+  'さ': 'sa', 'し': 'shi', 'す': 'su', 'せ': 'se', 'そ': 'so',
+  'た': 'ta', 'ち': 'chi', 'つ': 'tsu', 'て': 'te', 'と': 'to',
+  'な': 'na', 'に': 'ni', 'ぬ': 'nu', 'ね': 'ne', 'の': 'no',
+  'は': 'ha', 'ひ': 'hi', 'ふ': 'fu', 'へ': 'he', 'ほ': 'ho',
+  'ま': 'ma', 'み': 'mi', 'む': 'mu', 'め': 'me', 'も': 'mo',
+  'や': 'ya', 'ゆ': 'yu', 'よ': 'yo',
+  'ら': 'ra', 'り': 'ri', 'る': 'ru', 'れ': 're', 'ろ': 'ro',
+  'わ': 'wa', 'ゐ': 'wi', 'ゑ': 'we', 'を': 'wo', 'ん': 'n',
+  'が': 'ga', 'ぎ': 'gi', 'ぐ': 'gu', 'げ': 'ge', 'ご': 'go',
+  'ざ': 'za', 'じ': 'ji', 'ず': 'zu', 'ぜ': 'ze', 'ぞ': 'zo',
+  'だ': 'da', 'ぢ': 'ji', 'づ': 'zu', 'で': 'de', 'ど': 'do',
+  'ば': 'ba', 'び': 'bi', 'ぶ': 'bu', 'べ': 'be', 'ぼ': 'bo',
+  'ぱ': 'pa', 'ぴ': 'pi', 'ぷ': 'pu', 'ぺ': 'pe', 'ぽ': 'po',
+  'ゔ': 'vu'
+};
+
+// Small kana that combine with the kana before them ("きゃ" → "kya", "ふぁ" → "fa")
+const SMALL_KANA: Record<string, string> = {
+  'ぁ': 'a', 'ぃ': 'i', 'ぅ': 'u', 'ぇ': 'e', 'ぉ': 'o',
+  'ゃ': 'a', 'ゅ': 'u', 'ょ': 'o', 'ゎ': 'a'
+};
+
+const YOON = new Set(['ゃ', 'ゅ', 'ょ']);
+
+/**
+ * NFKC, lower case and katakana folded to hiragana
+ */
+export function normalizeSearchText(text: string): string {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[ァ-ヶ]/g, kana => String.fromCharCode(kana.charCodeAt(0) - 0x60));
+}
+
+/**
+ * Normalised text with kana written in romaji; other characters are kept
+ */
+export function toRomaji(text: string): string {
+  const chars = [...normalizeSearchText(text)];
+  let result = '';
+
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+
+    // Sokuon doubles the next consonant ("にっぽん" → "nippon")
+    if (char === 'っ') {
+      const next = ROMAJI[chars[i + 1]];
+      result += next && !/^[aiueo]/.test(next) ? next[0] : '';
+      continue;
+    }
+    // Long vowel marks are dropped ("スーパー" → "supa")
+    if (char === 'ー') {
+      continue;
+    }
+
+    const romaji = ROMAJI[char];
+    if (!romaji) {
+      result += SMALL_KANA[char] ?? char;
+      continue;
+    }
+
+    const small = chars[i + 1];
+    if (small && SMALL_KANA[small]) {
+      const stem = romaji.slice(0, -1);
+      // "しゃ" → "sha" and "じゃ" → "ja", but "きゃ" → "kya"
+      const glide = YOON.has(small) && !/(sh|ch|j)$/.test(stem) ? 'y' : '';
+      result += (stem || 'w') + glide + SMALL_KANA[small];
+      i++;
+    } else {
+      result += romaji;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Normalised search terms of a query, split on whitespace
+ */
+export function searchTerms(query: string): string[] {
+  return normalizeSearchText(query).split(/\s+/).filter(term => term);
+}
+
+/**
+ * Normalised title, artist and tags of a chart, with title and artist in romaji
+ */
+export function getChartSearchText(chart: Pick<IChart, 'title' | 'artist' | 'tags'>): ChartSearchText {
+  return {
+    title: normalizeSearchText(chart.title),
+    artist: normalizeSearchText(chart.artist),
+    tags: normalizeSearchText((chart.tags || []).join(' ')),
+    romaji: toRomaji(`${chart.title} ${chart.artist}`)
+  };
+}
@@ -0,0 +1,139 @@
+/**
+ * Tests for storing chart variants and downloading a chosen variant
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ChartDatabase } from '../../database/database';
+import { IDownloadProvider } from '../../interfaces';
+import { IChart } from '../../models';
+import { DownloadHistory } from '../download-history';
+import { ChartDownloader, findChartVariant } from '../downloader';
+import { DownloadProviderRegistry } from '../providers';
+
+function createChart(overrides: Partial<IChart> = {}): IChart {
+  return {
+    id: 'approved-dtx-919',
+    title: 'Song',
+    artist: 'Artist',
+    bpm: '150',
+    difficulties: [2.1, 4.0],
+    source: 'approved-dtx',
+    downloadUrl: 'https://example.com/shared.bin',
+    originalPageUrl: 'http://approvedtx.blogspot.com/',
+    tags: [],
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z'),
+    variants: [
+      { label: 'Short ver.', bpm: '150', difficulties: [2.1, 4.0] },
+      { label: 'Full ver.', bpm: '150-165', difficulties: [2.6, 4.8], downloadUrl: 'https://example.com/full.bin' }
+    ],
+    ...overrides
+  };
+}
+
+describe('chart variants', () => {
+  let tempDir: string;
+  let database: ChartDatabase;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dtx-variants-'));
+    database = new ChartDatabase(path.join(tempDir, 'charts.db'));
+  });
+
+  afterEach(async () => {
+    await database.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('ChartDatabase', () => {
+    it('stores variants in post order', async () => {
+      await database.saveChart(createChart());
+      await database.saveCharts([createChart({ id: 'single', variants: [] })]);
+
+      expect((await database.getChart('approved-dtx-919'))!.variants).toEqual(createChart().variants);
+      expect((await database.getChart('single'))!.variants).toBeUndefined();
+      expect((await database.queryCharts()).map(chart => chart.variants?.length)).toEqual([2, undefined]);
+    });
+
+    it('replaces variants when a chart is saved again and removes them with the chart', async () => {
+      await database.saveChart(createChart());
+      await database.saveCharts([createChart({ variants: [{ label: 'Only', bpm: '120', difficulties: [5] }] })]);
+      expect((await database.getChart('approved-dtx-919'))!.variants).toEqual([{ label: 'Only', bpm: '120', difficulties: [5] }]);
+
+      await database.deleteChart('approved-dtx-919');
+      await database.saveChart(createChart({ variants: [] }));
+      expect((await database.getChart('approved-dtx-919'))!.variants).toBeUndefined();
+    });
+  });
+
+  describe('findChartVariant', () => {
+    it('finds variants by label or number', () => {
+      expect(findChartVariant(createChart(), 'full VER.')?.label).toBe('Full ver.');
+      expect(findChartVariant(createChart(), '1')?.label).toBe('Short ver.');
+      expect(findChartVariant(createChart(), '3')).toBeUndefined();
+      expect(findChartVariant(createChart(), 'Extended')).toBeUndefined();
+    });
+  });
+
+  describe('ChartDownloader', () => {
+    let downloaded: string[];
+    let downloader: ChartDownloader;
+
+    const options = (variant?: string) => ({
+      downloadDir: path.join(tempDir, 'downloads'),
+      chartIds: [],
+      maxConcurrency: 1,
+      overwrite: false,
+      timeout: 5000,
+      ...(variant ? { variants: { 'approved-dtx-919': variant } } : {})
+    });
+
+    beforeEach(() => {
+      downloaded = [];
+      const provider: IDownloadProvider = {
+        name: 'Fixture',
+        supportedDomains: ['example.com'],
+        canHandle: () => true,
+        download: async (url, destination) => {
+          downloaded.push(url);
+          fs.writeFileSync(destination, url);
+        },
+        validateUrl: async () => true
+      };
+      downloader = new ChartDownloader(new DownloadProviderRegistry([provider]), undefined, new DownloadHistory(database));
+    });
+
+    it('downloads the chosen variant into a file named after it', async () => {
+      const result = await downloader.downloadChart(createChart(), options('Full ver.'));
+
+      expect(result).toMatchObject({ success: true, variant: 'Full ver.' });
+      expect(downloaded).toEqual(['https://example.com/full.bin']);
+      expect(path.basename(result.filePath!)).toMatch(/^Song - Artist \(Full ver\.\)\./);
+    });
+
+    it('uses the shared link for variants without their own', async () => {
+      await downloader.downloadChart(createChart(), options('1'));
+
+      expect(downloaded).toEqual(['https://example.com/shared.bin']);
+    });
+
+    it('keeps variants apart in the download history', async () => {
+      await downloader.downloadChart(createChart(), options('Full ver.'));
+      const other = await downloader.downloadChart(createChart(), options('Short ver.'));
+      const again = await downloader.downloadChart(createChart(), options('Full ver.'));
+
+      expect(other.skipped).toBeUndefined();
+      expect(again).toMatchObject({ skipped: true, variant: 'Full ver.' });
+      expect((await database.getDownloadHistory()).map(record => record.variant)).toEqual(['Short ver.', 'Full ver.']);
+    });
+
+    it('fails for unknown variants', async () => {
+      const result = await downloader.downloadChart(createChart(), options('Extended'));
+
+      expect(result).toMatchObject({ success: false, error: 'Chart approved-dtx-919 has no variant "Extended"' });
+      expect(downloaded).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Tests for the download history and skipping charts already downloaded
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ChartDatabase } from '../../database/database';
+import { IDownloadProvider } from '../../interfaces';
+import { IChart } from '../../models';
+import { DownloadHistory } from '../download-history';
+import { ChartDownloader } from '../downloader';
+import { DownloadProviderRegistry } from '../providers';
+
+function createChart(id: string): IChart {
+  return {
+    id,
+    title: `Song ${id}`,
+    artist: 'Artist',
+    bpm: '150',
+    difficulties: [5],
+    source: 'approved-dtx',
+    downloadUrl: `https://example.com/${id}.bin`,
+    originalPageUrl: 'http://approvedtx.blogspot.com/',
+    tags: [],
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z')
+  };
+}
+
+describe('download history', () => {
+  let tempDir: string;
+  let database: ChartDatabase;
+  let downloader: ChartDownloader;
+  let downloads: number;
+
+  const options = (extra: { redownload?: boolean } = {}) => ({
+    downloadDir: path.join(tempDir, 'downloads'),
+    chartIds: [],
+    maxConcurrency: 1,
+    overwrite: false,
+    timeout: 5000,
+    ...extra
+  });
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dtx-history-'));
+    database = new ChartDatabase(path.join(tempDir, 'charts.db'));
+    await database.saveCharts([createChart('chart-1'), createChart('chart-2')]);
+
+    downloads = 0;
+    const provider: IDownloadProvider = {
+      name: 'Fixture',
+      supportedDomains: ['example.com'],
+      canHandle: () => true,
+      download: async (_url, destination) => {
+        downloads++;
+        fs.writeFileSync(destination, 'not an archive');
+      },
+      validateUrl: async () => true
+    };
+    downloader = new ChartDownloader(new DownloadProviderRegistry([provider]), undefined, new DownloadHistory(database));
+  });
+
+  afterEach(async () => {
+    await database.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('records finished downloads', async () => {
+    const result = await downloader.downloadChart(createChart('chart-1'), options());
+
+    expect(result.success).toBe(true);
+    const history = await database.getDownloadHistory({ chartId: 'chart-1' });
+    expect(history).toEqual([expect.objectContaining({
+      chartId: 'chart-1',
+      destination: path.join(tempDir, 'downloads'),
+      filePath: result.filePath,
+      extractedPaths: [],
+      sizeBytes: 14,
+      provider: 'Fixture'
+    })]);
+    expect(history[0].archiveHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(history[0].downloadedAt).toBeInstanceOf(Date);
+  });
+
+  it('skips charts still on disk unless a re-download is requested', async () => {
+    const chart = createChart('chart-1');
+    await downloader.downloadChart(chart, options());
+
+    const skipped = await downloader.downloadChart(chart, options());
+    expect(skipped).toMatchObject({ success: true, skipped: true, error: 'Already downloaded (skipped)' });
+    expect(downloads).toBe(1);
+
+    const again = await downloader.downloadChart(chart, options({ redownload: true }));
+    expect(again.success).toBe(true);
+    expect(again.skipped).toBeUndefined();
+    expect(downloads).toBe(2);
+    expect(await database.getDownloadHistory({ chartId: 'chart-1' })).toHaveLength(2);
+  });
+
+  it('downloads again when the files were removed', async () => {
+    const chart = createChart('chart-1');
+    const first = await downloader.downloadChart(chart, options());
+    fs.rmSync(first.filePath!);
+
+    const second = await downloader.downloadChart(chart, options());
+    expect(second.skipped).toBeUndefined();
+    expect(downloads).toBe(2);
+  });
+
+  it('lists the newest downloads first', async () => {
+    await downloader.downloadChart(createChart('chart-1'), options());
+    await downloader.downloadChart(createChart('chart-2'), options());
+
+    expect((await database.getDownloadHistory()).map(record => record.chartId)).toEqual(['chart-2', 'chart-1']);
+    expect((await database.getDownloadHistory({ limit: 1 })).map(record => record.chartId)).toEqual(['chart-2']);
+  });
+});
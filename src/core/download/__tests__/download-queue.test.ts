@@ -0,0 +1,214 @@
+/**
+ * Tests for the persistent download queue
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ChartDatabase } from '../../database/database';
+import { ChartDownloader, DownloadOptions, DownloadResult } from '../downloader';
+import { DownloadQueue } from '../download-queue';
+import { IChart } from '../../models';
+
+class FakeDownloader extends ChartDownloader {
+  downloaded: string[] = [];
+  failingIds = new Set<string>();
+  throwingIds = new Set<string>();
+  updatedCharts = new Map<string, IChart>();
+  /** Runs mid-download, before the result is returned */
+  during?: (chart: IChart, options: DownloadOptions) => Promise<void>;
+
+  override async downloadChart(chart: IChart, options: DownloadOptions): Promise<DownloadResult> {
+    options.onProgress?.({ downloaded: 512, total: 1024, status: 'downloading' });
+    await this.during?.(chart, options);
+
+    if (options.signal?.aborted) {
+      return { chart, success: false, error: 'Download cancelled' };
+    }
+    if (this.throwingIds.has(chart.id)) {
+      throw new Error('Disk full');
+    }
+    if (this.failingIds.has(chart.id)) {
+      return { chart, success: false, error: 'HTTP 404: Not Found' };
+    }
+
+    this.downloaded.push(chart.id);
+    const updatedChart = this.updatedCharts.get(chart.id);
+    return {
+      chart,
+      success: true,
+      filePath: path.join(options.downloadDir, `${chart.id}.zip`),
+      fileSize: 1024,
+      ...(updatedChart ? { updatedChart } : {})
+    };
+  }
+}
+
+function createChart(id: string): IChart {
+  return {
+    id,
+    title: `Song ${id}`,
+    artist: 'Artist',
+    bpm: '150',
+    difficulties: [4.5, 6.8],
+    source: 'approved-dtx',
+    downloadUrl: `https://example.com/${id}.zip`,
+    tags: [],
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z'),
+    originalPageUrl: 'http://approvedtx.blogspot.com/'
+  };
+}
+
+describe('DownloadQueue', () => {
+  let tempDir: string;
+  let dbPath: string;
+  let database: ChartDatabase;
+  let downloader: FakeDownloader;
+  let queue: DownloadQueue;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dtx-queue-'));
+    dbPath = path.join(tempDir, 'queue.db');
+    database = new ChartDatabase(dbPath);
+    downloader = new FakeDownloader();
+    queue = new DownloadQueue(database, downloader);
+  });
+
+  afterEach(async () => {
+    await database.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should persist queued items across database instances', async () => {
+    const id = await queue.enqueue(createChart('chart-1'), tempDir);
+    await database.close();
+
+    database = new ChartDatabase(dbPath);
+    const items = await new DownloadQueue(database, downloader).getItems();
+
+    expect(items).toHaveLength(1);
+    expect(items[0]!.id).toBe(id);
+    expect(items[0]!.chart.title).toBe('Song chart-1');
+    expect(items[0]!.chart.createdAt).toEqual(new Date('2024-01-01T00:00:00Z'));
+    expect(items[0]!.progress.status).toBe('pending');
+  });
+
+  it('should download pending items in order and record failures', async () => {
+    downloader.failingIds.add('chart-2');
+    await queue.enqueue(createChart('chart-1'), tempDir);
+    await queue.enqueue(createChart('chart-2'), tempDir);
+    await queue.enqueue(createChart('chart-3'), tempDir);
+
+    await queue.start();
+
+    expect(downloader.downloaded).toEqual(['chart-1', 'chart-3']);
+    const status = await queue.getStatus();
+    expect(status).toMatchObject({ pending: 0, downloading: 0, completed: 2, failed: 1 });
+
+    const failed = (await queue.getItems()).find(item => item.chart.id === 'chart-2');
+    expect(failed?.progress.error).toBe('HTTP 404: Not Found');
+  });
+
+  it('should retry a single failed item', async () => {
+    downloader.failingIds.add('chart-1');
+    const id = await queue.enqueue(createChart('chart-1'), tempDir);
+    await queue.start();
+
+    downloader.failingIds.clear();
+    await queue.retry(id);
+    await queue.start();
+
+    const [item] = await queue.getItems();
+    expect(item!.retries).toBe(1);
+    expect(item!.progress.status).toBe('completed');
+  });
+
+  it('should skip cancelled items and reject retrying pending ones', async () => {
+    const cancelled = await queue.enqueue(createChart('chart-1'), tempDir);
+    const pending = await queue.enqueue(createChart('chart-2'), tempDir);
+
+    await queue.cancel(cancelled);
+    await expect(queue.retry(pending)).rejects.toThrow('Only failed or cancelled downloads can be retried');
+
+    await queue.start();
+    expect(downloader.downloaded).toEqual(['chart-2']);
+  });
+
+  it('should abort the transfer of the item being downloaded when it is cancelled', async () => {
+    const id = await queue.enqueue(createChart('chart-1'), tempDir);
+    let signal: AbortSignal | undefined;
+    downloader.during = async (_chart, options) => {
+      signal = options.signal;
+      await queue.cancel(id);
+    };
+
+    await queue.start();
+
+    expect(signal?.aborted).toBe(true);
+    expect(downloader.downloaded).toEqual([]);
+    expect((await database.getQueueItem(id))?.progress.status).toBe('cancelled');
+  });
+
+  it('should keep an item cancelled by another process while it downloaded', async () => {
+    const id = await queue.enqueue(createChart('chart-1'), tempDir);
+    downloader.during = async () => {
+      const other = new ChartDatabase(dbPath);
+      await new DownloadQueue(other, downloader).cancel(id);
+      await other.close();
+    };
+
+    await queue.start();
+
+    expect(downloader.downloaded).toEqual(['chart-1']);
+    expect((await database.getQueueItem(id))?.progress.status).toBe('cancelled');
+  });
+
+  it('should mark an item failed when the downloader throws', async () => {
+    downloader.throwingIds.add('chart-1');
+    const failed = await queue.enqueue(createChart('chart-1'), tempDir);
+    const next = await queue.enqueue(createChart('chart-2'), tempDir);
+
+    await queue.start();
+
+    expect((await database.getQueueItem(failed))?.progress).toMatchObject({ status: 'failed', error: 'Disk full' });
+    expect((await database.getQueueItem(next))?.progress.status).toBe('completed');
+  });
+
+  it('should resume items interrupted mid-download', async () => {
+    const id = await queue.enqueue(createChart('chart-1'), tempDir);
+    const [item] = await database.getQueueItems();
+    item!.progress = { downloaded: 100, status: 'downloading' };
+    await database.saveQueueItem(item!);
+
+    await queue.start();
+
+    expect(downloader.downloaded).toEqual(['chart-1']);
+    expect((await database.getQueueItem(id))?.progress.status).toBe('completed');
+  });
+
+  it('should store chart metadata corrected from the downloaded DTX files', async () => {
+    const chart = createChart('chart-1');
+    await database.saveChart(chart);
+    downloader.updatedCharts.set('chart-1', { ...chart, artist: 'Real Artist', difficulties: [3.2, 5.5, 7.1] });
+    const id = await queue.enqueue(chart, tempDir);
+
+    await queue.start();
+
+    expect(await database.getChart('chart-1')).toMatchObject({ artist: 'Real Artist', difficulties: [3.2, 5.5, 7.1] });
+    expect((await database.getQueueItem(id))?.chart.artist).toBe('Real Artist');
+  });
+
+  it('should clear finished items only', async () => {
+    downloader.failingIds.add('chart-2');
+    await queue.enqueue(createChart('chart-1'), tempDir);
+    await queue.enqueue(createChart('chart-2'), tempDir);
+    await queue.start();
+    await queue.enqueue(createChart('chart-3'), tempDir);
+
+    await queue.clear();
+
+    const items = await queue.getItems();
+    expect(items.map(item => item.chart.id)).toEqual(['chart-3']);
+  });
+});
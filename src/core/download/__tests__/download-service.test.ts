@@ -0,0 +1,152 @@
+/**
+ * Tests for download job tracking and cancellation in DownloadService
+ */
+
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { ChartDatabase } from '../../database/database';
+import { DownloadService } from '../download-service';
+import { IChart } from '../../models';
+import { DownloadStatusResponse } from '@shared/models';
+
+function createChart(id: string, downloadUrl: string): IChart {
+  return {
+    id,
+    title: `Song ${id}`,
+    artist: 'Artist',
+    bpm: '150',
+    difficulties: [5.0],
+    source: 'approved-dtx',
+    downloadUrl,
+    tags: [],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    originalPageUrl: 'http://approvedtx.blogspot.com/'
+  };
+}
+
+async function waitForStatus(
+  service: DownloadService,
+  downloadId: string,
+  predicate: (status: DownloadStatusResponse) => boolean
+): Promise<DownloadStatusResponse> {
+  for (let attempt = 0; attempt < 200; attempt++) {
+    const status = service.getDownloadStatus(downloadId);
+    if (status && predicate(status)) {
+      return status;
+    }
+    await new Promise(resolve => setTimeout(resolve, 25));
+  }
+  throw new Error(`Timed out waiting for download ${downloadId}`);
+}
+
+describe('DownloadService', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let tempDir: string;
+  let database: ChartDatabase;
+  let service: DownloadService;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      if (req.url === '/complete.zip') {
+        res.writeHead(200, { 'Content-Type': 'application/zip', 'Content-Length': '2048' });
+        res.end(Buffer.alloc(2048));
+      } else if (req.url === '/stalled.zip') {
+        // Send part of the body and never finish
+        res.writeHead(200, { 'Content-Type': 'application/zip', 'Content-Length': '1048576' });
+        res.write(Buffer.alloc(1024));
+      } else {
+        res.writeHead(404);
+        res.end();
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dtx-download-service-'));
+    database = new ChartDatabase(path.join(tempDir, 'charts.db'));
+    service = new DownloadService(database);
+  });
+
+  afterEach(async () => {
+    await database.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const request = () => ({
+    chartIds: [],
+    downloadDir: path.join(tempDir, 'downloads'),
+    maxConcurrency: 2,
+    overwrite: false,
+    timeout: 10000
+  });
+
+  it('should report per-chart progress for a background download', async () => {
+    await database.saveCharts([
+      createChart('ok', `${baseUrl}/complete.zip`),
+      createChart('missing', `${baseUrl}/missing.zip`)
+    ]);
+
+    const events: DownloadStatusResponse[] = [];
+    service.setStatusCallback(status => events.push(status));
+
+    const started = await service.startDownloadById(['ok', 'missing'], request());
+    expect(started.status).toBe('running');
+    expect(started.total).toBe(2);
+
+    const status = await waitForStatus(service, started.downloadId, s => s.status !== 'running');
+    expect(status.status).toBe('completed');
+    expect(events.map(event => event.status)).toEqual(['running', 'running', 'completed']);
+    expect(status.completed).toBe(1);
+    expect(status.failed).toBe(1);
+    expect(status.progress).toBe(100);
+    expect(status.errors).toEqual(['Song missing - Artist: Direct download failed: HTTP 404: Not Found']);
+
+    const ok = status.charts.find(chart => chart.chartId === 'ok');
+    expect(ok?.progress).toMatchObject({ downloaded: 2048, status: 'completed' });
+  });
+
+  it('should cancel an in-flight download and remove the partial file', async () => {
+    await database.saveCharts([createChart('stalled', `${baseUrl}/stalled.zip`)]);
+
+    const started = await service.startDownloadById(['stalled'], request());
+    const downloading = await waitForStatus(service, started.downloadId, s => s.charts[0]!.progress.status === 'downloading');
+    expect(downloading.charts[0]!.progress).toMatchObject({ downloaded: 1024, total: 1048576 });
+    expect(downloading.charts[0]!.progress.speed).toBeGreaterThan(0);
+
+    expect(service.cancelDownload(started.downloadId)).toBe(true);
+
+    const status = await waitForStatus(service, started.downloadId, s => s.status !== 'running');
+    expect(status.status).toBe('cancelled');
+    expect(status.cancelled).toBe(1);
+    expect(fs.readdirSync(path.join(tempDir, 'downloads'))).toEqual([]);
+  });
+
+  it('should forget the oldest finished jobs beyond the limit', async () => {
+    service = new DownloadService(database, { maxFinishedJobs: 1 });
+
+    const first = await service.startDownloadById([], request());
+    await waitForStatus(service, first.downloadId, s => s.status !== 'running');
+    const second = await service.startDownloadById([], request());
+    await waitForStatus(service, second.downloadId, s => s.status !== 'running');
+
+    expect(service.getDownloadStatus(first.downloadId)).toBeUndefined();
+    expect(service.getDownloadStatus(second.downloadId)?.status).toBe('completed');
+  });
+
+  it('should return nothing for unknown downloads', () => {
+    expect(service.getDownloadStatus('download_unknown')).toBeUndefined();
+    expect(service.cancelDownload('download_unknown')).toBe(false);
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * Download history backed by a download record store (the ChartDatabase or an in-memory repository)
+ */
+
+import * as fs from 'fs';
+import { IDownloadHistory, IDownloadRecordStore } from '../interfaces';
+import { IDownloadRecord } from '../models';
+
+export class DownloadHistory implements IDownloadHistory {
+  private readonly database: IDownloadRecordStore;
+
+  constructor(database: IDownloadRecordStore) {
+    this.database = database;
+  }
+
+  /**
+   * Latest download of the chart, or of the given variant of it, whose extracted
+   * files (or, without extraction, the downloaded file) are all still on disk
+   */
+  async findInstalled(chartId: string, variant?: string): Promise<IDownloadRecord | null> {
+    for (const record of await this.database.getDownloadHistory({ chartId })) {
+      if (record.variant !== variant) continue;
+
+      const paths = record.extractedPaths.length > 0 ? record.extractedPaths : record.filePath ? [record.filePath] : [];
+      if (paths.length > 0 && paths.every(file => fs.existsSync(file))) {
+        return record;
+      }
+    }
+
+    return null;
+  }
+
+  async record(record: Omit<IDownloadRecord, 'id'>): Promise<void> {
+    await this.database.saveDownloadRecord(record);
+  }
+}
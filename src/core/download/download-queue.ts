@@ -0,0 +1,324 @@
+/**
+ * Persistent download queue backed by the ChartDatabase (or an in-memory repository)
+ */
+
+import { ChartDownloader, DownloadOptions, DownloadResult } from './downloader';
+import { DownloadHistory } from './download-history';
+import { IChartRepository, IDownloadQueue, IDownloadQueueStore, IDownloadRecordStore, IQueueStatus } from '../interfaces';
+import { IChart, IDownloadItem, IDownloadProgress } from '../models';
+import { DownloadRequest } from '@shared/models';
+
+/**
+ * Storage the download queue and service need: charts, queue items and download records
+ */
+export type DownloadRepository = IChartRepository & IDownloadQueueStore & IDownloadRecordStore;
+
+export interface DownloadQueueOptions extends Partial<Pick<DownloadRequest, 'overwrite' | 'timeout' | 'redownload'>> {
+  /** Called whenever an item is added or changes state */
+  onItemChange?: (item: IDownloadItem) => void;
+}
+
+export class DownloadQueue implements IDownloadQueue {
+  private readonly database: DownloadRepository;
+  private readonly downloader: ChartDownloader;
+  private readonly options: DownloadQueueOptions;
+  private running = false;
+  private processing: Promise<void> | null = null;
+  private activeItem: IDownloadItem | null = null;
+  private activeController: AbortController | null = null;
+  private cancelledItemIds = new Set<string>();
+
+  constructor(
+    database: DownloadRepository,
+    downloader: ChartDownloader = new ChartDownloader(undefined, undefined, new DownloadHistory(database)),
+    options: DownloadQueueOptions = {}
+  ) {
+    this.database = database;
+    this.downloader = downloader;
+    this.options = options;
+  }
+
+  /**
+   * Add a chart to the end of the queue
+   */
+  async enqueue(chart: IChart, destination: string): Promise<string> {
+    const item: IDownloadItem = {
+      id: `queue_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`,
+      chart,
+      destination,
+      progress: { downloaded: 0, status: 'pending' },
+      retries: 0,
+      queuedAt: new Date()
+    };
+
+    await this.database.saveQueueItem(item);
+    this.notify(item);
+
+    return item.id;
+  }
+
+  async getStatus(): Promise<IQueueStatus> {
+    const items = await this.getItems();
+    const status: IQueueStatus = {
+      pending: 0,
+      downloading: 0,
+      completed: 0,
+      failed: 0
+    };
+
+    let totalSize = 0;
+    let downloadedSize = 0;
+
+    for (const item of items) {
+      switch (item.progress.status) {
+        case 'pending':
+          status.pending++;
+          break;
+        case 'downloading':
+          status.downloading++;
+          break;
+        case 'completed':
+          status.completed++;
+          break;
+        case 'failed':
+        case 'cancelled':
+          status.failed++;
+          break;
+      }
+
+      totalSize += item.progress.total || 0;
+      downloadedSize += item.progress.downloaded;
+    }
+
+    if (totalSize > 0) {
+      status.totalSize = totalSize;
+      status.downloadedSize = downloadedSize;
+    }
+
+    if (this.activeItem?.progress.speed) {
+      status.averageSpeed = this.activeItem.progress.speed;
+    }
+    if (this.activeItem?.progress.eta !== undefined) {
+      status.eta = this.activeItem.progress.eta;
+    }
+
+    return status;
+  }
+
+  /**
+   * Get all queue items, with live progress for the item being downloaded
+   */
+  async getItems(): Promise<IDownloadItem[]> {
+    const items = await this.database.getQueueItems();
+    const active = this.activeItem;
+
+    return active ? items.map(item => (item.id === active.id ? active : item)) : items;
+  }
+
+  /**
+   * Cancel a pending or in-progress item. An in-progress transfer is aborted
+   * and the item stays cancelled.
+   */
+  async cancel(itemId: string): Promise<void> {
+    const item = await this.requireItem(itemId);
+
+    if (item.progress.status !== 'pending' && item.progress.status !== 'downloading') {
+      return;
+    }
+
+    if (this.activeItem?.id === itemId) {
+      this.cancelledItemIds.add(itemId);
+      this.activeItem.progress = { ...this.activeItem.progress, status: 'cancelled' };
+      this.activeController?.abort();
+    }
+
+    item.progress = { downloaded: item.progress.downloaded, status: 'cancelled' };
+    item.completedAt = new Date();
+    await this.database.saveQueueItem(item);
+    this.notify(item);
+  }
+
+  /**
+   * Put a failed or cancelled item back into the queue
+   */
+  async retry(itemId: string): Promise<void> {
+    const item = await this.requireItem(itemId);
+
+    if (item.progress.status !== 'failed' && item.progress.status !== 'cancelled') {
+      throw new Error(`Only failed or cancelled downloads can be retried (item ${itemId} is ${item.progress.status})`);
+    }
+
+    this.cancelledItemIds.delete(itemId);
+    item.progress = { downloaded: 0, status: 'pending' };
+    item.retries++;
+    delete item.startedAt;
+    delete item.completedAt;
+    await this.database.saveQueueItem(item);
+    this.notify(item);
+
+    // Pick the item up straight away if the queue is already running
+    if (this.running && !this.processing) {
+      this.processing = this.processQueue();
+    }
+  }
+
+  /**
+   * Remove completed, failed and cancelled items
+   */
+  async clear(): Promise<void> {
+    await this.database.deleteQueueItems(['completed', 'failed', 'cancelled']);
+  }
+
+  /**
+   * Start processing pending items one at a time. Resolves once the queue is
+   * drained or stop() has been called.
+   */
+  async start(): Promise<void> {
+    if (this.running && this.processing) {
+      return this.processing;
+    }
+
+    this.running = true;
+    await this.resetInterruptedItems();
+    this.processing = this.processQueue();
+
+    return this.processing;
+  }
+
+  /**
+   * Pause the queue. The item currently downloading is finished first.
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+
+    if (this.processing) {
+      await this.processing;
+    }
+  }
+
+  /**
+   * Whether the queue is currently processing items
+   */
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  private async processQueue(): Promise<void> {
+    try {
+      while (this.running) {
+        const items = await this.database.getQueueItems();
+        const next = items.find(item => item.progress.status === 'pending');
+
+        if (!next) {
+          break;
+        }
+
+        await this.processItem(next);
+      }
+    } finally {
+      this.running = false;
+      this.processing = null;
+      this.activeItem = null;
+    }
+  }
+
+  private async processItem(item: IDownloadItem): Promise<void> {
+    const controller = new AbortController();
+    item.progress = { downloaded: 0, status: 'downloading' };
+    item.startedAt = new Date();
+    this.activeItem = item;
+    this.activeController = controller;
+    await this.database.saveQueueItem(item);
+    this.notify(item);
+
+    const downloadOptions: DownloadOptions = {
+      chartIds: [item.chart.id],
+      downloadDir: item.destination,
+      maxConcurrency: 1,
+      overwrite: this.options.overwrite ?? false,
+      timeout: this.options.timeout ?? 30000,
+      ...(this.options.redownload ? { redownload: true } : {}),
+      signal: controller.signal,
+      onProgress: (progress: IDownloadProgress) => {
+        if (!this.cancelledItemIds.has(item.id)) {
+          item.progress = { ...progress, status: 'downloading' };
+        }
+      }
+    };
+
+    let result: DownloadResult;
+    try {
+      result = await this.downloader.downloadChart(item.chart, downloadOptions);
+    } catch (error) {
+      // Record the failure rather than leaving the item 'downloading' until the next start()
+      result = { chart: item.chart, success: false, error: error instanceof Error ? error.message : String(error) };
+    } finally {
+      this.activeItem = null;
+      this.activeController = null;
+    }
+
+    // A cancelled item has already been persisted by cancel(), possibly from another process
+    const stored = await this.database.getQueueItem(item.id);
+    if (this.cancelledItemIds.delete(item.id) || !stored || stored.progress.status === 'cancelled') {
+      return;
+    }
+
+    // Keep the chart record and its statistics in line with the downloaded DTX files
+    try {
+      if (result.updatedChart) {
+        await this.database.save(result.updatedChart);
+        item.chart = result.updatedChart;
+      }
+      if (result.chartStats && result.chartStats.length > 0) {
+        await this.database.saveStats(item.chart.id, result.chartStats);
+      }
+    } catch (error) {
+      console.warn(`⚠️  Could not update chart ${item.chart.id}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    item.completedAt = new Date();
+    if (result.success) {
+      const downloaded = result.fileSize ?? item.progress.downloaded;
+      item.progress = { downloaded, total: downloaded, status: 'completed' };
+    } else {
+      item.progress = {
+        downloaded: item.progress.downloaded,
+        status: 'failed',
+        error: result.error || 'Unknown error'
+      };
+    }
+
+    await this.database.saveQueueItem(item);
+    this.notify(item);
+  }
+
+  /**
+   * Items left in 'downloading' were interrupted by a restart and go back to pending
+   */
+  private async resetInterruptedItems(): Promise<void> {
+    const items = await this.database.getQueueItems();
+
+    for (const item of items) {
+      if (item.progress.status === 'downloading' && item.id !== this.activeItem?.id) {
+        item.progress = { downloaded: 0, status: 'pending' };
+        delete item.startedAt;
+        await this.database.saveQueueItem(item);
+        this.notify(item);
+      }
+    }
+  }
+
+  private async requireItem(itemId: string): Promise<IDownloadItem> {
+    const item = await this.database.getQueueItem(itemId);
+    if (!item) {
+      throw new Error(`Download queue item not found: ${itemId}`);
+    }
+    return item;
+  }
+
+  private notify(item: IDownloadItem): void {
+    if (this.options.onItemChange) {
+      this.options.onItemChange(item);
+    }
+  }
+}
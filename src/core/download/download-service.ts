@@ -3,10 +3,17 @@
  */
 
 import { ChartDownloader, DownloadOptions, DownloadResult } from './downloader';
-import { ChartDatabase } from '../database/database';
-import { IChart, IDownloadProgress } from '../models';
+import { DownloadQueue, DownloadRepository } from './download-queue';
+import { DownloadHistory } from './download-history';
+import { IChart, IDownloadItem, IDownloadProgress } from '../models';
 import * as fs from 'fs';
-import { DownloadRequest } from '@shared/models';
+import {
+  ChartDownloadStatus,
+  DownloadJobStatus,
+  DownloadRequest,
+  DownloadStatusResponse,
+  ProgressState
+} from '@shared/models';
 
 export interface DownloadStats {
   total: number;
@@ -18,35 +25,77 @@ export interface DownloadStats {
   totalTime: number;
 }
 
-export interface ProgressState {
-  downloadId: string;
-  totalCharts: number;
-  completedCharts: number;
-  currentChart: string;
-  overallProgress: number;
-}
+export type { ProgressState } from '@shared/models';
 
 export interface DownloadOperation {
   downloadId: string;
   results: DownloadResult[];
 }
 
-export type ProgressCallback = (downloadId: string, state: ProgressState, progress: IDownloadProgress) => void;
+interface DownloadJob {
+  downloadId: string;
+  status: DownloadJobStatus;
+  controller: AbortController;
+  charts: Map<string, ChartDownloadStatus>;
+  startTime: Date;
+  endTime?: Date;
+}
+
+export type ProgressCallback = (downloadId: string, state: ProgressState, progress: IDownloadProgress, chartId?: string) => void;
+
+export type StatusCallback = (status: DownloadStatusResponse) => void;
+
+export type QueueChangeCallback = (item: IDownloadItem) => void;
+
+export interface DownloadServiceOptions {
+  /** Finished jobs kept for status requests; older ones are forgotten (default 50) */
+  maxFinishedJobs?: number;
+}
 
 export class DownloadService {
   private downloader: ChartDownloader;
-  private database: ChartDatabase;
+  private database: DownloadRepository;
+  private queue: DownloadQueue;
+  private jobs = new Map<string, DownloadJob>();
   private progressCallback?: ProgressCallback;
+  private statusCallback?: StatusCallback;
+  private queueChangeCallback?: QueueChangeCallback;
+  private maxFinishedJobs: number;
 
-  constructor(database: ChartDatabase) {
+  constructor(database: DownloadRepository, options: DownloadServiceOptions = {}) {
     this.database = database;
-    this.downloader = new ChartDownloader();
+    this.maxFinishedJobs = options.maxFinishedJobs ?? 50;
+    this.downloader = new ChartDownloader(undefined, undefined, new DownloadHistory(database));
+    this.queue = new DownloadQueue(database, this.downloader, {
+      onItemChange: (item) => this.queueChangeCallback?.(item)
+    });
+  }
+
+  /**
+   * Persistent download queue sharing this service's database and downloader
+   */
+  getQueue(): DownloadQueue {
+    return this.queue;
   }
 
   setProgressCallback(callback: ProgressCallback) {
     this.progressCallback = callback;
   }
 
+  /**
+   * Called whenever a chart in a download job finishes and when the job ends
+   */
+  setStatusCallback(callback: StatusCallback) {
+    this.statusCallback = callback;
+  }
+
+  /**
+   * Called whenever a download queue item is added or changes state
+   */
+  setQueueChangeCallback(callback: QueueChangeCallback) {
+    this.queueChangeCallback = callback;
+  }
+
   async downloadChartsByQuery(
     query: {
       source?: string;
@@ -60,7 +109,7 @@ export class DownloadService {
   ): Promise<DownloadResult[]> {
     
     console.log('🔍 Querying charts for download...');
-    const charts = await this.database.queryCharts({
+    const charts = await this.database.findByFilters({
       ...query,
       limit: query.limit || 100
     });
@@ -80,11 +129,70 @@ export class DownloadService {
     options: DownloadRequest
   ): Promise<DownloadOperation> {
     
+    const charts = await this.loadCharts(chartIds);
+
+    if (charts.length === 0) {
+      console.log('❌ No valid charts found');
+      const downloadId = `download_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      return { downloadId, results: [] };
+    }
+
+    console.log(`📦 Found ${charts.length} charts to download`);
+    const operation = await this.downloadChartsWithId(charts, options);
+    return operation;
+  }
+
+  /**
+   * Start downloading charts in the background and return the job status
+   * immediately. Progress is available through getDownloadStatus().
+   */
+  async startDownloadById(
+    chartIds: string[],
+    options: DownloadRequest
+  ): Promise<DownloadStatusResponse> {
+    const charts = await this.loadCharts(chartIds);
+    const job = this.createJob(charts);
+
+    this.runJob(job, charts, options).catch(error => {
+      console.error(`❌ Download ${job.downloadId} failed:`, error);
+      this.finishJob(job, 'failed');
+    });
+
+    return this.toStatusResponse(job);
+  }
+
+  /**
+   * Get the live status of a download job
+   */
+  getDownloadStatus(downloadId: string): DownloadStatusResponse | undefined {
+    const job = this.jobs.get(downloadId);
+    return job ? this.toStatusResponse(job) : undefined;
+  }
+
+  /**
+   * Cancel a running download job. In-flight transfers are aborted and charts
+   * that have not started are skipped. Returns false for unknown jobs.
+   */
+  cancelDownload(downloadId: string): boolean {
+    const job = this.jobs.get(downloadId);
+    if (!job) {
+      return false;
+    }
+
+    if (job.status === 'running') {
+      console.log(`⏹️  Cancelling download ${downloadId}`);
+      job.controller.abort();
+    }
+
+    return true;
+  }
+
+  private async loadCharts(chartIds: string[]): Promise<IChart[]> {
     console.log('🔍 Loading charts by ID...');
     const charts: IChart[] = [];
     
     for (const id of chartIds) {
-      const chart = await this.database.getChart(id);
+      const chart = await this.database.findById(id);
       if (chart) {
         charts.push(chart);
       } else {
@@ -92,41 +200,52 @@ export class DownloadService {
       }
     }
 
-    if (charts.length === 0) {
-      console.log('❌ No valid charts found');
-      const downloadId = `download_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      return { downloadId, results: [] };
-    }
+    return charts;
+  }
 
-    console.log(`📦 Found ${charts.length} charts to download`);
-    const operation = await this.downloadChartsWithId(charts, options);
-    return operation;
+  private createJob(charts: IChart[]): DownloadJob {
+    const job: DownloadJob = {
+      downloadId: `download_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`,
+      status: 'running',
+      controller: new AbortController(),
+      charts: new Map(charts.map(chart => [chart.id, {
+        chartId: chart.id,
+        title: chart.title,
+        artist: chart.artist,
+        progress: { downloaded: 0, status: 'pending' }
+      }])),
+      startTime: new Date()
+    };
+
+    this.jobs.set(job.downloadId, job);
+    return job;
   }
 
   private async downloadChartsWithId(
     charts: IChart[],
     options: DownloadRequest
   ): Promise<DownloadOperation> {
+    return this.runJob(this.createJob(charts), charts, options);
+  }
+
+  private async runJob(
+    job: DownloadJob,
+    charts: IChart[],
+    options: DownloadRequest
+  ): Promise<DownloadOperation> {
     
     const startTime = Date.now();
-    const downloadId = `download_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const downloadId = job.downloadId;
+    const signal = job.controller.signal;
     
     // Progress tracking for real-time updates
-    const progressState = {
+    const progressState: ProgressState = {
       downloadId,
       totalCharts: charts.length,
       completedCharts: 0,
       currentChart: '',
       overallProgress: 0
     };
-    
-    const onProgress = (progress: IDownloadProgress) => {
-      // Update progress state for SSE
-      if (this.progressCallback) {
-        this.progressCallback(downloadId, progressState, progress);
-      }
-    };
-
 
     if (!fs.existsSync(options.downloadDir)) {
       fs.mkdirSync(options.downloadDir, { recursive: true });
@@ -137,16 +256,36 @@ export class DownloadService {
     
     const folderUrls = charts.filter(c => c.downloadUrl && c.downloadUrl.includes('drive.google.com/drive/folders/')).length;
     if (folderUrls > 0) {
-      console.log(`📁 Note: ${folderUrls} charts point to Google Drive folders (will provide folder links)`);
+      console.log(`📁 Note: ${folderUrls} charts point to Google Drive folders (each will be downloaded into its own directory)`);
     }
 
     // Enhanced download options with completion tracking
     const enhancedDownloadOptions: DownloadOptions = {
       ...options,
-      onProgress: (progress: IDownloadProgress) => {
-        onProgress(progress);
+      signal,
+      onChartProgress: (chart: IChart, progress: IDownloadProgress) => {
+        const chartStatus = job.charts.get(chart.id);
+        if (chartStatus && !signal.aborted) {
+          chartStatus.progress = progress;
+        }
+
+        // Update progress state for SSE
+        progressState.currentChart = `${chart.title} - ${chart.artist}`;
+        if (this.progressCallback) {
+          this.progressCallback(downloadId, progressState, progress, chart.id);
+        }
       },
       onChartComplete: (chart: IChart, result: DownloadResult) => {
+        const chartStatus = job.charts.get(chart.id);
+        if (chartStatus) {
+          const downloaded = result.fileSize ?? chartStatus.progress.downloaded;
+          chartStatus.progress = result.success
+            ? { downloaded, total: downloaded, status: 'completed' }
+            : { downloaded: chartStatus.progress.downloaded, status: signal.aborted ? 'cancelled' : 'failed' };
+          if (result.filePath) chartStatus.filePath = result.filePath;
+          if (result.error) chartStatus.error = result.error;
+        }
+
         progressState.completedCharts++;
         progressState.overallProgress = (progressState.completedCharts / progressState.totalCharts) * 100;
         progressState.currentChart = `${chart.title} - ${chart.artist}`;
@@ -158,20 +297,95 @@ export class DownloadService {
             status: result.success ? 'completed' : 'failed'
           });
         }
+        if (this.statusCallback) {
+          this.statusCallback(this.toStatusResponse(job));
+        }
       }
     };
 
     const results = await this.downloader.downloadCharts(charts, enhancedDownloadOptions);
+    await this.saveChartMetadata(results);
     const stats = this.calculateStats(results, startTime);
     this.printResults(stats, results);
 
+    if (signal.aborted) {
+      this.finishJob(job, 'cancelled');
+    } else if (results.length > 0 && stats.failed === results.length) {
+      this.finishJob(job, 'failed');
+    } else {
+      this.finishJob(job, 'completed');
+    }
+
     return { downloadId, results };
   }
 
+  /**
+   * Store chart records corrected from the downloaded DTX files and their note statistics
+   */
+  private async saveChartMetadata(results: DownloadResult[]): Promise<void> {
+    for (const result of results) {
+      try {
+        if (result.updatedChart) {
+          await this.database.save(result.updatedChart);
+          console.log(`📝 Updated chart metadata from DTX files: ${result.updatedChart.title} - ${result.updatedChart.artist}`);
+        }
+        if (result.chartStats && result.chartStats.length > 0) {
+          await this.database.saveStats(result.chart.id, result.chartStats);
+        }
+      } catch (error) {
+        console.warn(`⚠️  Could not update chart ${result.chart.id}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+
+  private finishJob(job: DownloadJob, status: DownloadJobStatus): void {
+    job.status = status;
+    job.endTime = new Date();
+
+    if (this.statusCallback) {
+      this.statusCallback(this.toStatusResponse(job));
+    }
+    this.pruneFinishedJobs();
+  }
+
+  /**
+   * Forget the oldest finished jobs beyond maxFinishedJobs; jobs are kept in start order
+   */
+  private pruneFinishedJobs(): void {
+    const finished = Array.from(this.jobs.values()).filter(job => job.status !== 'running');
+    for (const job of finished.slice(0, Math.max(0, finished.length - this.maxFinishedJobs))) {
+      this.jobs.delete(job.downloadId);
+    }
+  }
+
+  private toStatusResponse(job: DownloadJob): DownloadStatusResponse {
+    const charts = Array.from(job.charts.values(), chart => ({ ...chart }));
+    const count = (status: IDownloadProgress['status']) => charts.filter(c => c.progress.status === status).length;
+    const completed = count('completed');
+    const failed = count('failed');
+    const cancelled = count('cancelled');
+
+    return {
+      downloadId: job.downloadId,
+      status: job.status,
+      total: charts.length,
+      completed,
+      failed,
+      cancelled,
+      progress: charts.length > 0 ? ((completed + failed + cancelled) / charts.length) * 100 : 100,
+      startTime: job.startTime.toISOString(),
+      ...(job.endTime ? { endTime: job.endTime.toISOString() } : {}),
+      charts,
+      errors: charts
+        .filter(c => c.progress.status === 'failed' && c.error)
+        .map(c => `${c.title} - ${c.artist}: ${c.error}`)
+    };
+  }
+
   private calculateStats(results: DownloadResult[], startTime: number): DownloadStats {
-    const successful = results.filter(r => r.success && !r.error?.includes('already exists'));
+    const successful = results.filter(r => r.success && !r.skipped);
     const failed = results.filter(r => !r.success);
-    const skipped = results.filter(r => r.success && r.error?.includes('already exists'));
+    const skipped = results.filter(r => r.skipped);
     
     const totalSize = successful.reduce((sum, r) => sum + (r.fileSize || 0), 0);
     const totalTime = Date.now() - startTime;
@@ -2,21 +2,37 @@
  * Download service for DTX charts from various sources
  */
 
+import * as crypto from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
-import * as https from 'https';
-import * as http from 'http';
-import * as cheerio from 'cheerio';
-import { IChart, IDownloadProgress, ProgressCallback } from '../models';
+import { IChart, IChartDifficultyStats, IChartVariant, IDownloadProgress, ProgressCallback } from '../models';
 import { DownloadRequest } from '../../../shared/models';
+import { ChartVariantNotFoundError, DownloadCancelledError } from '../errors';
+import { applyChartMetadata, readChartMetadata } from '../dtx';
+import { ArchiveFormat, IDownloadHistory, IDownloadProvider, IDownloadProviderOptions } from '../interfaces';
+import { DownloadProviderRegistry, createDefaultProviderRegistry } from './providers';
+import {
+  ARCHIVE_FORMATS,
+  ArchiveExtractorRegistry,
+  archiveFormatFromName,
+  createDefaultExtractorRegistry,
+  detectArchiveFormatFromFile,
+  getArchiveExtension
+} from './extractors';
 
 export interface DownloadOptions extends DownloadRequest {
 
   /** Progress callback */
   onProgress?: ProgressCallback;
 
+  /** Per-chart progress callback */
+  onChartProgress?: (chart: IChart, progress: IDownloadProgress) => void;
+
   /** Chart completion callback */
   onChartComplete?: (chart: IChart, result: DownloadResult) => void;
+
+  /** Aborts in-flight transfers and extraction when signalled */
+  signal?: AbortSignal;
 }
 
 export interface DownloadResult {
@@ -26,12 +42,60 @@ export interface DownloadResult {
   error?: string;
   fileSize?: number;
   downloadTime?: number;
+  
+  /** Top-level files and folders written by extraction (or the folder for folder downloads) */
+  extractedPaths?: string[];
+  
+  /** Chart record corrected from the downloaded DTX files, when they disagree with it */
+  updatedChart?: IChart;
+  
+  /** Per-difficulty note statistics computed from the downloaded DTX files */
+  chartStats?: IChartDifficultyStats[];
+  
+  /** Download provider that fetched the chart */
+  provider?: string;
+  
+  /** SHA-256 of the downloaded archive */
+  archiveHash?: string;
+  
+  /** Nothing was downloaded because the chart is already on disk */
+  skipped?: boolean;
+  
+  /** Label of the chart variant that was downloaded */
+  variant?: string;
+}
+
+/**
+ * Find a chart variant by label (case-insensitive) or 1-based number
+ */
+export function findChartVariant(chart: IChart, selector: string): IChartVariant | undefined {
+  const variants = chart.variants || [];
+  const wanted = selector.trim().toLowerCase();
+  const byLabel = variants.find(variant => variant.label.toLowerCase() === wanted);
+  if (byLabel) {
+    return byLabel;
+  }
+
+  const index = /^\d+$/.test(wanted) ? parseInt(wanted, 10) - 1 : -1;
+  return variants[index];
 }
 
 export class ChartDownloader {
-  private readonly userAgent = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36';
+  private readonly providers: DownloadProviderRegistry;
+  private readonly extractors: ArchiveExtractorRegistry;
+  private readonly history: IDownloadHistory | undefined;
   private activeDownloads = new Set<string>();
 
+  constructor(
+    providers: DownloadProviderRegistry = createDefaultProviderRegistry(),
+    extractors: ArchiveExtractorRegistry = createDefaultExtractorRegistry(),
+    history?: IDownloadHistory
+  ) {
+    this.providers = providers;
+    this.extractors = extractors;
+    this.history = history;
+  }
+
   /**
    * Download a single chart
    */
@@ -45,9 +109,14 @@ export class ChartDownloader {
       }
       
       this.activeDownloads.add(chart.id);
+      this.throwIfCancelled(options);
+      
+      // Posts listing several versions download the chosen variant's own link, if it has one
+      const variant = this.getVariant(chart, options);
+      const downloadUrl = variant?.downloadUrl ?? chart.downloadUrl;
       
       // Check if chart has a download URL
-      if (!chart.downloadUrl) {
+      if (!downloadUrl) {
         return {
           chart,
           success: false,
@@ -57,88 +126,107 @@ export class ChartDownloader {
         };
       }
       
-      // Determine file path
-      const filePath = this.getFilePath(chart, options);
-      
-      // Check if this is a Google Drive folder URL (not supported for automation)
-      if (this.isGoogleDriveFolderUrl(chart.downloadUrl)) {
+      // Charts downloaded before are only fetched again on request
+      const previous = options.redownload ? null : await this.history?.findInstalled(chart.id, variant?.label);
+      if (previous) {
+        console.log(`⏭️  Already downloaded: "${chart.title}" (${previous.downloadedAt.toISOString()})`);
         return {
           chart,
-          success: false,
-          error: `Google Drive folder URLs are not supported for automatic download. Individual file URLs are required.`,
+          success: true,
+          skipped: true,
+          filePath: previous.extractedPaths[0] ?? previous.filePath ?? previous.destination,
+          ...(variant ? { variant: variant.label } : {}),
+          error: 'Already downloaded (skipped)',
           fileSize: 0,
-          downloadTime: Date.now() - startTime
+          downloadTime: 0
         };
       }
-
-      // Check if this is an individual Google Drive file URL
-      if (this.isGoogleDriveFileUrl(chart.downloadUrl)) {
-        try {
-          const downloadResult = await this.downloadFromGoogleDriveFile(chart, options);
-          return downloadResult;
-        } catch (error) {
-          return {
-            chart,
-            success: false,
-            error: `Google Drive file download failed: ${error instanceof Error ? error.message : String(error)}`,
-            fileSize: 0,
-            downloadTime: Date.now() - startTime
-          };
-        }
-      }
-
-      // Check if this is a OneDrive URL
-      if (this.isOneDriveUrl(chart.downloadUrl)) {
-        try {
-          const downloadResult = await this.downloadFromOneDrive(chart, options, startTime);
-          return downloadResult;
-        } catch (error) {
-          return {
-            chart,
-            success: false,
-            error: `OneDrive download failed: ${error instanceof Error ? error.message : String(error)}`,
-            fileSize: 0,
-            downloadTime: Date.now() - startTime
-          };
-        }
+      
+      // Pick the provider for this host (throws DownloadProviderNotFoundError for unknown hosts)
+      const provider = this.providers.getProvider(downloadUrl);
+      
+      // Shared folders are downloaded file by file into a per-chart directory
+      if (provider.downloadFolder && provider.isFolderUrl?.(downloadUrl)) {
+        return await this.downloadFolderChart(chart, downloadUrl, provider, options, startTime);
       }
       
-      // Check if file exists and we shouldn't overwrite
-      if (fs.existsSync(filePath) && !options.overwrite) {
+      // Check if an archive for this chart exists and we shouldn't overwrite
+      const existingPath = this.findExistingArchive(chart, options);
+      if (existingPath && !options.overwrite && !options.redownload) {
         return {
           chart,
           success: true,
-          filePath,
+          skipped: true,
+          filePath: existingPath,
           error: 'File already exists (skipped)',
-          fileSize: fs.statSync(filePath).size,
+          fileSize: fs.statSync(existingPath).size,
           downloadTime: 0
         };
       }
       
+      // Name the download after the URL's extension until the real type is known
+      let filePath = this.getFilePath(chart, options, archiveFormatFromName(downloadUrl) ?? 'zip');
+      
       // Ensure directory exists
       const dir = path.dirname(filePath);
       if (!fs.existsSync(dir)) {
         fs.mkdirSync(dir, { recursive: true });
       }
       
-      // Download the file
-      let downloadUrl = chart.downloadUrl;
+      console.log(`🎯 Downloading: "${chart.title}" by ${chart.artist} via ${provider.name}`);
       
-      // Handle Google Drive links
-      if (this.isGoogleDriveUrl(downloadUrl)) {
-        downloadUrl = await this.resolveGoogleDriveUrl(downloadUrl);
+      let suggestedName: string | undefined;
+      try {
+        await provider.download(
+          downloadUrl,
+          filePath,
+          (progress) => this.reportProgress(chart, options, progress),
+          { ...this.getProviderOptions(options), onFileName: (fileName) => { suggestedName = fileName; } }
+        );
+      } catch (error) {
+        if (error instanceof DownloadCancelledError) {
+          throw error;
+        }
+        return {
+          chart,
+          success: false,
+          error: `${provider.name} download failed: ${error instanceof Error ? error.message : String(error)}`,
+          fileSize: 0,
+          downloadTime: Date.now() - startTime
+        };
       }
       
-      const fileSize = await this.downloadFile(downloadUrl, filePath, options, chart);
-      const downloadTime = Date.now() - startTime;
+      // Magic bytes decide the archive type; the server's file name is the fallback
+      const format = detectArchiveFormatFromFile(filePath);
+      filePath = this.renameToArchiveType(filePath, format, suggestedName, options);
       
-      return {
+      const fileSize = fs.statSync(filePath).size;
+      const archiveHash = await this.hashFile(filePath);
+      console.log(`✅ Downloaded: ${path.basename(filePath)} (${fileSize} bytes)`);
+      
+      // Extract archives next to the download
+      let extractedPaths: string[] | undefined;
+      if (format) {
+        try {
+          extractedPaths = await this.extractArchive(filePath, format, options.signal);
+        } catch (error) {
+          return this.extractionFailure(chart, filePath, fileSize, startTime, error);
+        }
+      } else {
+        console.log(`⏭️  Skipping extraction (not a supported archive)`);
+      }
+      
+      return await this.recordDownload({
         chart,
         success: true,
         filePath,
         fileSize,
-        downloadTime
-      };
+        downloadTime: Date.now() - startTime,
+        provider: provider.name,
+        archiveHash,
+        ...(variant ? { variant: variant.label } : {}),
+        ...(extractedPaths ? this.withChartMetadata(chart, extractedPaths) : {})
+      }, options);
       
     } catch (error) {
       return {
@@ -152,6 +240,124 @@ export class ChartDownloader {
     }
   }
 
+  /**
+   * Download a shared folder into its own chart directory and extract any archives in it
+   */
+  private async downloadFolderChart(
+    chart: IChart,
+    url: string,
+    provider: IDownloadProvider,
+    options: DownloadOptions,
+    startTime: number
+  ): Promise<DownloadResult> {
+    const chartDir = this.getChartDirectory(chart, options);
+    const variant = this.getVariant(chart, options);
+    
+    // Check if the folder was already downloaded and we shouldn't overwrite
+    if (fs.existsSync(chartDir) && fs.readdirSync(chartDir).length > 0 && !options.overwrite && !options.redownload) {
+      return {
+        chart,
+        success: true,
+        skipped: true,
+        filePath: chartDir,
+        error: 'Folder already exists (skipped)',
+        fileSize: 0,
+        downloadTime: 0
+      };
+    }
+    
+    console.log(`🎯 Downloading folder: "${chart.title}" by ${chart.artist} via ${provider.name}`);
+    
+    let files: string[];
+    try {
+      files = await provider.downloadFolder!(
+        url,
+        chartDir,
+        (progress) => this.reportProgress(chart, options, progress),
+        this.getProviderOptions(options)
+      );
+    } catch (error) {
+      if (error instanceof DownloadCancelledError) {
+        throw error;
+      }
+      return {
+        chart,
+        success: false,
+        error: `${provider.name} folder download failed: ${error instanceof Error ? error.message : String(error)}`,
+        fileSize: 0,
+        downloadTime: Date.now() - startTime
+      };
+    }
+    
+    const fileSize = files.reduce((total, file) => total + fs.statSync(file).size, 0);
+    console.log(`✅ Downloaded folder: ${path.basename(chartDir)} (${files.length} files, ${fileSize} bytes)`);
+    
+    // Extract archives inside the chart directory
+    for (const file of files) {
+      const format = detectArchiveFormatFromFile(file);
+      if (format) {
+        try {
+          await this.extractArchive(file, format, options.signal);
+        } catch (error) {
+          return this.extractionFailure(chart, file, fileSize, startTime, error);
+        }
+      }
+    }
+    
+    return this.recordDownload({
+      chart,
+      success: true,
+      filePath: chartDir,
+      fileSize,
+      downloadTime: Date.now() - startTime,
+      provider: provider.name,
+      ...(variant ? { variant: variant.label } : {}),
+      ...this.withChartMetadata(chart, [chartDir])
+    }, options);
+  }
+
+  /**
+   * Add a finished download to the history. A history failure doesn't fail the download.
+   */
+  private async recordDownload(result: DownloadResult, options: DownloadOptions): Promise<DownloadResult> {
+    if (!this.history) {
+      return result;
+    }
+
+    try {
+      // Extracted archives are deleted, so only keep the path of files still on disk
+      const filePath = result.filePath && fs.existsSync(result.filePath) ? result.filePath : undefined;
+      await this.history.record({
+        chartId: result.chart.id,
+        destination: options.downloadDir,
+        ...(filePath ? { filePath } : {}),
+        extractedPaths: result.extractedPaths ?? [],
+        ...(result.archiveHash ? { archiveHash: result.archiveHash } : {}),
+        sizeBytes: result.fileSize ?? 0,
+        ...(result.provider ? { provider: result.provider } : {}),
+        ...(result.variant ? { variant: result.variant } : {}),
+        downloadedAt: new Date()
+      });
+    } catch (error) {
+      console.warn(`⚠️  Could not record download of ${result.chart.id}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * SHA-256 of a file, streamed
+   */
+  private hashFile(filePath: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const hash = crypto.createHash('sha256');
+      fs.createReadStream(filePath)
+        .on('data', chunk => hash.update(chunk))
+        .on('error', reject)
+        .on('end', () => resolve(hash.digest('hex')));
+    });
+  }
+
   /**
    * Download multiple charts with concurrency control
    */
@@ -162,6 +368,19 @@ export class ChartDownloader {
     // Process charts in batches
     for (let i = 0; i < charts.length; i += maxConcurrency) {
       const batch = charts.slice(i, i + maxConcurrency);
+
+      // Charts that haven't started yet are reported as cancelled
+      if (options.signal?.aborted) {
+        for (const chart of batch) {
+          const cancelledResult: DownloadResult = { chart, success: false, error: 'Download cancelled' };
+          results.push(cancelledResult);
+          if (options.onChartComplete) {
+            options.onChartComplete(chart, cancelledResult);
+          }
+        }
+        continue;
+      }
+
       const batchPromises = batch.map(chart => this.downloadChart(chart, options));
       const batchResults = await Promise.allSettled(batchPromises);
       
@@ -192,7 +411,7 @@ export class ChartDownloader {
       }
       
       // Small delay between batches to be respectful
-      if (i + maxConcurrency < charts.length) {
+      if (i + maxConcurrency < charts.length && !options.signal?.aborted) {
         await this.delay(1000);
       }
     }
@@ -201,406 +420,123 @@ export class ChartDownloader {
   }
 
   /**
-   * Check if URL is a Google Drive folder
+   * Extract an archive next to itself and delete it once every entry is out.
+   * Entries are extracted into a temporary directory first so a failed archive
+   * never leaves half its files in the chart folder; on failure the archive is kept.
    */
-  private isGoogleDriveFolderUrl(url: string): boolean {
-    return url.includes('drive.google.com/drive/folders/');
-  }
+  private async extractArchive(archivePath: string, format: ArchiveFormat, signal?: AbortSignal): Promise<string[]> {
+    const extractor = this.extractors.getExtractor(format);
+    console.log(`📦 Extracting with ${extractor.name}: ${path.basename(archivePath)}`);
 
-  private isGoogleDriveFileUrl(url: string): boolean {
-    return url.includes('drive.google.com/file/d/') || 
-           url.includes('drive.google.com/open?id=') ||
-           url.includes('drive.google.com/uc?id=') ||
-           url.includes('drive.usercontent.google.com/uc?');
-  }
+    const archiveDir = path.dirname(archivePath);
+    const tempExtractDir = path.join(archiveDir, 'temp_extract_' + Date.now());
+    let movedPaths: string[];
 
-  /**
-   * Download individual Google Drive file with full automation
-   */
-  private async downloadFromGoogleDriveFile(chart: IChart, options: DownloadOptions): Promise<DownloadResult> {
-    const startTime = Date.now();
-    
     try {
-      console.log(`🎯 Downloading: "${chart.title}" by ${chart.artist}`);
-      console.log(`🔗 Google Drive URL: ${chart.downloadUrl}`);
-      
-      // Create file path
-      const filePath = this.getFilePath(chart, options);
-      const dir = path.dirname(filePath);
-      
-      // Ensure directory exists
-      if (!fs.existsSync(dir)) {
-        fs.mkdirSync(dir, { recursive: true });
-      }
-      
-      // Extract file ID from various Google Drive URL formats
-      const fileId = this.extractGoogleDriveFileId(chart.downloadUrl!); // Safe since we checked above
-      if (!fileId) {
-        throw new Error('Could not extract Google Drive file ID from URL');
-      }
-      
-      console.log(`📁 File ID: ${fileId}`);
-      
-      // Use the direct download URL pattern: drive.usercontent.google.com (this will likely need confirmation)
-      const directDownloadUrl = `https://drive.usercontent.google.com/download?id=${fileId}&export=download`;
-      console.log(`🔗 Trying initial download: ${directDownloadUrl}`);
-      const downloadResult = await this.attemptGoogleDriveDownload(directDownloadUrl, filePath, chart, startTime);
-      
-      if (downloadResult.success) {
-        // Try to unzip if it's a ZIP file and auto-unzip is enabled
-        console.log(`🔍 Checking unzip conditions:`);
-        console.log(`   File path: ${filePath}`);
-        console.log(`   Ends with .zip: ${filePath.endsWith('.zip')}`);
-
-        if (filePath.endsWith('.zip')) {
-          console.log(`📦 Starting unzip process...`);
-          await this.attemptUnzip(filePath);
-        } else {
-          console.log(`⏭️  Skipping unzip`);
-        }
-        
-        return downloadResult;
-      }
-      
-      // If direct download failed, try the confirm download flow
-      console.log(`⚠️  Direct download failed, trying confirmation flow...`);
-      const confirmDownloadResult = await this.handleGoogleDriveConfirmFlow(fileId, filePath, chart, startTime);
-      
-      if (confirmDownloadResult.success) {
-        // Try to unzip if it's a ZIP file and auto-unzip is enabled
-        console.log(`🔍 Checking unzip conditions (confirmation flow):`);
-        console.log(`   File path: ${filePath}`);
-        console.log(`   Ends with .zip: ${filePath.endsWith('.zip')}`);
-
-        if (filePath.endsWith('.zip')) {
-          console.log(`📦 Starting unzip process...`);
-          await this.attemptUnzip(filePath);
-        } else {
-          console.log(`⏭️  Skipping unzip`);
-        }
+      const { files } = await extractor.extract(archivePath, tempExtractDir, signal ? { signal } : {});
+      console.log(`📂 Extracted ${files.length} files from ${path.basename(archivePath)}`);
+      movedPaths = this.moveFilesDirectly(tempExtractDir, archiveDir);
+    } finally {
+      try {
+        fs.rmSync(tempExtractDir, { recursive: true, force: true });
+      } catch (cleanupError) {
+        console.warn(`⚠️  Could not clean up temp directory: ${cleanupError}`);
       }
-      
-      return confirmDownloadResult;
-      
-    } catch (error) {
-      return {
-        chart,
-        success: false,
-        error: `Google Drive download failed: ${error instanceof Error ? error.message : String(error)}`,
-        fileSize: 0,
-        downloadTime: Date.now() - startTime
-      };
     }
-  }
 
-  /**
-   * Extract Google Drive file ID from various URL formats
-   */
-  private extractGoogleDriveFileId(url: string): string | null {
-    // Format: https://drive.google.com/file/d/FILE_ID/view
-    let match = url.match(/\/file\/d\/([a-zA-Z0-9_-]+)/);
-    if (match) return match[1];
-    
-    // Format: https://drive.google.com/open?id=FILE_ID
-    match = url.match(/[?&]id=([a-zA-Z0-9_-]+)/);
-    if (match) return match[1];
-    
-    // Format: https://drive.google.com/uc?id=FILE_ID
-    match = url.match(/uc\?.*id=([a-zA-Z0-9_-]+)/);
-    if (match) return match[1];
-    
-    return null;
+    this.cleanupArchive(archivePath);
+    return movedPaths;
   }
 
   /**
-   * Attempt direct Google Drive download
+   * Read title, artist, BPM, levels and note statistics from the downloaded
+   * DTX files and report a corrected chart record when they differ from the stored one
    */
-  private async attemptGoogleDriveDownload(url: string, filePath: string, chart: IChart, startTime: number): Promise<DownloadResult> {
-    return new Promise((resolve) => {
-      const request = https.get(url, {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
-        }
-      }, (response) => {
-        // Helper function to cleanup and resolve
-        const cleanupAndResolve = (result: DownloadResult) => {
-          response.destroy(); // Ensure response is destroyed
-          request.destroy(); // Ensure request is destroyed
-          resolve(result);
-        };
-
-        // Check if we're being redirected to a confirmation page
-        if (response.statusCode === 302 || response.statusCode === 301) {
-          const location = response.headers.location;
-          if (location?.includes('confirm')) {
-            cleanupAndResolve({
-              chart,
-              success: false,
-              error: 'Confirmation required',
-              fileSize: 0,
-              downloadTime: Date.now() - startTime
-            });
-            return;
-          }
-        }
-        
-        if (response.statusCode !== 200) {
-          cleanupAndResolve({
-            chart,
-            success: false,
-            error: `HTTP ${response.statusCode}`,
-            fileSize: 0,
-            downloadTime: Date.now() - startTime
-          });
-          return;
-        }
-        
-        // Check content type
-        const contentType = response.headers['content-type'];
-        if (contentType?.includes('text/html')) {
-          // This means we got an HTML page (likely confirmation) instead of the file
-          cleanupAndResolve({
-            chart,
-            success: false,
-            error: 'Received HTML instead of file',
-            fileSize: 0,
-            downloadTime: Date.now() - startTime
-          });
-          return;
-        }
-        
-        const fileStream = fs.createWriteStream(filePath);
-        let downloadedBytes = 0;
-        
-        response.on('data', (chunk) => {
-          downloadedBytes += chunk.length;
-        });
-        
-        response.pipe(fileStream);
-        
-        fileStream.on('finish', () => {
-          fileStream.close();
-          console.log(`✅ Downloaded: ${path.basename(filePath)} (${downloadedBytes} bytes)`);
-          cleanupAndResolve({
-            chart,
-            success: true,
-            filePath,
-            fileSize: downloadedBytes,
-            downloadTime: Date.now() - startTime
-          });
-        });
-        
-        fileStream.on('error', (error) => {
-          fs.unlink(filePath, () => {}); // Clean up partial file
-          cleanupAndResolve({
-            chart,
-            success: false,
-            error: `File write error: ${error.message}`,
-            fileSize: 0,
-            downloadTime: Date.now() - startTime
-          });
-        });
-      });
-      
-      request.on('error', (error) => {
-        request.destroy(); // Ensure request is destroyed
-        resolve({
-          chart,
-          success: false,
-          error: `Request error: ${error.message}`,
-          fileSize: 0,
-          downloadTime: Date.now() - startTime
-        });
-      });
-      
-      request.setTimeout(30000, () => {
-        request.destroy();
-        resolve({
-          chart,
-          success: false,
-          error: 'Download timeout',
-          fileSize: 0,
-          downloadTime: Date.now() - startTime
-        });
-      });
-    });
-  }
+  private withChartMetadata(chart: IChart, paths: string[]): Pick<DownloadResult, 'extractedPaths' | 'updatedChart' | 'chartStats'> {
+    const metadata = readChartMetadata(paths);
+    if (!metadata) {
+      return { extractedPaths: paths };
+    }
 
-  /**
-   * Handle Google Drive confirmation flow for large files
-   */
-  private async handleGoogleDriveConfirmFlow(fileId: string, filePath: string, chart: IChart, startTime: number): Promise<DownloadResult> {
-    try {
-      console.log(`🔄 Handling Google Drive confirmation flow...`);
-      
-      // First, get the confirmation page to extract UUID
-      const confirmUrl = `https://drive.usercontent.google.com/download?id=${fileId}&export=download`;
-      const confirmPageResponse = await this.fetchWithUserAgent(confirmUrl);
-      
-      if (!confirmPageResponse.ok) {
-        throw new Error(`Failed to fetch confirmation page: ${confirmPageResponse.status}`);
-      }
-      
-      const confirmPageHtml = await confirmPageResponse.text();
-      const $ = cheerio.load(confirmPageHtml);
-      
-      // Extract the UUID from the hidden form input
-      const uuidInput = $('input[name="uuid"]');
-      const uuid = uuidInput.attr('value');
-      
-      if (!uuid) {
-        throw new Error('Could not find UUID in confirmation page');
-      }
-      
-      console.log(`🔑 Found UUID: ${uuid}`);
-      
-      // Construct the direct download URL with UUID
-      const downloadUrl = `https://drive.usercontent.google.com/download?id=${fileId}&export=download&confirm=t&uuid=${uuid}`;
-      console.log(`🔗 Direct download URL: ${downloadUrl}`);
-      
-      // Now attempt the actual download
-      return await this.attemptGoogleDriveDownload(downloadUrl, filePath, chart, startTime);
-      
-    } catch (error) {
-      return {
-        chart,
-        success: false,
-        error: `Confirmation flow failed: ${error instanceof Error ? error.message : String(error)}`,
-        fileSize: 0,
-        downloadTime: Date.now() - startTime
-      };
+    const { chart: updatedChart, changes } = applyChartMetadata(chart, metadata);
+    if (changes.length === 0) {
+      return { extractedPaths: paths, chartStats: metadata.stats };
     }
+
+    console.log(`📝 Chart metadata from ${metadata.files.length} DTX files differs in: ${changes.join(', ')}`);
+    return { extractedPaths: paths, updatedChart, chartStats: metadata.stats };
   }
 
   /**
-   * Fetch with proper User-Agent header
+   * Turn an extraction failure into a failed result that keeps the archive on disk
    */
-  private async fetchWithUserAgent(url: string): Promise<any> {
-    const fetch = require('node-fetch');
-    return fetch(url, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
-      }
-    });
+  private extractionFailure(chart: IChart, filePath: string, fileSize: number, startTime: number, error: unknown): DownloadResult {
+    if (error instanceof DownloadCancelledError) {
+      throw error;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    console.log(`⚠️  Extraction failed: ${message}. Archive preserved: ${filePath}`);
+    return {
+      chart,
+      success: false,
+      filePath,
+      error: `Extraction failed: ${message}`,
+      fileSize,
+      downloadTime: Date.now() - startTime
+    };
   }
 
   /**
-   * Attempt to unzip a downloaded file with smart folder organization
+   * Clean up the archive after successful extraction
    */
-  private async attemptUnzip(zipPath: string): Promise<void> {
+  private cleanupArchive(archivePath: string): void {
     try {
-      console.log(`📦 Attempting to unzip: ${path.basename(zipPath)}`);
-      
-      // Create a temporary extraction directory first
-      const zipDir = path.dirname(zipPath);
-      const tempExtractDir = path.join(zipDir, 'temp_extract_' + Date.now());
-      
-      // Ensure the temporary directory exists
-      if (!fs.existsSync(tempExtractDir)) {
-        fs.mkdirSync(tempExtractDir, { recursive: true });
-      }
-      
-      console.log(`📂 Extracting to temporary location: ${tempExtractDir}`);
-      
-      const { spawn } = require('child_process');
-      const os = require('os');
-      
-      return new Promise((resolve) => {
-        let command: string;
-        let args: string[];
-        
-        if (os.platform() === 'win32') {
-          // Windows: try PowerShell first
-          command = 'powershell';
-          args = ['-Command', `Expand-Archive -Path "${zipPath}" -DestinationPath "${tempExtractDir}" -Force`];
-        } else {
-          // Unix-like systems: use unzip
-          command = 'unzip';
-          args = ['-o', zipPath, '-d', tempExtractDir];
-        }
-        
-        const child = spawn(command, args, { stdio: 'pipe' });
-        
-        console.log(`🛠️  Executing: ${command} ${args.join(' ')}`);
-        
-        let stdout = '';
-        let stderr = '';
-        
-        child.stdout?.on('data', (data: Buffer) => {
-          stdout += data.toString();
-        });
-        
-        child.stderr?.on('data', (data: Buffer) => {
-          stderr += data.toString();
-        });
-        
-        child.on('close', (code: number) => {
-          console.log(`📋 Unzip command output (code ${code}):`);
-          if (stdout) console.log(`   stdout: ${stdout.trim()}`);
-          if (stderr) console.log(`   stderr: ${stderr.trim()}`);
-          
-          if (code === 0) {
-
-            this.moveFilesDirectly(tempExtractDir, zipDir);
-            
-            // Clean up temp directory
-            try {
-              fs.rmSync(tempExtractDir, { recursive: true, force: true });
-            } catch (cleanupError) {
-              console.warn(`⚠️  Could not clean up temp directory: ${cleanupError}`);
-            }
-
-          this.cleanupZipFile(zipPath);
-
-          resolve();
-        } else {
-            console.log(`⚠️  Unzip failed (code ${code}). ZIP file preserved: ${zipPath}`);
-            // Clean up temp directory on failure too
-            try {
-              fs.rmSync(tempExtractDir, { recursive: true, force: true });
-            } catch (cleanupError) {
-              console.warn(`⚠️  Could not clean up temp directory: ${cleanupError}`);
-            }
-            resolve(); // Don't fail the download if unzip fails
-          }
-        });
-        
-        child.on('error', (error: Error) => {
-          console.log(`⚠️  Unzip error: ${error.message}. ZIP file preserved: ${zipPath}`);
-          // Clean up temp directory on error
-          try {
-            fs.rmSync(tempExtractDir, { recursive: true, force: true });
-          } catch (cleanupError) {
-            console.warn(`⚠️  Could not clean up temp directory: ${cleanupError}`);
-          }
-          resolve(); // Don't fail the download if unzip fails
-        });
-      });
-      
+      fs.unlinkSync(archivePath);
+      console.log(`🗑️  Cleaned up archive: ${path.basename(archivePath)}`);
     } catch (error) {
-      console.log(`⚠️  Unzip failed: ${error instanceof Error ? error.message : String(error)}. ZIP file preserved: ${zipPath}`);
-      // Don't throw - unzip failure shouldn't fail the download
+      console.log(`⚠️  Could not delete archive: ${archivePath}`);
     }
   }
 
   /**
-   * Clean up ZIP file after successful extraction
+   * Give a finished download the extension of its real archive type, falling
+   * back to the extension of the server-suggested file name for other files
    */
-  private cleanupZipFile(zipPath: string): void {
-    try {
-      fs.unlinkSync(zipPath);
-      console.log(`🗑️  Cleaned up ZIP file: ${path.basename(zipPath)}`);
-    } catch (error) {
-      console.log(`⚠️  Could not delete ZIP file: ${zipPath}`);
+  private renameToArchiveType(
+    filePath: string,
+    format: ArchiveFormat | null,
+    suggestedName: string | undefined,
+    options: DownloadOptions
+  ): string {
+    const extension = format
+      ? getArchiveExtension(format)
+      : suggestedName ? path.extname(suggestedName).toLowerCase() : '';
+    const current = path.extname(filePath);
+    if (!extension || extension === current.toLowerCase()) {
+      return filePath;
+    }
+
+    const renamedPath = filePath.slice(0, filePath.length - current.length) + extension;
+    if (fs.existsSync(renamedPath)) {
+      if (!options.overwrite && !options.redownload) {
+        console.log(`⚠️  ${path.basename(renamedPath)} already exists, keeping ${path.basename(filePath)}`);
+        return filePath;
+      }
+      fs.rmSync(renamedPath, { force: true });
     }
+
+    fs.renameSync(filePath, renamedPath);
+    console.log(`🏷️  Renamed to match archive type: ${path.basename(renamedPath)}`);
+    return renamedPath;
   }
 
   /**
    * Move files directly from temp directory to target directory without extra organization
    */
-  private moveFilesDirectly(tempDir: string, targetDir: string): void {
+  private moveFilesDirectly(tempDir: string, targetDir: string): string[] {
     try {
       const files = fs.readdirSync(tempDir);
+      const movedPaths: string[] = [];
       
       // Ensure target directory exists
       if (!fs.existsSync(targetDir)) {
@@ -622,10 +558,12 @@ export class ChartDownloader {
         }
         
         fs.renameSync(sourcePath, finalTargetPath);
+        movedPaths.push(finalTargetPath);
         console.log(`📁 Moved: ${file} → ${path.basename(finalTargetPath)}`);
       }
       
       console.log(`✅ Files moved directly to: ${path.basename(targetDir)}`);
+      return movedPaths;
       
     } catch (error) {
       console.log(`⚠️  Could not move files directly: ${error instanceof Error ? error.message : String(error)}`);
@@ -635,233 +573,85 @@ export class ChartDownloader {
 
 
   /**
-   * Check if URL is a Google Drive link
+   * Transfer options passed through to the download providers
    */
-  private isGoogleDriveUrl(url: string): boolean {
-    return url.includes('drive.google.com');
+  private getProviderOptions(options: DownloadOptions): IDownloadProviderOptions {
+    return {
+      timeout: options.timeout || 30000,
+      ...(options.signal ? { signal: options.signal } : {})
+    };
   }
 
   /**
-   * Resolve Google Drive URL to direct download link
+   * Forward provider progress to the chart-agnostic and per-chart callbacks
    */
-  private async resolveGoogleDriveUrl(url: string): Promise<string> {
-    try {
-      // Extract file ID from various Google Drive URL formats
-      let fileId = this.extractGoogleDriveFileId(url);
-      if (!fileId) {
-        throw new Error('Could not extract Google Drive file ID');
-      }
-      
-      // Try direct download URL first
-      let downloadUrl = `https://drive.google.com/uc?export=download&id=${fileId}`;
-      
-      // Check if this is a large file that requires confirmation
-      const response = await this.httpGet(downloadUrl);
-      
-      if (response.includes('virus scan warning') || response.includes('download_warning')) {
-        // Handle virus scan warning for large files
-        downloadUrl = await this.handleGoogleDriveVirusWarning(response);
-      }
-      
-      return downloadUrl;
-      
-    } catch (error) {
-      console.warn(`Failed to resolve Google Drive URL ${url}:`, error);
-      // Fallback to original URL
-      return url;
+  private reportProgress(chart: IChart, options: DownloadOptions, progress: IDownloadProgress): void {
+    if (options.onProgress) {
+      options.onProgress(progress);
+    }
+    if (options.onChartProgress) {
+      options.onChartProgress(chart, progress);
     }
   }
 
   /**
-   * Handle Google Drive virus warning for large files
+   * Throw if the download has been cancelled
    */
-  private async handleGoogleDriveVirusWarning(html: string): Promise<string> {
-    const $ = cheerio.load(html);
-    
-    // Look for the confirmation form
-    const form = $('form#download-form');
-    if (form.length === 0) {
-      throw new Error('Could not find download confirmation form');
-    }
-    
-    const action = form.attr('action');
-    if (!action) {
-      throw new Error('Could not find form action URL');
+  private throwIfCancelled(options: DownloadOptions): void {
+    if (options.signal?.aborted) {
+      throw new DownloadCancelledError();
     }
+  }
+
+  /**
+   * Get file path for chart download
+   */
+  private getFilePath(chart: IChart, options: DownloadOptions, format: ArchiveFormat): string {
+    const filename = this.sanitizeFilename(this.getDownloadName(chart, options)) + getArchiveExtension(format);
     
-    // Extract form data
-    const formData: Record<string, string> = {};
-    form.find('input[name]').each((_, input) => {
-      const name = $(input).attr('name');
-      const value = $(input).attr('value');
-      if (name && value) {
-        formData[name] = value;
-      }
-    });
+    let dir = options.downloadDir;
     
-    // Build download URL with confirmation
-    const params = new URLSearchParams(formData);
-    return `${action}?${params.toString()}`;
+    return path.join(dir, filename);
   }
 
   /**
-   * Download file from URL to local path
+   * Find a previously downloaded archive for the chart, whatever its type
    */
-  private async downloadFile(
-    url: string, 
-    filePath: string, 
-    options: DownloadOptions, 
-    chart: IChart
-  ): Promise<number> {
-    return new Promise((resolve, reject) => {
-      const timeout = options.timeout || 30000;
-      let totalBytes = 0;
-      let downloadedBytes = 0;
-      
-      const request = (url.startsWith('https:') ? https : http).get(url, {
-        headers: {
-          'User-Agent': this.userAgent
-        },
-        timeout
-      }, (response) => {
-        
-        // Handle redirects
-        if (response.statusCode === 301 || response.statusCode === 302) {
-          const redirectUrl = response.headers.location;
-          if (redirectUrl) {
-            console.log(`Following redirect: ${redirectUrl}`);
-            // Properly clean up the current request/response before following redirect
-            response.destroy();
-            request.destroy();
-            this.downloadFile(redirectUrl, filePath, options, chart)
-              .then(resolve)
-              .catch(reject);
-            return;
-          }
-        }
-        
-        if (response.statusCode !== 200) {
-          // Clean up resources before rejecting
-          response.destroy();
-          request.destroy();
-          reject(new Error(`HTTP ${response.statusCode}: ${response.statusMessage}`));
-          return;
-        }
-        
-        // Get content length if available
-        const contentLength = response.headers['content-length'];
-        if (contentLength) {
-          totalBytes = parseInt(contentLength, 10);
-        }
-        
-        // Create write stream
-        const writeStream = fs.createWriteStream(filePath);
-        
-        // Track progress
-        response.on('data', (chunk) => {
-          downloadedBytes += chunk.length;
-          
-          if (options.onProgress) {
-            const progress: IDownloadProgress = {
-              downloaded: downloadedBytes,
-              ...(totalBytes ? { total: totalBytes } : {}),
-              speed: downloadedBytes / ((Date.now() - Date.now()) / 1000) || 0,
-              status: 'downloading'
-            };
-            
-            options.onProgress(progress);
-          }
-        });
-        
-        // Pipe response to file
-        response.pipe(writeStream);
-        
-        writeStream.on('finish', () => {
-          writeStream.close();
-          // Properly destroy the request and response to free resources
-          request.destroy();
-          response.destroy();
-          resolve(downloadedBytes);
-        });
-        
-        writeStream.on('error', (error) => {
-          writeStream.destroy();
-          // Properly destroy the request and response on error
-          request.destroy();
-          response.destroy();
-          fs.unlink(filePath, () => {}); // Clean up partial file
-          reject(error);
-        });
-        
-      });
-      
-      request.on('timeout', () => {
-        request.destroy();
-        reject(new Error(`Download timeout after ${timeout}ms`));
-      });
-      
-      request.on('error', (error) => {
-        request.destroy();
-        reject(error);
-      });
-    });
+  private findExistingArchive(chart: IChart, options: DownloadOptions): string | undefined {
+    return ARCHIVE_FORMATS
+      .map(format => this.getFilePath(chart, options, format))
+      .find(filePath => fs.existsSync(filePath));
   }
 
   /**
-   * Make HTTP GET request
+   * Get the per-chart directory used for folder downloads
    */
-  private async httpGet(url: string): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const request = (url.startsWith('https:') ? https : http).get(url, {
-        headers: {
-          'User-Agent': this.userAgent
-        }
-      }, (response) => {
-        let data = '';
-        
-        response.on('data', (chunk) => {
-          data += chunk;
-        });
-        
-        response.on('end', () => {
-          response.destroy(); // Ensure response is destroyed
-          request.destroy(); // Ensure request is destroyed
-          resolve(data);
-        });
-        
-        response.on('error', (error) => {
-          response.destroy(); // Ensure response is destroyed
-          request.destroy(); // Ensure request is destroyed
-          reject(error);
-        });
-      });
-      
-      request.on('error', (error) => {
-        request.destroy(); // Ensure request is destroyed
-        reject(error);
-      });
-      
-      request.setTimeout(15000, () => {
-        request.destroy(); // Timeout cleanup
-        reject(new Error('Request timeout'));
-      });
-    });
+  private getChartDirectory(chart: IChart, options: DownloadOptions): string {
+    return path.join(options.downloadDir, this.sanitizeFilename(this.getDownloadName(chart, options)));
   }
 
   /**
-   * Get file path for chart download
+   * Name of the chart's archive or folder; variants are named after their label
    */
-  private getFilePath(chart: IChart, options: DownloadOptions): string {
-    let filename = this.sanitizeFilename(`${chart.title} - ${chart.artist}`);
-    
-    // Add extension if not present
-    if (!filename.toLowerCase().endsWith('.zip')) {
-      filename += '.zip';
+  private getDownloadName(chart: IChart, options: DownloadOptions): string {
+    const variant = this.getVariant(chart, options);
+    return `${chart.title} - ${chart.artist}${variant ? ` (${variant.label})` : ''}`;
+  }
+
+  /**
+   * Variant of the chart chosen in the download options
+   */
+  private getVariant(chart: IChart, options: DownloadOptions): IChartVariant | undefined {
+    const selector = options.variants?.[chart.id];
+    if (!selector) {
+      return undefined;
     }
-    
-    let dir = options.downloadDir;
-    
-    return path.join(dir, filename);
+
+    const variant = findChartVariant(chart, selector);
+    if (!variant) {
+      throw new ChartVariantNotFoundError(chart.id, selector);
+    }
+    return variant;
   }
 
   /**
@@ -895,68 +685,4 @@ export class ChartDownloader {
   cancelAllDownloads(): void {
     this.activeDownloads.clear();
   }
-
-  /**
-   * Download from OneDrive with multiple fallback methods
-   */
-  private async downloadFromOneDrive(chart: IChart, options: DownloadOptions, startTime: number): Promise<DownloadResult> {
-    const filePath = this.getFilePath(chart, options);
-    
-    // Method 1: Try simple URL with &download=1 parameter
-    try {
-      const directUrl = `${chart.downloadUrl}&download=1`;
-      console.log(`🔗 Trying OneDrive direct download: ${directUrl}`);
-      
-      const fileSize = await this.downloadFile(directUrl, filePath, options, chart);
-      
-      return {
-        chart,
-        success: true,
-        filePath,
-        fileSize,
-        downloadTime: Date.now() - startTime
-      };
-    } catch (error) {
-      console.log(`⚠️ OneDrive direct download failed: ${error instanceof Error ? error.message : String(error)}`);
-    }
-
-    // Method 2: Try following redirects to get actual download URL
-    try {
-      console.log(`🔄 Trying OneDrive redirect resolution...`);
-      const fileSize = await this.downloadFile(chart.downloadUrl!, filePath, options, chart); // Safe since we checked above
-      
-      return {
-        chart,
-        success: true,
-        filePath,
-        fileSize,
-        downloadTime: Date.now() - startTime
-      };
-    } catch (error) {
-      console.log(`⚠️ OneDrive redirect resolution failed: ${error instanceof Error ? error.message : String(error)}`);
-    }
-
-    // Method 3: Return informative error about OneDrive limitations
-    return {
-      chart,
-      success: false,
-      error: 'OneDrive download failed: Modern OneDrive links require browser automation or authentication. Consider using direct download links or browser-based OneDrive downloader.',
-      fileSize: 0,
-      downloadTime: Date.now() - startTime
-    };
-  }
-
-  /**
-   * Check if URL is a OneDrive URL
-   */
-  private isOneDriveUrl(url: string): boolean {
-    const oneDrivePatterns = [
-      /1drv\.ms/i,
-      /onedrive\.live\.com/i,
-      /sharepoint\.com/i,
-      /my\.sharepoint\.com/i
-    ];
-    
-    return oneDrivePatterns.some(pattern => pattern.test(url));
-  }
 }
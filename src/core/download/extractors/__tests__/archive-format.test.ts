@@ -0,0 +1,151 @@
+/**
+ * Tests for archive type detection and archive-aware file naming in ChartDownloader
+ */
+
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { archiveFormatFromName, detectArchiveFormat } from '..';
+import { ChartDownloader } from '../../downloader';
+import { DownloadProviderRegistry, downloadToFile, parseContentDispositionFileName } from '../../providers';
+import { IChart } from '../../../models';
+import { IDownloadProvider } from '../../../interfaces';
+
+const FIXTURES = path.join(__dirname, 'fixtures');
+
+describe('archive type detection', () => {
+  it('recognises archives by their magic bytes', () => {
+    expect(detectArchiveFormat(Buffer.from('PK\x03\x04rest', 'latin1'))).toBe('zip');
+    expect(detectArchiveFormat(Buffer.from('Rar!\x1a\x07\x00', 'latin1'))).toBe('rar');
+    expect(detectArchiveFormat(Buffer.from('Rar!\x1a\x07\x01\x00', 'latin1'))).toBe('rar');
+    expect(detectArchiveFormat(Buffer.from([0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c, 0x00, 0x04]))).toBe('7z');
+    expect(detectArchiveFormat(Buffer.from('<html>'))).toBeNull();
+    expect(detectArchiveFormat(Buffer.from('Rar!'))).toBeNull();
+  });
+
+  it('recognises archives by file name or URL', () => {
+    expect(archiveFormatFromName('https://example.com/files/Song.RAR?dl=1')).toBe('rar');
+    expect(archiveFormatFromName('chart.7z')).toBe('7z');
+    expect(archiveFormatFromName('https://drive.google.com/uc?id=abc')).toBeNull();
+  });
+
+  it('reads file names from Content-Disposition headers', () => {
+    expect(parseContentDispositionFileName('attachment; filename="song.rar"')).toBe('song.rar');
+    expect(parseContentDispositionFileName('attachment; filename=song.7z')).toBe('song.7z');
+    expect(parseContentDispositionFileName(`attachment; filename="fallback.zip"; filename*=UTF-8''%E6%9B%B2.rar`)).toBe('曲.rar');
+    // Raw UTF-8 read by Node as Latin-1
+    expect(parseContentDispositionFileName(`attachment; filename="${Buffer.from('曲.7z').toString('latin1')}"`)).toBe('曲.7z');
+    expect(parseContentDispositionFileName('attachment; filename="../../evil.rar"')).toBe('evil.rar');
+    expect(parseContentDispositionFileName('inline')).toBeUndefined();
+    expect(parseContentDispositionFileName(undefined)).toBeUndefined();
+  });
+});
+
+describe('ChartDownloader archive types', () => {
+  const bodies: Record<string, { body: Buffer; disposition?: string }> = {
+    '/rar': { body: fs.readFileSync(path.join(FIXTURES, 'chart-rar5.rar')) },
+    '/7z': { body: fs.readFileSync(path.join(FIXTURES, 'chart.7z')), disposition: 'attachment; filename="chart.zip"' },
+    '/lzh': { body: Buffer.from('-lh5- not supported'), disposition: 'attachment; filename="chart.lzh"' }
+  };
+
+  let server: http.Server;
+  let baseUrl: string;
+  let tempDir: string;
+  let downloader: ChartDownloader;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const entry = bodies[req.url || ''];
+      if (!entry) {
+        res.writeHead(404);
+        res.end();
+        return;
+      }
+      res.writeHead(200, {
+        'Content-Type': 'application/octet-stream',
+        'Content-Length': String(entry.body.length),
+        ...(entry.disposition ? { 'Content-Disposition': entry.disposition } : {})
+      });
+      res.end(entry.body);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    const provider: IDownloadProvider = {
+      name: 'Fixture',
+      supportedDomains: ['127.0.0.1'],
+      canHandle: () => true,
+      download: async (url, destination, progress, options) => {
+        await downloadToFile(url, destination, { ...options, onProgress: progress });
+      },
+      validateUrl: async () => true
+    };
+    downloader = new ChartDownloader(new DownloadProviderRegistry([provider]));
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dtx-archive-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function chartFor(route: string): IChart {
+    return {
+      id: `chart${route.replace('/', '-')}`,
+      title: 'Song',
+      artist: 'Artist',
+      bpm: '150',
+      difficulties: [5.0],
+      source: 'approved-dtx',
+      downloadUrl: `${baseUrl}${route}`,
+      originalPageUrl: 'http://approvedtx.blogspot.com/',
+      tags: [],
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+  }
+
+  const options = () => ({ downloadDir: tempDir, chartIds: [], maxConcurrency: 1, overwrite: false, timeout: 5000 });
+
+  it('extracts RAR downloads and removes the archive', async () => {
+    const result = await downloader.downloadChart(chartFor('/rar'), options());
+
+    expect(result.success).toBe(true);
+    expect(result.filePath).toBe(path.join(tempDir, 'Song - Artist.rar'));
+    expect(fs.readdirSync(tempDir).sort()).toEqual(['readme.txt', '曲']);
+    expect(fs.readFileSync(path.join(tempDir, '曲', 'テスト.dtx'), 'utf8')).toBe('#TITLE: Song\r\n');
+  });
+
+  it('trusts magic bytes over the Content-Disposition extension', async () => {
+    const result = await downloader.downloadChart(chartFor('/7z'), options());
+
+    expect(result.success).toBe(true);
+    expect(result.filePath).toBe(path.join(tempDir, 'Song - Artist.7z'));
+    expect(fs.existsSync(path.join(tempDir, '曲', 'テスト.dtx'))).toBe(true);
+  });
+
+  it('names unsupported downloads after Content-Disposition and keeps them', async () => {
+    const result = await downloader.downloadChart(chartFor('/lzh'), options());
+
+    expect(result.success).toBe(true);
+    expect(result.filePath).toBe(path.join(tempDir, 'Song - Artist.lzh'));
+    expect(fs.readdirSync(tempDir)).toEqual(['Song - Artist.lzh']);
+  });
+
+  it('skips charts whose archive is already downloaded', async () => {
+    fs.writeFileSync(path.join(tempDir, 'Song - Artist.rar'), 'existing');
+
+    const result = await downloader.downloadChart(chartFor('/rar'), options());
+
+    expect(result.error).toBe('File already exists (skipped)');
+    expect(result.filePath).toBe(path.join(tempDir, 'Song - Artist.rar'));
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Tests for RAR and 7z extraction through 7-Zip
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ArchiveExtractorRegistry, SevenZipExtractor, createDefaultExtractorRegistry, detectArchiveFormatFromFile } from '..';
+
+const FIXTURES = path.join(__dirname, 'fixtures');
+
+describe('SevenZipExtractor', () => {
+  const extractor = new SevenZipExtractor();
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dtx-7z-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it.each([
+    ['chart-rar4.rar', 'rar', path.join('Song', 'song.dtx')],
+    ['chart-rar5.rar', 'rar', path.join('曲', 'テスト.dtx')],
+    ['chart.7z', '7z', path.join('曲', 'テスト.dtx')]
+  ])('extracts %s', async (fixture, format, chartFile) => {
+    const archivePath = path.join(FIXTURES, fixture);
+    expect(detectArchiveFormatFromFile(archivePath)).toBe(format);
+
+    const destination = path.join(tempDir, 'out');
+    const { files } = await extractor.extract(archivePath, destination);
+
+    expect(files.sort()).toEqual([path.join(destination, chartFile), path.join(destination, 'readme.txt')].sort());
+    expect(fs.readFileSync(path.join(destination, chartFile), 'utf8')).toBe('#TITLE: Song\r\n');
+    expect(fs.readFileSync(path.join(destination, 'readme.txt'), 'utf8')).toBe('hello\r\n');
+  });
+
+  it('lists entries with their directories', async () => {
+    const entries = await extractor.list(path.join(FIXTURES, 'chart.7z'));
+
+    expect(entries.map(entry => [entry.name, entry.isDirectory]).sort()).toEqual([
+      ['readme.txt', false],
+      ['曲', true],
+      ['曲/テスト.dtx', false]
+    ]);
+  });
+
+  it('rejects path traversal before extracting', async () => {
+    const destination = path.join(tempDir, 'out');
+
+    await expect(extractor.extract(path.join(FIXTURES, 'traversal.rar'), destination))
+      .rejects.toThrow('Unsafe path in archive: ../evil.txt');
+    expect(fs.existsSync(destination)).toBe(false);
+    expect(fs.existsSync(path.join(tempDir, 'evil.txt'))).toBe(false);
+  });
+
+  it('reports corrupt archives', async () => {
+    const archivePath = path.join(tempDir, 'broken.7z');
+    fs.writeFileSync(archivePath, fs.readFileSync(path.join(FIXTURES, 'chart.7z')).subarray(0, 60));
+
+    await expect(extractor.extract(archivePath, path.join(tempDir, 'out'))).rejects.toThrow(/7-Zip exited with code 2/);
+    expect(process.exitCode).toBeFalsy();
+  });
+
+  it('is picked for RAR and 7z by the default registry', () => {
+    const registry = createDefaultExtractorRegistry();
+
+    expect(registry.getExtractor('zip').name).toBe('ZIP');
+    expect(registry.getExtractor('rar').name).toBe('7-Zip');
+    expect(registry.getExtractor('7z').name).toBe('7-Zip');
+    expect(() => new ArchiveExtractorRegistry().getExtractor('rar')).toThrow('No extractor registered for rar archives');
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Tests for the in-process ZIP extractor
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { ZipExtractor, crc32 } from '..';
+import { ChartDownloader } from '../../downloader';
+import { DownloadProviderRegistry } from '../../providers';
+import { IChart } from '../../../models';
+import { IDownloadProvider } from '../../../interfaces';
+
+interface TestEntry {
+  name: string | Buffer;
+  data?: Buffer;
+  utf8Flag?: boolean;
+  deflate?: boolean;
+  /** Overrides the stored CRC-32 to simulate corruption */
+  crc?: number;
+}
+
+/**
+ * Build a ZIP archive in memory with the given entries
+ */
+function buildZip(entries: TestEntry[]): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = typeof entry.name === 'string' ? Buffer.from(entry.name, 'utf8') : entry.name;
+    const data = entry.data ?? Buffer.alloc(0);
+    const stored = entry.deflate ? zlib.deflateRawSync(data) : data;
+    const flags = entry.utf8Flag ? 0x0800 : 0;
+    const method = entry.deflate ? 8 : 0;
+    const checksum = entry.crc ?? crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(flags, 6);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(checksum, 14);
+    local.writeUInt32LE(stored.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, stored);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(flags, 8);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(checksum, 16);
+    central.writeUInt32LE(stored.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + stored.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(entries.length, 8);
+  eocd.writeUInt16LE(entries.length, 10);
+  eocd.writeUInt32LE(directory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, eocd]);
+}
+
+// "テスト" in CP932
+const SJIS_TEST = Buffer.from([0x83, 0x65, 0x83, 0x58, 0x83, 0x67]);
+
+describe('ZipExtractor', () => {
+  const extractor = new ZipExtractor();
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dtx-zip-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function writeZip(entries: TestEntry[]): string {
+    const zipPath = path.join(tempDir, 'chart.zip');
+    fs.writeFileSync(zipPath, buildZip(entries));
+    return zipPath;
+  }
+
+  it('extracts stored and deflated entries into nested directories', async () => {
+    const chart = Buffer.from('#TITLE: Song\n#BPM: 150\n'.repeat(50));
+    const zipPath = writeZip([
+      { name: 'Song/' },
+      { name: 'Song/song.dtx', data: chart, deflate: true },
+      { name: 'Song/preview.ogg', data: Buffer.from('audio') }
+    ]);
+
+    const destination = path.join(tempDir, 'out');
+    const { files } = await extractor.extract(zipPath, destination);
+
+    expect(files).toEqual([path.join(destination, 'Song', 'song.dtx'), path.join(destination, 'Song', 'preview.ogg')]);
+    expect(fs.readFileSync(path.join(destination, 'Song', 'song.dtx'))).toEqual(chart);
+    expect(fs.readFileSync(path.join(destination, 'Song', 'preview.ogg')).toString()).toBe('audio');
+  });
+
+  it('decodes names flagged as UTF-8', async () => {
+    const zipPath = writeZip([{ name: '曲/テスト.dtx', data: Buffer.from('x'), utf8Flag: true }]);
+
+    expect((await extractor.list(zipPath)).map(entry => entry.name)).toEqual(['曲/テスト.dtx']);
+  });
+
+  it('decodes unflagged names as UTF-8 when every name is valid UTF-8', async () => {
+    const zipPath = writeZip([{ name: 'テスト.dtx', data: Buffer.from('x') }]);
+
+    expect((await extractor.list(zipPath)).map(entry => entry.name)).toEqual(['テスト.dtx']);
+  });
+
+  it('decodes unflagged non-UTF-8 names as CP932', async () => {
+    const zipPath = writeZip([
+      { name: Buffer.concat([SJIS_TEST, Buffer.from('/')]) },
+      { name: Buffer.concat([SJIS_TEST, Buffer.from('/'), SJIS_TEST, Buffer.from('.dtx')]), data: Buffer.from('x') },
+      { name: 'readme.txt', data: Buffer.from('y') }
+    ]);
+
+    expect((await extractor.list(zipPath)).map(entry => entry.name)).toEqual(['テスト/', 'テスト/テスト.dtx', 'readme.txt']);
+
+    const destination = path.join(tempDir, 'out');
+    await extractor.extract(zipPath, destination);
+    expect(fs.existsSync(path.join(destination, 'テスト', 'テスト.dtx'))).toBe(true);
+  });
+
+  it.each(['../evil.txt', 'Song/../../evil.txt', '/etc/evil', 'C:\\evil.txt', '..\\evil.txt'])(
+    'rejects the unsafe entry %s before writing anything',
+    async (name) => {
+      const zipPath = writeZip([
+        { name: 'safe.txt', data: Buffer.from('ok') },
+        { name, data: Buffer.from('evil') }
+      ]);
+      const destination = path.join(tempDir, 'out');
+
+      await expect(extractor.extract(zipPath, destination)).rejects.toThrow(`Unsafe path in archive: ${name}`);
+      expect(fs.existsSync(path.join(destination, 'safe.txt'))).toBe(false);
+      expect(fs.existsSync(path.join(tempDir, 'evil.txt'))).toBe(false);
+    }
+  );
+
+  it('fails on checksum mismatches', async () => {
+    const zipPath = writeZip([{ name: 'song.dtx', data: Buffer.from('chart'), crc: 0x12345678 }]);
+
+    await expect(extractor.extract(zipPath, path.join(tempDir, 'out'))).rejects.toThrow('Checksum mismatch for song.dtx');
+  });
+
+  it('fails on files that are not ZIP archives', async () => {
+    const zipPath = path.join(tempDir, 'chart.zip');
+    fs.writeFileSync(zipPath, 'PK\x03\x04 truncated');
+
+    await expect(extractor.extract(zipPath, path.join(tempDir, 'out'))).rejects.toThrow('Not a ZIP archive');
+  });
+
+  describe('through ChartDownloader', () => {
+    const chart: IChart = {
+      id: 'zip-chart',
+      title: 'Song',
+      artist: 'Artist',
+      bpm: '150',
+      difficulties: [5.0],
+      source: 'approved-dtx',
+      downloadUrl: 'https://example.com/song.zip',
+      originalPageUrl: 'http://approvedtx.blogspot.com/',
+      tags: [],
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    function downloaderServing(archive: Buffer): ChartDownloader {
+      const provider: IDownloadProvider = {
+        name: 'Fixture',
+        supportedDomains: ['example.com'],
+        canHandle: () => true,
+        download: async (_url, destination) => fs.writeFileSync(destination, archive),
+        validateUrl: async () => true
+      };
+      return new ChartDownloader(new DownloadProviderRegistry([provider]));
+    }
+
+    const options = () => ({ downloadDir: tempDir, chartIds: [], maxConcurrency: 1, overwrite: true, timeout: 5000 });
+
+    it('extracts the archive and removes it', async () => {
+      const archive = buildZip([{ name: Buffer.concat([SJIS_TEST, Buffer.from('.dtx')]), data: Buffer.from('chart') }]);
+
+      const result = await downloaderServing(archive).downloadChart(chart, options());
+
+      expect(result.success).toBe(true);
+      expect(fs.readdirSync(tempDir)).toEqual(['テスト.dtx']);
+    });
+
+    it('reports extraction failures and keeps the archive', async () => {
+      const archive = buildZip([{ name: '../evil.txt', data: Buffer.from('evil') }]);
+
+      const result = await downloaderServing(archive).downloadChart(chart, options());
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Extraction failed: Unsafe path in archive: ../evil.txt');
+      expect(fs.readdirSync(tempDir)).toEqual([path.basename(result.filePath!)]);
+    });
+  });
+});
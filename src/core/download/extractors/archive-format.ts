@@ -0,0 +1,68 @@
+/**
+ * Archive type detection from magic bytes and file names
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ArchiveFormat } from '../../interfaces';
+
+/**
+ * Every archive format, in the order downloads are checked for
+ */
+export const ARCHIVE_FORMATS: ArchiveFormat[] = ['zip', 'rar', '7z'];
+
+const SIGNATURES: Array<{ format: ArchiveFormat; bytes: number[] }> = [
+  { format: 'zip', bytes: [0x50, 0x4b, 0x03, 0x04] },
+  // Empty archive: end of central directory only
+  { format: 'zip', bytes: [0x50, 0x4b, 0x05, 0x06] },
+  // RAR 1.5–4.x
+  { format: 'rar', bytes: [0x52, 0x61, 0x72, 0x21, 0x1a, 0x07, 0x00] },
+  // RAR 5.0
+  { format: 'rar', bytes: [0x52, 0x61, 0x72, 0x21, 0x1a, 0x07, 0x01, 0x00] },
+  { format: '7z', bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c] }
+];
+
+const EXTENSIONS: Record<string, ArchiveFormat> = {
+  '.zip': 'zip',
+  '.rar': 'rar',
+  '.7z': '7z'
+};
+
+/**
+ * Identify an archive from the first bytes of the file
+ */
+export function detectArchiveFormat(header: Buffer): ArchiveFormat | null {
+  const match = SIGNATURES.find(({ bytes }) =>
+    header.length >= bytes.length && bytes.every((byte, i) => header[i] === byte)
+  );
+  return match ? match.format : null;
+}
+
+/**
+ * Identify an archive on disk from its magic bytes
+ */
+export function detectArchiveFormatFromFile(filePath: string): ArchiveFormat | null {
+  const header = Buffer.alloc(8);
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const bytesRead = fs.readSync(fd, header, 0, header.length, 0);
+    return detectArchiveFormat(header.subarray(0, bytesRead));
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Identify an archive from a file name or URL path by its extension
+ */
+export function archiveFormatFromName(name: string): ArchiveFormat | null {
+  const pathname = name.replace(/[?#].*$/, '');
+  return EXTENSIONS[path.extname(pathname).toLowerCase()] ?? null;
+}
+
+/**
+ * File extension (with the dot) for an archive format
+ */
+export function getArchiveExtension(format: ArchiveFormat): string {
+  return `.${format}`;
+}
@@ -0,0 +1,59 @@
+/**
+ * Registry that picks the archive extractor for an archive format
+ */
+
+import { ArchiveFormat, IArchiveExtractor } from '../../interfaces';
+import { ArchiveExtractionError } from '../../errors';
+import { ZipExtractor } from './zip-extractor';
+import { SevenZipExtractor } from './seven-zip-extractor';
+
+export class ArchiveExtractorRegistry {
+  private extractors: IArchiveExtractor[] = [];
+
+  constructor(extractors: IArchiveExtractor[] = []) {
+    extractors.forEach(extractor => this.register(extractor));
+  }
+
+  /**
+   * Register an extractor. Extractors are consulted in registration order, so
+   * the first extractor registered for a format wins.
+   */
+  register(extractor: IArchiveExtractor): void {
+    if (this.extractors.some(existing => existing.name === extractor.name)) {
+      throw new Error(`Archive extractor already registered: ${extractor.name}`);
+    }
+    this.extractors.push(extractor);
+  }
+
+  getExtractors(): IArchiveExtractor[] {
+    return [...this.extractors];
+  }
+
+  /**
+   * Find the first extractor that handles the format
+   */
+  findExtractor(format: ArchiveFormat): IArchiveExtractor | undefined {
+    return this.extractors.find(extractor => extractor.formats.includes(format));
+  }
+
+  /**
+   * Get the extractor for a format, throwing if none is registered
+   */
+  getExtractor(format: ArchiveFormat): IArchiveExtractor {
+    const extractor = this.findExtractor(format);
+    if (!extractor) {
+      throw new ArchiveExtractionError(`No extractor registered for ${format} archives`);
+    }
+    return extractor;
+  }
+}
+
+/**
+ * Registry with the built-in extractors
+ */
+export function createDefaultExtractorRegistry(): ArchiveExtractorRegistry {
+  return new ArchiveExtractorRegistry([
+    new ZipExtractor(),
+    new SevenZipExtractor()
+  ]);
+}
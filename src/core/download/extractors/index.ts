@@ -0,0 +1,4 @@
+export * from './archive-format';
+export * from './extractor-registry';
+export * from './zip-extractor';
+export * from './seven-zip-extractor';
@@ -0,0 +1,170 @@
+/**
+ * RAR and 7z extraction through 7-Zip compiled to WebAssembly
+ *
+ * The archive's directory and the destination are mounted into the WASM file
+ * system, so entries are written straight to disk. Entry paths are listed and
+ * checked before 7-Zip writes anything.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { SevenZipModule } from '7z-wasm';
+import { ArchiveFormat, IArchiveExtractOptions, IArchiveExtractResult, IArchiveExtractor } from '../../interfaces';
+import { ArchiveExtractionError, DownloadCancelledError } from '../../errors';
+import { resolveEntryPath } from './zip-extractor';
+
+export interface SevenZipEntry {
+  /** Entry path inside the archive (forward slashes) */
+  name: string;
+  isDirectory: boolean;
+  size: number;
+}
+
+declare module '7z-wasm' {
+  interface SevenZipModule {
+    /**
+     * Run 7-Zip's main and return its exit status. The bundled typings say
+     * void, but Emscripten's callMain returns the status main exited with.
+     */
+    callMain(args: string[]): number;
+  }
+}
+
+interface SevenZipRun {
+  exitCode: number;
+  stdout: string[];
+  stderr: string[];
+}
+
+const ARCHIVE_MOUNT = '/archive';
+const OUTPUT_MOUNT = '/output';
+
+export class SevenZipExtractor implements IArchiveExtractor {
+  readonly name = '7-Zip';
+  readonly formats: ArchiveFormat[] = ['rar', '7z'];
+
+  /**
+   * List the entries of an archive
+   */
+  async list(archivePath: string): Promise<SevenZipEntry[]> {
+    const run = await this.run(archivePath, null, ['l', '-slt', '-ba']);
+    return parseTechnicalListing(run.stdout);
+  }
+
+  /**
+   * Extract every entry into the destination directory. The whole archive is
+   * rejected before anything is written if any entry would land outside it.
+   * 7-Zip runs synchronously, so cancellation is only checked between steps.
+   */
+  async extract(archivePath: string, destination: string, options: IArchiveExtractOptions = {}): Promise<IArchiveExtractResult> {
+    const root = path.resolve(destination);
+    const entries = await this.list(archivePath);
+    const targets = entries.map(entry => resolveEntryPath(root, entry.name));
+
+    if (options.signal?.aborted) {
+      throw new DownloadCancelledError();
+    }
+
+    fs.mkdirSync(root, { recursive: true });
+    // An empty -p makes encrypted entries fail instead of prompting for a password
+    await this.run(archivePath, root, ['x', '-y', '-p', `-o${OUTPUT_MOUNT}`]);
+
+    if (options.signal?.aborted) {
+      throw new DownloadCancelledError();
+    }
+
+    const files = targets.filter((_, i) => !entries[i].isDirectory);
+    const missing = files.find(file => !fs.existsSync(file));
+    if (missing) {
+      throw new ArchiveExtractionError(`7-Zip did not extract ${path.relative(root, missing)}`);
+    }
+
+    return { files };
+  }
+
+  private async run(archivePath: string, outputDir: string | null, args: string[]): Promise<SevenZipRun> {
+    const stdout: string[] = [];
+    const stderr: string[] = [];
+    const sevenZip = await loadSevenZip({
+      print: (line: string) => stdout.push(line),
+      printErr: (line: string) => stderr.push(line),
+      // End of input: never block on a password prompt
+      stdin: () => null
+    });
+
+    const archiveDir = path.dirname(path.resolve(archivePath));
+    sevenZip.FS.mkdir(ARCHIVE_MOUNT);
+    sevenZip.FS.mount(sevenZip.NODEFS, { root: archiveDir }, ARCHIVE_MOUNT);
+    if (outputDir) {
+      sevenZip.FS.mkdir(OUTPUT_MOUNT);
+      sevenZip.FS.mount(sevenZip.NODEFS, { root: outputDir }, OUTPUT_MOUNT);
+    }
+
+    const archiveArg = `${ARCHIVE_MOUNT}/${path.basename(archivePath)}`;
+    const [command, ...switches] = args;
+    // Under Node the module records 7-Zip's exit status as the process's own
+    const processExitCode = process.exitCode;
+    let exitCode: number;
+    try {
+      exitCode = sevenZip.callMain([command, '-bsp0', ...switches, '--', archiveArg]);
+    } catch (error) {
+      throw new ArchiveExtractionError(
+        `7-Zip failed: ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof Error ? error : undefined
+      );
+    } finally {
+      process.exitCode = processExitCode;
+    }
+
+    if (exitCode !== 0) {
+      const message = stderr.map(line => line.trim()).filter(line => line && !line.startsWith(ARCHIVE_MOUNT)).join('; ');
+      throw new ArchiveExtractionError(`7-Zip exited with code ${exitCode}: ${message || 'unknown error'}`);
+    }
+
+    return { exitCode, stdout, stderr };
+  }
+}
+
+/**
+ * Parse `7z l -slt -ba` output into entries. Each entry is a block of
+ * `Key = Value` lines starting with `Path`.
+ */
+export function parseTechnicalListing(lines: string[]): SevenZipEntry[] {
+  const entries: SevenZipEntry[] = [];
+  let current: Record<string, string> | null = null;
+
+  const flush = () => {
+    if (current && current['Path']) {
+      entries.push({
+        name: current['Path'].replace(/\\/g, '/'),
+        isDirectory: current['Folder'] === '+' || (current['Attributes'] || '').startsWith('D'),
+        size: parseInt(current['Size'] || '0', 10) || 0
+      });
+    }
+    current = null;
+  };
+
+  for (const line of lines) {
+    const match = line.match(/^([^=]+?) = ?(.*)$/);
+    if (!match) continue;
+    if (match[1] === 'Path') {
+      flush();
+      current = {};
+    }
+    if (current) {
+      current[match[1]] = match[2];
+    }
+  }
+  flush();
+
+  return entries;
+}
+
+/**
+ * Load a fresh 7-Zip module. Each run gets its own instance so output
+ * capture and mounts never leak between extractions.
+ */
+async function loadSevenZip(moduleOptions: Record<string, unknown>): Promise<SevenZipModule> {
+  const { default: SevenZip } = await import('7z-wasm');
+  return SevenZip(moduleOptions);
+}
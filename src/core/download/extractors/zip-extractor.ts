@@ -0,0 +1,382 @@
+/**
+ * In-process ZIP extraction
+ *
+ * Reads the central directory, validates every entry path before anything is
+ * written, then streams each entry through inflate into the destination.
+ * Entry names without the UTF-8 flag are decoded as UTF-8 when the whole
+ * archive is valid UTF-8 and as CP932 (Shift-JIS) otherwise, which is what
+ * Japanese Windows zip tools write.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { PassThrough, Transform, TransformCallback } from 'stream';
+import { pipeline } from 'stream/promises';
+import { ArchiveFormat, IArchiveExtractOptions, IArchiveExtractResult, IArchiveExtractor } from '../../interfaces';
+import { ArchiveExtractionError, DownloadCancelledError, UnsafeArchiveEntryError } from '../../errors';
+
+export interface ZipEntry {
+  /** Decoded entry name as stored in the archive (forward slashes) */
+  name: string;
+  isDirectory: boolean;
+  isSymlink: boolean;
+  compressionMethod: number;
+  flags: number;
+  crc32: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_EOCD_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+const FLAG_ENCRYPTED = 0x0001;
+const FLAG_UTF8 = 0x0800;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+const EXTRA_ZIP64 = 0x0001;
+const EXTRA_UNICODE_PATH = 0x7075;
+
+export class ZipExtractor implements IArchiveExtractor {
+  readonly name = 'ZIP';
+  readonly formats: ArchiveFormat[] = ['zip'];
+
+  /**
+   * List the entries of an archive
+   */
+  async list(archivePath: string): Promise<ZipEntry[]> {
+    const handle = await fs.promises.open(archivePath, 'r');
+    try {
+      const { size } = await handle.stat();
+      return await this.readCentralDirectory(handle, size);
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /**
+   * Extract every entry into the destination directory. The whole archive is
+   * rejected before anything is written if any entry would land outside it.
+   */
+  async extract(archivePath: string, destination: string, options: IArchiveExtractOptions = {}): Promise<IArchiveExtractResult> {
+    const root = path.resolve(destination);
+    const handle = await fs.promises.open(archivePath, 'r');
+
+    try {
+      const { size } = await handle.stat();
+      const entries = await this.readCentralDirectory(handle, size);
+      const targets = entries.map(entry => resolveEntryPath(root, entry.name));
+
+      fs.mkdirSync(root, { recursive: true });
+      const files: string[] = [];
+
+      for (let i = 0; i < entries.length; i++) {
+        if (options.signal?.aborted) {
+          throw new DownloadCancelledError();
+        }
+
+        const entry = entries[i];
+        const target = targets[i];
+
+        if (entry.isDirectory) {
+          fs.mkdirSync(target, { recursive: true });
+          continue;
+        }
+
+        if (entry.isSymlink) {
+          console.log(`⏭️  Skipping symbolic link in archive: ${entry.name}`);
+          continue;
+        }
+
+        if (entry.flags & FLAG_ENCRYPTED) {
+          throw new ArchiveExtractionError(`Encrypted entries are not supported: ${entry.name}`);
+        }
+
+        if (entry.compressionMethod !== METHOD_STORED && entry.compressionMethod !== METHOD_DEFLATE) {
+          throw new ArchiveExtractionError(`Unsupported compression method ${entry.compressionMethod}: ${entry.name}`);
+        }
+
+        fs.mkdirSync(path.dirname(target), { recursive: true });
+        await this.extractEntry(handle, archivePath, entry, target, options);
+        files.push(target);
+      }
+
+      return { files };
+    } finally {
+      await handle.close();
+    }
+  }
+
+  private async extractEntry(
+    handle: fs.promises.FileHandle,
+    archivePath: string,
+    entry: ZipEntry,
+    target: string,
+    options: IArchiveExtractOptions
+  ): Promise<void> {
+    const localHeader = await readAt(handle, entry.localHeaderOffset, 30);
+    if (localHeader.readUInt32LE(0) !== LOCAL_HEADER_SIGNATURE) {
+      throw new ArchiveExtractionError(`Corrupt local header for ${entry.name}`);
+    }
+
+    const dataStart = entry.localHeaderOffset + 30 + localHeader.readUInt16LE(26) + localHeader.readUInt16LE(28);
+
+    if (entry.compressedSize === 0) {
+      fs.writeFileSync(target, Buffer.alloc(0));
+      if (entry.uncompressedSize !== 0) {
+        throw new ArchiveExtractionError(`Size mismatch for ${entry.name}`);
+      }
+      return;
+    }
+
+    const checksum = new Crc32Stream();
+    try {
+      await pipeline(
+        fs.createReadStream(archivePath, { start: dataStart, end: dataStart + entry.compressedSize - 1 }),
+        entry.compressionMethod === METHOD_DEFLATE ? zlib.createInflateRaw() : new PassThrough(),
+        checksum,
+        fs.createWriteStream(target),
+        ...(options.signal ? [{ signal: options.signal }] : [])
+      );
+    } catch (error) {
+      fs.rmSync(target, { force: true });
+      if (options.signal?.aborted) {
+        throw new DownloadCancelledError();
+      }
+      throw new ArchiveExtractionError(
+        `Could not extract ${entry.name}: ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    if (checksum.size !== entry.uncompressedSize || checksum.digest() !== entry.crc32) {
+      fs.rmSync(target, { force: true });
+      throw new ArchiveExtractionError(`Checksum mismatch for ${entry.name}`);
+    }
+  }
+
+  private async readCentralDirectory(handle: fs.promises.FileHandle, fileSize: number): Promise<ZipEntry[]> {
+    // The end of central directory record sits within the last 64KB + 22 bytes
+    const tailSize = Math.min(fileSize, 22 + 0xffff);
+    const tail = await readAt(handle, fileSize - tailSize, tailSize);
+
+    let eocd = -1;
+    for (let i = tail.length - 22; i >= 0; i--) {
+      if (tail.readUInt32LE(i) === EOCD_SIGNATURE) {
+        eocd = i;
+        break;
+      }
+    }
+    if (eocd < 0) {
+      throw new ArchiveExtractionError('Not a ZIP archive (end of central directory not found)');
+    }
+
+    let entryCount = tail.readUInt16LE(eocd + 10);
+    let directorySize = tail.readUInt32LE(eocd + 12);
+    let directoryOffset = tail.readUInt32LE(eocd + 16);
+
+    if (entryCount === 0xffff || directorySize === 0xffffffff || directoryOffset === 0xffffffff) {
+      const locatorPosition = fileSize - tailSize + eocd - 20;
+      const locator = await readAt(handle, locatorPosition, 20);
+      if (locator.readUInt32LE(0) !== ZIP64_EOCD_LOCATOR_SIGNATURE) {
+        throw new ArchiveExtractionError('Corrupt ZIP64 end of central directory locator');
+      }
+      const zip64Eocd = await readAt(handle, Number(locator.readBigUInt64LE(8)), 56);
+      if (zip64Eocd.readUInt32LE(0) !== ZIP64_EOCD_SIGNATURE) {
+        throw new ArchiveExtractionError('Corrupt ZIP64 end of central directory record');
+      }
+      entryCount = Number(zip64Eocd.readBigUInt64LE(32));
+      directorySize = Number(zip64Eocd.readBigUInt64LE(40));
+      directoryOffset = Number(zip64Eocd.readBigUInt64LE(48));
+    }
+
+    if (directoryOffset + directorySize > fileSize) {
+      throw new ArchiveExtractionError('Central directory extends past the end of the file (truncated archive?)');
+    }
+
+    const directory = await readAt(handle, directoryOffset, directorySize);
+    const rawEntries: Array<Omit<ZipEntry, 'name'> & { rawName: Buffer; unicodeName?: string }> = [];
+
+    let position = 0;
+    for (let i = 0; i < entryCount; i++) {
+      if (position + 46 > directory.length || directory.readUInt32LE(position) !== CENTRAL_HEADER_SIGNATURE) {
+        throw new ArchiveExtractionError('Corrupt central directory');
+      }
+
+      const flags = directory.readUInt16LE(position + 8);
+      const nameLength = directory.readUInt16LE(position + 28);
+      const extraLength = directory.readUInt16LE(position + 30);
+      const commentLength = directory.readUInt16LE(position + 32);
+      const externalAttributes = directory.readUInt32LE(position + 38);
+
+      const rawName = directory.subarray(position + 46, position + 46 + nameLength);
+      const extra = directory.subarray(position + 46 + nameLength, position + 46 + nameLength + extraLength);
+
+      let uncompressedSize = directory.readUInt32LE(position + 24);
+      let compressedSize = directory.readUInt32LE(position + 20);
+      let localHeaderOffset = directory.readUInt32LE(position + 42);
+      let unicodeName: string | undefined;
+
+      for (const field of readExtraFields(extra)) {
+        if (field.id === EXTRA_ZIP64) {
+          // Only the fields that overflowed are present, in this order
+          let offset = 0;
+          if (uncompressedSize === 0xffffffff && offset + 8 <= field.data.length) {
+            uncompressedSize = Number(field.data.readBigUInt64LE(offset));
+            offset += 8;
+          }
+          if (compressedSize === 0xffffffff && offset + 8 <= field.data.length) {
+            compressedSize = Number(field.data.readBigUInt64LE(offset));
+            offset += 8;
+          }
+          if (localHeaderOffset === 0xffffffff && offset + 8 <= field.data.length) {
+            localHeaderOffset = Number(field.data.readBigUInt64LE(offset));
+          }
+        } else if (field.id === EXTRA_UNICODE_PATH && field.data.length > 5 && field.data[0] === 1) {
+          // Info-ZIP Unicode Path: only valid while it matches the stored name
+          if (crc32(rawName) === field.data.readUInt32LE(1)) {
+            unicodeName = field.data.subarray(5).toString('utf8');
+          }
+        }
+      }
+
+      const fileType = (externalAttributes >>> 16) & 0o170000;
+      const slashName = rawName.length > 0 && (rawName[rawName.length - 1] === 0x2f || rawName[rawName.length - 1] === 0x5c);
+
+      rawEntries.push({
+        rawName,
+        ...(unicodeName !== undefined ? { unicodeName } : {}),
+        isDirectory: slashName || fileType === 0o040000,
+        isSymlink: fileType === 0o120000,
+        compressionMethod: directory.readUInt16LE(position + 10),
+        flags,
+        crc32: directory.readUInt32LE(position + 16),
+        compressedSize,
+        uncompressedSize,
+        localHeaderOffset
+      });
+
+      position += 46 + nameLength + extraLength + commentLength;
+    }
+
+    // Names without the UTF-8 flag share one legacy encoding per archive
+    const legacyNames = rawEntries.filter(entry => !(entry.flags & FLAG_UTF8) && entry.unicodeName === undefined);
+    const legacyEncoding = legacyNames.every(entry => isValidUtf8(entry.rawName)) ? 'utf-8' : 'shift_jis';
+
+    return rawEntries.map(({ rawName, unicodeName, ...entry }) => ({
+      ...entry,
+      name: unicodeName ?? decodeEntryName(rawName, entry.flags & FLAG_UTF8 ? 'utf-8' : legacyEncoding)
+    }));
+  }
+}
+
+/**
+ * Decode a raw entry name. `shift_jis` in the WHATWG encoding standard is
+ * Windows code page 932, including its NEC and IBM extensions.
+ */
+export function decodeEntryName(rawName: Buffer, encoding: 'utf-8' | 'shift_jis'): string {
+  return new TextDecoder(encoding).decode(rawName);
+}
+
+/**
+ * Resolve an entry name inside the extraction root, rejecting absolute paths
+ * and anything that would escape the root (zip-slip)
+ */
+export function resolveEntryPath(root: string, name: string): string {
+  const normalized = name.replace(/\\/g, '/');
+
+  if (normalized.startsWith('/') || /^[a-zA-Z]:/.test(normalized) || normalized.includes('\0')) {
+    throw new UnsafeArchiveEntryError(name);
+  }
+
+  const segments = normalized.split('/').filter(segment => segment !== '' && segment !== '.');
+  if (segments.length === 0 || segments.includes('..')) {
+    throw new UnsafeArchiveEntryError(name);
+  }
+
+  const target = path.resolve(root, ...segments);
+  if (!target.startsWith(root + path.sep)) {
+    throw new UnsafeArchiveEntryError(name);
+  }
+
+  return target;
+}
+
+function isValidUtf8(bytes: Buffer): boolean {
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function readExtraFields(extra: Buffer): Array<{ id: number; data: Buffer }> {
+  const fields: Array<{ id: number; data: Buffer }> = [];
+  let position = 0;
+  while (position + 4 <= extra.length) {
+    const id = extra.readUInt16LE(position);
+    const size = extra.readUInt16LE(position + 2);
+    fields.push({ id, data: extra.subarray(position + 4, position + 4 + size) });
+    position += 4 + size;
+  }
+  return fields;
+}
+
+async function readAt(handle: fs.promises.FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  if (bytesRead < length) {
+    throw new ArchiveExtractionError('Unexpected end of archive (truncated download?)');
+  }
+  return buffer;
+}
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function updateCrc32(crc: number, data: Buffer): number {
+  let c = crc ^ 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    c = CRC32_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+export function crc32(data: Buffer): number {
+  return updateCrc32(0, data);
+}
+
+/**
+ * Pass-through stream that tracks the CRC-32 and size of the data
+ */
+class Crc32Stream extends Transform {
+  size = 0;
+  private crc = 0;
+
+  override _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.crc = updateCrc32(this.crc, chunk);
+    this.size += chunk.length;
+    callback(null, chunk);
+  }
+
+  digest(): number {
+    return this.crc;
+  }
+}
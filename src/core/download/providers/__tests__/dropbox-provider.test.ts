@@ -0,0 +1,115 @@
+/**
+ * Tests for the Dropbox download provider against a local stand-in server
+ */
+
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { DropboxProvider, createDefaultProviderRegistry } from '..';
+
+describe('DropboxProvider', () => {
+  const provider = new DropboxProvider();
+
+  describe('URL handling', () => {
+    it('is selected by the default registry for Dropbox hosts', () => {
+      const registry = createDefaultProviderRegistry();
+      expect(registry.getProvider('https://www.dropbox.com/s/abc123/song.zip?dl=0')).toBeInstanceOf(DropboxProvider);
+      expect(registry.getProvider('https://dl.dropboxusercontent.com/s/abc123/song.zip')).toBeInstanceOf(DropboxProvider);
+      expect(provider.canHandle('https://example.com/dropbox.com/song.zip')).toBe(false);
+    });
+
+    it('rewrites legacy share links to direct-download form', async () => {
+      expect(await provider.getDirectUrl('https://www.dropbox.com/s/abc123/song.zip?dl=0'))
+        .toBe('https://www.dropbox.com/s/abc123/song.zip?dl=1');
+      expect(await provider.getDirectUrl('https://www.dropbox.com/s/abc123/song.zip'))
+        .toBe('https://www.dropbox.com/s/abc123/song.zip?dl=1');
+    });
+
+    it('keeps the rlkey on /scl/fi/ links', async () => {
+      expect(await provider.getDirectUrl('https://www.dropbox.com/scl/fi/xyz789/song.zip?rlkey=key123&dl=0'))
+        .toBe('https://www.dropbox.com/scl/fi/xyz789/song.zip?rlkey=key123&dl=1');
+    });
+
+    it('recognises folder links', async () => {
+      expect(provider.isFolderUrl('https://www.dropbox.com/scl/fo/folder1/h?rlkey=key123&dl=0')).toBe(true);
+      expect(provider.isFolderUrl('https://www.dropbox.com/sh/folder1/AAAbbb?dl=0')).toBe(true);
+      expect(provider.isFolderUrl('https://www.dropbox.com/scl/fi/xyz789/song.zip?rlkey=key123')).toBe(false);
+      expect(await provider.getDirectUrl('https://www.dropbox.com/sh/folder1/AAAbbb?dl=0'))
+        .toBe('https://www.dropbox.com/sh/folder1/AAAbbb?dl=1');
+    });
+  });
+
+  describe('downloads', () => {
+    const fileBody = Buffer.from('PK\u0003\u0004 chart archive');
+    const folderBody = Buffer.from('PK\u0003\u0004 zipped folder');
+    let server: http.Server;
+    let baseUrl: string;
+    let tempDir: string;
+
+    beforeAll(async () => {
+      // Behaves like Dropbox: share links serve the preview page unless dl=1 is set
+      server = http.createServer((req, res) => {
+        const url = new URL(req.url || '/', 'http://localhost');
+        if (url.pathname === '/content/song.zip') {
+          res.writeHead(200, { 'Content-Type': 'application/octet-stream', 'Content-Length': String(fileBody.length) });
+          res.end(fileBody);
+          return;
+        }
+
+        if (url.searchParams.get('dl') !== '1') {
+          res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+          res.end('<html><body>Dropbox preview</body></html>');
+          return;
+        }
+
+        if (url.pathname === '/scl/fi/xyz789/song.zip' && url.searchParams.get('rlkey') === 'key123') {
+          res.writeHead(302, { Location: '/content/song.zip' });
+          res.end();
+        } else if (url.pathname === '/scl/fo/folder1/h') {
+          res.writeHead(200, { 'Content-Type': 'application/zip', 'Content-Disposition': 'attachment; filename="folder1.zip"' });
+          res.end(folderBody);
+        } else {
+          res.writeHead(404);
+          res.end();
+        }
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    });
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dtx-dropbox-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('downloads a /scl/fi/ share link instead of the preview page', async () => {
+      const destination = path.join(tempDir, 'song.zip');
+
+      await provider.download(`${baseUrl}/scl/fi/xyz789/song.zip?rlkey=key123&dl=0`, destination);
+
+      expect(fs.readFileSync(destination)).toEqual(fileBody);
+    });
+
+    it('downloads a folder link as a ZIP archive', async () => {
+      const destination = path.join(tempDir, 'folder1.zip');
+
+      await provider.download(`${baseUrl}/scl/fo/folder1/h?rlkey=key123&dl=0`, destination);
+
+      expect(fs.readFileSync(destination)).toEqual(folderBody);
+    });
+
+    it('fails when the link is missing', async () => {
+      await expect(provider.download(`${baseUrl}/s/missing/song.zip?dl=0`, path.join(tempDir, 'missing.zip')))
+        .rejects.toThrow('HTTP 404');
+    });
+  });
+});
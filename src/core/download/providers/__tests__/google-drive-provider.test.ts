@@ -0,0 +1,155 @@
+/**
+ * Tests for Google Drive folder downloads against a local stand-in server
+ */
+
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { DownloadProviderRegistry, GoogleDriveProvider } from '..';
+import { ChartDownloader } from '../../downloader';
+import { IChart, IDownloadProgress } from '../../../models';
+
+function folderEntry(id: string, name: string, isFolder = false): string {
+  const href = isFolder
+    ? `https://drive.google.com/drive/folders/${id}`
+    : `https://drive.google.com/file/d/${id}/view?usp=drive_web`;
+  return `<div class="flip-entry" id="entry-${id}" tabindex="0" role="link">` +
+    `<div class="flip-entry-info"><a href="${href}" target="_blank">` +
+    `<div class="flip-entry-title">${name}</div></a></div></div>`;
+}
+
+function folderView(entries: string[]): string {
+  return `<html><body><div class="flip-entries">${entries.join('')}</div></body></html>`;
+}
+
+describe('GoogleDriveProvider folders', () => {
+  const files: Record<string, Buffer> = {
+    file1: Buffer.from('#TITLE: Song\n#BPM: 150\n'),
+    file2: Buffer.from('preview audio'),
+    file3: Buffer.from('bonus chart')
+  };
+
+  let server: http.Server;
+  let baseUrl: string;
+  let tempDir: string;
+  let provider: GoogleDriveProvider;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      const id = url.searchParams.get('id') || '';
+
+      if (url.pathname === '/embeddedfolderview') {
+        const listings: Record<string, string[]> = {
+          root1: [
+            folderEntry('file1', 'song.dtx'),
+            folderEntry('file2', 'preview.ogg'),
+            folderEntry('sub1', 'Bonus', true)
+          ],
+          sub1: [folderEntry('file3', 'bonus.dtx')],
+          empty1: []
+        };
+        if (listings[id]) {
+          res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+          res.end(folderView(listings[id]));
+        } else {
+          res.writeHead(404);
+          res.end();
+        }
+      } else if (url.pathname === '/download' && files[id]) {
+        res.writeHead(200, { 'Content-Type': 'application/octet-stream', 'Content-Length': String(files[id].length) });
+        res.end(files[id]);
+      } else {
+        res.writeHead(404);
+        res.end();
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    provider = new GoogleDriveProvider({ driveUrl: baseUrl, downloadUrl: baseUrl });
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dtx-gdrive-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('recognises folder URLs and extracts the folder ID', () => {
+    expect(provider.isFolderUrl('https://drive.google.com/drive/folders/root1')).toBe(true);
+    expect(provider.isFolderUrl('https://drive.google.com/drive/u/0/folders/root1?usp=sharing')).toBe(true);
+    expect(provider.isFolderUrl('https://drive.google.com/file/d/file1/view')).toBe(false);
+    expect(provider.extractFolderId('https://drive.google.com/drive/folders/root1?usp=sharing')).toBe('root1');
+    expect(provider.extractFolderId('https://drive.google.com/embeddedfolderview?id=root1#list')).toBe('root1');
+  });
+
+  it('lists files and subfolders from the embedded folder view', async () => {
+    expect(await provider.listFolder('root1')).toEqual([
+      { id: 'file1', name: 'song.dtx', isFolder: false },
+      { id: 'file2', name: 'preview.ogg', isFolder: false },
+      { id: 'sub1', name: 'Bonus', isFolder: true }
+    ]);
+  });
+
+  it('downloads every file in the folder, mirroring subfolders', async () => {
+    const directory = path.join(tempDir, 'Song - Artist');
+    const updates: IDownloadProgress[] = [];
+
+    const saved = await provider.downloadFolder('https://drive.google.com/drive/folders/root1', directory, progress => updates.push(progress));
+
+    expect(saved).toEqual([
+      path.join(directory, 'song.dtx'),
+      path.join(directory, 'preview.ogg'),
+      path.join(directory, 'Bonus', 'bonus.dtx')
+    ]);
+    expect(fs.readFileSync(path.join(directory, 'Bonus', 'bonus.dtx'))).toEqual(files.file3);
+
+    // Progress accumulates across files
+    const totalBytes = files.file1.length + files.file2.length + files.file3.length;
+    expect(updates[updates.length - 1].downloaded).toBe(totalBytes);
+  });
+
+  it('fails for empty or private folders', async () => {
+    await expect(provider.downloadFolder('https://drive.google.com/drive/folders/empty1', path.join(tempDir, 'empty')))
+      .rejects.toThrow('Google Drive folder is empty or not shared publicly');
+  });
+
+  it('downloads folder charts into a per-chart directory through ChartDownloader', async () => {
+    const downloader = new ChartDownloader(new DownloadProviderRegistry([provider]));
+    const chart: IChart = {
+      id: 'folder-chart',
+      title: 'Song',
+      artist: 'Artist',
+      bpm: '150',
+      difficulties: [5.0],
+      source: 'approved-dtx',
+      downloadUrl: 'https://drive.google.com/drive/folders/root1',
+      originalPageUrl: 'http://approvedtx.blogspot.com/',
+      tags: [],
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    const options = { downloadDir: tempDir, chartIds: [], maxConcurrency: 1, overwrite: false, timeout: 5000 };
+    const result = await downloader.downloadChart(chart, options);
+
+    expect(result.success).toBe(true);
+    expect(result.filePath).toBe(path.join(tempDir, 'Song - Artist'));
+    expect(fs.readdirSync(result.filePath!).sort()).toEqual(['Bonus', 'preview.ogg', 'song.dtx']);
+
+    const missing = await downloader.downloadChart(
+      { ...chart, id: 'missing-folder', title: 'Missing', downloadUrl: 'https://drive.google.com/drive/folders/nope' },
+      options
+    );
+    expect(missing.success).toBe(false);
+    expect(missing.error).toContain('Google Drive folder download failed: Failed to fetch folder listing: HTTP 404');
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Tests for resumable downloads and redirects in the shared HTTP streaming helper
+ */
+
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { downloadToFile, fetchText, getPartialDownloadPaths, readPartialDownload } from '..';
+
+describe('downloadToFile resume support', () => {
+  const payload = Buffer.from(Array.from({ length: 64 * 1024 }, (_, i) => i % 251));
+  const half = payload.length / 2;
+
+  let server: http.Server;
+  let baseUrl: string;
+  let tempDir: string;
+  let etag: string;
+  let supportsRanges: boolean;
+  let dropFirstRequest: boolean;
+  let rangeRequests: Array<{ range?: string; ifRange?: string }>;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const range = req.headers['range'];
+      const ifRange = req.headers['if-range'];
+      rangeRequests.push({
+        ...(range ? { range } : {}),
+        ...(typeof ifRange === 'string' ? { ifRange } : {})
+      });
+
+      // Send half the file, then drop the connection
+      if (dropFirstRequest) {
+        dropFirstRequest = false;
+        res.writeHead(200, { 'Content-Type': 'application/zip', 'Content-Length': String(payload.length), ETag: etag });
+        res.write(payload.subarray(0, half), () => setTimeout(() => res.destroy(), 50));
+        return;
+      }
+
+      const match = range?.match(/^bytes=(\d+)-$/);
+      const validatorMatches = !ifRange || ifRange === etag;
+      if (supportsRanges && match && validatorMatches) {
+        const start = parseInt(match[1], 10);
+        if (start >= payload.length) {
+          res.writeHead(416, { 'Content-Range': `bytes */${payload.length}` });
+          res.end();
+          return;
+        }
+        res.writeHead(206, {
+          'Content-Type': 'application/zip',
+          'Content-Length': String(payload.length - start),
+          'Content-Range': `bytes ${start}-${payload.length - 1}/${payload.length}`,
+          ETag: etag
+        });
+        res.end(payload.subarray(start));
+        return;
+      }
+
+      res.writeHead(200, { 'Content-Type': 'application/zip', 'Content-Length': String(payload.length), ETag: etag });
+      res.end(payload);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    etag = '"v1"';
+    supportsRanges = true;
+    dropFirstRequest = true;
+    rangeRequests = [];
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dtx-resume-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  async function interruptedDownload(filePath: string): Promise<void> {
+    await expect(downloadToFile(`${baseUrl}/song.zip`, filePath)).rejects.toThrow('Connection closed before the download finished');
+  }
+
+  it('keeps a .part file and sidecar when a transfer is interrupted', async () => {
+    const filePath = path.join(tempDir, 'song.zip');
+    await interruptedDownload(filePath);
+
+    const { partPath, statePath } = getPartialDownloadPaths(filePath);
+    expect(fs.existsSync(filePath)).toBe(false);
+    expect(fs.statSync(partPath).size).toBe(half);
+    expect(JSON.parse(fs.readFileSync(statePath, 'utf8'))).toMatchObject({ etag: '"v1"', offset: half, total: payload.length });
+    expect(readPartialDownload(filePath)).toMatchObject({ etag: '"v1"', offset: half });
+  });
+
+  it('resumes with a Range request and finishes the file', async () => {
+    const filePath = path.join(tempDir, 'song.zip');
+    await interruptedDownload(filePath);
+
+    const progress: number[] = [];
+    const result = await downloadToFile(`${baseUrl}/song.zip`, filePath, { onProgress: update => progress.push(update.downloaded) });
+
+    expect(rangeRequests[1]).toEqual({ range: `bytes=${half}-`, ifRange: '"v1"' });
+    expect(result.bytes).toBe(payload.length);
+    expect(progress[0]).toBeGreaterThan(half);
+    expect(fs.readFileSync(filePath)).toEqual(payload);
+
+    const { partPath, statePath } = getPartialDownloadPaths(filePath);
+    expect(fs.existsSync(partPath)).toBe(false);
+    expect(fs.existsSync(statePath)).toBe(false);
+  });
+
+  it('restarts cleanly when the host ignores Range', async () => {
+    const filePath = path.join(tempDir, 'song.zip');
+    await interruptedDownload(filePath);
+    supportsRanges = false;
+
+    await downloadToFile(`${baseUrl}/song.zip`, filePath);
+
+    expect(rangeRequests[1].range).toBe(`bytes=${half}-`);
+    expect(fs.readFileSync(filePath)).toEqual(payload);
+  });
+
+  it('restarts cleanly when the file changed on the server', async () => {
+    const filePath = path.join(tempDir, 'song.zip');
+    await interruptedDownload(filePath);
+    etag = '"v2"';
+
+    await downloadToFile(`${baseUrl}/song.zip`, filePath);
+
+    expect(fs.readFileSync(filePath)).toEqual(payload);
+    expect(rangeRequests).toHaveLength(2);
+  });
+
+  it('restarts when the saved offset is out of range', async () => {
+    const filePath = path.join(tempDir, 'song.zip');
+    const { partPath, statePath } = getPartialDownloadPaths(filePath);
+    fs.writeFileSync(partPath, Buffer.concat([payload, Buffer.from('extra')]));
+    fs.writeFileSync(statePath, JSON.stringify({ url: `${baseUrl}/song.zip`, etag: '"v1"', offset: payload.length + 5 }));
+    dropFirstRequest = false;
+
+    await downloadToFile(`${baseUrl}/song.zip`, filePath);
+
+    expect(rangeRequests.map(request => request.range)).toEqual([`bytes=${payload.length + 5}-`, undefined]);
+    expect(fs.readFileSync(filePath)).toEqual(payload);
+  });
+
+  it('removes the partial file when the download is cancelled', async () => {
+    const filePath = path.join(tempDir, 'song.zip');
+    const controller = new AbortController();
+
+    await expect(downloadToFile(`${baseUrl}/song.zip`, filePath, { signal: controller.signal, onProgress: () => controller.abort() }))
+      .rejects.toThrow('Download cancelled');
+
+    const { partPath, statePath } = getPartialDownloadPaths(filePath);
+    expect(fs.existsSync(partPath)).toBe(false);
+    expect(fs.existsSync(statePath)).toBe(false);
+  });
+});
+
+describe('openHttpStream redirects', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: Array<{ method: string | undefined; url: string | undefined; contentType?: string; body: string }>;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        requests.push({ method: req.method, url: req.url, body, ...(req.headers['content-type'] ? { contentType: req.headers['content-type'] } : {}) });
+
+        const redirect = req.url?.match(/^\/redirect\/(\d+)$/);
+        if (redirect) {
+          res.writeHead(parseInt(redirect[1], 10), { Location: '/target' });
+          res.end();
+          return;
+        }
+        res.writeHead(200, { 'Content-Type': 'text/plain' });
+        res.end(`${req.method} ${body}`);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  const post = (status: number) => fetchText(`${baseUrl}/redirect/${status}`, {
+    headers: { 'Content-Type': 'application/json' },
+    body: '{"a":"g"}'
+  }, 'POST');
+
+  it.each([301, 302, 303])('follows a POST answered with %i with a GET and no body', async status => {
+    const response = await post(status);
+
+    expect(response).toMatchObject({ statusCode: 200, body: 'GET ', finalUrl: `${baseUrl}/target` });
+    expect(requests[1]).toEqual({ method: 'GET', url: '/target', body: '' });
+  });
+
+  it.each([307, 308])('repeats a POST answered with %i', async status => {
+    const response = await post(status);
+
+    expect(response.body).toBe('POST {"a":"g"}');
+    expect(requests[1]).toEqual({ method: 'POST', url: '/target', contentType: 'application/json', body: '{"a":"g"}' });
+  });
+
+  it('keeps HEAD requests as HEAD', async () => {
+    await fetchText(`${baseUrl}/redirect/303`, {}, 'HEAD');
+
+    expect(requests.map(request => request.method)).toEqual(['HEAD', 'HEAD']);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Tests for the MediaFire download provider against a local stand-in server
+ */
+
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { MediaFireProvider, createDefaultProviderRegistry } from '..';
+
+function interstitialPage(button: string): string {
+  return `<html><body><div class="download_link">${button}</div></body></html>`;
+}
+
+describe('MediaFireProvider', () => {
+  const provider = new MediaFireProvider();
+  const archive = Buffer.from('PK\u0003\u0004 mediafire archive');
+  let server: http.Server;
+  let baseUrl: string;
+  let tempDir: string;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      switch (req.url) {
+        case '/file/abc123/song.zip/file':
+          res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+          res.end(interstitialPage(`<a class="input popsok" id="downloadButton" href="${baseUrl}/dl/song.zip">Download (1 KB)</a>`));
+          break;
+        case '/file/scrambled/song.zip/file': {
+          const scrambled = Buffer.from(`${baseUrl}/dl/song.zip`).toString('base64');
+          res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+          res.end(interstitialPage(`<a id="downloadButton" href="javascript:void(0)" data-scrambled-url="${scrambled}">Download</a>`));
+          break;
+        }
+        case '/file/wrongtype/song.zip/file':
+          res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+          res.end(interstitialPage(`<a id="downloadButton" href="${baseUrl}/dl/notes.txt">Download</a>`));
+          break;
+        case '/file/removed/song.zip/file':
+          res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+          res.end('<html><body>File removed for violation</body></html>');
+          break;
+        case '/dl/song.zip':
+          res.writeHead(200, { 'Content-Type': 'application/zip', 'Content-Length': String(archive.length) });
+          res.end(archive);
+          break;
+        case '/dl/notes.txt':
+          res.writeHead(200, { 'Content-Type': 'text/plain' });
+          res.end('not an archive');
+          break;
+        default:
+          res.writeHead(404);
+          res.end();
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dtx-mediafire-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('is selected by the default registry for MediaFire links', () => {
+    const registry = createDefaultProviderRegistry();
+    expect(registry.getProvider('https://www.mediafire.com/file/abc123/song.zip/file')).toBeInstanceOf(MediaFireProvider);
+    expect(provider.isDirectDownloadUrl('https://download1234.mediafire.com/xyz/abc123/song.zip')).toBe(true);
+    expect(provider.isDirectDownloadUrl('https://www.mediafire.com/file/abc123/song.zip/file')).toBe(false);
+  });
+
+  it('follows the interstitial download button', async () => {
+    const destination = path.join(tempDir, 'song.zip');
+
+    await provider.download(`${baseUrl}/file/abc123/song.zip/file`, destination);
+
+    expect(fs.readFileSync(destination)).toEqual(archive);
+  });
+
+  it('decodes scrambled download links', async () => {
+    const destination = path.join(tempDir, 'song.zip');
+
+    await provider.download(`${baseUrl}/file/scrambled/song.zip/file`, destination);
+
+    expect(fs.readFileSync(destination)).toEqual(archive);
+  });
+
+  it('rejects responses that are not archives', async () => {
+    const destination = path.join(tempDir, 'notes.zip');
+
+    await expect(provider.download(`${baseUrl}/file/wrongtype/song.zip/file`, destination))
+      .rejects.toThrow('Unexpected content type: text/plain');
+    expect(fs.existsSync(destination)).toBe(false);
+  });
+
+  it('fails when the page has no download link', async () => {
+    await expect(provider.download(`${baseUrl}/file/removed/song.zip/file`, path.join(tempDir, 'removed.zip')))
+      .rejects.toThrow('Could not find download link on MediaFire page');
+  });
+});
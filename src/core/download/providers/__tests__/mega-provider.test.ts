@@ -0,0 +1,142 @@
+/**
+ * Tests for the MEGA download provider against a mock MEGA API
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { MegaProvider, createDefaultProviderRegistry } from '..';
+import { IDownloadProgress } from '../../../models';
+
+/**
+ * Encrypt a file the way MEGA stores it and return the 256-bit link key
+ */
+function encryptForMega(plaintext: Buffer): { key: Buffer; ciphertext: Buffer } {
+  const aesKey = crypto.randomBytes(16);
+  const nonce = crypto.randomBytes(8);
+  const mac = crypto.randomBytes(8);
+
+  const iv = Buffer.concat([nonce, Buffer.alloc(8)]);
+  const cipher = crypto.createCipheriv('aes-128-ctr', aesKey, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+  // Link key: (aesKey XOR [nonce, mac]) followed by [nonce, mac]
+  const tail = Buffer.concat([nonce, mac]);
+  const head = Buffer.alloc(16);
+  for (let i = 0; i < 16; i++) {
+    head[i] = aesKey[i] ^ tail[i];
+  }
+
+  return { key: Buffer.concat([head, tail]), ciphertext };
+}
+
+describe('MegaProvider', () => {
+  // Larger than one stream chunk so the counter has to advance across chunks
+  const plaintext = Buffer.concat([Buffer.from('PK\u0003\u0004'), crypto.randomBytes(200 * 1024)]);
+  const { key, ciphertext } = encryptForMega(plaintext);
+  const linkKey = key.toString('base64url');
+
+  let server: http.Server;
+  let baseUrl: string;
+  let tempDir: string;
+  let apiRequests: unknown[];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const url = new URL(req.url || '/', 'http://localhost');
+
+      if (req.method === 'POST' && url.pathname === '/cs') {
+        let body = '';
+        req.on('data', chunk => body += chunk);
+        req.on('end', () => {
+          const commands = JSON.parse(body);
+          apiRequests.push(commands);
+          const handle = commands[0].p;
+
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          if (handle === 'AbCdEf12') {
+            res.end(JSON.stringify([{ s: ciphertext.length, at: 'attrs', g: `${baseUrl}/dl/AbCdEf12` }]));
+          } else if (handle === 'Short123') {
+            res.end(JSON.stringify([{ s: ciphertext.length + 10, g: `${baseUrl}/dl/AbCdEf12` }]));
+          } else {
+            res.end(JSON.stringify([-9]));
+          }
+        });
+      } else if (url.pathname === '/dl/AbCdEf12') {
+        res.writeHead(200, { 'Content-Type': 'application/octet-stream', 'Content-Length': String(ciphertext.length) });
+        res.end(ciphertext);
+      } else {
+        res.writeHead(404);
+        res.end();
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    apiRequests = [];
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dtx-mega-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('is selected by the default registry for MEGA links', () => {
+    const registry = createDefaultProviderRegistry();
+    expect(registry.getProvider(`https://mega.nz/file/AbCdEf12#${linkKey}`)).toBeInstanceOf(MegaProvider);
+  });
+
+  it('parses current and legacy link formats', () => {
+    const provider = new MegaProvider();
+
+    const current = provider.parseLink(`https://mega.nz/file/AbCdEf12#${linkKey}`);
+    expect(current.fileId).toBe('AbCdEf12');
+    expect(current.key).toEqual(key);
+
+    const legacy = provider.parseLink(`https://mega.nz/#!AbCdEf12!${linkKey}`);
+    expect(legacy.fileId).toBe('AbCdEf12');
+    expect(legacy.key).toEqual(key);
+  });
+
+  it('rejects links without a usable key and folder links', () => {
+    const provider = new MegaProvider();
+    expect(() => provider.parseLink('https://mega.nz/file/AbCdEf12')).toThrow('decryption key');
+    expect(() => provider.parseLink(`https://mega.nz/folder/AbCdEf12#${linkKey}`)).toThrow('folder links are not supported');
+  });
+
+  it('decrypts the file into the destination and reports progress', async () => {
+    const provider = new MegaProvider({ apiUrl: baseUrl });
+    const destination = path.join(tempDir, 'song.zip');
+    const updates: IDownloadProgress[] = [];
+
+    await provider.download(`https://mega.nz/file/AbCdEf12#${linkKey}`, destination, progress => updates.push(progress));
+
+    expect(fs.readFileSync(destination)).toEqual(plaintext);
+    expect(apiRequests).toEqual([[{ a: 'g', g: 1, p: 'AbCdEf12' }]]);
+    expect(updates.length).toBeGreaterThan(0);
+    expect(updates[updates.length - 1]).toMatchObject({ downloaded: ciphertext.length, total: ciphertext.length });
+  });
+
+  it('reports MEGA API errors', async () => {
+    const provider = new MegaProvider({ apiUrl: baseUrl });
+
+    await expect(provider.download(`https://mega.nz/file/Missing1#${linkKey}`, path.join(tempDir, 'missing.zip')))
+      .rejects.toThrow('MEGA API error -9: File not found');
+  });
+
+  it('fails when fewer bytes arrive than the API announced', async () => {
+    const provider = new MegaProvider({ apiUrl: baseUrl });
+
+    await expect(provider.download(`https://mega.nz/file/Short123#${linkKey}`, path.join(tempDir, 'short.zip')))
+      .rejects.toThrow('MEGA download incomplete');
+  });
+});
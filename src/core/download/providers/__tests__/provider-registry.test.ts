@@ -0,0 +1,134 @@
+/**
+ * Tests for download provider selection and the direct HTTP provider
+ */
+
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import {
+  DirectHttpProvider,
+  DownloadProviderRegistry,
+  GoogleDriveProvider,
+  OneDriveProvider,
+  createDefaultProviderRegistry
+} from '..';
+import { DownloadProviderNotFoundError } from '../../../errors';
+import { IDownloadProgress } from '../../../models';
+
+describe('DownloadProviderRegistry', () => {
+  const registry = createDefaultProviderRegistry();
+
+  it('selects the provider that can handle the URL', () => {
+    expect(registry.getProvider('https://drive.google.com/file/d/abc123/view')).toBeInstanceOf(GoogleDriveProvider);
+    expect(registry.getProvider('https://1drv.ms/u/s!AkFLx6U8_hEJhL1Y?e=example')).toBeInstanceOf(OneDriveProvider);
+    expect(registry.getProvider('https://example.com/charts/song.zip')).toBeInstanceOf(DirectHttpProvider);
+    expect(registry.getProvider('https://example.com/get?id=15')).toBeInstanceOf(DirectHttpProvider);
+  });
+
+  it('prefers host-specific providers over the direct provider', () => {
+    expect(registry.getProvider('https://company.sharepoint.com/Documents/song.zip')).toBeInstanceOf(OneDriveProvider);
+  });
+
+  it('throws DownloadProviderNotFoundError for links no provider can fetch', () => {
+    expect(registry.findProvider('ftp://example.com/charts/song.zip')).toBeUndefined();
+    expect(() => registry.getProvider('not a url')).toThrow(DownloadProviderNotFoundError);
+  });
+
+  it('rejects duplicate provider names', () => {
+    const custom = new DownloadProviderRegistry([new DirectHttpProvider()]);
+    expect(() => custom.register(new DirectHttpProvider())).toThrow('already registered');
+  });
+});
+
+describe('DirectHttpProvider', () => {
+  const payload = Buffer.alloc(4096, 7);
+  let server: http.Server;
+  let baseUrl: string;
+  let tempDir: string;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      if (req.url === '/song.zip') {
+        res.writeHead(200, { 'Content-Type': 'application/zip', 'Content-Length': String(payload.length) });
+        res.end(payload);
+      } else if (req.url === '/moved.zip') {
+        res.writeHead(302, { Location: '/song.zip' });
+        res.end();
+      } else if (req.url === '/page.zip') {
+        res.writeHead(200, { 'Content-Type': 'text/html' });
+        res.end('<html><body>Not a file</body></html>');
+      } else if (req.url === '/get?id=15') {
+        res.writeHead(200, { 'Content-Type': 'application/force-download', 'Content-Disposition': 'attachment; filename="song.zip"' });
+        res.end(req.method === 'HEAD' ? undefined : payload);
+      } else if (req.url === '/files/15') {
+        res.writeHead(200, { 'Content-Type': 'application/octet-stream' });
+        res.end(req.method === 'HEAD' ? undefined : payload);
+      } else if (req.url === '/readme') {
+        res.writeHead(200, { 'Content-Type': 'text/plain' });
+        res.end('Not a chart');
+      } else {
+        res.writeHead(404);
+        res.end();
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dtx-provider-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('downloads the file and reports progress', async () => {
+    const provider = new DirectHttpProvider();
+    const destination = path.join(tempDir, 'song.zip');
+    const updates: IDownloadProgress[] = [];
+
+    await provider.download(`${baseUrl}/moved.zip`, destination, progress => updates.push(progress));
+
+    expect(fs.readFileSync(destination)).toEqual(payload);
+    expect(updates.length).toBeGreaterThan(0);
+    expect(updates[updates.length - 1].downloaded).toBe(payload.length);
+  });
+
+  it('downloads links without an extension that serve an archive', async () => {
+    const provider = new DirectHttpProvider();
+
+    for (const link of ['/get?id=15', '/files/15']) {
+      const destination = path.join(tempDir, `${path.basename(link)}.zip`);
+      await provider.download(`${baseUrl}${link}`, destination);
+      expect(fs.readFileSync(destination)).toEqual(payload);
+    }
+  });
+
+  it('rejects links without an extension that do not serve an archive', async () => {
+    const provider = new DirectHttpProvider();
+    const destination = path.join(tempDir, 'readme.zip');
+
+    await expect(provider.download(`${baseUrl}/readme`, destination)).rejects.toThrow('Link does not serve an archive (text/plain)');
+    expect(fs.existsSync(destination)).toBe(false);
+  });
+
+  it('rejects HTML responses and removes the partial file', async () => {
+    const provider = new DirectHttpProvider();
+    const destination = path.join(tempDir, 'page.zip');
+
+    await expect(provider.download(`${baseUrl}/page.zip`, destination)).rejects.toThrow('Received HTML instead of file');
+    expect(fs.existsSync(destination)).toBe(false);
+  });
+
+  it('fails on HTTP errors', async () => {
+    const provider = new DirectHttpProvider();
+    await expect(provider.download(`${baseUrl}/missing.zip`, path.join(tempDir, 'missing.zip'))).rejects.toThrow('HTTP 404');
+  });
+});
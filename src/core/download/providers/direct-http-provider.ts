@@ -0,0 +1,70 @@
+/**
+ * Direct HTTP download provider for plain links to archive files
+ *
+ * Takes any http(s) link, so it is registered after the host-specific
+ * providers. Links without an archive extension are checked with a HEAD
+ * request first and must name an archive in their Content-Type or
+ * Content-Disposition header.
+ */
+
+import * as path from 'path';
+import { IDownloadProvider, IDownloadProviderOptions } from '../../interfaces';
+import { ProgressCallback } from '../../models';
+import { downloadToFile, isArchiveContentType, isUrlReachable, openHttpStream, parseContentDispositionFileName } from './http-stream';
+
+export class DirectHttpProvider implements IDownloadProvider {
+  readonly name = 'Direct';
+  readonly supportedDomains: string[] = [];
+
+  /** File extensions that identify a URL or file name as an archive */
+  private readonly fileExtensions = ['.zip', '.rar', '.7z', '.lzh'];
+
+  canHandle(url: string): boolean {
+    try {
+      const { protocol } = new URL(url);
+      return protocol === 'http:' || protocol === 'https:';
+    } catch {
+      return false;
+    }
+  }
+
+  async download(url: string, destination: string, progress?: ProgressCallback, options: IDownloadProviderOptions = {}): Promise<void> {
+    if (!this.hasArchiveExtension(new URL(url).pathname)) {
+      await this.checkArchiveLink(url, options);
+    }
+    await downloadToFile(url, destination, { ...options, onProgress: progress, rejectHtml: true });
+  }
+
+  async getDirectUrl(url: string): Promise<string> {
+    return url;
+  }
+
+  async validateUrl(url: string): Promise<boolean> {
+    return isUrlReachable(url);
+  }
+
+  private hasArchiveExtension(fileName: string): boolean {
+    return this.fileExtensions.includes(path.extname(fileName).toLowerCase());
+  }
+
+  /**
+   * Fail unless a HEAD request shows the link serves an archive. Hosts that
+   * answer HEAD with an error are left to the checks of the download itself.
+   */
+  private async checkArchiveLink(url: string, options: IDownloadProviderOptions): Promise<void> {
+    const { response, request } = await openHttpStream(url, options, 'HEAD');
+    response.destroy();
+    request.destroy();
+
+    const statusCode = response.statusCode || 0;
+    if (statusCode < 200 || statusCode >= 300) {
+      return;
+    }
+
+    const contentType = response.headers['content-type'];
+    const fileName = parseContentDispositionFileName(response.headers['content-disposition']);
+    if (!(fileName && this.hasArchiveExtension(fileName)) && !isArchiveContentType(contentType)) {
+      throw new Error(`Link does not serve an archive (${contentType || 'no content type'}): ${url}`);
+    }
+  }
+}
@@ -0,0 +1,522 @@
+/**
+ * Streaming HTTP helpers shared by the download providers
+ */
+
+import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+import * as path from 'path';
+import { Transform } from 'stream';
+import { IDownloadProgress, ProgressCallback } from '../../models';
+import { DownloadCancelledError, DownloadTimeoutError } from '../../errors';
+
+export const DEFAULT_USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36';
+
+export interface HttpRequestOptions {
+  headers?: Record<string, string>;
+  timeout?: number;
+  signal?: AbortSignal | undefined;
+  maxRedirects?: number;
+
+  /** Request body, sent with POST requests */
+  body?: string;
+}
+
+export interface HttpDownloadOptions extends HttpRequestOptions {
+  onProgress?: ProgressCallback | undefined;
+
+  /** Fail instead of saving when the server answers with an HTML page */
+  rejectHtml?: boolean;
+
+  /** Fail instead of saving unless the response content type passes this check */
+  acceptContentType?: (contentType: string | undefined) => boolean;
+
+  /** Stream the response through this transform (e.g. a decipher) before writing */
+  transform?: Transform;
+
+  /** Resume from a previous partial download when possible (default true) */
+  resume?: boolean;
+
+  /** Called with the file name from the Content-Disposition header, when present */
+  onFileName?: ((fileName: string) => void) | undefined;
+}
+
+/**
+ * Sidecar state saved next to a `.part` file so the transfer can be resumed
+ */
+export interface PartialDownloadState {
+  url: string;
+  etag?: string;
+  lastModified?: string;
+  offset: number;
+  total?: number;
+}
+
+export interface HttpDownloadResult {
+  bytes: number;
+  contentType?: string;
+  fileName?: string;
+  finalUrl: string;
+}
+
+export interface HttpTextResponse {
+  statusCode: number;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+  finalUrl: string;
+}
+
+export type HttpMethod = 'GET' | 'HEAD' | 'POST';
+
+/** Content types file hosts serve chart archives with */
+const ARCHIVE_CONTENT_TYPES = [
+  'application/zip',
+  'application/x-zip-compressed',
+  'application/octet-stream',
+  'application/x-rar-compressed',
+  'application/vnd.rar',
+  'application/x-7z-compressed',
+  'application/x-lzh-compressed'
+];
+
+/**
+ * Open a request, following redirects, and resolve with the final response
+ */
+export function openHttpStream(
+  url: string,
+  options: HttpRequestOptions = {},
+  method: HttpMethod = 'GET'
+): Promise<{ response: http.IncomingMessage; request: http.ClientRequest; finalUrl: string }> {
+  const timeout = options.timeout || 30000;
+  const maxRedirects = options.maxRedirects ?? 10;
+
+  return new Promise((resolve, reject) => {
+    if (options.signal?.aborted) {
+      reject(new DownloadCancelledError());
+      return;
+    }
+
+    const onAbort = () => {
+      request.destroy();
+      reject(new DownloadCancelledError());
+    };
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+    const detachAbort = () => options.signal?.removeEventListener('abort', onAbort);
+
+    const request = (url.startsWith('https:') ? https : http).request(url, {
+      method,
+      headers: {
+        'User-Agent': DEFAULT_USER_AGENT,
+        ...options.headers
+      },
+      timeout
+    }, (response) => {
+      detachAbort();
+      const statusCode = response.statusCode || 0;
+
+      // Handle redirects
+      if (statusCode >= 300 && statusCode < 400 && response.headers.location) {
+        response.destroy();
+        request.destroy();
+
+        if (maxRedirects <= 0) {
+          reject(new Error(`Too many redirects for ${url}`));
+          return;
+        }
+
+        const redirectUrl = new URL(response.headers.location, url).toString();
+        const redirectOptions: HttpRequestOptions = { ...options, maxRedirects: maxRedirects - 1 };
+        let redirectMethod = method;
+
+        // Only 307 and 308 repeat a POST; after 301, 302 and 303 clients follow with a GET and no body
+        if (method === 'POST' && statusCode !== 307 && statusCode !== 308) {
+          redirectMethod = 'GET';
+          delete redirectOptions.body;
+          redirectOptions.headers = Object.fromEntries(Object.entries(options.headers || {})
+            .filter(([name]) => !['content-type', 'content-length'].includes(name.toLowerCase())));
+        }
+
+        openHttpStream(redirectUrl, redirectOptions, redirectMethod)
+          .then(resolve)
+          .catch(reject);
+        return;
+      }
+
+      resolve({ response, request, finalUrl: url });
+    });
+
+    request.on('timeout', () => {
+      detachAbort();
+      request.destroy();
+      reject(new DownloadTimeoutError(url, timeout));
+    });
+
+    request.on('error', (error) => {
+      detachAbort();
+      reject(error);
+    });
+
+    request.end(options.body);
+  });
+}
+
+/**
+ * Stream a URL to a file, reporting progress with speed and eta.
+ *
+ * Data is written to `<file>.part` with a `<file>.part.json` sidecar holding
+ * the ETag and byte offset. A later call for the same file resumes with a
+ * `Range` request when the host supports it and restarts cleanly when it
+ * doesn't. The partial file is kept when a transfer fails so it can be
+ * resumed, and removed when the transfer is cancelled.
+ */
+export async function downloadToFile(
+  url: string,
+  filePath: string,
+  options: HttpDownloadOptions = {}
+): Promise<HttpDownloadResult> {
+  const startTime = Date.now();
+
+  // A transform (e.g. a decipher) has to see the stream from the first byte
+  const resumable = options.resume !== false && !options.transform;
+  const { partPath, statePath } = getPartialDownloadPaths(filePath);
+  const partial = resumable ? readPartialDownload(filePath) : null;
+  if (!resumable) {
+    removePartialDownload(filePath);
+  }
+
+  const headers: Record<string, string> = { ...options.headers };
+  if (partial) {
+    headers['Range'] = `bytes=${partial.offset}-`;
+    const validator = partial.etag || partial.lastModified;
+    if (validator) {
+      headers['If-Range'] = validator;
+    }
+  }
+
+  const { response, request, finalUrl } = await openHttpStream(url, { ...options, headers });
+  const statusCode = response.statusCode || 0;
+  const contentType = response.headers['content-type'];
+  const etag = response.headers['etag'];
+  const lastModified = response.headers['last-modified'];
+  const fileName = parseContentDispositionFileName(response.headers['content-disposition']);
+
+  // The saved offset no longer fits the file on the server: start over
+  if (partial && statusCode === 416) {
+    response.destroy();
+    request.destroy();
+    console.log(`🔁 Saved partial download is no longer valid, restarting: ${path.basename(filePath)}`);
+    removePartialDownload(filePath);
+    return downloadToFile(url, filePath, options);
+  }
+
+  if (statusCode < 200 || statusCode >= 300) {
+    response.destroy();
+    request.destroy();
+    throw new Error(`HTTP ${statusCode}: ${response.statusMessage}`);
+  }
+
+  if (options.rejectHtml && contentType?.includes('text/html')) {
+    response.destroy();
+    request.destroy();
+    throw new Error('Received HTML instead of file');
+  }
+
+  if (options.acceptContentType && !options.acceptContentType(contentType)) {
+    response.destroy();
+    request.destroy();
+    throw new Error(`Unexpected content type: ${contentType || 'none'}`);
+  }
+
+  if (fileName && options.onFileName) {
+    options.onFileName(fileName);
+  }
+
+  let offset = 0;
+  let totalBytes = parseInt(response.headers['content-length'] || '0', 10);
+
+  if (partial && statusCode === 206) {
+    const range = parseContentRange(response.headers['content-range']);
+    const sameFile = !partial.etag || !etag || partial.etag === etag;
+    if (!range || range.start !== partial.offset || !sameFile) {
+      response.destroy();
+      request.destroy();
+      console.log(`🔁 Host returned a different range or file, restarting: ${path.basename(filePath)}`);
+      removePartialDownload(filePath);
+      return downloadToFile(url, filePath, options);
+    }
+    offset = range.start;
+    totalBytes = range.total || (totalBytes ? offset + totalBytes : 0);
+    console.log(`⏯️  Resuming download at byte ${offset}: ${path.basename(filePath)}`);
+  } else if (partial) {
+    console.log(`🔁 Host does not support resuming, restarting: ${path.basename(filePath)}`);
+  }
+
+  const state: PartialDownloadState = {
+    url,
+    ...(etag ? { etag } : {}),
+    ...(lastModified ? { lastModified } : {}),
+    offset,
+    ...(totalBytes ? { total: totalBytes } : {})
+  };
+
+  return new Promise((resolve, reject) => {
+    const fileStream = fs.createWriteStream(partPath, { flags: offset > 0 ? 'a' : 'w' });
+    let downloadedBytes = offset;
+    let lastStateSave = Date.now();
+    let settled = false;
+
+    const saveState = () => {
+      if (resumable) {
+        writePartialState(statePath, { ...state, offset: downloadedBytes });
+      }
+    };
+    saveState();
+
+    const fail = (error: Error) => {
+      if (settled) return;
+      settled = true;
+      options.signal?.removeEventListener('abort', onAbort);
+      response.destroy();
+      request.destroy();
+      // Wait for the stream to close: it may still be opening the .part file
+      fileStream.once('close', () => {
+        if (error instanceof DownloadCancelledError || !resumable) {
+          removePartialDownload(filePath);
+        } else {
+          saveState(); // Keep the partial file so the next attempt can resume
+        }
+        reject(error);
+      });
+      fileStream.destroy();
+    };
+
+    const onAbort = () => fail(new DownloadCancelledError());
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+    if (options.signal?.aborted) {
+      onAbort();
+      return;
+    }
+
+    response.on('data', (chunk: Buffer) => {
+      downloadedBytes += chunk.length;
+      if (Date.now() - lastStateSave >= 1000) {
+        lastStateSave = Date.now();
+        saveState();
+      }
+      if (options.onProgress) {
+        options.onProgress(createProgress(downloadedBytes, totalBytes, startTime, offset));
+      }
+    });
+
+    response.on('error', fail);
+    response.on('aborted', () => fail(new Error('Connection closed before the download finished')));
+    fileStream.on('error', (error) => fail(new Error(`File write error: ${error.message}`)));
+    options.transform?.on('error', fail);
+
+    fileStream.on('finish', () => {
+      if (settled) return;
+
+      if (totalBytes && downloadedBytes < totalBytes) {
+        fail(new Error(`Connection closed before the download finished (${downloadedBytes} of ${totalBytes} bytes)`));
+        return;
+      }
+
+      settled = true;
+      options.signal?.removeEventListener('abort', onAbort);
+      request.destroy();
+      fileStream.close(() => {
+        try {
+          fs.renameSync(partPath, filePath);
+          fs.rmSync(statePath, { force: true });
+        } catch (error) {
+          reject(new Error(`File write error: ${error instanceof Error ? error.message : String(error)}`));
+          return;
+        }
+        resolve({
+          bytes: downloadedBytes,
+          ...(contentType ? { contentType } : {}),
+          ...(fileName ? { fileName } : {}),
+          finalUrl
+        });
+      });
+    });
+
+    if (options.transform) {
+      response.pipe(options.transform).pipe(fileStream);
+    } else {
+      response.pipe(fileStream);
+    }
+  });
+}
+
+/**
+ * Paths of the partial file and its sidecar for a download destination
+ */
+export function getPartialDownloadPaths(filePath: string): { partPath: string; statePath: string } {
+  return {
+    partPath: `${filePath}.part`,
+    statePath: `${filePath}.part.json`
+  };
+}
+
+/**
+ * Read the resumable state of a partial download. The size of the partial
+ * file on disk is the offset to resume from, since the sidecar is only
+ * saved periodically.
+ */
+export function readPartialDownload(filePath: string): PartialDownloadState | null {
+  const { partPath, statePath } = getPartialDownloadPaths(filePath);
+  if (!fs.existsSync(partPath) || !fs.existsSync(statePath)) {
+    return null;
+  }
+
+  try {
+    const state = JSON.parse(fs.readFileSync(statePath, 'utf8')) as PartialDownloadState;
+    const offset = fs.statSync(partPath).size;
+    return offset > 0 ? { ...state, offset } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remove the partial file and sidecar for a download destination
+ */
+export function removePartialDownload(filePath: string): void {
+  const { partPath, statePath } = getPartialDownloadPaths(filePath);
+  fs.rmSync(partPath, { force: true });
+  fs.rmSync(statePath, { force: true });
+}
+
+function writePartialState(statePath: string, state: PartialDownloadState): void {
+  try {
+    fs.writeFileSync(statePath, JSON.stringify(state));
+  } catch (error) {
+    console.warn(`⚠️  Could not save download state: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Parse `Content-Range: bytes <start>-<end>/<total>`
+ */
+function parseContentRange(header: string | undefined): { start: number; total?: number } | null {
+  const match = header?.match(/^bytes\s+(\d+)-\d+\/(\d+|\*)$/i);
+  if (!match) {
+    return null;
+  }
+  return {
+    start: parseInt(match[1], 10),
+    ...(match[2] !== '*' ? { total: parseInt(match[2], 10) } : {})
+  };
+}
+
+/**
+ * Read the file name from a Content-Disposition header, preferring the
+ * RFC 5987 `filename*` form. Plain `filename` values are often raw UTF-8
+ * that Node has read as Latin-1, so those are re-decoded when valid.
+ */
+export function parseContentDispositionFileName(header: string | undefined): string | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  const extended = header.match(/filename\*\s*=\s*([^']*)'[^']*'([^;]+)/i);
+  if (extended) {
+    try {
+      const value = decodeURIComponent(extended[2].trim().replace(/^"|"$/g, ''));
+      return path.basename(value.replace(/\\/g, '/')) || undefined;
+    } catch {
+      // Fall back to the plain filename parameter
+    }
+  }
+
+  const plain = header.match(/filename\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^;]+))/i);
+  if (!plain) {
+    return undefined;
+  }
+
+  let value = (plain[1] ?? plain[2]).trim().replace(/\\(.)/g, '$1');
+  const bytes = Buffer.from(value, 'latin1');
+  if (/[^\x00-\x7f]/.test(value) && Buffer.from(bytes.toString('utf8'), 'utf8').equals(bytes)) {
+    value = bytes.toString('utf8');
+  }
+  return path.basename(value.replace(/\\/g, '/')) || undefined;
+}
+
+/**
+ * Request a URL and return the body as text
+ */
+export async function fetchText(url: string, options: HttpRequestOptions = {}, method: HttpMethod = 'GET'): Promise<HttpTextResponse> {
+  const { response, request, finalUrl } = await openHttpStream(url, options, method);
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+
+    const onAbort = () => {
+      response.destroy();
+      request.destroy();
+      reject(new DownloadCancelledError());
+    };
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+    if (options.signal?.aborted) {
+      onAbort();
+      return;
+    }
+
+    response.on('data', (chunk: Buffer) => chunks.push(chunk));
+    response.on('end', () => {
+      options.signal?.removeEventListener('abort', onAbort);
+      request.destroy();
+      resolve({
+        statusCode: response.statusCode || 0,
+        headers: response.headers,
+        body: Buffer.concat(chunks).toString('utf8'),
+        finalUrl
+      });
+    });
+    response.on('error', (error) => {
+      options.signal?.removeEventListener('abort', onAbort);
+      reject(error);
+    });
+  });
+}
+
+/**
+ * Check whether a Content-Type header names an archive (or generic binary) type
+ */
+export function isArchiveContentType(contentType: string | undefined): boolean {
+  const mimeType = contentType?.split(';')[0].trim().toLowerCase();
+  return mimeType !== undefined && ARCHIVE_CONTENT_TYPES.includes(mimeType);
+}
+
+/**
+ * Check that a URL answers a HEAD request with a success status
+ */
+export async function isUrlReachable(url: string, options: HttpRequestOptions = {}): Promise<boolean> {
+  try {
+    const { response, request } = await openHttpStream(url, { timeout: 15000, ...options }, 'HEAD');
+    response.destroy();
+    request.destroy();
+    const statusCode = response.statusCode || 0;
+    return statusCode >= 200 && statusCode < 400;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Build a progress update with speed and eta measured from the start of the
+ * transfer. Bytes already on disk from a resumed download don't count toward speed.
+ */
+export function createProgress(downloaded: number, total: number, startTime: number, resumedFrom = 0): IDownloadProgress {
+  const elapsedSeconds = (Date.now() - startTime) / 1000;
+  const speed = elapsedSeconds > 0 ? (downloaded - resumedFrom) / elapsedSeconds : 0;
+
+  return {
+    downloaded,
+    ...(total ? { total } : {}),
+    speed,
+    ...(total && speed > 0 ? { eta: Math.max(0, (total - downloaded) / speed) } : {}),
+    status: 'downloading'
+  };
+}
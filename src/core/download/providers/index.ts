@@ -0,0 +1,12 @@
+/**
+ * Download provider exports
+ */
+
+export { DownloadProviderRegistry, createDefaultProviderRegistry } from './provider-registry';
+export { GoogleDriveProvider, GoogleDriveProviderOptions, GoogleDriveFolderEntry } from './google-drive-provider';
+export { OneDriveProvider, OneDriveProviderOptions, DEFAULT_ONEDRIVE_API_URL } from './onedrive-provider';
+export { DropboxProvider } from './dropbox-provider';
+export { MegaProvider, MegaProviderOptions, MegaFileLink, DEFAULT_MEGA_API_URL } from './mega-provider';
+export { MediaFireProvider } from './mediafire-provider';
+export { DirectHttpProvider } from './direct-http-provider';
+export * from './http-stream';
@@ -0,0 +1,135 @@
+/**
+ * OneDrive download provider
+ *
+ * Share links are resolved to a direct content URL over plain HTTPS, first
+ * through the shares API and then by following the share link's redirect
+ * chain, so no browser is needed.
+ */
+
+import { IDownloadProvider, IDownloadProviderOptions } from '../../interfaces';
+import { ProgressCallback } from '../../models';
+import { downloadToFile, isUrlReachable, openHttpStream } from './http-stream';
+
+export const DEFAULT_ONEDRIVE_API_URL = 'https://api.onedrive.com/v1.0';
+
+export interface OneDriveProviderOptions {
+  /** Base URL of the OneDrive API used to resolve share links */
+  apiUrl?: string;
+}
+
+export class OneDriveProvider implements IDownloadProvider {
+  readonly name = 'OneDrive';
+  readonly supportedDomains = ['1drv.ms', 'onedrive.live.com', 'sharepoint.com'];
+
+  private readonly apiUrl: string;
+
+  constructor(options: OneDriveProviderOptions = {}) {
+    this.apiUrl = (options.apiUrl || DEFAULT_ONEDRIVE_API_URL).replace(/\/+$/, '');
+  }
+
+  canHandle(url: string): boolean {
+    const oneDrivePatterns = [
+      /1drv\.ms/i,
+      /onedrive\.live\.com/i,
+      /sharepoint\.com/i
+    ];
+
+    return oneDrivePatterns.some(pattern => pattern.test(url));
+  }
+
+  async download(url: string, destination: string, progress?: ProgressCallback, options: IDownloadProviderOptions = {}): Promise<void> {
+    const failures: string[] = [];
+
+    // Method 1: the shares API redirects an encoded share link to its content
+    try {
+      const sharesUrl = this.getSharesContentUrl(url);
+      console.log(`🔗 Trying OneDrive shares API: ${sharesUrl}`);
+      await downloadToFile(sharesUrl, destination, { ...options, onProgress: progress, rejectHtml: true });
+      return;
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw error;
+      }
+      failures.push(`shares API: ${error instanceof Error ? error.message : String(error)}`);
+      console.log(`⚠️ OneDrive shares API failed: ${failures[failures.length - 1]}`);
+    }
+
+    // Method 2: follow the share link's redirects and rewrite the final URL to its download form
+    try {
+      console.log(`🔄 Trying OneDrive redirect resolution...`);
+      const directUrl = await this.resolveRedirectChain(url, options);
+      console.log(`🔗 OneDrive download URL: ${directUrl}`);
+      await downloadToFile(directUrl, destination, { ...options, onProgress: progress, rejectHtml: true });
+      return;
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw error;
+      }
+      failures.push(`redirect chain: ${error instanceof Error ? error.message : String(error)}`);
+      console.log(`⚠️ OneDrive redirect resolution failed: ${failures[failures.length - 1]}`);
+    }
+
+    throw new Error(`Could not resolve OneDrive share link (${failures.join('; ')})`);
+  }
+
+  async getDirectUrl(url: string): Promise<string> {
+    return this.getSharesContentUrl(url);
+  }
+
+  async validateUrl(url: string): Promise<boolean> {
+    return isUrlReachable(this.getSharesContentUrl(url));
+  }
+
+  /**
+   * Encode a share link as a shares API id: `u!` followed by the unpadded
+   * base64url encoding of the URL
+   */
+  encodeShareUrl(url: string): string {
+    return `u!${Buffer.from(url, 'utf8').toString('base64url')}`;
+  }
+
+  /**
+   * Shares API URL that redirects to the shared file's content
+   */
+  getSharesContentUrl(url: string): string {
+    return `${this.apiUrl}/shares/${this.encodeShareUrl(url)}/root/content`;
+  }
+
+  /**
+   * Rewrite a resolved OneDrive page URL into its direct download form
+   */
+  toDownloadUrl(url: string): string {
+    const parsed = new URL(url);
+    const hostname = parsed.hostname.toLowerCase();
+
+    if (hostname.endsWith('sharepoint.com')) {
+      parsed.searchParams.set('download', '1');
+      return parsed.toString();
+    }
+
+    // onedrive.live.com/redir, /embed and the viewer pages accept the same resid/authkey on /download
+    if (parsed.searchParams.has('resid')) {
+      parsed.pathname = '/download';
+      return parsed.toString();
+    }
+
+    parsed.searchParams.set('download', '1');
+    return parsed.toString();
+  }
+
+  /**
+   * Follow the share link's redirects and return the download URL for the final page
+   */
+  private async resolveRedirectChain(url: string, options: IDownloadProviderOptions): Promise<string> {
+    const { response, request, finalUrl } = await openHttpStream(url, options);
+    response.destroy();
+    request.destroy();
+
+    const statusCode = response.statusCode || 0;
+    if (statusCode >= 400) {
+      throw new Error(`HTTP ${statusCode}: ${response.statusMessage}`);
+    }
+
+    return this.toDownloadUrl(finalUrl);
+  }
+}
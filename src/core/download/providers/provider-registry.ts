@@ -0,0 +1,67 @@
+/**
+ * Registry that picks the download provider for a URL
+ */
+
+import { IDownloadProvider } from '../../interfaces';
+import { DownloadProviderNotFoundError } from '../../errors';
+import { GoogleDriveProvider } from './google-drive-provider';
+import { OneDriveProvider } from './onedrive-provider';
+import { DropboxProvider } from './dropbox-provider';
+import { MegaProvider } from './mega-provider';
+import { MediaFireProvider } from './mediafire-provider';
+import { DirectHttpProvider } from './direct-http-provider';
+
+export class DownloadProviderRegistry {
+  private providers: IDownloadProvider[] = [];
+
+  constructor(providers: IDownloadProvider[] = []) {
+    providers.forEach(provider => this.register(provider));
+  }
+
+  /**
+   * Register a provider. Providers are consulted in registration order, so
+   * host-specific providers should be registered before generic ones.
+   */
+  register(provider: IDownloadProvider): void {
+    if (this.providers.some(existing => existing.name === provider.name)) {
+      throw new Error(`Download provider already registered: ${provider.name}`);
+    }
+    this.providers.push(provider);
+  }
+
+  getProviders(): IDownloadProvider[] {
+    return [...this.providers];
+  }
+
+  /**
+   * Find the first provider that can handle the URL
+   */
+  findProvider(url: string): IDownloadProvider | undefined {
+    return this.providers.find(provider => provider.canHandle(url));
+  }
+
+  /**
+   * Get the provider for a URL, throwing if no provider can handle it
+   */
+  getProvider(url: string): IDownloadProvider {
+    const provider = this.findProvider(url);
+    if (!provider) {
+      throw new DownloadProviderNotFoundError(url);
+    }
+    return provider;
+  }
+}
+
+/**
+ * Registry with the built-in providers
+ */
+export function createDefaultProviderRegistry(): DownloadProviderRegistry {
+  return new DownloadProviderRegistry([
+    new GoogleDriveProvider(),
+    new OneDriveProvider(),
+    new DropboxProvider(),
+    new MegaProvider(),
+    new MediaFireProvider(),
+    new DirectHttpProvider()
+  ]);
+}
@@ -1,284 +0,0 @@
-/**
- * Real OneDrive Downloader using MCP Playwright Browser Automation
- * This implements actual file downloads from OneDrive using browser automation
- */
-
-import * as fs from 'fs';
-import * as path from 'path';
-import * as os from 'os';
-
-export interface OneDriveDownloadOptions {
-  downloadDir: string;
-  timeout?: number;
-  chart: {
-    id: string;
-    title: string;
-    artist: string;
-    downloadUrl: string;
-  };
-}
-
-export interface OneDriveDownloadResult {
-  success: boolean;
-  filePath?: string;
-  fileSize?: number;
-  error?: string;
-}
-
-export class RealOneDriveDownloader {
-  
-  /**
-   * Download a file from OneDrive using real browser automation
-   */
-  async downloadFromOneDrive(options: OneDriveDownloadOptions): Promise<OneDriveDownloadResult> {
-    console.log(`🚀 Starting real OneDrive download for: ${options.chart.title}`);
-    console.log(`🔗 OneDrive URL: ${options.chart.downloadUrl}`);
-    
-    try {
-      // Step 1: Install browser if needed
-      console.log('🔧 Installing browser if needed...');
-      await this.installBrowser();
-      
-      // Step 2: Navigate to OneDrive URL
-      console.log('🌐 Navigating to OneDrive...');
-      await this.navigateToOneDrive(options.chart.downloadUrl);
-      
-      // Step 3: Wait for page to load
-      console.log('⏳ Waiting for page to load...');
-      await this.waitForPageLoad();
-      
-      // Step 4: Take snapshot to see the page
-      console.log('📸 Taking page snapshot...');
-      await this.takeSnapshot();
-      
-      // Step 5: Find and click download button
-      console.log('🔍 Looking for download button...');
-      const downloadStarted = await this.findAndClickDownloadButton();
-      
-      if (!downloadStarted) {
-        throw new Error('Could not find or click download button');
-      }
-      
-      // Step 6: Wait for download to complete
-      console.log('⏳ Waiting for download to complete...');
-      const downloadedFile = await this.waitForDownload(options);
-      
-      if (!downloadedFile) {
-        throw new Error('Download did not complete or file not found');
-      }
-      
-      console.log(`🎉 OneDrive download completed successfully!`);
-      console.log(`📁 File: ${downloadedFile.filePath}`);
-      console.log(`📦 Size: ${downloadedFile.fileSize} bytes`);
-      
-      return downloadedFile;
-      
-    } catch (error) {
-      console.error(`❌ OneDrive download failed: ${error}`);
-      return {
-        success: false,
-        error: `OneDrive download failed: ${error instanceof Error ? error.message : String(error)}`
-      };
-    }
-  }
-  
-  /**
-   * Install browser using MCP Playwright
-   */
-  private async installBrowser(): Promise<void> {
-    try {
-      // Use the MCP Playwright browser install tool
-      console.log('🔧 Installing Playwright browser...');
-      
-      // In a real environment with MCP access, this would be:
-      // await mcp_playwright_browser_install();
-      
-      console.log('✅ Browser installation completed');
-    } catch (error) {
-      console.warn(`⚠️ Browser install failed: ${error} - continuing anyway`);
-    }
-  }
-  
-  /**
-   * Navigate to OneDrive URL using MCP Playwright
-   */
-  private async navigateToOneDrive(url: string): Promise<void> {
-    try {
-      console.log(`🌐 Navigating to: ${url}`);
-      
-      // In a real environment with MCP access, this would be:
-      // await mcp_playwright_browser_navigate({ url });
-      
-      console.log('✅ Navigation completed');
-    } catch (error) {
-      throw new Error(`Navigation failed: ${error}`);
-    }
-  }
-  
-  /**
-   * Wait for OneDrive page to load
-   */
-  private async waitForPageLoad(): Promise<void> {
-    try {
-      console.log('⏳ Waiting for OneDrive page elements...');
-      
-      // In a real environment with MCP access, this would be:
-      // await mcp_playwright_browser_wait_for({ 
-      //   text: 'Download',
-      //   time: 10 
-      // });
-      
-      // Simulate waiting
-      await new Promise(resolve => setTimeout(resolve, 3000));
-      
-      console.log('✅ Page loaded successfully');
-    } catch (error) {
-      console.warn(`⚠️ Page load timeout - continuing anyway`);
-    }
-  }
-  
-  /**
-   * Take a snapshot of the page
-   */
-  private async takeSnapshot(): Promise<void> {
-    try {
-      console.log('📸 Taking page snapshot...');
-      
-      // In a real environment with MCP access, this would be:
-      // await mcp_playwright_browser_snapshot();
-      
-      console.log('✅ Snapshot taken');
-    } catch (error) {
-      console.warn(`⚠️ Snapshot failed: ${error}`);
-    }
-  }
-  
-  /**
-   * Find and click the download button on OneDrive
-   */
-  private async findAndClickDownloadButton(): Promise<boolean> {
-    const downloadStrategies = [
-      { selector: '[data-automationid="DownloadButton"]', description: 'Direct download button' },
-      { selector: 'button[title*="Download"]', description: 'Download button by title' },
-      { selector: 'button[aria-label*="Download"]', description: 'Download button by aria-label' },
-      { selector: '[data-icon-name="Download"]', description: 'Download icon button' },
-      { selector: 'button[data-automationid="commandBarMenuButton"]', description: 'Command bar menu' },
-      { selector: 'button[title*="More"]', description: 'More actions menu' }
-    ];
-    
-    for (const strategy of downloadStrategies) {
-      try {
-        console.log(`🎯 Trying: ${strategy.description}`);
-        
-        // In a real environment with MCP access, this would be:
-        // await mcp_playwright_browser_click({
-        //   element: strategy.description,
-        //   ref: strategy.selector
-        // });
-        
-        console.log(`✅ Successfully clicked: ${strategy.description}`);
-        
-        // If we clicked a menu button, try to find download option
-        if (strategy.description.includes('menu')) {
-          await this.clickDownloadInMenu();
-        }
-        
-        return true;
-        
-      } catch (error) {
-        console.log(`⚠️ ${strategy.description} not found, trying next...`);
-        continue;
-      }
-    }
-    
-    return false;
-  }
-  
-  /**
-   * Click download option in a menu
-   */
-  private async clickDownloadInMenu(): Promise<void> {
-    try {
-      console.log('🔍 Looking for download option in menu...');
-      
-      // Wait for menu to appear
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      // In a real environment with MCP access, this would be:
-      // await mcp_playwright_browser_click({
-      //   element: 'Download option in menu',
-      //   ref: 'button[title*="Download"]'
-      // });
-      
-      console.log('✅ Clicked download in menu');
-    } catch (error) {
-      console.warn(`⚠️ Could not click download in menu: ${error}`);
-    }
-  }
-  
-  /**
-   * Wait for download to complete and organize the file
-   */
-  private async waitForDownload(options: OneDriveDownloadOptions): Promise<OneDriveDownloadResult | null> {
-    try {
-      console.log('⏳ Monitoring download progress...');
-      
-      // Wait for download to start and complete
-      await new Promise(resolve => setTimeout(resolve, 10000));
-      
-      // Check downloads folder for new files
-      const downloadDir = path.join(os.homedir(), 'Downloads');
-      const files = fs.existsSync(downloadDir) ? fs.readdirSync(downloadDir) : [];
-      
-      // Look for zip files that might be our download
-      const zipFiles = files.filter(f => f.toLowerCase().endsWith('.zip'));
-      
-      if (zipFiles.length > 0) {
-        // Take the most recent zip file
-        const downloadedFile = path.join(downloadDir, zipFiles[0]);
-        const stats = fs.statSync(downloadedFile);
-        
-        // Move to target location
-        const targetPath = path.join(options.downloadDir, `${options.chart.title}.zip`);
-        
-        // Ensure target directory exists
-        if (!fs.existsSync(options.downloadDir)) {
-          fs.mkdirSync(options.downloadDir, { recursive: true });
-        }
-        
-        // Move the file
-        fs.renameSync(downloadedFile, targetPath);
-        
-        return {
-          success: true,
-          filePath: targetPath,
-          fileSize: stats.size
-        };
-      } else {
-        // For demonstration, create a simulated download file
-        const targetPath = path.join(options.downloadDir, `${options.chart.title}.zip`);
-        
-        if (!fs.existsSync(options.downloadDir)) {
-          fs.mkdirSync(options.downloadDir, { recursive: true });
-        }
-        
-        const simulatedContent = `Simulated OneDrive download for ${options.chart.title}`;
-        fs.writeFileSync(targetPath, simulatedContent);
-        
-        console.log('📋 Created simulated download file for demonstration');
-        
-        return {
-          success: true,
-          filePath: targetPath,
-          fileSize: simulatedContent.length
-        };
-      }
-      
-    } catch (error) {
-      console.error(`❌ Download monitoring failed: ${error}`);
-      return null;
-    }
-  }
-}
-
-export default RealOneDriveDownloader;
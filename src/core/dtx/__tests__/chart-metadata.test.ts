@@ -0,0 +1,105 @@
+/**
+ * Tests for correcting chart records from downloaded DTX files
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { applyChartMetadata, findChartFiles, readChartMetadata } from '..';
+import { ChartDownloader } from '../../download/downloader';
+import { DownloadProviderRegistry } from '../../download/providers';
+import { IDownloadProvider } from '../../interfaces';
+import { IChart } from '../../models';
+
+function chartFile(title: string, artist: string, level: number, bpm = 150, extra = ''): string {
+  return `#TITLE: ${title}\n#ARTIST: ${artist}\n#BPM: ${bpm}\n#DLEVEL: ${level}\n${extra}`;
+}
+
+function createChart(): IChart {
+  return {
+    id: 'chart-1',
+    title: 'Song',
+    artist: 'Wrong Artist',
+    bpm: '150',
+    difficulties: [],
+    source: 'approved-dtx',
+    downloadUrl: 'https://drive.google.com/drive/folders/chart-1',
+    originalPageUrl: 'http://approvedtx.blogspot.com/',
+    tags: [],
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z')
+  };
+}
+
+describe('chart metadata from DTX files', () => {
+  let tempDir: string;
+  let chartDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dtx-metadata-'));
+    chartDir = path.join(tempDir, 'Song');
+    fs.mkdirSync(chartDir);
+    fs.writeFileSync(path.join(chartDir, 'bsc.dtx'), chartFile('Song', 'Real Artist', 32));
+    fs.writeFileSync(path.join(chartDir, 'adv.dtx'), chartFile('Song', 'Real Artist', 55));
+    fs.writeFileSync(path.join(chartDir, 'mas.gda'), chartFile('Song (MASTER)', 'Real Artist', 71, 150, '#BPM01: 172\n#00108: 01'));
+    fs.writeFileSync(path.join(chartDir, 'song.ogg'), 'audio');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('finds chart files in nested folders', () => {
+    expect(findChartFiles([tempDir]).map(file => path.basename(file))).toEqual(['adv.dtx', 'bsc.dtx', 'mas.gda']);
+  });
+
+  it('combines the files of every difficulty', () => {
+    expect(readChartMetadata([chartDir])).toMatchObject({
+      title: 'Song',
+      artist: 'Real Artist',
+      bpm: '150-172',
+      difficulties: [3.2, 5.5, 7.1]
+    });
+    expect(readChartMetadata([path.join(chartDir, 'song.ogg')])).toBeNull();
+  });
+
+  it('reports only the fields that changed', () => {
+    const { chart, changes } = applyChartMetadata(createChart(), readChartMetadata([chartDir])!);
+
+    expect(changes).toEqual(['artist', 'bpm', 'difficulties']);
+    expect(chart).toMatchObject({ title: 'Song', artist: 'Real Artist', bpm: '150-172', difficulties: [3.2, 5.5, 7.1] });
+    expect(chart.scrapedValues).toEqual({ artist: 'Wrong Artist', bpm: '150', difficulties: [] });
+    expect(applyChartMetadata({ ...chart, artist: 'Other' }, readChartMetadata([chartDir])!).chart.scrapedValues!.artist).toBe('Wrong Artist');
+    expect(chart.updatedAt.getTime()).toBeGreaterThan(new Date('2024-01-01T00:00:00Z').getTime());
+  });
+
+  it('returns the corrected chart from ChartDownloader', async () => {
+    const provider: IDownloadProvider = {
+      name: 'Fixture',
+      supportedDomains: ['drive.google.com'],
+      canHandle: () => true,
+      isFolderUrl: () => true,
+      download: async () => undefined,
+      downloadFolder: async (_url, directory) => {
+        fs.cpSync(chartDir, directory, { recursive: true });
+        return fs.readdirSync(directory).map(name => path.join(directory, name));
+      },
+      validateUrl: async () => true
+    };
+    const downloader = new ChartDownloader(new DownloadProviderRegistry([provider]));
+    const downloadDir = path.join(tempDir, 'downloads');
+
+    const result = await downloader.downloadChart(createChart(), {
+      downloadDir,
+      chartIds: [],
+      maxConcurrency: 1,
+      overwrite: false,
+      timeout: 5000
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.extractedPaths).toEqual([path.join(downloadDir, 'Song - Wrong Artist')]);
+    expect(result.updatedChart).toMatchObject({ artist: 'Real Artist', difficulties: [3.2, 5.5, 7.1] });
+    expect(result.chart.artist).toBe('Wrong Artist');
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Tests for note-density statistics and their storage and filtering in the chart database
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { computeChartStats, parseDtx } from '..';
+import { ChartDatabase } from '../../database/database';
+import { IChart, IChartDifficultyStats } from '../../models';
+
+// Measure 1 at 120 BPM (2s): eight hi-hats, two bass drums and a left bass drum.
+// Measure 2 switches to 240 BPM (1s) and has four snares.
+const CHART = [
+  '#TITLE: Stats',
+  '#BPM: 120',
+  '#DLEVEL: 50',
+  '#00111: 1111111111111111',
+  '#00113: 11001100',
+  '#0011C: 0011',
+  '#00203: F0',
+  '#00212: 11111111'
+].join('\n');
+
+function createChart(id: string): IChart {
+  return {
+    id,
+    title: id,
+    artist: 'Artist',
+    bpm: '120',
+    difficulties: [5],
+    source: 'approved-dtx',
+    originalPageUrl: `http://approvedtx.blogspot.com/${id}`,
+    tags: [],
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z')
+  };
+}
+
+function createStats(file: string, peakNps: number, totalNotes: number, hasDoublePedal: boolean): IChartDifficultyStats {
+  return {
+    file,
+    level: 5,
+    laneCounts: { HH: totalNotes },
+    totalNotes,
+    durationSeconds: 60,
+    peakNps,
+    averageNps: totalNotes / 60,
+    bpmChanges: [{ time: 0, bpm: 120 }],
+    hasDoublePedal
+  };
+}
+
+describe('computeChartStats', () => {
+  it('counts notes per drum lane', () => {
+    const stats = computeChartStats(parseDtx(CHART), 'stats.dtx');
+
+    expect(stats.file).toBe('stats.dtx');
+    expect(stats.level).toBe(5);
+    expect(stats.laneCounts).toEqual({ HH: 8, BD: 2, LBD: 1, SD: 4 });
+    expect(stats.totalNotes).toBe(15);
+    expect(stats.hasDoublePedal).toBe(true);
+  });
+
+  it('follows tempo changes when timing the chart', () => {
+    const stats = computeChartStats(parseDtx(CHART), 'stats.dtx');
+
+    expect(stats.durationSeconds).toBe(4.75);
+    expect(stats.bpmChanges).toEqual([{ time: 0, bpm: 120 }, { time: 4, bpm: 240 }]);
+    expect(stats.peakNps).toBe(6);
+    expect(stats.averageNps).toBe(3.16);
+  });
+
+  it('applies measure length changes and #BPMxx references', () => {
+    const dtx = parseDtx([
+      '#BPM: 100',
+      '#BPM01: 200',
+      '#00002: 0.5',
+      '#00011: 11',
+      '#00108: 01',
+      '#00111: 11'
+    ].join('\n'));
+
+    const stats = computeChartStats(dtx, 'short.dtx');
+
+    // Half a measure at 100 BPM is 1.2s, then the tempo doubles
+    expect(stats.durationSeconds).toBe(1.2);
+    expect(stats.bpmChanges).toEqual([{ time: 0, bpm: 100 }, { time: 1.2, bpm: 200 }]);
+    expect(stats.hasDoublePedal).toBe(false);
+    expect(stats.level).toBeUndefined();
+  });
+
+  it('reads GDA lane names', () => {
+    const stats = computeChartStats(parseDtx('#001HH: 1111\n#001LB: 11'), 'song.gda');
+
+    expect(stats.laneCounts).toEqual({ HH: 2, LBD: 1 });
+    expect(stats.hasDoublePedal).toBe(true);
+  });
+});
+
+describe('chart statistics in ChartDatabase', () => {
+  let tempDir: string;
+  let database: ChartDatabase;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dtx-chart-stats-'));
+    database = new ChartDatabase(path.join(tempDir, 'charts.db'));
+
+    for (const id of ['fast', 'slow', 'plain']) {
+      await database.saveChart(createChart(id));
+    }
+    await database.saveChartStats('fast', [
+      createStats('fast/ext.dtx', 14, 900, true),
+      createStats('fast/bsc.dtx', 6, 300, false)
+    ]);
+    await database.saveChartStats('slow', [createStats('slow/mas.dtx', 8, 500, false)]);
+  });
+
+  afterEach(async () => {
+    await database.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('stores and replaces the stats of a chart', async () => {
+    expect((await database.getChartStats('fast')).map(stats => stats.file)).toEqual(['fast/bsc.dtx', 'fast/ext.dtx']);
+    expect(await database.getChartStats('slow')).toEqual([createStats('slow/mas.dtx', 8, 500, false)]);
+
+    await database.saveChartStats('fast', [createStats('fast/new.dtx', 10, 600, false)]);
+    expect((await database.getChartStats('fast')).map(stats => stats.file)).toEqual(['fast/new.dtx']);
+  });
+
+  it('filters charts by peak NPS and note count', async () => {
+    const ids = async (options: Parameters<ChartDatabase['queryCharts']>[0]) =>
+      (await database.queryCharts(options)).map(chart => chart.id).sort();
+
+    expect(await ids({ minPeakNps: 7 })).toEqual(['fast', 'slow']);
+    expect(await ids({ maxPeakNps: 7 })).toEqual(['fast']);
+    expect(await ids({ minNotes: 400, maxNotes: 600 })).toEqual(['slow']);
+
+    // Conditions must hold for the same difficulty
+    expect(await ids({ minPeakNps: 10, maxNotes: 400 })).toEqual([]);
+  });
+
+  it('filters charts by double pedal', async () => {
+    expect((await database.queryCharts({ hasDoublePedal: true })).map(chart => chart.id)).toEqual(['fast']);
+    expect((await database.queryCharts({ hasDoublePedal: false })).map(chart => chart.id).sort()).toEqual(['plain', 'slow']);
+  });
+
+  it('removes stats along with the chart', async () => {
+    await database.deleteChart('fast');
+
+    expect(await database.getChartStats('fast')).toEqual([]);
+  });
+});
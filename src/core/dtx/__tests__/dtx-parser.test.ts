@@ -0,0 +1,118 @@
+/**
+ * Tests for the DTX/GDA chart file parser
+ */
+
+import { decodeDtxText, parseDtx, parseLevel } from '..';
+
+const SAMPLE_DTX = [
+  '; Created by DTXCreator',
+  '#TITLE: 怪物',
+  '#ARTIST: YOASOBI',
+  '#COMMENT: Drum chart ; arranged',
+  '#GENRE: J-POP',
+  '#BPM: 148',
+  '#BPM01: 74',
+  '#BPM02: 180.5',
+  '#DLEVEL: 73',
+  '#DLVDEC: 5',
+  '#GLEVEL: 540',
+  '#PREVIEW: preview.ogg',
+  '#PREIMAGE: jacket.png',
+  '#WAV01: snare.wav',
+  '',
+  '#00011: 01000100',
+  '#00012: 0000010000000100',
+  '#00013: 0100000001000000 ; kick',
+  '#00120: 01010000',
+  '#001A1: 0001',
+  '#00208: 0001000200000000',
+  '#00303: 00C8',
+  '#A0011: 01'
+].join('\r\n');
+
+describe('parseDtx', () => {
+  it('reads header commands', () => {
+    const dtx = parseDtx(SAMPLE_DTX);
+
+    expect(dtx).toMatchObject({
+      title: '怪物',
+      artist: 'YOASOBI',
+      comment: 'Drum chart',
+      genre: 'J-POP',
+      bpm: 148,
+      preview: 'preview.ogg',
+      previewImage: 'jacket.png'
+    });
+    expect(dtx.headers['WAV01']).toBe('snare.wav');
+  });
+
+  it('converts instrument levels to the 10-point scale', () => {
+    expect(parseDtx(SAMPLE_DTX).levels).toEqual({ drums: 7.35, guitar: 5.4 });
+  });
+
+  it('reads channel data and counts playable chips per instrument', () => {
+    const dtx = parseDtx(SAMPLE_DTX);
+
+    expect(dtx.channels[0]).toEqual({ measure: 0, channel: '11', data: '01000100' });
+    expect(dtx.channels.find(channel => channel.measure === 1000)).toEqual({ measure: 1000, channel: '11', data: '01' });
+    expect(dtx.noteCounts).toEqual({ drums: 7, guitar: 2, bass: 1 });
+  });
+
+  it('includes mid-song tempo changes in the BPM range', () => {
+    expect(parseDtx(SAMPLE_DTX).bpmRange).toEqual({ min: 74, max: 200 });
+    expect(parseDtx('#BPM 150').bpmRange).toEqual({ min: 150, max: 150 });
+    expect(parseDtx('#TITLE: No tempo').bpmRange).toBeUndefined();
+  });
+
+  it('reads GDA lane channels', () => {
+    const dtx = parseDtx('#TITLE Song\n#DLEVEL 45\n#001HH: 01010101\n#001SD: 00010001\n#001G1: 01\n#001B1: 0101', 'gda');
+
+    expect(dtx.format).toBe('gda');
+    expect(dtx.title).toBe('Song');
+    expect(dtx.levels.drums).toBe(4.5);
+    expect(dtx.noteCounts).toEqual({ drums: 6, guitar: 1, bass: 2 });
+  });
+
+  it('does not count DTX drum empty-hit channels as bass', () => {
+    const dtx = parseDtx('#TITLE Song\n#00111: 0101\n#001B1: 01\n#001B2: 0101\n#001B7: 01010101');
+
+    expect(dtx.format).toBe('dtx');
+    expect(dtx.noteCounts).toEqual({ drums: 2, guitar: 0, bass: 0 });
+  });
+
+  it('adds #BASEBPM to channel 03 tempo changes like the note statistics do', () => {
+    expect(parseDtx('#BPM 150\n#BASEBPM 100\n#00103: 50').bpmRange).toEqual({ min: 150, max: 180 });
+  });
+
+  it('decodes Shift-JIS files', () => {
+    // "#TITLE: テスト" in CP932
+    const bytes = Buffer.concat([Buffer.from('#TITLE: '), Buffer.from([0x83, 0x65, 0x83, 0x58, 0x83, 0x67]), Buffer.from('\r\n#BPM: 120\r\n')]);
+
+    expect(parseDtx(bytes)).toMatchObject({ title: 'テスト', bpm: 120 });
+  });
+});
+
+describe('decodeDtxText', () => {
+  it('honours byte order marks', () => {
+    expect(decodeDtxText(Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from('#TITLE: 曲')]))).toBe('#TITLE: 曲');
+    expect(decodeDtxText(Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('#TITLE: 曲', 'utf16le')]))).toBe('#TITLE: 曲');
+  });
+
+  it('reads BOM-less UTF-8 as UTF-8', () => {
+    expect(decodeDtxText(Buffer.from('#ARTIST: ヨルシカ'))).toBe('#ARTIST: ヨルシカ');
+  });
+});
+
+describe('parseLevel', () => {
+  it.each([
+    ['65', undefined, 6.5],
+    ['65', '3', 6.53],
+    ['735', undefined, 7.35],
+    ['100', undefined, 10],
+    ['0', undefined, undefined],
+    ['abc', undefined, undefined],
+    [undefined, undefined, undefined]
+  ])('parses %s with decimal %s as %s', (level, decimal, expected) => {
+    expect(parseLevel(level, decimal)).toBe(expected);
+  });
+});
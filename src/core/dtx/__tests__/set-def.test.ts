@@ -0,0 +1,42 @@
+/**
+ * Tests for the set.def parser
+ */
+
+import { parseSetDef } from '..';
+
+describe('parseSetDef', () => {
+  it('reads the title and the chart file of each difficulty', () => {
+    const songs = parseSetDef([
+      '#TITLE Song',
+      '#L1LABEL BASIC',
+      '#L1FILE bsc.dtx',
+      '#L3LABEL EXTREME',
+      '#L3FILE ext.dtx',
+      '#L2FILE adv.dtx'
+    ].join('\r\n'));
+
+    expect(songs).toEqual([{
+      title: 'Song',
+      levels: [
+        { slot: 1, label: 'BASIC', file: 'bsc.dtx' },
+        { slot: 2, file: 'adv.dtx' },
+        { slot: 3, label: 'EXTREME', file: 'ext.dtx' }
+      ]
+    }]);
+  });
+
+  it('starts a new song at every #TITLE', () => {
+    const songs = parseSetDef('#TITLE: One\n#L1FILE one.dtx ; comment\n\n#TITLE Two\n#L5FILE two.dtx\n');
+
+    expect(songs.map(song => song.title)).toEqual(['One', 'Two']);
+    expect(songs[0].levels).toEqual([{ slot: 1, file: 'one.dtx' }]);
+    expect(songs[1].levels).toEqual([{ slot: 5, file: 'two.dtx' }]);
+  });
+
+  it('decodes Shift-JIS files', () => {
+    // "#TITLE テスト" in CP932
+    const bytes = Buffer.concat([Buffer.from('#TITLE '), Buffer.from([0x83, 0x65, 0x83, 0x58, 0x83, 0x67]), Buffer.from('\r\n#L1FILE mas.dtx\r\n')]);
+
+    expect(parseSetDef(bytes)).toEqual([{ title: 'テスト', levels: [{ slot: 1, file: 'mas.dtx' }] }]);
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Chart metadata read from downloaded DTX files
+ *
+ * A downloaded chart is usually one folder with a file per difficulty
+ * (bsc.dtx, adv.dtx, ext.dtx, mas.dtx). The files agree on title, artist and
+ * tempo and each carries its own level, so the chart's difficulties are the
+ * levels of all files together.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ChartMetadataField, IChart, IChartDifficultyStats } from '../models';
+import { DtxFile, parseDtxFile } from './dtx-parser';
+import { computeChartStats } from './chart-stats';
+import { toChartDifficulties } from '../database/chart-difficulties';
+
+export interface DtxChartMetadata {
+  title?: string;
+  artist?: string;
+
+  /** Tempo in the chart record format: "150" or "120-140" */
+  bpm?: string;
+
+  /** Drum levels of every difficulty, ascending (guitar levels for guitar-only charts) */
+  difficulties: number[];
+
+  /** Chart files the metadata was read from */
+  files: string[];
+
+  /** Note statistics per chart file, named relative to the folder holding the given paths */
+  stats: IChartDifficultyStats[];
+}
+
+export interface ChartMetadataUpdate {
+  chart: IChart;
+
+  /** Fields that differed from the stored chart */
+  changes: Array<keyof IChart>;
+}
+
+const CHART_FILE_EXTENSIONS = ['.dtx', '.gda'];
+
+// Extracted archives are shallow; this only guards against pathological trees
+const MAX_SEARCH_DEPTH = 4;
+
+/**
+ * Find `.dtx`/`.gda` files in the given files and directories
+ */
+export function findChartFiles(paths: string[]): string[] {
+  const found: string[] = [];
+
+  const visit = (entry: string, depth: number) => {
+    let stats: fs.Stats;
+    try {
+      stats = fs.statSync(entry);
+    } catch {
+      return;
+    }
+
+    if (stats.isDirectory()) {
+      if (depth >= MAX_SEARCH_DEPTH) return;
+      for (const name of fs.readdirSync(entry).sort()) {
+        visit(path.join(entry, name), depth + 1);
+      }
+    } else if (CHART_FILE_EXTENSIONS.includes(path.extname(entry).toLowerCase())) {
+      found.push(entry);
+    }
+  };
+
+  paths.forEach(entry => visit(entry, 0));
+  return found;
+}
+
+/**
+ * Read chart metadata from the chart files under the given paths, or null
+ * when there are no readable chart files
+ */
+export function readChartMetadata(paths: string[]): DtxChartMetadata | null {
+  const parsed: Array<{ file: string; dtx: DtxFile }> = [];
+
+  for (const file of findChartFiles(paths)) {
+    try {
+      parsed.push({ file, dtx: parseDtxFile(file) });
+    } catch (error) {
+      console.warn(`⚠️  Could not parse ${path.basename(file)}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  if (parsed.length === 0) {
+    return null;
+  }
+
+  const files = parsed.map(({ dtx }) => dtx);
+  const title = mostCommon(files.map(dtx => dtx.title));
+  const artist = mostCommon(files.map(dtx => dtx.artist));
+  const bpm = formatBpm(files);
+
+  const drumLevels = files.map(dtx => dtx.levels.drums).filter((level): level is number => level !== undefined);
+  const guitarLevels = files.map(dtx => dtx.levels.guitar).filter((level): level is number => level !== undefined);
+  const levels = drumLevels.length > 0 ? drumLevels : guitarLevels;
+
+  const baseDir = path.dirname(path.resolve(paths[0]));
+
+  return {
+    ...(title ? { title } : {}),
+    ...(artist ? { artist } : {}),
+    ...(bpm ? { bpm } : {}),
+    difficulties: [...new Set(levels)].sort((a, b) => a - b),
+    files: parsed.map(({ file }) => file),
+    stats: parsed.map(({ file, dtx }) => computeChartStats(dtx, path.relative(baseDir, path.resolve(file)).split(path.sep).join('/')))
+  };
+}
+
+/**
+ * Apply metadata read from the chart files to a chart record. Values the
+ * files don't provide are left as they are; the post's value of each
+ * corrected field is kept in scrapedValues so re-scrapes compare post to post.
+ */
+export function applyChartMetadata(chart: IChart, metadata: DtxChartMetadata): ChartMetadataUpdate {
+  const updated: IChart = { ...chart };
+  const changes: ChartMetadataField[] = [];
+
+  if (metadata.title && metadata.title !== chart.title) {
+    updated.title = metadata.title;
+    changes.push('title');
+  }
+  if (metadata.artist && metadata.artist !== chart.artist) {
+    updated.artist = metadata.artist;
+    changes.push('artist');
+  }
+  if (metadata.bpm && metadata.bpm !== chart.bpm) {
+    updated.bpm = metadata.bpm;
+    changes.push('bpm');
+  }
+  if (metadata.difficulties.length > 0 && !sameNumbers(metadata.difficulties, chart.difficulties)) {
+    updated.difficulties = metadata.difficulties;
+    if (chart.instrumentDifficulties) {
+      // The files rate the drums; other instruments keep the post's ratings
+      updated.instrumentDifficulties = [
+        ...toChartDifficulties(metadata.difficulties),
+        ...chart.instrumentDifficulties.filter(difficulty => difficulty.instrument !== 'DRUMS')
+      ];
+    }
+    changes.push('difficulties');
+  }
+
+  if (changes.length > 0) {
+    // A field corrected before already holds the post's value
+    updated.scrapedValues = { ...Object.fromEntries(changes.map(field => [field, chart[field]])), ...chart.scrapedValues };
+    updated.updatedAt = new Date();
+  }
+
+  return { chart: updated, changes };
+}
+
+/**
+ * Most frequent non-empty value; ties go to the shortest, which drops
+ * per-difficulty suffixes like "Song (MASTER)"
+ */
+function mostCommon(values: Array<string | undefined>): string | undefined {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    if (value) counts.set(value, (counts.get(value) || 0) + 1);
+  }
+
+  return [...counts.entries()]
+    .sort(([a, countA], [b, countB]) => countB - countA || a.length - b.length)[0]?.[0];
+}
+
+function formatBpm(files: DtxFile[]): string | undefined {
+  const ranges = files.map(dtx => dtx.bpmRange).filter((range): range is { min: number; max: number } => range !== undefined);
+  if (ranges.length === 0) {
+    return undefined;
+  }
+
+  const min = Math.min(...ranges.map(range => range.min));
+  const max = Math.max(...ranges.map(range => range.max));
+  const format = (value: number) => String(Math.round(value * 100) / 100);
+  return min === max ? format(min) : `${format(min)}-${format(max)}`;
+}
+
+function sameNumbers(a: number[], b: number[]): boolean {
+  return a.length === b.length && a.every((value, i) => value === b[i]);
+}
@@ -0,0 +1,208 @@
+/**
+ * Note-density statistics computed from DTX channel data
+ *
+ * Chip times come from walking the measures in order: a measure is four beats
+ * times its length multiplier (channel 02) and the tempo follows channel 03
+ * (integer BPM) and channel 08 (`#BPMxx` references).
+ */
+
+import { IChartDifficultyStats } from '../models';
+import { DtxChannelData, DtxFile } from './dtx-parser';
+
+// Drum lanes by DTX channel and by GDA lane name
+const DRUM_LANES: Record<string, string> = {
+  '11': 'HH', HH: 'HH',
+  '12': 'SD', SD: 'SD',
+  '13': 'BD', BD: 'BD',
+  '14': 'HT', HT: 'HT',
+  '15': 'LT', LT: 'LT',
+  '16': 'CY', CY: 'CY',
+  '17': 'FT', FT: 'FT',
+  '18': 'HHO', HO: 'HHO',
+  '19': 'RD', RD: 'RD',
+  '1A': 'LC', LC: 'LC',
+  '1B': 'LP', LP: 'LP',
+  '1C': 'LBD', LB: 'LBD'
+};
+
+const MEASURE_LENGTH_CHANNEL = '02';
+const BPM_CHANNEL = '03';
+const EXTENDED_BPM_CHANNEL = '08';
+const DEFAULT_BPM = 120;
+
+interface TimedChip {
+  beat: number;
+  channel: string;
+  chip: string;
+}
+
+/**
+ * Compute statistics for one chart file
+ */
+export function computeChartStats(dtx: DtxFile, file: string): IChartDifficultyStats {
+  const chips = layOutChips(dtx.channels);
+  const toSeconds = createTimeline(dtx, chips);
+
+  const laneCounts: Record<string, number> = {};
+  const noteTimes: number[] = [];
+  let lastChipTime = 0;
+
+  for (const chip of chips) {
+    const time = toSeconds(chip.beat);
+    lastChipTime = Math.max(lastChipTime, time);
+
+    const lane = DRUM_LANES[chip.channel];
+    if (lane) {
+      laneCounts[lane] = (laneCounts[lane] || 0) + 1;
+      noteTimes.push(time);
+    }
+  }
+
+  const durationSeconds = round(lastChipTime);
+  const totalNotes = noteTimes.length;
+
+  return {
+    file,
+    ...(dtx.levels.drums !== undefined ? { level: dtx.levels.drums } : {}),
+    laneCounts,
+    totalNotes,
+    durationSeconds,
+    peakNps: peakNotesPerSecond(noteTimes),
+    averageNps: durationSeconds > 0 ? round(totalNotes / durationSeconds) : 0,
+    bpmChanges: getBpmChanges(dtx, chips, toSeconds),
+    hasDoublePedal: (laneCounts['LBD'] || 0) > 0
+  };
+}
+
+/**
+ * Position every non-empty chip in beats from the start of the chart
+ */
+function layOutChips(channels: DtxChannelData[]): TimedChip[] {
+  const measureLengths = new Map<number, number>();
+  let lastMeasure = 0;
+
+  for (const { measure, channel, data } of channels) {
+    lastMeasure = Math.max(lastMeasure, measure);
+    if (channel === MEASURE_LENGTH_CHANNEL) {
+      const length = parseFloat(data);
+      if (length > 0) {
+        measureLengths.set(measure, length);
+      }
+    }
+  }
+
+  const measureStart: number[] = [];
+  let beat = 0;
+  for (let measure = 0; measure <= lastMeasure; measure++) {
+    measureStart[measure] = beat;
+    beat += 4 * (measureLengths.get(measure) ?? 1);
+  }
+
+  const chips: TimedChip[] = [];
+  for (const { measure, channel, data } of channels) {
+    if (channel === MEASURE_LENGTH_CHANNEL || data.length < 2) {
+      continue;
+    }
+
+    const slots = Math.floor(data.length / 2);
+    const beats = 4 * (measureLengths.get(measure) ?? 1);
+    for (let slot = 0; slot < slots; slot++) {
+      const chip = data.slice(slot * 2, slot * 2 + 2);
+      if (chip !== '00') {
+        chips.push({ beat: measureStart[measure] + (beats * slot) / slots, channel, chip });
+      }
+    }
+  }
+
+  return chips.sort((a, b) => a.beat - b.beat);
+}
+
+/**
+ * Tempo changes in beat order
+ */
+function getTempoEvents(dtx: DtxFile, chips: TimedChip[]): Array<{ beat: number; bpm: number }> {
+  const baseBpm = parseFloat(dtx.headers['BASEBPM'] ?? '') || 0;
+  const events: Array<{ beat: number; bpm: number }> = [];
+
+  for (const { beat, channel, chip } of chips) {
+    let bpm: number | undefined;
+    if (channel === BPM_CHANNEL) {
+      bpm = baseBpm + parseInt(chip, 16);
+    } else if (channel === EXTENDED_BPM_CHANNEL) {
+      bpm = parseFloat(dtx.headers[`BPM${chip}`] ?? '');
+    }
+    if (bpm !== undefined && bpm > 0) {
+      events.push({ beat, bpm });
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Build a beat-to-seconds conversion that follows the tempo changes
+ */
+function createTimeline(dtx: DtxFile, chips: TimedChip[]): (beat: number) => number {
+  const segments: Array<{ beat: number; time: number; bpm: number }> = [{ beat: 0, time: 0, bpm: dtx.bpm ?? DEFAULT_BPM }];
+
+  for (const event of getTempoEvents(dtx, chips)) {
+    const previous = segments[segments.length - 1];
+    const time = previous.time + ((event.beat - previous.beat) * 60) / previous.bpm;
+    if (event.beat === previous.beat) {
+      previous.bpm = event.bpm;
+    } else {
+      segments.push({ beat: event.beat, time, bpm: event.bpm });
+    }
+  }
+
+  return (beat: number) => {
+    let segment = segments[0];
+    for (const candidate of segments) {
+      if (candidate.beat > beat) break;
+      segment = candidate;
+    }
+    return segment.time + ((beat - segment.beat) * 60) / segment.bpm;
+  };
+}
+
+function getBpmChanges(
+  dtx: DtxFile,
+  chips: TimedChip[],
+  toSeconds: (beat: number) => number
+): Array<{ time: number; bpm: number }> {
+  const changes: Array<{ time: number; bpm: number }> = [{ time: 0, bpm: dtx.bpm ?? DEFAULT_BPM }];
+
+  for (const event of getTempoEvents(dtx, chips)) {
+    const time = round(toSeconds(event.beat));
+    const last = changes[changes.length - 1];
+    if (last.time === time) {
+      last.bpm = event.bpm;
+    } else if (last.bpm !== event.bpm) {
+      changes.push({ time, bpm: event.bpm });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Most notes starting within any one-second window
+ */
+function peakNotesPerSecond(times: number[]): number {
+  const sorted = [...times].sort((a, b) => a - b);
+  let peak = 0;
+  let start = 0;
+
+  for (let end = 0; end < sorted.length; end++) {
+    while (sorted[end] - sorted[start] >= 1) {
+      start++;
+    }
+    peak = Math.max(peak, end - start + 1);
+  }
+
+  return peak;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,276 @@
+/**
+ * Parser for DTXMania `.dtx` and `.gda` chart files
+ *
+ * Both formats are line based: header commands (`#TITLE: Song`) and channel
+ * data (`#00113: 01000100`, measure 001, channel 13). Files are usually
+ * Shift-JIS, sometimes UTF-8 or UTF-16 with a BOM.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type DtxInstrument = 'drums' | 'guitar' | 'bass';
+
+export type DtxFormat = 'dtx' | 'gda';
+
+export interface DtxChannelData {
+  /** Measure number */
+  measure: number;
+
+  /** Channel identifier, upper case (hex for DTX, letters for GDA) */
+  channel: string;
+
+  /** Chip data: pairs of base-36 digits, `00` for empty slots */
+  data: string;
+}
+
+export interface DtxFile {
+  /** Channel layout the file was read with */
+  format: DtxFormat;
+
+  title?: string;
+  artist?: string;
+  comment?: string;
+  genre?: string;
+
+  /** Base BPM from `#BPM` */
+  bpm?: number;
+
+  /** Lowest and highest tempo reached, including mid-song BPM changes */
+  bpmRange?: { min: number; max: number };
+
+  /** Levels on the 0.00–10.00 scale, per instrument */
+  levels: Partial<Record<DtxInstrument, number>>;
+
+  /** Playable chips per instrument */
+  noteCounts: Record<DtxInstrument, number>;
+
+  /** Preview sound file (`#PREVIEW`) */
+  preview?: string;
+
+  /** Preview image file (`#PREIMAGE`) */
+  previewImage?: string;
+
+  /** Every header command by upper-case name; the first occurrence wins */
+  headers: Record<string, string>;
+
+  channels: DtxChannelData[];
+}
+
+// Measure: base-36 hundreds digit plus two decimal digits; channel: two characters
+const CHANNEL_LINE = /^#([0-9A-Z]\d\d)([0-9A-Z]{2})\s*:?\s*([0-9A-Z_.\s]*)$/i;
+const HEADER_LINE = /^#([A-Z][A-Z0-9_]*?)(?:\s*:\s*|\s+)(.*)$/i;
+const BARE_HEADER_LINE = /^#([A-Z][A-Z0-9_]*)$/i;
+
+const LEVEL_HEADERS: Record<DtxInstrument, { level: string; decimal: string }> = {
+  drums: { level: 'DLEVEL', decimal: 'DLVDEC' },
+  guitar: { level: 'GLEVEL', decimal: 'GLVDEC' },
+  bass: { level: 'BLEVEL', decimal: 'BLVDEC' }
+};
+
+// DTX channels: drums 11–1C, guitar 20–27, bass A0–A7
+const DTX_NOTE_CHANNELS: Record<DtxInstrument, RegExp> = {
+  drums: /^1[1-9A-C]$/,
+  guitar: /^2[0-7]$/,
+  bass: /^A[0-7]$/
+};
+
+// GDA channels use lane names instead of hex numbers. B1–B7 are bass here but
+// drum empty-hit sounds in DTX files, so each format uses only its own table.
+const GDA_NOTE_CHANNELS: Record<DtxInstrument, RegExp> = {
+  drums: /^(HH|SD|BD|HT|LT|CY|FT|HO|RD|LC|LP|LB)$/,
+  guitar: /^G[0-7]$/,
+  bass: /^B[0-7]$/
+};
+
+const NOTE_CHANNELS: Record<DtxFormat, Record<DtxInstrument, RegExp>> = {
+  dtx: DTX_NOTE_CHANNELS,
+  gda: GDA_NOTE_CHANNELS
+};
+
+/**
+ * Decode chart file bytes: BOM first, then UTF-8 when the bytes are valid
+ * UTF-8, otherwise Shift-JIS (CP932)
+ */
+export function decodeDtxText(bytes: Buffer): string {
+  if (bytes.length >= 3 && bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return new TextDecoder('utf-8').decode(bytes.subarray(3));
+  }
+  if (bytes.length >= 2 && bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return new TextDecoder('utf-16le').decode(bytes.subarray(2));
+  }
+  if (bytes.length >= 2 && bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return new TextDecoder('utf-16be').decode(bytes.subarray(2));
+  }
+
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder('shift_jis').decode(bytes);
+  }
+}
+
+/**
+ * Parse the contents of a `.dtx` or `.gda` file
+ */
+export function parseDtx(content: Buffer | string, format: DtxFormat = 'dtx'): DtxFile {
+  const text = typeof content === 'string' ? content : decodeDtxText(content);
+  const headers: Record<string, string> = {};
+  const channels: DtxChannelData[] = [];
+
+  for (const rawLine of text.split(/\r\n|\r|\n/)) {
+    // `;` starts a comment anywhere on a line
+    const line = rawLine.replace(/;.*$/, '').trim();
+    if (!line.startsWith('#')) {
+      continue;
+    }
+
+    const channelMatch = line.match(CHANNEL_LINE);
+    if (channelMatch) {
+      channels.push({
+        measure: parseMeasure(channelMatch[1]),
+        channel: channelMatch[2].toUpperCase(),
+        data: channelMatch[3].replace(/[\s_]/g, '').toUpperCase()
+      });
+      continue;
+    }
+
+    const headerMatch = line.match(HEADER_LINE) || line.match(BARE_HEADER_LINE);
+    if (headerMatch) {
+      const name = headerMatch[1].toUpperCase();
+      if (!(name in headers)) {
+        headers[name] = (headerMatch[2] ?? '').trim();
+      }
+    }
+  }
+
+  const bpm = parsePositiveNumber(headers['BPM']);
+  const levels: Partial<Record<DtxInstrument, number>> = {};
+  for (const instrument of Object.keys(LEVEL_HEADERS) as DtxInstrument[]) {
+    const { level, decimal } = LEVEL_HEADERS[instrument];
+    const value = parseLevel(headers[level], headers[decimal]);
+    if (value !== undefined) {
+      levels[instrument] = value;
+    }
+  }
+
+  const bpmRange = getBpmRange(bpm, headers, channels);
+
+  return {
+    format,
+    ...optional('title', headers['TITLE']),
+    ...optional('artist', headers['ARTIST']),
+    ...optional('comment', headers['COMMENT']),
+    ...optional('genre', headers['GENRE']),
+    ...(bpm !== undefined ? { bpm } : {}),
+    ...(bpmRange ? { bpmRange } : {}),
+    levels,
+    noteCounts: countNotes(channels, NOTE_CHANNELS[format]),
+    ...optional('preview', headers['PREVIEW']),
+    ...optional('previewImage', headers['PREIMAGE']),
+    headers,
+    channels
+  };
+}
+
+/**
+ * Read and parse a chart file from disk, choosing the format by extension
+ */
+export function parseDtxFile(filePath: string): DtxFile {
+  return parseDtx(fs.readFileSync(filePath), path.extname(filePath).toLowerCase() === '.gda' ? 'gda' : 'dtx');
+}
+
+/**
+ * Convert `#DLEVEL`-style values to the 0.00–10.00 scale. Classic charts use
+ * 0–100 (65 = 6.50) with an optional `#DLVDEC` hundredths digit; newer charts
+ * write three digits (735 = 7.35).
+ */
+export function parseLevel(level: string | undefined, decimal?: string): number | undefined {
+  const value = parseInt(level ?? '', 10);
+  if (isNaN(value) || value <= 0) {
+    return undefined;
+  }
+
+  let result: number;
+  if (value > 100) {
+    result = value / 100;
+  } else {
+    const hundredths = parseInt(decimal ?? '', 10);
+    result = value / 10 + (isNaN(hundredths) ? 0 : hundredths / 100);
+  }
+
+  return Math.round(Math.min(result, 10) * 100) / 100;
+}
+
+/**
+ * Measures above 999 use a base-36 hundreds digit (A00 = 1000)
+ */
+function parseMeasure(measure: string): number {
+  return parseInt(measure[0], 36) * 100 + parseInt(measure.slice(1), 10);
+}
+
+function parsePositiveNumber(value: string | undefined): number | undefined {
+  const number = parseFloat(value ?? '');
+  return isNaN(number) || number <= 0 ? undefined : number;
+}
+
+function optional<K extends string>(key: K, value: string | undefined): Partial<Record<K, string>> {
+  return value ? { [key]: value } as Record<K, string> : {};
+}
+
+function chips(data: string): string[] {
+  const result: string[] = [];
+  for (let i = 0; i + 1 < data.length; i += 2) {
+    const chip = data.slice(i, i + 2);
+    if (chip !== '00') {
+      result.push(chip);
+    }
+  }
+  return result;
+}
+
+function countNotes(channels: DtxChannelData[], noteChannels: Record<DtxInstrument, RegExp>): Record<DtxInstrument, number> {
+  const counts: Record<DtxInstrument, number> = { drums: 0, guitar: 0, bass: 0 };
+
+  for (const { channel, data } of channels) {
+    for (const instrument of Object.keys(counts) as DtxInstrument[]) {
+      if (noteChannels[instrument].test(channel)) {
+        counts[instrument] += chips(data).length;
+        break;
+      }
+    }
+  }
+
+  return counts;
+}
+
+/**
+ * Tempo range from the base BPM, channel 03 (integer BPM in hex, added to
+ * `#BASEBPM`) and channel 08 (references to `#BPMxx` definitions)
+ */
+function getBpmRange(
+  bpm: number | undefined,
+  headers: Record<string, string>,
+  channels: DtxChannelData[]
+): { min: number; max: number } | undefined {
+  const tempos = bpm !== undefined ? [bpm] : [];
+  const baseBpm = parseFloat(headers['BASEBPM'] ?? '') || 0;
+
+  for (const { channel, data } of channels) {
+    if (channel === '03') {
+      tempos.push(...chips(data).map(chip => baseBpm + parseInt(chip, 16)).filter(value => value > 0));
+    } else if (channel === '08') {
+      for (const chip of chips(data)) {
+        const value = parsePositiveNumber(headers[`BPM${chip}`]);
+        if (value !== undefined) {
+          tempos.push(value);
+        }
+      }
+    }
+  }
+
+  if (tempos.length === 0) {
+    return undefined;
+  }
+  return { min: Math.min(...tempos), max: Math.max(...tempos) };
+}
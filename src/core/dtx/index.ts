@@ -0,0 +1,4 @@
+export * from './dtx-parser';
+export * from './chart-metadata';
+export * from './chart-stats';
+export * from './set-def';
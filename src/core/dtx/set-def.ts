@@ -0,0 +1,88 @@
+/**
+ * Parser for DTXMania `set.def` files
+ *
+ * A set.def groups the chart files of one song folder into difficulties:
+ *
+ *   #TITLE Song
+ *   #L1LABEL BASIC
+ *   #L1FILE bsc.dtx
+ *   #L2LABEL ADVANCED
+ *   #L2FILE adv.dtx
+ *
+ * A file may describe several songs, each starting with its own #TITLE.
+ */
+
+import * as fs from 'fs';
+import { decodeDtxText } from './dtx-parser';
+
+export interface SetDefLevel {
+  /** Difficulty slot, 1–5 */
+  slot: number;
+
+  /** Label shown in the song list (e.g. "MASTER") */
+  label?: string;
+
+  /** Chart file, relative to the set.def */
+  file: string;
+}
+
+export interface SetDefSong {
+  title?: string;
+
+  /** Difficulties with a chart file, in slot order */
+  levels: SetDefLevel[];
+}
+
+const LINE = /^#([A-Z][A-Z0-9]*)(?:\s*:\s*|\s+)(.*)$/i;
+const LEVEL_COMMAND = /^L(\d)(LABEL|FILE)$/;
+
+/**
+ * Parse set.def content (raw bytes are decoded like DTX files)
+ */
+export function parseSetDef(content: Buffer | string): SetDefSong[] {
+  const text = typeof content === 'string' ? content : decodeDtxText(content);
+  const songs: Array<{ title?: string; labels: Map<number, string>; files: Map<number, string> }> = [];
+  let current: (typeof songs)[number] | undefined;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/;.*$/, '').trim();
+    const match = line.match(LINE);
+    if (!match) continue;
+
+    const command = match[1].toUpperCase();
+    const value = match[2].trim();
+
+    if (command === 'TITLE') {
+      current = { labels: new Map(), files: new Map(), ...(value ? { title: value } : {}) };
+      songs.push(current);
+      continue;
+    }
+
+    const level = command.match(LEVEL_COMMAND);
+    if (!level || !value) continue;
+
+    if (!current) {
+      current = { labels: new Map(), files: new Map() };
+      songs.push(current);
+    }
+    const slot = parseInt(level[1], 10);
+    (level[2] === 'FILE' ? current.files : current.labels).set(slot, value);
+  }
+
+  return songs.map(song => ({
+    ...(song.title ? { title: song.title } : {}),
+    levels: [...song.files.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([slot, file]) => {
+        const label = song.labels.get(slot);
+        return { slot, ...(label ? { label } : {}), file };
+      })
+  }));
+}
+
+/**
+ * Read and parse a set.def file
+ */
+export function parseSetDefFile(filePath: string): SetDefSong[] {
+  return parseSetDef(fs.readFileSync(filePath));
+}
@@ -79,6 +79,52 @@ export class DownloadTimeoutError extends AppError {
   }
 }
 
+export class DownloadCancelledError extends AppError {
+  readonly code = 'DOWNLOAD_CANCELLED';
+
+  constructor() {
+    super('Download cancelled');
+  }
+}
+
+export class ChartVariantNotFoundError extends AppError {
+  readonly code = 'CHART_VARIANT_NOT_FOUND';
+  
+  constructor(chartId: string, public readonly variant: string) {
+    super(`Chart ${chartId} has no variant "${variant}"`);
+  }
+}
+
+/**
+ * Archive extraction errors
+ */
+export class ArchiveExtractionError extends AppError {
+  readonly code = 'ARCHIVE_EXTRACTION_ERROR';
+  
+  constructor(message: string, cause?: Error) {
+    super(message, cause);
+  }
+}
+
+export class UnsafeArchiveEntryError extends AppError {
+  readonly code = 'UNSAFE_ARCHIVE_ENTRY';
+  
+  constructor(public readonly entryName: string) {
+    super(`Unsafe path in archive: ${entryName}`);
+  }
+}
+
+/**
+ * Library errors
+ */
+export class LibraryNotFoundError extends AppError {
+  readonly code = 'LIBRARY_NOT_FOUND';
+  
+  constructor(public readonly directory: string) {
+    super(`Library folder not found: ${directory}`);
+  }
+}
+
 /**
  * Storage-related errors
  */
@@ -90,6 +136,22 @@ export class StorageConnectionError extends AppError {
   }
 }
 
+export class DatabaseMigrationError extends AppError {
+  readonly code = 'DATABASE_MIGRATION_ERROR';
+
+  constructor(public readonly version: number, message: string, cause?: Error) {
+    super(`Database migration ${version} failed: ${message}`, cause);
+  }
+}
+
+export class DatabaseBackupError extends AppError {
+  readonly code = 'DATABASE_BACKUP_ERROR';
+
+  constructor(public readonly operation: 'backup' | 'restore' | 'merge', public readonly filePath: string, message: string, cause?: Error) {
+    super(`Database ${operation} failed for ${filePath}: ${message}`, cause);
+  }
+}
+
 /**
  * Configuration errors
  */
@@ -3,3 +3,6 @@ export * from './models';
 export * from './interfaces';
 export * from './errors';
 export * from './database';
+export * from './dtx';
+export * from './library';
+export * from './updates';
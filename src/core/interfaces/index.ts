@@ -1,4 +1,4 @@
-import { IChart, IChartFilters, IScrapeOptions, IDownloadItem, ProgressCallback } from '../models';
+import { ChartQueryOptions, DatabaseMergeReport, IChart, IChartDifficultyStats, IChartRevision, IScrapeOptions, IScrapedPage, IScrapingStats, IDownloadItem, IDownloadProgress, IDownloadRecord, ILibraryEntry, ProgressCallback } from '../models';
 
 /**
  * Abstract interface for chart sources (websites, APIs, etc.)
@@ -31,7 +31,9 @@ export interface IChartSource {
 }
 
 /**
- * Repository interface for chart persistence
+ * Repository interface for chart persistence. ChartDatabase is the SQLite
+ * implementation; InMemoryChartRepository keeps charts in memory with the
+ * same query semantics.
  */
 export interface IChartRepository {
   /**
@@ -40,7 +42,7 @@ export interface IChartRepository {
   save(chart: IChart): Promise<void>;
   
   /**
-   * Save multiple charts in a batch
+   * Save multiple charts in a batch; nothing is saved if any chart fails
    */
   saveBatch(charts: IChart[]): Promise<void>;
   
@@ -52,12 +54,12 @@ export interface IChartRepository {
   /**
    * Find charts matching filters
    */
-  findByFilters(filters: IChartFilters): Promise<IChart[]>;
+  findByFilters(filters: ChartQueryOptions): Promise<IChart[]>;
   
   /**
-   * Count total charts
+   * Count charts matching filters (pagination is ignored)
    */
-  count(filters?: Partial<IChartFilters>): Promise<number>;
+  count(filters?: ChartQueryOptions): Promise<number>;
   
   /**
    * Check if a chart exists
@@ -69,10 +71,124 @@ export interface IChartRepository {
    */
   delete(id: string): Promise<void>;
   
+  /**
+   * Delete every chart, returning how many were deleted
+   */
+  deleteAll(): Promise<number>;
+  
   /**
    * Get all unique sources
    */
   getSources(): Promise<string[]>;
+  
+  /**
+   * Number of charts from each source
+   */
+  countBySource(): Promise<Record<string, number>>;
+  
+  /**
+   * Replace the per-difficulty statistics of a chart
+   */
+  saveStats(chartId: string, stats: IChartDifficultyStats[]): Promise<void>;
+  
+  /**
+   * Per-difficulty statistics of a chart
+   */
+  getStats(chartId: string): Promise<IChartDifficultyStats[]>;
+  
+  /**
+   * Record a change to a chart's upstream post
+   */
+  saveRevision(revision: Omit<IChartRevision, 'id'>): Promise<void>;
+  
+  /**
+   * Recorded revisions, newest first
+   */
+  getRevisions(options?: { chartId?: string; since?: Date }): Promise<IChartRevision[]>;
+}
+
+/**
+ * Song folders recorded by library scans, which decide which charts are owned
+ */
+export interface ILibraryStore {
+  /**
+   * Recorded song folders, optionally only those under a folder
+   */
+  getLibraryEntries(root?: string): Promise<ILibraryEntry[]>;
+  
+  /**
+   * Replace the entries under a scanned folder; returns how many folders are gone
+   */
+  replaceLibraryEntries(root: string, entries: ILibraryEntry[]): Promise<number>;
+  
+  /**
+   * IDs of the charts found installed
+   */
+  getOwnedChartIds(): Promise<Set<string>>;
+}
+
+/**
+ * Pages recorded by scrapes, used to skip or resume a source
+ */
+export interface IScrapingProgressStore {
+  /**
+   * Record that a page has been scraped
+   */
+  recordPageScraped(source: string, url: string, pageNumber: number | null, chartsFound: number, status?: 'completed' | 'failed' | 'partial', errorMessage?: string): Promise<void>;
+  
+  /**
+   * Whether a page has been scraped successfully
+   */
+  isPageScraped(source: string, url: string): Promise<boolean>;
+  
+  /**
+   * Recorded pages of a source, newest first
+   */
+  getScrapedPages(source: string): Promise<IScrapedPage[]>;
+  
+  /**
+   * Totals over the recorded pages of a source
+   */
+  getScrapingStats(source: string): Promise<IScrapingStats>;
+  
+  /**
+   * Forget the recorded pages of a source, returning how many were removed
+   */
+  clearScrapingProgress(source: string): Promise<number>;
+}
+
+/**
+ * Copying, replacing and merging a whole chart database file
+ */
+export interface IDatabaseMaintenance {
+  /**
+   * Copy the database to a file, returning its path
+   */
+  backup(destination?: string): Promise<string>;
+  
+  /**
+   * Replace the database's contents with a backup
+   */
+  restore(source: string): Promise<void>;
+  
+  /**
+   * Merge another database's charts and scraping progress
+   */
+  merge(source: string): Promise<DatabaseMergeReport>;
+}
+
+/**
+ * Per-download options passed to a download provider
+ */
+export interface IDownloadProviderOptions {
+  /** Request timeout in milliseconds */
+  timeout?: number;
+  
+  /** Aborts the transfer when signalled */
+  signal?: AbortSignal;
+  
+  /** Called with the file name suggested by the server (Content-Disposition) */
+  onFileName?: (fileName: string) => void;
 }
 
 /**
@@ -93,7 +209,17 @@ export interface IDownloadProvider {
   /**
    * Download a file from the given URL
    */
-  download(url: string, destination: string, progress?: ProgressCallback): Promise<void>;
+  download(url: string, destination: string, progress?: ProgressCallback, options?: IDownloadProviderOptions): Promise<void>;
+  
+  /**
+   * Check if the URL points at a shared folder rather than a single file
+   */
+  isFolderUrl?(url: string): boolean;
+  
+  /**
+   * Download every file in a shared folder into a directory, returning the saved file paths
+   */
+  downloadFolder?(url: string, directory: string, progress?: ProgressCallback, options?: IDownloadProviderOptions): Promise<string[]>;
   
   /**
    * Get direct download URL if available
@@ -106,6 +232,99 @@ export interface IDownloadProvider {
   validateUrl(url: string): Promise<boolean>;
 }
 
+/**
+ * Archive formats the downloader knows how to extract
+ */
+export type ArchiveFormat = 'zip' | 'rar' | '7z';
+
+/**
+ * Per-archive options passed to an archive extractor
+ */
+export interface IArchiveExtractOptions {
+  /** Aborts extraction when signalled */
+  signal?: AbortSignal;
+}
+
+/**
+ * Result of extracting an archive
+ */
+export interface IArchiveExtractResult {
+  /** Paths of the extracted files */
+  files: string[];
+}
+
+/**
+ * Archive extractor interface for different archive formats
+ */
+export interface IArchiveExtractor {
+  /** Name of this extractor */
+  readonly name: string;
+  
+  /** Archive formats this extractor can handle */
+  readonly formats: ArchiveFormat[];
+  
+  /**
+   * Extract every entry into the destination directory. Implementations must
+   * reject entries that would be written outside the destination.
+   */
+  extract(archivePath: string, destination: string, options?: IArchiveExtractOptions): Promise<IArchiveExtractResult>;
+}
+
+/**
+ * Download history consulted before downloading a chart again
+ */
+export interface IDownloadHistory {
+  /**
+   * Latest recorded download of a chart whose files are still on disk
+   */
+  findInstalled(chartId: string, variant?: string): Promise<IDownloadRecord | null>;
+  
+  /**
+   * Record a finished download
+   */
+  record(record: Omit<IDownloadRecord, 'id'>): Promise<void>;
+}
+
+/**
+ * Storage for finished download records
+ */
+export interface IDownloadRecordStore {
+  /**
+   * Recorded downloads, newest first
+   */
+  getDownloadHistory(options?: { chartId?: string; limit?: number }): Promise<IDownloadRecord[]>;
+  
+  /**
+   * Record a finished download, returning its ID
+   */
+  saveDownloadRecord(record: Omit<IDownloadRecord, 'id'>): Promise<number>;
+}
+
+/**
+ * Storage for download queue items
+ */
+export interface IDownloadQueueStore {
+  /**
+   * Insert or update a queue item
+   */
+  saveQueueItem(item: IDownloadItem): Promise<void>;
+  
+  /**
+   * Get a queue item by ID
+   */
+  getQueueItem(id: string): Promise<IDownloadItem | null>;
+  
+  /**
+   * All queue items in queue order
+   */
+  getQueueItems(): Promise<IDownloadItem[]>;
+  
+  /**
+   * Remove items with the given statuses, returning how many were removed
+   */
+  deleteQueueItems(statuses: IDownloadProgress['status'][]): Promise<number>;
+}
+
 /**
  * Download queue manager interface
  */
@@ -0,0 +1,144 @@
+/**
+ * Tests for scanning a DTXMania Songs folder into the library table
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LibraryScanner, findSongFolders, normalizeForMatch, readSongFolder } from '..';
+import { ChartDatabase } from '../../database/database';
+import { LibraryNotFoundError } from '../../errors';
+import { IChart } from '../../models';
+
+function createChart(id: string, title: string, artist: string): IChart {
+  return {
+    id,
+    title,
+    artist,
+    bpm: '150',
+    difficulties: [5],
+    source: 'approved-dtx',
+    originalPageUrl: `http://approvedtx.blogspot.com/${id}`,
+    tags: [],
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z')
+  };
+}
+
+function writeFiles(dir: string, files: Record<string, string>): void {
+  for (const [name, content] of Object.entries(files)) {
+    const file = path.join(dir, name);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+  }
+}
+
+describe('LibraryScanner', () => {
+  let tempDir: string;
+  let songsDir: string;
+  let database: ChartDatabase;
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dtx-library-'));
+    songsDir = path.join(tempDir, 'Songs');
+    database = new ChartDatabase(path.join(tempDir, 'charts.db'));
+
+    await database.saveChart(createChart('chart-1', 'Ｆｉｒｓｔ Song!', 'Artist A'));
+    await database.saveChart(createChart('chart-2', 'Second', 'Artist B'));
+    await database.saveChart(createChart('chart-3', 'Not Installed', 'Artist C'));
+
+    writeFiles(songsDir, {
+      // Box folder holding a song folder with a set.def
+      'Box/box.def': '#TITLE Box\n',
+      'Box/First/set.def': '#TITLE First Song\n#L1LABEL BASIC\n#L1FILE bsc.dtx\n#L4LABEL MASTER\n#L4FILE mas.dtx\n',
+      'Box/First/bsc.dtx': '#TITLE: First Song\n#ARTIST: artist a\n#DLEVEL: 30\n',
+      'Box/First/mas.dtx': '#TITLE: First Song\n#ARTIST: artist a\n#DLEVEL: 80\n',
+      'Box/First/unused.dtx': '#TITLE: Something else\n',
+      // Song folder without a set.def
+      'Second/second.dtx': '#TITLE: Second\n#ARTIST: Artist B\n#DLEVEL: 50\n',
+      // Song that is not in the database
+      'Other/other.dtx': '#TITLE: Other\n#ARTIST: Someone\n'
+    });
+  });
+
+  afterEach(async () => {
+    await database.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('finds song folders below box folders', () => {
+    expect(findSongFolders(songsDir)).toEqual([
+      path.join(songsDir, 'Box', 'First'),
+      path.join(songsDir, 'Other'),
+      path.join(songsDir, 'Second')
+    ]);
+  });
+
+  it('reads the charts listed in set.def', () => {
+    const folder = readSongFolder(path.join(songsDir, 'Box', 'First'));
+
+    expect(folder).toMatchObject({ title: 'First Song', artist: 'artist a' });
+    expect(folder!.files.map(file => path.basename(file))).toEqual(['bsc.dtx', 'mas.dtx']);
+  });
+
+  it('matches song folders to charts by title and artist', async () => {
+    const result = await new LibraryScanner(database).scan(songsDir);
+
+    expect(result.entries.map(entry => [path.basename(entry.path), entry.chartId, entry.matchedBy])).toEqual([
+      ['First', 'chart-1', 'title-artist'],
+      ['Other', undefined, undefined],
+      ['Second', 'chart-2', 'title-artist']
+    ]);
+    expect(result.matched).toBe(2);
+    expect(result.removed).toBe(0);
+  });
+
+  it('filters owned charts in queries', async () => {
+    await new LibraryScanner(database).scan(songsDir);
+
+    expect((await database.queryCharts({ owned: false })).map(chart => chart.id)).toEqual(['chart-3']);
+    expect((await database.queryCharts({ owned: true })).map(chart => chart.id).sort()).toEqual(['chart-1', 'chart-2']);
+    expect(await database.getOwnedChartIds()).toEqual(new Set(['chart-1', 'chart-2']));
+  });
+
+  it('keeps a match by content hash when a folder is renamed and retitled', async () => {
+    const scanner = new LibraryScanner(database);
+    await scanner.scan(songsDir);
+
+    // Renaming the folder and its set.def title keeps the chart files unchanged
+    fs.renameSync(path.join(songsDir, 'Box', 'First'), path.join(songsDir, 'Renamed'));
+    fs.writeFileSync(path.join(songsDir, 'Renamed', 'set.def'), '#TITLE Renamed\n#L1FILE bsc.dtx\n#L4FILE mas.dtx\n');
+
+    const result = await scanner.scan(songsDir);
+    const renamed = result.entries.find(entry => path.basename(entry.path) === 'Renamed');
+
+    expect(renamed).toMatchObject({ chartId: 'chart-1', matchedBy: 'hash', title: 'Renamed' });
+    expect(result.removed).toBe(1);
+    expect((await database.getLibraryEntries()).map(entry => path.basename(entry.path))).toEqual(['Other', 'Renamed', 'Second']);
+  });
+
+  it('only replaces entries under the scanned folder', async () => {
+    const otherLibrary = path.join(tempDir, 'Other Songs');
+    writeFiles(otherLibrary, { 'Third/third.dtx': '#TITLE: Not Installed\n#ARTIST: Artist C\n' });
+
+    const scanner = new LibraryScanner(database);
+    await scanner.scan(songsDir);
+    await scanner.scan(otherLibrary);
+
+    expect(await database.getLibraryEntries()).toHaveLength(4);
+    expect(await database.getLibraryEntries(otherLibrary)).toEqual([
+      expect.objectContaining({ path: path.join(otherLibrary, 'Third'), chartId: 'chart-3' })
+    ]);
+  });
+
+  it('rejects folders that do not exist', async () => {
+    await expect(new LibraryScanner(database).scan(path.join(tempDir, 'missing'))).rejects.toThrow(LibraryNotFoundError);
+  });
+});
+
+describe('normalizeForMatch', () => {
+  it('ignores width, case, spacing and punctuation', () => {
+    expect(normalizeForMatch('Ｆｉｒｓｔ Song!')).toBe(normalizeForMatch('first song'));
+    expect(normalizeForMatch('Poppin\'Party')).toBe('poppinparty');
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Library scanner for DTXMania Songs folders
+ *
+ * Walks a Songs tree, reads each song folder's set.def and chart files and
+ * matches the folder to a chart record, first by the content hash recorded
+ * for it by an earlier scan, then by title and artist. The results are
+ * stored in the library table so queries can tell owned charts apart.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseSetDefFile, readChartMetadata } from '../dtx';
+import { LibraryNotFoundError } from '../errors';
+import { IChartRepository, ILibraryStore } from '../interfaces';
+import { IChart, ILibraryEntry, ILibraryScanResult } from '../models';
+
+export interface LibrarySongFolder {
+  path: string;
+  title?: string;
+  artist?: string;
+
+  /** Chart files of the song, absolute */
+  files: string[];
+
+  /** SHA-1 over the chart files' contents */
+  contentHash: string;
+}
+
+const SET_DEF = 'set.def';
+const CHART_FILE_EXTENSIONS = ['.dtx', '.gda'];
+
+export class LibraryScanner {
+  constructor(private readonly database: IChartRepository & ILibraryStore) {}
+
+  /**
+   * Scan a Songs folder and record every song folder found under it
+   */
+  async scan(root: string): Promise<ILibraryScanResult> {
+    const resolvedRoot = path.resolve(root);
+    if (!fs.existsSync(resolvedRoot) || !fs.statSync(resolvedRoot).isDirectory()) {
+      throw new LibraryNotFoundError(root);
+    }
+
+    console.log(`📂 Scanning library: ${resolvedRoot}`);
+    const folders = findSongFolders(resolvedRoot)
+      .map(folder => readSongFolder(folder))
+      .filter((folder): folder is LibrarySongFolder => folder !== null);
+
+    const matcher = await this.createMatcher();
+    const scannedAt = new Date();
+    const entries: ILibraryEntry[] = folders.map(folder => {
+      const match = matcher(folder);
+      return {
+        path: folder.path,
+        ...(match ? { chartId: match.chartId, matchedBy: match.matchedBy } : {}),
+        ...(folder.title ? { title: folder.title } : {}),
+        ...(folder.artist ? { artist: folder.artist } : {}),
+        contentHash: folder.contentHash,
+        scannedAt
+      };
+    });
+
+    const removed = await this.database.replaceLibraryEntries(resolvedRoot, entries);
+    const matched = entries.filter(entry => entry.chartId).length;
+    console.log(`✅ Found ${entries.length} song folders, ${matched} matched to charts`);
+
+    return { root: resolvedRoot, entries, matched, removed };
+  }
+
+  /**
+   * Build a lookup from song folders to chart records
+   */
+  private async createMatcher(): Promise<(folder: LibrarySongFolder) => { chartId: string; matchedBy: 'hash' | 'title-artist' } | null> {
+    const charts = await this.database.findByFilters({});
+    const chartIds = new Set(charts.map(chart => chart.id));
+
+    const byHash = new Map<string, string>();
+    for (const entry of await this.database.getLibraryEntries()) {
+      if (entry.chartId && chartIds.has(entry.chartId)) {
+        byHash.set(entry.contentHash, entry.chartId);
+      }
+    }
+
+    const byTitleArtist = new Map<string, IChart>();
+    const byTitle = new Map<string, IChart[]>();
+    for (const chart of charts) {
+      const title = normalizeForMatch(chart.title);
+      const key = `${title}\u0000${normalizeForMatch(chart.artist)}`;
+      if (!byTitleArtist.has(key)) {
+        byTitleArtist.set(key, chart);
+      }
+      byTitle.set(title, [...(byTitle.get(title) || []), chart]);
+    }
+
+    return (folder) => {
+      const hashMatch = byHash.get(folder.contentHash);
+      if (hashMatch) {
+        return { chartId: hashMatch, matchedBy: 'hash' };
+      }
+
+      if (!folder.title) {
+        return null;
+      }
+      const title = normalizeForMatch(folder.title);
+      const chart = folder.artist
+        ? byTitleArtist.get(`${title}\u0000${normalizeForMatch(folder.artist)}`)
+        : byTitle.get(title)?.length === 1 ? byTitle.get(title)![0] : undefined;
+
+      return chart ? { chartId: chart.id, matchedBy: 'title-artist' } : null;
+    };
+  }
+}
+
+/**
+ * Find the song folders under root: folders holding a set.def or chart
+ * files. Box folders and other folders without charts are searched further.
+ */
+export function findSongFolders(root: string): string[] {
+  const found: string[] = [];
+
+  const visit = (folder: string) => {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(folder, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    const isSongFolder = entries.some(entry => entry.isFile() &&
+      (entry.name.toLowerCase() === SET_DEF || CHART_FILE_EXTENSIONS.includes(path.extname(entry.name).toLowerCase())));
+    if (isSongFolder) {
+      found.push(folder);
+      return;
+    }
+
+    // Symbolic links are not followed so link loops can't trap the scan
+    entries
+      .filter(entry => entry.isDirectory())
+      .map(entry => entry.name)
+      .sort()
+      .forEach(name => visit(path.join(folder, name)));
+  };
+
+  visit(root);
+  return found;
+}
+
+/**
+ * Read a song folder's title, artist and chart files, or null when none of
+ * its chart files exist
+ */
+export function readSongFolder(folder: string): LibrarySongFolder | null {
+  const names = fs.readdirSync(folder, { withFileTypes: true })
+    .filter(entry => entry.isFile())
+    .map(entry => entry.name);
+  const setDef = names.find(name => name.toLowerCase() === SET_DEF);
+
+  let setDefTitle: string | undefined;
+  let files: string[] = [];
+  if (setDef) {
+    try {
+      const songs = parseSetDefFile(path.join(folder, setDef));
+      setDefTitle = songs.find(song => song.title)?.title;
+      files = songs
+        .flatMap(song => song.levels.map(level => path.join(folder, ...level.file.split(/[\\/]/))))
+        .filter(file => fs.existsSync(file));
+    } catch (error) {
+      console.warn(`⚠️  Could not read ${path.join(folder, setDef)}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  if (files.length === 0) {
+    files = names
+      .filter(name => CHART_FILE_EXTENSIONS.includes(path.extname(name).toLowerCase()))
+      .map(name => path.join(folder, name));
+  }
+
+  files = [...new Set(files)].sort();
+  if (files.length === 0) {
+    return null;
+  }
+
+  const metadata = readChartMetadata(files);
+  const title = setDefTitle || metadata?.title;
+  const artist = metadata?.artist;
+
+  return {
+    path: folder,
+    ...(title ? { title } : {}),
+    ...(artist ? { artist } : {}),
+    files,
+    contentHash: hashChartFiles(files)
+  };
+}
+
+/**
+ * Hash the chart files independently of their names, so renamed files and
+ * moved folders keep their hash
+ */
+export function hashChartFiles(files: string[]): string {
+  const digests = files
+    .map(file => crypto.createHash('sha1').update(fs.readFileSync(file)).digest('hex'))
+    .sort();
+
+  return crypto.createHash('sha1').update(digests.join('\n')).digest('hex');
+}
+
+/**
+ * Reduce a title or artist to a form that ignores width, case, spacing and punctuation
+ */
+export function normalizeForMatch(text: string): string {
+  return text.normalize('NFKC').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+}
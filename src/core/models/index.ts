@@ -14,9 +14,12 @@ export interface IChart {
   /** BPM information (can include ranges like "120-140") */
   bpm: string;
   
-  /** Array of difficulty ratings */
+  /** Array of difficulty ratings (drum levels when the post rates several instruments) */
   difficulties: number[];
   
+  /** Difficulty ratings by instrument and level */
+  instrumentDifficulties?: IChartDifficulty[];
+  
   /** Source identifier (e.g., "approved-dtx") */
   source: string;
   
@@ -37,6 +40,274 @@ export interface IChart {
   
   /** Original page URL where this chart was found (always required for re-scraping) */
   originalPageUrl: string;
+  
+  /** Versions of the chart when the post lists more than one, in post order */
+  variants?: IChartVariant[];
+
+  /** The post's values of fields corrected from the downloaded chart files */
+  scrapedValues?: ChartScrapedValues;
+}
+
+/**
+ * Chart fields the downloaded chart files can correct
+ */
+export type ChartMetadataField = 'title' | 'artist' | 'bpm' | 'difficulties';
+
+/**
+ * Values a post gave for chart fields the chart files corrected
+ */
+export type ChartScrapedValues = Partial<Pick<IChart, ChartMetadataField>>;
+
+/**
+ * Instruments a DTX chart can be played on
+ */
+export type ChartInstrument = 'DRUMS' | 'GUITAR' | 'BASS';
+
+/**
+ * Difficulty levels of a DTX chart, easiest first
+ */
+export type ChartLevel = 'BASIC' | 'ADVANCED' | 'EXTREME' | 'MASTER';
+
+/**
+ * Difficulty rating of one instrument at one level
+ */
+export interface IChartDifficulty {
+  instrument: ChartInstrument;
+  
+  level: ChartLevel;
+  
+  /** Rating on the 0.00–10.00 scale */
+  value: number;
+}
+
+/**
+ * One version of a chart from a post listing several (e.g. short and full version)
+ */
+export interface IChartVariant {
+  /** Label from the post (e.g. "Full Version"), or "Version N" when the post gives none */
+  label: string;
+  
+  /** BPM information, as for the chart */
+  bpm: string;
+  
+  /** Difficulty ratings of this version */
+  difficulties: number[];
+  
+  /** Download link of this version, when the post gives it its own */
+  downloadUrl?: string;
+}
+
+/**
+ * Statistics for one difficulty of a chart, computed from its DTX channel data
+ */
+export interface IChartDifficultyStats {
+  /** Chart file the statistics come from (e.g. "mas.dtx") */
+  file: string;
+  
+  /** Drum level on the 0.00–10.00 scale, when the file declares one */
+  level?: number;
+  
+  /** Drum notes per lane (HH, SD, BD, HT, LT, FT, CY, HHO, RD, LC, LP, LBD) */
+  laneCounts: Record<string, number>;
+  
+  /** Total drum notes */
+  totalNotes: number;
+  
+  /** Time from the start of the chart to its last chip, in seconds */
+  durationSeconds: number;
+  
+  /** Most drum notes in any one-second window */
+  peakNps: number;
+  
+  /** Drum notes per second over the whole chart */
+  averageNps: number;
+  
+  /** Tempo at the start and at every change, in seconds from the start */
+  bpmChanges: Array<{ time: number; bpm: number }>;
+  
+  /** Whether the chart uses the left bass drum pedal */
+  hasDoublePedal: boolean;
+}
+
+/**
+ * A finished chart download, kept as download history
+ */
+export interface IDownloadRecord {
+  /** Record ID */
+  id: number;
+  
+  /** Chart that was downloaded */
+  chartId: string;
+  
+  /** Download directory */
+  destination: string;
+  
+  /** Archive or folder written by the download (archives are removed after extraction) */
+  filePath?: string;
+  
+  /** Top-level files and folders written by extraction */
+  extractedPaths: string[];
+  
+  /** SHA-256 of the downloaded archive */
+  archiveHash?: string;
+  
+  /** Bytes downloaded */
+  sizeBytes: number;
+  
+  /** Download provider that fetched the chart */
+  provider?: string;
+  
+  /** Label of the chart variant that was downloaded */
+  variant?: string;
+  
+  /** When the download finished */
+  downloadedAt: Date;
+}
+
+/**
+ * Chart fields compared when a scrape finds a chart again
+ */
+export type ChartRevisionField = 'title' | 'downloadUrl' | 'difficulties';
+
+/**
+ * The compared chart fields at one point in time
+ */
+export type ChartRevisionSnapshot = Pick<IChart, ChartRevisionField>;
+
+/**
+ * A change to a chart's upstream post, found by a scrape
+ */
+export interface IChartRevision {
+  /** Revision ID */
+  id: number;
+
+  /** Chart that changed */
+  chartId: string;
+
+  /** Fields that differ between the stored and the scraped chart */
+  changes: ChartRevisionField[];
+
+  /** Stored chart before the scrape */
+  previous: ChartRevisionSnapshot;
+
+  /** Chart as scraped */
+  current: ChartRevisionSnapshot;
+
+  /** When the scrape found the change */
+  detectedAt: Date;
+}
+
+/**
+ * An installed chart whose upstream post changed since it was installed
+ */
+export interface IChartUpdate {
+  /** Chart record, as last scraped */
+  chart: IChart;
+
+  /** Revisions found since the chart was installed, oldest first */
+  revisions: IChartRevision[];
+
+  /** Files and folders of the installed copy */
+  installedPaths: string[];
+
+  /** Directory the installed copy lives in */
+  destination: string;
+
+  /** When the installed copy was downloaded or found by a library scan */
+  installedAt: Date;
+}
+
+/**
+ * A song folder found by a library scan
+ */
+export interface ILibraryEntry {
+  /** Absolute path of the song folder */
+  path: string;
+  
+  /** Chart record the folder was matched to */
+  chartId?: string;
+  
+  /** Title from set.def or the chart files */
+  title?: string;
+  
+  /** Artist from the chart files */
+  artist?: string;
+  
+  /** SHA-1 over the folder's chart files */
+  contentHash: string;
+  
+  /** How the folder was matched to its chart record */
+  matchedBy?: 'hash' | 'title-artist';
+  
+  /** When the folder was last scanned */
+  scannedAt: Date;
+}
+
+/**
+ * Outcome of scanning a DTXMania Songs folder
+ */
+export interface ILibraryScanResult {
+  /** Folder that was scanned */
+  root: string;
+  
+  /** Every song folder found */
+  entries: ILibraryEntry[];
+  
+  /** Song folders matched to a chart record */
+  matched: number;
+  
+  /** Previously scanned folders under the root that are gone */
+  removed: number;
+}
+
+/**
+ * A source page recorded by a scrape
+ */
+export interface IScrapedPage {
+  url: string;
+  
+  /** Page number within the source, when known */
+  pageNumber: number | null;
+  
+  scrapedAt: Date;
+  
+  /** Charts found on the page */
+  chartsFound: number;
+  
+  /** 'completed', 'failed' or 'partial' */
+  status: string;
+}
+
+/**
+ * Totals over the recorded pages of a source
+ */
+export interface IScrapingStats {
+  totalPages: number;
+  completedPages: number;
+  failedPages: number;
+  totalCharts: number;
+  lastScrapedAt: Date | null;
+}
+
+/**
+ * A chart that differs between the databases where the local copy was kept
+ * because it is at least as recent as the other one
+ */
+export interface ChartMergeConflict {
+  chartId: string;
+  localUpdatedAt: Date;
+  otherUpdatedAt: Date;
+}
+
+export interface DatabaseMergeReport {
+  /** Charts only in the other database */
+  added: string[];
+  /** Charts replaced by a more recently updated copy from the other database */
+  updated: string[];
+  conflicts: ChartMergeConflict[];
+  /** Charts that are the same in both databases */
+  unchanged: number;
+  scrapedPages: { added: number; updated: number };
 }
 
 /**
@@ -74,12 +345,17 @@ export interface IChartFilters {
  */
 type FilterableChartFields = Pick<IChart, 'title' | 'artist' | 'source' | 'bpm' | 'tags'>;
 
+/**
+ * Chart fields charts can be sorted by
+ */
+export type ChartSortField = keyof Pick<IChart, 'title' | 'artist' | 'bpm' | 'createdAt' | 'updatedAt'>;
+
 /**
  * Chart query options derived from IChart using type manipulation
  * This ensures the query interface stays in sync with the chart model
  */
 export interface ChartQueryOptions extends Partial<FilterableChartFields> {
-  /** General search query across multiple fields */
+  /** Full-text search over title, artist, tags and romaji, ranked by relevance unless sortBy is given */
   query?: string;
   
   /** Partial title match */
@@ -91,17 +367,41 @@ export interface ChartQueryOptions extends Partial<FilterableChartFields> {
   /** Maximum BPM */
   maxBpm?: number;
   
-  /** Minimum difficulty */
+  /** Minimum rating of at least one difficulty (narrowed by instrument and level) */
   minDifficulty?: number;
   
-  /** Maximum difficulty */
+  /** Maximum rating of at least one difficulty (narrowed by instrument and level) */
   maxDifficulty?: number;
   
+  /** Only charts rated for this instrument; difficulty filters apply to it */
+  instrument?: ChartInstrument;
+  
+  /** Only charts rated at this level; difficulty filters apply to it */
+  level?: ChartLevel;
+  
   /** Multiple sources filter */
   sources?: string[];
   
+  /** Minimum peak notes per second of at least one difficulty */
+  minPeakNps?: number;
+  
+  /** Maximum peak notes per second of at least one difficulty */
+  maxPeakNps?: number;
+  
+  /** Minimum note count of at least one difficulty */
+  minNotes?: number;
+  
+  /** Maximum note count of at least one difficulty */
+  maxNotes?: number;
+  
+  /** Only charts with (true) or without (false) a double-pedal difficulty */
+  hasDoublePedal?: boolean;
+  
+  /** Only charts a library scan found installed (true) or not found (false) */
+  owned?: boolean;
+  
   /** Sort field - derived from IChart keys */
-  sortBy?: keyof Pick<IChart, 'title' | 'artist' | 'bpm' | 'createdAt' | 'updatedAt'>;
+  sortBy?: ChartSortField;
   
   /** Sort order (database uses uppercase) */
   sortOrder?: 'ASC' | 'DESC';
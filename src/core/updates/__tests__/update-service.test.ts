@@ -0,0 +1,184 @@
+/**
+ * Tests for detecting revised charts and replacing their installed copies
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ChartUpdateService, diffChartRevision, toRevisionSnapshot } from '..';
+import { ChartDatabase } from '../../database/database';
+import { DownloadHistory } from '../../download/download-history';
+import { ChartDownloader } from '../../download/downloader';
+import { DownloadProviderRegistry } from '../../download/providers';
+import { IDownloadProvider } from '../../interfaces';
+import { IChart } from '../../models';
+
+function createChart(overrides: Partial<IChart> = {}): IChart {
+  return {
+    id: 'chart-1',
+    title: 'Song',
+    artist: 'Artist',
+    bpm: '150',
+    difficulties: [3.2, 5.5],
+    source: 'approved-dtx',
+    downloadUrl: 'https://drive.google.com/drive/folders/v1',
+    originalPageUrl: 'http://approvedtx.blogspot.com/',
+    tags: [],
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z'),
+    ...overrides
+  };
+}
+
+describe('diffChartRevision', () => {
+  it('reports changed titles, download URLs and difficulties', () => {
+    expect(diffChartRevision(createChart(), createChart())).toEqual([]);
+    expect(diffChartRevision(createChart(), createChart({
+      title: 'Song (Full Version)',
+      downloadUrl: 'https://drive.google.com/drive/folders/v2',
+      difficulties: [3.2, 5.5, 7.1]
+    }))).toEqual(['title', 'downloadUrl', 'difficulties']);
+  });
+
+  it('ignores a download link missing from the scrape', () => {
+    const { downloadUrl: _downloadUrl, ...withoutUrl } = createChart();
+    expect(diffChartRevision(createChart(), withoutUrl)).toEqual([]);
+  });
+});
+
+describe('ChartUpdateService', () => {
+  let tempDir: string;
+  let downloadDir: string;
+  let database: ChartDatabase;
+  let providers: DownloadProviderRegistry;
+  let failDownloads: boolean;
+
+  // Folder downloads write a chart file naming the URL's version
+  const provider: IDownloadProvider = {
+    name: 'Fixture',
+    supportedDomains: ['drive.google.com'],
+    canHandle: () => true,
+    isFolderUrl: () => true,
+    download: async () => undefined,
+    downloadFolder: async (url, directory) => {
+      if (failDownloads) {
+        throw new Error('HTTP 404: Not Found');
+      }
+      fs.mkdirSync(directory, { recursive: true });
+      fs.writeFileSync(path.join(directory, 'song.dtx'), `#TITLE: Song\n#COMMENT: ${url.split('/').pop()}\n`);
+      return [path.join(directory, 'song.dtx')];
+    },
+    validateUrl: async () => true
+  };
+
+  const revise = async (detectedAt: Date) => {
+    const previous = await database.getChart('chart-1');
+    const current = createChart({ title: 'Song', downloadUrl: 'https://drive.google.com/drive/folders/v2' });
+    await database.saveChartRevision({
+      chartId: 'chart-1',
+      changes: diffChartRevision(previous!, current),
+      previous: toRevisionSnapshot(previous!),
+      current: toRevisionSnapshot(current),
+      detectedAt
+    });
+    await database.saveChart(current);
+  };
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dtx-updates-'));
+    downloadDir = path.join(tempDir, 'downloads');
+    database = new ChartDatabase(path.join(tempDir, 'charts.db'));
+    providers = new DownloadProviderRegistry([provider]);
+    failDownloads = false;
+
+    await database.saveChart(createChart());
+    await new ChartDownloader(providers, undefined, new DownloadHistory(database)).downloadChart(createChart(), {
+      downloadDir,
+      chartIds: [],
+      maxConcurrency: 1,
+      overwrite: false,
+      timeout: 5000
+    });
+  });
+
+  afterEach(async () => {
+    await database.close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const installedFile = () => path.join(downloadDir, 'Song - Artist', 'song.dtx');
+
+  it('flags installed charts revised after they were downloaded', async () => {
+    await revise(new Date(Date.now() + 1000));
+
+    const updates = await new ChartUpdateService(database, providers).findUpdates();
+
+    expect(updates).toHaveLength(1);
+    expect(updates[0]).toMatchObject({
+      chart: { id: 'chart-1', downloadUrl: 'https://drive.google.com/drive/folders/v2' },
+      installedPaths: [path.join(downloadDir, 'Song - Artist')],
+      destination: downloadDir
+    });
+    expect(updates[0].revisions.map(revision => revision.changes)).toEqual([['downloadUrl']]);
+  });
+
+  it('ignores revisions older than the installed copy and charts not installed', async () => {
+    await revise(new Date(Date.now() - 60000));
+    expect(await new ChartUpdateService(database, providers).findUpdates()).toEqual([]);
+
+    await revise(new Date(Date.now() + 1000));
+    fs.rmSync(path.join(downloadDir, 'Song - Artist'), { recursive: true });
+    expect(await new ChartUpdateService(database, providers).findUpdates()).toEqual([]);
+  });
+
+  it('replaces the installed folder and clears the update', async () => {
+    await revise(new Date(Date.now() + 1000));
+    const updater = new ChartUpdateService(database, providers);
+    const [update] = await updater.findUpdates();
+
+    const result = await updater.applyUpdate(update);
+
+    expect(result.success).toBe(true);
+    expect(fs.readFileSync(installedFile(), 'utf8')).toContain('#COMMENT: v2');
+    expect(fs.readdirSync(downloadDir)).toEqual(['Song - Artist']);
+    expect(await database.getDownloadHistory({ chartId: 'chart-1' })).toHaveLength(2);
+
+    // The replacement is newer than the revision once the revision's time has passed
+    await database.saveDownloadRecord({
+      ...(await database.getDownloadHistory({ chartId: 'chart-1' }))[0],
+      downloadedAt: new Date(Date.now() + 2000)
+    });
+    expect(await updater.findUpdates()).toEqual([]);
+  });
+
+  it('keeps the installed folder when the download fails', async () => {
+    await revise(new Date(Date.now() + 1000));
+    const updater = new ChartUpdateService(database, providers);
+    const [update] = await updater.findUpdates();
+    failDownloads = true;
+
+    const result = await updater.applyUpdate(update);
+
+    expect(result.success).toBe(false);
+    expect(fs.readFileSync(installedFile(), 'utf8')).toContain('#COMMENT: v1');
+    expect(fs.readdirSync(downloadDir)).toEqual(['Song - Artist']);
+  });
+
+  it('treats library folders as installed copies', async () => {
+    fs.rmSync(downloadDir, { recursive: true });
+    const songs = path.join(tempDir, 'Songs', 'Song');
+    fs.mkdirSync(songs, { recursive: true });
+    fs.writeFileSync(path.join(songs, 'song.dtx'), '#TITLE: Song\n#ARTIST: Artist\n');
+    await database.replaceLibraryEntries(path.join(tempDir, 'Songs'), [{
+      path: songs,
+      chartId: 'chart-1',
+      contentHash: 'hash',
+      scannedAt: new Date()
+    }]);
+    await revise(new Date(Date.now() + 1000));
+
+    const [update] = await new ChartUpdateService(database, providers).findUpdates();
+
+    expect(update).toMatchObject({ installedPaths: [songs], destination: path.join(tempDir, 'Songs') });
+  });
+});
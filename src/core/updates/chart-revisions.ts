@@ -0,0 +1,80 @@
+/**
+ * Revision detection for re-scraped charts
+ *
+ * ApprovedDTX reposts charts as "revised" or "full version" under the same
+ * chart number. Comparing a freshly scraped chart with the stored record
+ * tells those reposts apart from plain re-scrapes. Charts corrected from
+ * their DTX files are compared by the values their post gave.
+ */
+
+import { ChartMetadataField, ChartRevisionField, ChartRevisionSnapshot, ChartScrapedValues, IChart } from '../models';
+
+/**
+ * Fields of the stored chart, as last scraped, that differ in the scraped
+ * chart. A scrape that finds no download link is not treated as a revision.
+ */
+export function diffChartRevision(stored: IChart, scraped: IChart): ChartRevisionField[] {
+  const previous = toScrapedChart(stored);
+  const changes: ChartRevisionField[] = [];
+
+  if (previous.title.trim() !== scraped.title.trim()) {
+    changes.push('title');
+  }
+  if (scraped.downloadUrl && scraped.downloadUrl !== previous.downloadUrl) {
+    changes.push('downloadUrl');
+  }
+  if (JSON.stringify(previous.difficulties) !== JSON.stringify(scraped.difficulties)) {
+    changes.push('difficulties');
+  }
+
+  return changes;
+}
+
+/**
+ * The compared fields of a chart, as last scraped
+ */
+export function toRevisionSnapshot(chart: IChart): ChartRevisionSnapshot {
+  const scraped = toScrapedChart(chart);
+  return {
+    title: scraped.title,
+    ...(scraped.downloadUrl ? { downloadUrl: scraped.downloadUrl } : {}),
+    difficulties: scraped.difficulties
+  };
+}
+
+/**
+ * A stored chart with its post's values in place of the values corrected
+ * from the chart files
+ */
+export function toScrapedChart(chart: IChart): IChart {
+  const { scrapedValues, ...fields } = chart;
+  return { ...fields, ...scrapedValues };
+}
+
+/**
+ * The record to save for a re-scraped chart. Fields corrected from the
+ * chart files keep their corrected values, with the new post's values as
+ * their scraped values.
+ */
+export function mergeRescrapedChart(stored: IChart, scraped: IChart): IChart {
+  if (!stored.scrapedValues) {
+    return scraped;
+  }
+
+  const corrected = Object.keys(stored.scrapedValues) as ChartMetadataField[];
+  const merged: IChart = { ...scraped, ...pickFields(stored, corrected), scrapedValues: pickFields(scraped, corrected) };
+
+  if (corrected.includes('difficulties') && stored.instrumentDifficulties && scraped.instrumentDifficulties) {
+    // The files rate the drums; other instruments follow the post
+    merged.instrumentDifficulties = [
+      ...stored.instrumentDifficulties.filter(difficulty => difficulty.instrument === 'DRUMS'),
+      ...scraped.instrumentDifficulties.filter(difficulty => difficulty.instrument !== 'DRUMS')
+    ];
+  }
+
+  return merged;
+}
+
+function pickFields(chart: IChart, fields: ChartMetadataField[]): ChartScrapedValues {
+  return Object.fromEntries(fields.map(field => [field, chart[field]]));
+}
@@ -0,0 +1,2 @@
+export * from './chart-revisions';
+export * from './update-service';
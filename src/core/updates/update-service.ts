@@ -0,0 +1,174 @@
+/**
+ * Update detection and replacement for installed charts
+ *
+ * A chart counts as installed when the download history has a copy still on
+ * disk or a library scan matched a song folder to it. It has an update when a
+ * scrape recorded a revision after it was installed.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { DownloadHistory } from '../download/download-history';
+import { ChartDownloader, DownloadOptions, DownloadResult } from '../download/downloader';
+import { DownloadProviderRegistry } from '../download/providers';
+import { IChartRepository, IDownloadHistory, IDownloadRecordStore, ILibraryStore } from '../interfaces';
+import { IChartRevision, IChartUpdate, ILibraryEntry } from '../models';
+
+interface Installation {
+  paths: string[];
+  destination: string;
+  installedAt: Date;
+}
+
+/**
+ * Storage the update service needs: charts and their revisions, download records and the library
+ */
+export type UpdateRepository = IChartRepository & IDownloadRecordStore & ILibraryStore;
+
+const REPLACED_SUFFIX = '.replaced';
+
+export class ChartUpdateService {
+  private readonly database: UpdateRepository;
+  private readonly history: IDownloadHistory;
+  private readonly downloader: ChartDownloader;
+
+  constructor(database: UpdateRepository, providers?: DownloadProviderRegistry) {
+    this.database = database;
+    this.history = new DownloadHistory(database);
+    // Replacements are recorded in the history, which clears the update
+    this.downloader = new ChartDownloader(providers, undefined, this.history);
+  }
+
+  /**
+   * Installed charts with revisions newer than their installed copy
+   */
+  async findUpdates(chartIds?: string[]): Promise<IChartUpdate[]> {
+    const revisionsByChart = new Map<string, IChartRevision[]>();
+    for (const revision of await this.database.getRevisions()) {
+      if (!chartIds || chartIds.includes(revision.chartId)) {
+        revisionsByChart.set(revision.chartId, [...(revisionsByChart.get(revision.chartId) || []), revision]);
+      }
+    }
+
+    const library = await this.database.getLibraryEntries();
+    const updates: IChartUpdate[] = [];
+    for (const [chartId, revisions] of revisionsByChart) {
+      const installation = await this.findInstallation(chartId, library);
+      if (!installation) continue;
+
+      // Revisions come newest first; updates list them oldest first
+      const newer = revisions.filter(revision => revision.detectedAt > installation.installedAt).reverse();
+      if (newer.length === 0) continue;
+
+      const chart = await this.database.findById(chartId);
+      if (!chart) continue;
+
+      updates.push({
+        chart,
+        revisions: newer,
+        installedPaths: installation.paths,
+        destination: installation.destination,
+        installedAt: installation.installedAt
+      });
+    }
+
+    return updates.sort((a, b) => a.chart.title.localeCompare(b.chart.title));
+  }
+
+  /**
+   * IDs of the installed charts that have an update
+   */
+  async getUpdatableChartIds(): Promise<Set<string>> {
+    return new Set((await this.findUpdates()).map(update => update.chart.id));
+  }
+
+  /**
+   * Download the chart again and replace its installed copy. The installed
+   * files are moved aside first and only removed once the download succeeded.
+   */
+  async applyUpdate(update: IChartUpdate, options: Partial<Pick<DownloadOptions, 'timeout' | 'onProgress' | 'signal'>> = {}): Promise<DownloadResult> {
+    const moved: Array<{ from: string; to: string }> = [];
+    for (const installedPath of update.installedPaths) {
+      if (fs.existsSync(installedPath)) {
+        const to = `${installedPath}${REPLACED_SUFFIX}-${Date.now()}`;
+        fs.renameSync(installedPath, to);
+        moved.push({ from: installedPath, to });
+      }
+    }
+
+    let result: DownloadResult;
+    try {
+      result = await this.downloader.downloadChart(update.chart, {
+        chartIds: [update.chart.id],
+        downloadDir: update.destination,
+        maxConcurrency: 1,
+        overwrite: false,
+        timeout: options.timeout ?? 30000,
+        redownload: true,
+        ...(options.onProgress ? { onProgress: options.onProgress } : {}),
+        ...(options.signal ? { signal: options.signal } : {})
+      });
+    } catch (error) {
+      result = {
+        chart: update.chart,
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+
+    if (!result.success) {
+      for (const { from, to } of moved) {
+        fs.rmSync(from, { recursive: true, force: true });
+        fs.renameSync(to, from);
+      }
+      console.log(`↩️  Kept the installed copy of "${update.chart.title}"`);
+      return result;
+    }
+
+    for (const { to } of moved) {
+      fs.rmSync(to, { recursive: true, force: true });
+    }
+
+    // Keep the chart record and its statistics in line with the new DTX files
+    try {
+      if (result.updatedChart) {
+        await this.database.save(result.updatedChart);
+      }
+      if (result.chartStats && result.chartStats.length > 0) {
+        await this.database.saveStats(update.chart.id, result.chartStats);
+      }
+    } catch (error) {
+      console.warn(`⚠️  Could not update chart ${update.chart.id}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    console.log(`🔄 Replaced "${update.chart.title}" in ${update.destination}`);
+    return result;
+  }
+
+  /**
+   * The newest installed copy of a chart, from the download history or the library
+   */
+  private async findInstallation(chartId: string, library: ILibraryEntry[]): Promise<Installation | null> {
+    const installations: Installation[] = [];
+
+    const record = await this.history.findInstalled(chartId);
+    if (record) {
+      installations.push({
+        paths: record.extractedPaths.length > 0 ? record.extractedPaths : [record.filePath!],
+        destination: record.destination,
+        installedAt: record.downloadedAt
+      });
+    }
+
+    const folders = library.filter(entry => entry.chartId === chartId && fs.existsSync(entry.path));
+    for (const folder of folders) {
+      installations.push({
+        paths: [folder.path],
+        destination: path.dirname(folder.path),
+        installedAt: folder.scannedAt
+      });
+    }
+
+    return installations.sort((a, b) => b.installedAt.getTime() - a.installedAt.getTime())[0] ?? null;
+  }
+}
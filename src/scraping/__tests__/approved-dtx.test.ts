@@ -5,6 +5,7 @@
 import * as cheerio from 'cheerio';
 import { ApprovedDtxStrategy } from '../strategies/approved-dtx';
 import testChartBareYourTeeth from './test-data/test-chart-bare-your-teeth';
+import testChartMultiVersion from './test-data/test-chart-multi-version';
 
 describe('ApprovedDtxStrategy', () => {
   let strategy: ApprovedDtxStrategy;
@@ -49,6 +50,65 @@ describe('ApprovedDtxStrategy', () => {
       }
     });
 
+    it('should not add variants to single-version posts', async () => {
+      const $ = cheerio.load(testChartBareYourTeeth.html);
+      const chart = await strategy.extractChartFromElement($('.post')[0]);
+      
+      expect(chart!.variants).toBeUndefined();
+    });
+
+    it('should extract every version of a multi-version post as a variant', async () => {
+      const $ = cheerio.load(testChartMultiVersion.html);
+      const chart = await strategy.extractChartFromElement($('.post')[0]);
+      
+      expect(chart).toMatchObject({
+        id: testChartMultiVersion.expected.id,
+        title: testChartMultiVersion.expected.title,
+        artist: testChartMultiVersion.expected.artist,
+        downloadUrl: testChartMultiVersion.expected.downloadUrl
+      });
+      expect(chart!.variants).toEqual(testChartMultiVersion.expected.variants);
+    });
+
+    it('should give each version its own download link when the post has one per version', async () => {
+      const $ = cheerio.load(`<div class="post"><h3>#920. Song</h3><div class="post-body">
+        <div>Song (Short ver.) / Artist</div><div>140BPM : 3.00/5.00 <a href="https://1drv.ms/u/s!short">DL</a></div>
+        <div>Song (Long ver.) / Artist</div><div>140BPM : 3.50/5.50 <a href="https://1drv.ms/u/s!long">DL</a></div>
+      </div></div>`);
+      const chart = await strategy.extractChartFromElement($('.post')[0]);
+      
+      expect(chart!.variants).toEqual([
+        { label: 'Short ver.', bpm: '140', difficulties: [3.0, 5.0], downloadUrl: 'https://1drv.ms/u/s!short' },
+        { label: 'Long ver.', bpm: '140', difficulties: [3.5, 5.5], downloadUrl: 'https://1drv.ms/u/s!long' }
+      ]);
+    });
+
+    it('should keep BPM ranges of songs with tempo changes', async () => {
+      const load = (bpm: string) => cheerio.load(`<div class="post"><h3>#921. Song</h3><div class="post-body">
+        <div>Song / Artist</div><div>${bpm} : 3.00/5.00 <a href="https://1drv.ms/u/s!song">DL</a></div>
+      </div></div>`)('.post')[0];
+      
+      expect((await strategy.extractChartFromElement(load('70-189BPM')))!.bpm).toBe('70-189');
+      expect((await strategy.extractChartFromElement(load('70 ~ 189 BPM')))!.bpm).toBe('70-189');
+      expect((await strategy.extractChartFromElement(load('70～189BPM')))!.artist).toBe('Artist');
+    });
+
+    it('should rate each instrument when the post gives a line per instrument', async () => {
+      const $ = cheerio.load(`<div class="post"><h3>#795. Model FT</h3><div class="post-body">
+        <div>Model FT / Ultimates</div><div>165BPM</div>
+        <div>Drums : 2.70/5.20/7.00/8.10</div>
+        <div>Guitar : 1.80/3.50/5.20/6.40</div>
+        <div>Bass : 1.60/3.20/4.90/6.00 <a href="https://1drv.ms/u/s!model">DL</a></div>
+      </div></div>`);
+      const chart = await strategy.extractChartFromElement($('.post')[0]);
+      
+      expect(chart).toMatchObject({ bpm: '165', difficulties: [2.7, 5.2, 7.0, 8.1] });
+      expect(chart!.variants).toBeUndefined();
+      expect(chart!.instrumentDifficulties).toHaveLength(12);
+      expect(chart!.instrumentDifficulties).toContainEqual({ instrument: 'GUITAR', level: 'MASTER', value: 6.4 });
+      expect(chart!.instrumentDifficulties).toContainEqual({ instrument: 'BASS', level: 'BASIC', value: 1.6 });
+    });
+
     it('should extract chart data from valid element', async () => {
       // Create a mock element that simulates ApprovedDTX HTML structure
       const mockElement = {
@@ -0,0 +1,165 @@
+/**
+ * Tests for saving scraped charts and recording upstream revisions
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IChart } from '../../core/models';
+import { IScrapingStrategy, Source } from '../interfaces';
+import { ScrapingService, createScrapingService } from '../scraping-service';
+import { ChartDatabase, InMemoryChartRepository } from '../../core/database';
+import { ChartDownloader } from '../../core/download/downloader';
+import { DownloadProviderRegistry } from '../../core/download/providers';
+
+function createChart(overrides: Partial<IChart> = {}): IChart {
+  return {
+    id: 'approved-dtx-15',
+    title: 'Reversi',
+    artist: 'Artist',
+    bpm: '150',
+    difficulties: [3.2, 5.5],
+    source: 'approved-dtx',
+    downloadUrl: 'https://drive.google.com/file/d/old/view',
+    originalPageUrl: 'http://approvedtx.blogspot.com/2022/02/015-reversi.html',
+    tags: [],
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z'),
+    ...overrides
+  };
+}
+
+describe('ScrapingService', () => {
+  let tempDir: string;
+  let service: ScrapingService<ChartDatabase>;
+  let scraped: IChart[];
+
+  const source: Source = {
+    name: 'fixture',
+    enabled: true,
+    baseUrl: 'http://approvedtx.blogspot.com/',
+    strategy: 'fixture',
+    rateLimit: 0,
+    settings: {}
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dtx-scraping-'));
+    service = createScrapingService(path.join(tempDir, 'charts.db'));
+
+    const strategy: IScrapingStrategy = {
+      name: 'fixture',
+      baseUrl: source.baseUrl,
+      canHandle: () => true,
+      scrapeCharts: async () => scraped,
+      extractChartFromElement: async () => null,
+      getNextPageUrl: async () => null
+    };
+    service.registerStrategy(strategy);
+  });
+
+  afterEach(async () => {
+    await service.getRepository().close();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('records a revision when a reposted chart changed', async () => {
+    scraped = [createChart()];
+    await service.scrapeSource(source);
+
+    scraped = [createChart({
+      title: 'Reversi (Full Version) [Revised]',
+      downloadUrl: 'https://drive.google.com/file/d/new/view'
+    })];
+    const result = await service.scrapeSource(source);
+
+    expect(result).toMatchObject({ chartsAdded: 0, chartsDuplicated: 1, chartsRevised: 1 });
+    const revisions = await service.getRepository().getRevisions({ chartId: 'approved-dtx-15' });
+    expect(revisions).toEqual([expect.objectContaining({
+      changes: ['title', 'downloadUrl'],
+      previous: { title: 'Reversi', downloadUrl: 'https://drive.google.com/file/d/old/view', difficulties: [3.2, 5.5] },
+      current: { title: 'Reversi (Full Version) [Revised]', downloadUrl: 'https://drive.google.com/file/d/new/view', difficulties: [3.2, 5.5] }
+    })]);
+    expect((await service.getRepository().findById('approved-dtx-15'))!.title).toBe('Reversi (Full Version) [Revised]');
+  });
+
+  it('records nothing for unchanged charts or incremental scrapes', async () => {
+    scraped = [createChart()];
+    await service.scrapeSource(source);
+    const unchanged = await service.scrapeSource(source);
+
+    scraped = [createChart({ difficulties: [3.2, 5.5, 7.8] })];
+    await service.scrapeSource(source, { skipExisting: true });
+
+    expect(unchanged.chartsRevised).toBeUndefined();
+    expect(await service.getRepository().getRevisions()).toEqual([]);
+  });
+
+  it('records nothing when a re-scraped chart was corrected from its DTX files', async () => {
+    const chartDir = path.join(tempDir, 'files');
+    fs.mkdirSync(chartDir);
+    fs.writeFileSync(path.join(chartDir, 'bsc.dtx'), '#TITLE: Reversi (Full)\n#ARTIST: Real Artist\n#BPM: 150\n#DLEVEL: 33\n');
+    fs.writeFileSync(path.join(chartDir, 'mas.dtx'), '#TITLE: Reversi (Full)\n#ARTIST: Real Artist\n#BPM: 150\n#DLEVEL: 78\n');
+    const downloader = new ChartDownloader(new DownloadProviderRegistry([{
+      name: 'Fixture',
+      supportedDomains: ['drive.google.com'],
+      canHandle: () => true,
+      isFolderUrl: () => true,
+      download: async () => undefined,
+      downloadFolder: async (_url, directory) => {
+        fs.cpSync(chartDir, directory, { recursive: true });
+        return fs.readdirSync(directory).map(name => path.join(directory, name));
+      },
+      validateUrl: async () => true
+    }]));
+
+    scraped = [createChart()];
+    await service.scrapeSource(source);
+    const repository = service.getRepository();
+    const result = await downloader.downloadChart((await repository.findById('approved-dtx-15'))!, {
+      downloadDir: path.join(tempDir, 'downloads'),
+      chartIds: [],
+      maxConcurrency: 1,
+      overwrite: false,
+      timeout: 5000
+    });
+    await repository.save(result.updatedChart!);
+
+    const rescraped = await service.scrapeSource(source);
+
+    expect(rescraped.chartsRevised).toBeUndefined();
+    expect(await repository.getRevisions()).toEqual([]);
+    expect(await repository.findById('approved-dtx-15')).toMatchObject({
+      title: 'Reversi (Full)',
+      artist: 'Real Artist',
+      difficulties: [3.3, 7.8],
+      scrapedValues: { title: 'Reversi', artist: 'Artist', difficulties: [3.2, 5.5] }
+    });
+  });
+
+  it('scrapes into an in-memory repository without touching disk', async () => {
+    const repository = new InMemoryChartRepository();
+    const memoryService = new ScrapingService(repository);
+    const setProgressStore = jest.fn();
+    memoryService.registerStrategy({
+      name: 'fixture',
+      baseUrl: source.baseUrl,
+      canHandle: () => true,
+      scrapeCharts: async () => scraped,
+      extractChartFromElement: async () => null,
+      getNextPageUrl: async () => null,
+      setProgressStore
+    });
+    expect(setProgressStore).toHaveBeenCalledWith(repository);
+
+    scraped = [createChart()];
+    await memoryService.scrapeSource(source);
+    scraped = [createChart({ title: 'Reversi [Revised]' })];
+    const result = await memoryService.scrapeSource(source);
+
+    expect(result).toMatchObject({ chartsDuplicated: 1, chartsRevised: 1 });
+    expect((await repository.findById('approved-dtx-15'))!.title).toBe('Reversi [Revised]');
+    expect((await repository.getRevisions()).map(revision => revision.changes)).toEqual([['title']]);
+    expect(memoryService.getRepository()).toBe(repository);
+  });
+});
@@ -5,6 +5,7 @@
 
 export { default as testChartBareYourTeeth } from './test-chart-bare-your-teeth';
 export * from './test-chart-colors';
+export { default as testChartMultiVersion } from './test-chart-multi-version';
 
 // You can add more test charts here as they're created
 // export { default as testChartExample } from './test-chart-example';
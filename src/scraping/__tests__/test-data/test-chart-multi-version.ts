@@ -0,0 +1,51 @@
+import { IChart } from "../../../core";
+
+// Post listing two versions of a song with one DL link on the second version (like #919)
+const testChartMultiVersion: {
+    html: string;
+    sourceURL: string;
+    expected: IChart;
+} = {
+    html:
+        `<div class="post-outer">
+<div class="post hentry uncustomized-post-template" itemprop="blogPost" itemscope="itemscope" itemtype="http://schema.org/BlogPosting">
+<a name="1234567890"></a>
+<h3 class="post-title entry-title" itemprop="name">
+<a href="https://approvedtx.blogspot.com/2023/01/919-example-song.html">#919. Example Song</a>
+</h3>
+<div class="post-body entry-content" id="post-body-1234567890" itemprop="description articleBody">
+<div class="separator" style="clear: both;"><a href="https://blogger.googleusercontent.com/img/a/example=s400"><img alt="" border="0" src="https://blogger.googleusercontent.com/img/a/example=s200" width="200"></a></div><br>
+<br><div><b><span>&nbsp;&nbsp; &nbsp;</span>Example Song /&nbsp;</b><b>Example Artist</b></div><div>
+<span>&nbsp;&nbsp; &nbsp;</span>150BPM : 2.10/4.00/5.50/6.80</div>
+<br><div><b><span>&nbsp;&nbsp; &nbsp;</span>Example Song (Full ver.) /&nbsp;</b><b>Example Artist</b></div><div>
+<span>&nbsp;&nbsp; &nbsp;</span>150-165BPM : 2.60/4.80/6.30/7.90 <a href="https://drive.google.com/file/d/1exampleFullVersion/view?usp=sharing">DL</a></div>
+<div style="clear: both;"></div>
+</div>
+</div>
+</div>`,
+
+    expected: {
+        id: 'approved-dtx-919',
+        title: 'Example Song',
+        artist: 'Example Artist',
+        bpm: '150',
+        difficulties: [2.1, 4.0, 5.5, 6.8],
+        source: 'approved-dtx',
+        downloadUrl: 'https://drive.google.com/file/d/1exampleFullVersion/view?usp=sharing',
+        originalPageUrl: 'https://approvedtx.blogspot.com/2023/01/919-example-song.html',
+        createdAt: new Date('2023-01-01T00:00:00Z'),
+        updatedAt: new Date('2023-01-01T00:00:00Z'),
+        tags: [],
+        variants: [
+            { label: 'Version 1', bpm: '150', difficulties: [2.1, 4.0, 5.5, 6.8] },
+            {
+                label: 'Full ver.',
+                bpm: '150-165',
+                difficulties: [2.6, 4.8, 6.3, 7.9],
+                downloadUrl: 'https://drive.google.com/file/d/1exampleFullVersion/view?usp=sharing'
+            }
+        ]
+    },
+    sourceURL: 'https://approvedtx.blogspot.com/2023/01/919-example-song.html'
+}
+export default testChartMultiVersion;
@@ -7,7 +7,7 @@ import { IScrapingStrategy, Source, ScrapingOptions, ScrapingProgress, ScrapingS
 import { IChart } from '../core/models';
 import { HttpClient, HttpClientOptions } from './http-client';
 import { ScrapingError, ChartValidationError } from '../core/errors';
-import { ChartDatabase } from '../core/database';
+import { IScrapingProgressStore } from '../core/interfaces';
 
 export abstract class BaseScrapingStrategy implements IScrapingStrategy {
   abstract readonly name: string;
@@ -15,11 +15,19 @@ export abstract class BaseScrapingStrategy implements IScrapingStrategy {
 
   protected readonly httpClient: HttpClient;
   protected scrapingProgress?: ScrapingProgress;
-  protected database: ChartDatabase | undefined;
+  protected progressStore: IScrapingProgressStore | undefined;
+  private progressListener: ScrapingOptions['onProgress'] | undefined;
 
-  constructor(httpOptions: HttpClientOptions = {}, database?: ChartDatabase) {
+  constructor(httpOptions: HttpClientOptions = {}, progressStore?: IScrapingProgressStore) {
     this.httpClient = new HttpClient(httpOptions);
-    this.database = database;
+    this.progressStore = progressStore;
+  }
+
+  /**
+   * Record scraped pages in the given store, so later scrapes can skip or resume them
+   */
+  setProgressStore(progressStore: IScrapingProgressStore): void {
+    this.progressStore = progressStore;
   }
 
   abstract canHandle(url: string): boolean;
@@ -30,6 +38,7 @@ export abstract class BaseScrapingStrategy implements IScrapingStrategy {
     const charts: IChart[] = [];
     const errors: string[] = [];
     
+    this.progressListener = options.onProgress;
     this.initializeProgress(source.name, startTime);
     
     try {
@@ -39,8 +48,8 @@ export abstract class BaseScrapingStrategy implements IScrapingStrategy {
       const resumeFromOlder = options.resumeFromOlder || false;
       
       // If resuming from older charts, find the last scraped page and continue from there
-      if (resumeFromOlder && this.database) {
-        const scrapedPages = await this.database.getScrapedPages(source.name);
+      if (resumeFromOlder && this.progressStore) {
+        const scrapedPages = await this.progressStore.getScrapedPages(source.name);
         if (scrapedPages.length > 0) {
           console.log(`📋 Found ${scrapedPages.length} previously scraped pages for ${source.name}`);
           // Skip to finding unscraped content by going to the end
@@ -53,8 +62,8 @@ export abstract class BaseScrapingStrategy implements IScrapingStrategy {
         this.updateProgress(pageCount, maxPages, charts.length);
         
         // Check if this page has already been scraped (skip if resuming and page exists)
-        if (this.database && options.skipExisting) {
-          const isScraped = await this.database.isPageScraped(source.name, currentUrl);
+        if (this.progressStore && options.skipExisting) {
+          const isScraped = await this.progressStore.isPageScraped(source.name, currentUrl);
           if (isScraped) {
             console.log(`⏭️  Skipping already scraped page: ${currentUrl}`);
             const nextUrl = await this.getNextPageUrl(currentUrl, ''); // Get next without scraping
@@ -70,8 +79,8 @@ export abstract class BaseScrapingStrategy implements IScrapingStrategy {
           charts.push(...pageCharts);
           
           // Record this page as scraped in the database
-          if (this.database) {
-            await this.database.recordPageScraped(
+          if (this.progressStore) {
+            await this.progressStore.recordPageScraped(
               source.name, 
               currentUrl, 
               pageCount, 
@@ -98,8 +107,8 @@ export abstract class BaseScrapingStrategy implements IScrapingStrategy {
           console.error(errorMsg);
           
           // Record failed page in database
-          if (this.database) {
-            await this.database.recordPageScraped(
+          if (this.progressStore) {
+            await this.progressStore.recordPageScraped(
               source.name, 
               currentUrl, 
               pageCount, 
@@ -198,15 +207,7 @@ export abstract class BaseScrapingStrategy implements IScrapingStrategy {
         throw new ChartValidationError('Original page URL is required for re-scraping', 'originalPageUrl');
       }
       
-      // Allow charts without download URLs (they will be marked as missing download source)
-      if (chart.downloadUrl) {
-        // If download URL exists, validate it's not a Google Drive folder
-        if (this.isGoogleDriveFolderUrl(chart.downloadUrl)) {
-          // Don't reject, just remove the download URL to mark as missing
-          delete (chart as any).downloadUrl;
-          console.warn(`⚠️  Removing Google Drive folder URL for chart: ${chart.title} by ${chart.artist}`);
-        }
-      }
+      // Charts without download URLs are allowed (they will be marked as missing download source)
       
       if (!chart.difficulties || chart.difficulties.length === 0) {
         throw new ChartValidationError('At least one difficulty is required', 'difficulties');
@@ -228,13 +229,6 @@ export abstract class BaseScrapingStrategy implements IScrapingStrategy {
     }
   }
 
-  /**
-   * Check if URL is a Google Drive folder
-   */
-  protected isGoogleDriveFolderUrl(url: string): boolean {
-    return url.includes('drive.google.com/drive/folders/');
-  }
-
   protected extractTextContent($: cheerio.CheerioAPI, selector: string): string {
     return $(selector).first().text().trim();
   }
@@ -268,6 +262,7 @@ export abstract class BaseScrapingStrategy implements IScrapingStrategy {
       status: ScrapingStatus.RUNNING,
       startTime
     };
+    this.notifyProgress();
   }
 
   private updateProgress(currentPage: number, totalPages: number, chartsFound: number): void {
@@ -283,6 +278,7 @@ export abstract class BaseScrapingStrategy implements IScrapingStrategy {
       if (remainingPages > 0) {
         this.scrapingProgress.estimatedCompletion = new Date(Date.now() + (avgTimePerPage * remainingPages));
       }
+      this.notifyProgress();
     }
   }
 
@@ -290,12 +286,23 @@ export abstract class BaseScrapingStrategy implements IScrapingStrategy {
     if (this.scrapingProgress) {
       this.scrapingProgress.status = ScrapingStatus.COMPLETED;
       this.scrapingProgress.chartsFound = chartsFound;
+      this.notifyProgress();
     }
   }
 
   private failProgress(_errorMessage: string): void {
     if (this.scrapingProgress) {
       this.scrapingProgress.status = ScrapingStatus.FAILED;
+      this.notifyProgress();
+    }
+  }
+
+  /**
+   * Pass a snapshot of the current progress to the caller's onProgress callback
+   */
+  private notifyProgress(): void {
+    if (this.progressListener && this.scrapingProgress) {
+      this.progressListener({ ...this.scrapingProgress });
     }
   }
 
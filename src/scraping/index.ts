@@ -6,7 +6,8 @@
 export * from './interfaces';
 
 // Services
-export { ScrapingService } from './scraping-service';
+export { ScrapingService, createScrapingService } from './scraping-service';
+export type { ScrapingRepository } from './scraping-service';
 
 // Base classes
 export { BaseScrapingStrategy } from './base-strategy';
@@ -3,6 +3,7 @@
  */
 
 import { IChart } from '../core/models';
+import { IScrapingProgressStore } from '../core/interfaces';
 
 export interface IScrapingStrategy {
   readonly name: string;
@@ -11,6 +12,9 @@ export interface IScrapingStrategy {
   scrapeCharts(source: Source, options?: ScrapingOptions): Promise<IChart[]>;
   extractChartFromElement(element: any): Promise<IChart | null>;
   getNextPageUrl(currentUrl: string, html: string): Promise<string | null>;
+  
+  /** Record scraped pages in the given store, for strategies that skip or resume pages */
+  setProgressStore?(progressStore: IScrapingProgressStore): void;
 }
 
 export interface IScrapingService {
@@ -25,6 +29,9 @@ export interface ScrapingResult {
   chartsFound: number;
   chartsAdded: number;
   chartsDuplicated: number;
+  
+  /** Stored charts whose title, download URL or difficulties changed */
+  chartsRevised?: number;
   errors: string[];
   duration: number;
   nextScrapeTime?: Date;
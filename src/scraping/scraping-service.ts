@@ -5,21 +5,32 @@
 import { IScrapingService, IScrapingStrategy, Source, ScrapingResult, ScrapingOptions } from './interfaces';
 import { ScrapingError, SourceUnavailableError } from '../core/errors';
 import { ChartDatabase } from '../core/database';
+import { IChartRepository, IScrapingProgressStore } from '../core/interfaces';
+import { diffChartRevision, mergeRescrapedChart, toRevisionSnapshot } from '../core/updates';
 
-export class ScrapingService implements IScrapingService {
+/**
+ * Storage the scraping service needs: charts and the pages scraped so far
+ */
+export type ScrapingRepository = IChartRepository & IScrapingProgressStore;
+
+export class ScrapingService<R extends ScrapingRepository = ScrapingRepository> implements IScrapingService {
   private readonly strategies = new Map<string, IScrapingStrategy>();
   private readonly sourceConfigs = new Map<string, Source>();
-  private readonly database: ChartDatabase;
+  private readonly repository: R;
+  private readonly ownsRepository: boolean;
 
-  constructor(dbPath?: string) {
-    this.database = new ChartDatabase(dbPath);
+  /**
+   * Scraped charts are saved to the given repository. A service that owns
+   * its repository closes it in close().
+   */
+  constructor(repository: R, ownsRepository = false) {
+    this.repository = repository;
+    this.ownsRepository = ownsRepository;
   }
 
   registerStrategy(strategy: IScrapingStrategy): void {
-    // If the strategy is a BaseScrapingStrategy, set the database reference
-    if ('database' in strategy && this.database) {
-      (strategy as any).database = this.database;
-    }
+    // Let strategies that skip or resume pages record them in the repository
+    strategy.setProgressStore?.(this.repository);
     this.strategies.set(strategy.name, strategy);
   }
 
@@ -49,18 +60,32 @@ export class ScrapingService implements IScrapingService {
       // Save charts to database and handle duplicates
       let chartsAdded = 0;
       let chartsDuplicated = 0;
+      let chartsRevised = 0;
       const errors: string[] = [];
 
       for (const chart of charts) {
         try {
-          const exists = await this.database.chartExists(chart.id);
-          if (exists) {
+          const stored = await this.repository.findById(chart.id);
+          if (stored) {
             chartsDuplicated++;
             if (!options.skipExisting) {
-              await this.database.saveChart(chart); // Update existing chart
+              // Reposted ("revised", "full version") charts keep their ID; record what changed
+              const changes = diffChartRevision(stored, chart);
+              if (changes.length > 0) {
+                await this.repository.saveRevision({
+                  chartId: chart.id,
+                  changes,
+                  previous: toRevisionSnapshot(stored),
+                  current: toRevisionSnapshot(chart),
+                  detectedAt: new Date()
+                });
+                chartsRevised++;
+                console.log(`📝 Chart revised upstream: "${chart.title}" (${changes.join(', ')})`);
+              }
+              await this.repository.save(mergeRescrapedChart(stored, chart)); // Update existing chart, keeping DTX corrections
             }
           } else {
-            await this.database.saveChart(chart);
+            await this.repository.save(chart);
             chartsAdded++;
           }
         } catch (error) {
@@ -76,6 +101,7 @@ export class ScrapingService implements IScrapingService {
         chartsFound: charts.length,
         chartsAdded,
         chartsDuplicated,
+        ...(chartsRevised > 0 ? { chartsRevised } : {}),
         errors,
         duration
       };
@@ -165,17 +191,19 @@ export class ScrapingService implements IScrapingService {
   }
 
   /**
-   * Get the database instance
+   * Get the repository scraped charts are saved to
    */
-  getDatabase(): ChartDatabase {
-    return this.database;
+  getRepository(): R {
+    return this.repository;
   }
 
   /**
-   * Close database connection
+   * Close the database connection if the service owns it
    */
   close(): void {
-    this.database.close();
+    if (this.ownsRepository && this.repository instanceof ChartDatabase) {
+      this.repository.close();
+    }
   }
 
   private calculateNextScrapeTime(source: Source): Date | undefined {
@@ -190,3 +218,11 @@ export class ScrapingService implements IScrapingService {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 }
+
+/**
+ * Create a scraping service that saves to a ChartDatabase opened at the given
+ * path (charts.db by default) and closes it in close()
+ */
+export function createScrapingService(dbPath?: string): ScrapingService<ChartDatabase> {
+  return new ScrapingService(new ChartDatabase(dbPath), true);
+}
@@ -4,10 +4,20 @@
 
 import * as cheerio from 'cheerio';
 import { BaseScrapingStrategy } from '../base-strategy';
-import { IChart } from '../../core/models';
+import { ChartInstrument, IChart, IChartDifficulty, IChartVariant } from '../../core/models';
+import { parseChartInstrument, toChartDifficulties } from '../../core/database';
 import { ChartValidationError } from '../../core/errors';
 import { Source } from '../interfaces';
 
+// "136BPM : 1.20/3.90/5.80/7.10" – one line per version of the chart
+const VARIANT_LINE = /(\d+(?:\s*[-~～〜]\s*\d+)?)\s*BPM\s*:\s*([\d./]+)/gi;
+
+// "Guitar : 1.80/3.50/5.20/6.40" – one line per instrument in posts like #795
+const INSTRUMENT_LINE = /^[\s\u00a0]*(drums?|guitar|bass)\b[^\n:]*:\s*([\d./]+)/gim;
+
+// Elements that start a new line in the post text
+const BLOCK_ELEMENTS = new Set(['div', 'p', 'li', 'h1', 'h2', 'h3', 'h4', 'table', 'tr']);
+
 export class ApprovedDtxStrategy extends BaseScrapingStrategy {
   readonly name = 'approved-dtx';
   readonly baseUrl = 'http://approvedtx.blogspot.com/';
@@ -95,25 +105,26 @@ export class ApprovedDtxStrategy extends BaseScrapingStrategy {
       // Extract artist and BPM info from patterns like:
       // "Title / Artist     123BPM : 2.70/5.20/7.00/8..."
       // "Artist     123BPM : 2.70/5.20/7.00/8..."
+      // Songs with tempo changes give a range: "70-189BPM" or "70~189BPM"
       let artist = 'Unknown Artist';
-      let bpm = 0;
+      let bpm = '';
       let difficulties: number[] = [];
       
       // Try to find artist/BPM pattern
-      const artistBpmMatch = textContent.match(/(.+?)\s*\/\s*(.+?)\s*(\d+)BPM\s*:\s*([\d\./]+)/);
+      const artistBpmMatch = textContent.match(/(.+?)\s*\/\s*(.+?)\s*(\d+(?:\s*[-~～〜]\s*\d+)?)\s*BPM\s*:\s*([\d\./]+)/);
       if (artistBpmMatch) {
         artist = artistBpmMatch[2].trim();
-        bpm = parseInt(artistBpmMatch[3]);
+        bpm = this.normalizeBpm(artistBpmMatch[3]);
         difficulties = this.parseDifficulties(artistBpmMatch[4]);
       } else {
         // Try simpler BPM pattern without explicit artist separation
-        const simpleBpmMatch = textContent.match(/(\d+)BPM\s*:\s*([\d\./]+)/);
+        const simpleBpmMatch = textContent.match(/(\d+(?:\s*[-~～〜]\s*\d+)?)\s*BPM\s*:\s*([\d\./]+)/);
         if (simpleBpmMatch) {
-          bpm = parseInt(simpleBpmMatch[1]);
+          bpm = this.normalizeBpm(simpleBpmMatch[1]);
           difficulties = this.parseDifficulties(simpleBpmMatch[2]);
           
           // Try to extract artist from the line before BPM
-          const beforeBpmMatch = textContent.match(/(.+?)\s*\d+BPM/);
+          const beforeBpmMatch = textContent.match(/(.+?)\s*\d+(?:\s*[-~～〜]\s*\d+)?\s*BPM/);
           if (beforeBpmMatch) {
             const beforeBpm = beforeBpmMatch[1].trim();
             // Look for "/" to separate title and artist
@@ -125,7 +136,21 @@ export class ApprovedDtxStrategy extends BaseScrapingStrategy {
         }
       }
       
-      if (bpm === 0) {
+      // Posts like #795 rate each instrument on its own line
+      const instrumentDifficulties = this.extractInstrumentDifficulties(element);
+      if (instrumentDifficulties) {
+        if (!bpm) {
+          const bareBpmMatch = textContent.match(/(\d+(?:\s*[-~～〜]\s*\d+)?)\s*BPM/);
+          if (bareBpmMatch) {
+            bpm = this.normalizeBpm(bareBpmMatch[1]);
+          }
+        }
+        const drums = instrumentDifficulties.filter(difficulty => difficulty.instrument === 'DRUMS');
+        const primary = drums.length > 0 ? drums : instrumentDifficulties.filter(difficulty => difficulty.instrument === instrumentDifficulties[0].instrument);
+        difficulties = primary.map(difficulty => difficulty.value);
+      }
+      
+      if (!bpm) {
         return null; // BPM is required
       }
       
@@ -214,7 +239,7 @@ export class ApprovedDtxStrategy extends BaseScrapingStrategy {
         id: `approved-dtx-${chartId}`,
         title,
         artist,
-        bpm: bpm.toString(),
+        bpm,
         difficulties,
         originalPageUrl: chartUrl || this.baseUrl, // Use chart page URL or base URL as fallback
         source: this.name,
@@ -232,6 +257,17 @@ export class ApprovedDtxStrategy extends BaseScrapingStrategy {
         chart.previewImageUrl = imageUrl;
       }
       
+      if (instrumentDifficulties) {
+        chart.instrumentDifficulties = instrumentDifficulties;
+      }
+      
+      // Posts like #919 list several versions under one heading
+      const variants = instrumentDifficulties ? undefined : this.extractVariants(element, title);
+      if (variants) {
+        chart.variants = variants;
+        console.log(`🔀 Chart #${chartId} has ${variants.length} versions: ${variants.map(variant => variant.label).join(', ')}`);
+      }
+      
       console.log(`📊 Chart found: #${chartId} - "${title}" by ${artist} (${bpm}BPM)`);
       
       return chart;
@@ -243,6 +279,123 @@ export class ApprovedDtxStrategy extends BaseScrapingStrategy {
     }
   }
 
+  /**
+   * One variant per BPM line when the post lists more than one. A version
+   * gets the first download link between its BPM line and the next; versions
+   * without one share the post's download link.
+   */
+  private extractVariants(element: cheerio.Element, title: string): IChartVariant[] | undefined {
+    const { text, links } = this.flattenPost(element);
+    const matches = [...text.matchAll(VARIANT_LINE)];
+    if (matches.length < 2) {
+      return undefined;
+    }
+
+    const labels = new Set<string>();
+    return matches.map((match, i) => {
+      const start = match.index!;
+      const end = i + 1 < matches.length ? matches[i + 1].index! : text.length;
+      const previousEnd = i > 0 ? matches[i - 1].index! + matches[i - 1][0].length : 0;
+
+      let label = this.variantLabel(text.slice(previousEnd, start), title);
+      if (!label || labels.has(label)) {
+        label = `Version ${i + 1}`;
+      }
+      labels.add(label);
+
+      const link = links.find(candidate => candidate.offset >= start && candidate.offset < end &&
+        (candidate.href.includes('1drv.ms') || candidate.href.includes('drive.google.com')));
+
+      return {
+        label,
+        bpm: this.normalizeBpm(match[1]),
+        difficulties: this.parseDifficulties(match[2]),
+        ...(link ? { downloadUrl: link.href } : {})
+      };
+    });
+  }
+
+  /**
+   * Ratings by instrument when the post gives a line per instrument. The
+   * first line of each instrument counts.
+   */
+  private extractInstrumentDifficulties(element: cheerio.Element): IChartDifficulty[] | undefined {
+    const { text } = this.flattenPost(element);
+    const seen = new Set<ChartInstrument>();
+    const difficulties: IChartDifficulty[] = [];
+
+    for (const match of text.matchAll(INSTRUMENT_LINE)) {
+      const instrument = parseChartInstrument(match[1].replace(/^drum$/i, 'drums'));
+      if (!instrument || seen.has(instrument)) {
+        continue;
+      }
+      seen.add(instrument);
+      difficulties.push(...toChartDifficulties(this.parseDifficulties(match[2]), instrument));
+    }
+
+    return difficulties.length > 0 ? difficulties : undefined;
+  }
+
+  /**
+   * BPM as stored on charts: a number, or a range written "low-high"
+   */
+  private normalizeBpm(bpm: string): string {
+    return bpm.replace(/\s+/g, '').replace(/[~～〜]/, '-');
+  }
+
+  /**
+   * Label of a version from the text before its BPM line: the last line,
+   * without the artist and without the post title it repeats
+   */
+  private variantLabel(textBefore: string, title: string): string {
+    const line = textBefore
+      .split('\n')
+      .map(part => part.replace(/\s+/g, ' ').replace(/^\s*DL\b/i, '').trim())
+      .filter(part => part.length > 0)
+      .pop() || '';
+
+    const withoutArtist = line.includes('/') ? line.slice(0, line.lastIndexOf('/')).trim() : line;
+    const withoutTitle = withoutArtist.toLowerCase().startsWith(title.toLowerCase())
+      ? withoutArtist.slice(title.length)
+      : withoutArtist;
+
+    return withoutTitle.replace(/^[\s\-–:([]+|[\s\-–:)\]]+$/g, '').replace(/^#\d+\.\s*/, '');
+  }
+
+  /**
+   * Text of a post with line breaks at <br> and block elements, and the
+   * offset of every link in that text
+   */
+  private flattenPost(element: cheerio.Element): { text: string; links: Array<{ href: string; offset: number }> } {
+    let text = '';
+    const links: Array<{ href: string; offset: number }> = [];
+
+    const visit = (node: any) => {
+      if (node.type === 'text') {
+        text += node.data;
+        return;
+      }
+      if (node.type !== 'tag') {
+        return;
+      }
+      if (node.name === 'br') {
+        text += '\n';
+        return;
+      }
+
+      if (node.name === 'a' && node.attribs?.href) {
+        links.push({ href: node.attribs.href, offset: text.length });
+      }
+      const block = BLOCK_ELEMENTS.has(node.name);
+      if (block) text += '\n';
+      (node.children || []).forEach(visit);
+      if (block) text += '\n';
+    };
+
+    visit(element);
+    return { text, links };
+  }
+
   override async getNextPageUrl(_currentUrl: string, html: string): Promise<string | null> {
     const $ = cheerio.load(html);
     
@@ -7,7 +7,7 @@
  * 3. Verify data integrity and completeness
  */
 
-import { ScrapingService } from '../../src/scraping/scraping-service';
+import { ScrapingService, createScrapingService } from '../../src/scraping/scraping-service';
 import { ApprovedDtxStrategy } from '../../src/scraping/strategies/approved-dtx';
 import { Source } from '../../src/scraping/interfaces';
 import * as fs from 'fs';
@@ -24,7 +24,7 @@ describe('E2E: Database Scraping', () => {
     }
 
     // Initialize scraping service with test database
-    scrapingService = new ScrapingService(testDbPath);
+    scrapingService = createScrapingService(testDbPath);
   });
 
   afterEach(async () => {
@@ -126,7 +126,7 @@ describe('E2E: Download and Unzip', () => {
       }
     }, 90000); // 90 seconds timeout for real download
 
-    it('should handle Google Drive folder URLs with clean error messages', async () => {
+    it('should attempt folder downloads for Google Drive folder URLs', async () => {
       console.log('🧪 E2E Test: Testing Google Drive folder URL handling...');
       
       const testChart: IChart = {
@@ -157,9 +157,9 @@ describe('E2E: Download and Unzip', () => {
       console.log(`📊 Download result: ${result.success ? 'SUCCESS' : 'FAILED'}`);
       console.log(`📝 Message: ${result.error || 'No error'}`);
       
-      // Should fail with clear message for folder URLs
+      // The example folder doesn't exist, so the folder download is attempted and fails
       expect(result.success).toBe(false);
-      expect(result.error).toContain('Google Drive folder URLs are not supported');
+      expect(result.error).toContain('Google Drive folder download failed');
       
       console.log('✅ Google Drive folder URL handling working correctly');
     }, 10000); // Reduced from 12s to 10s timeout